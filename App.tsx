@@ -9,6 +9,8 @@ import { RootNavigator } from "./src/navigation/RootNavigator";
 import { darkTheme } from "./src/theme/darkTheme";
 import { ErrorBoundary } from "./src/components/common/ErrorBoundary";
 import { logger } from "./src/services/logger";
+import { loadSettings } from "./src/store/slices/settingsSlice";
+import { loadSavedSession } from "./src/store/slices/studySlice";
 
 export default function App() {
   const [appIsReady, setAppIsReady] = React.useState(false);
@@ -23,6 +25,10 @@ export default function App() {
 
         // Perform any async initialization here
         // For example: restore user session, load cached data, etc.
+        await store.dispatch(loadSettings());
+
+        // A study session cut short by the app closing is offered on launch
+        await store.dispatch(loadSavedSession());
 
         // Simulate a short delay for better UX
         await new Promise((resolve) => setTimeout(resolve, 500));
@@ -406,6 +406,41 @@ describe("cardGeneration service", () => {
       expect(result.question.toLowerCase()).toContain("mitochondria");
       expect(result.answer.toLowerCase()).toContain("powerhouse");
     });
+
+    it("should keep the deletions of a cloze card", async () => {
+      const mockResponse = {
+        text: "{{c1::Mitochondria}} produce most of the cell's {{c2::ATP}}.",
+        extra: "",
+      };
+
+      (geminiClient.generateContent as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify(mockResponse)
+      );
+
+      const result = await improveCard({
+        question: "{{c1::Mitochondria}} make {{c2::ATP}}",
+        answer: "",
+        tempId: "temp_123",
+      });
+
+      expect(result.question).toBe(mockResponse.text);
+      expect(result.answer).toBe("");
+      expect(result.card_type).toBe("cloze");
+    });
+
+    it("should reject a cloze rewrite without deletions", async () => {
+      (geminiClient.generateContent as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ text: "Mitochondria make ATP.", extra: "" })
+      );
+
+      await expect(
+        improveCard({
+          question: "{{c1::Mitochondria}} make ATP",
+          answer: "",
+          tempId: "temp_123",
+        })
+      ).rejects.toThrow("Failed to improve card");
+    });
   });
 
   describe("error handling", () => {
@@ -40,6 +40,8 @@ function createTestStore(preloadedState?: Partial<RootState>) {
       spacedRep: (() => ({})) as any,
       ui: (() => ({})) as any,
       sync: (() => ({})) as any,
+      settings: (() => ({})) as any,
+      preset: (() => ({})) as any,
     },
     preloadedState,
   });
@@ -0,0 +1,96 @@
+import {
+  normalizeAnswer,
+  levenshteinDistance,
+  calculateAnswerSimilarity,
+  suggestRating,
+  diffAnswer,
+  gradeTypedAnswer,
+} from "../../src/utils/answerGrading";
+
+describe("answerGrading utility", () => {
+  describe("normalizeAnswer", () => {
+    it("should ignore case, accents, punctuation and extra spaces", () => {
+      expect(normalizeAnswer("  Café, au   LAIT! ")).toBe("cafe au lait");
+    });
+
+    it("should keep letters from other scripts", () => {
+      expect(normalizeAnswer("Привет!")).toBe("привет");
+    });
+  });
+
+  describe("levenshteinDistance", () => {
+    it("should count single-character edits", () => {
+      expect(levenshteinDistance("kitten", "sitting")).toBe(3);
+      expect(levenshteinDistance("", "abc")).toBe(3);
+      expect(levenshteinDistance("same", "same")).toBe(0);
+    });
+  });
+
+  describe("calculateAnswerSimilarity", () => {
+    it("should be 1 for answers that only differ in formatting", () => {
+      expect(calculateAnswerSimilarity("mitochondria.", "Mitochondria")).toBe(
+        1
+      );
+    });
+
+    it("should drop with each typo", () => {
+      const oneTypo = calculateAnswerSimilarity("mitochondira", "mitochondria");
+      const wrong = calculateAnswerSimilarity("ribosome", "mitochondria");
+
+      expect(oneTypo).toBeGreaterThan(0.8);
+      expect(oneTypo).toBeLessThan(1);
+      expect(wrong).toBeLessThan(oneTypo);
+    });
+
+    it("should be 0 for an empty answer", () => {
+      expect(calculateAnswerSimilarity("", "mitochondria")).toBe(0);
+    });
+  });
+
+  describe("suggestRating", () => {
+    it("should map similarity to a rating", () => {
+      expect(suggestRating(1)).toBe("easy");
+      expect(suggestRating(0.9)).toBe("medium");
+      expect(suggestRating(0.7)).toBe("hard");
+      expect(suggestRating(0.2)).toBe("again");
+    });
+  });
+
+  describe("diffAnswer", () => {
+    it("should mark missing and extra characters", () => {
+      expect(diffAnswer("colr", "color")).toEqual([
+        { type: "equal", text: "col" },
+        { type: "missing", text: "o" },
+        { type: "equal", text: "r" },
+      ]);
+
+      expect(diffAnswer("colour", "color")).toEqual([
+        { type: "equal", text: "colo" },
+        { type: "extra", text: "u" },
+        { type: "equal", text: "r" },
+      ]);
+    });
+
+    it("should show matching characters as they are stored", () => {
+      expect(diffAnswer("cafe", "Café")).toEqual([
+        { type: "equal", text: "Café" },
+      ]);
+    });
+  });
+
+  describe("gradeTypedAnswer", () => {
+    it("should grade an exact answer as easy", () => {
+      const grade = gradeTypedAnswer("Paris", "paris");
+
+      expect(grade.exact).toBe(true);
+      expect(grade.suggestedRating).toBe("easy");
+    });
+
+    it("should grade a wrong answer as again", () => {
+      const grade = gradeTypedAnswer("London", "Paris");
+
+      expect(grade.exact).toBe(false);
+      expect(grade.suggestedRating).toBe("again");
+    });
+  });
+});
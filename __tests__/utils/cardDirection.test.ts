@@ -0,0 +1,59 @@
+import {
+  isReverseCard,
+  getCardSides,
+  createNoteId,
+} from "../../src/utils/cardDirection";
+import { isValidUUID } from "../../src/utils/validation";
+import { makeCard } from "../../test-utils/cards";
+
+describe("cardDirection utility", () => {
+  const card = makeCard("1", { question: "perro", answer: "dog" });
+
+  describe("isReverseCard", () => {
+    it("should treat cards without a direction as forward", () => {
+      expect(isReverseCard(card)).toBe(false);
+      expect(isReverseCard({ ...card, direction: "forward" })).toBe(false);
+      expect(isReverseCard({ ...card, direction: "reverse" })).toBe(true);
+    });
+  });
+
+  describe("getCardSides", () => {
+    it("should show the question first on forward cards", () => {
+      expect(getCardSides(card)).toEqual({
+        front: "perro",
+        back: "dog",
+      });
+    });
+
+    it("should show the answer first on reverse cards", () => {
+      expect(getCardSides({ ...card, direction: "reverse" })).toEqual({
+        front: "dog",
+        back: "perro",
+      });
+    });
+
+    it("should blank the studied deletion on cloze cards", () => {
+      const clozeCard = makeCard("1", {
+        question: "{{c1::Paris}} is the capital of {{c2::France}}",
+        answer: "",
+        card_type: "cloze",
+        cloze_index: 2,
+      });
+
+      expect(getCardSides(clozeCard)).toEqual({
+        front: "Paris is the capital of [...]",
+        back: "France",
+      });
+    });
+  });
+
+  describe("createNoteId", () => {
+    it("should create distinct UUIDs", () => {
+      const first = createNoteId();
+      const second = createNoteId();
+
+      expect(isValidUUID(first)).toBe(true);
+      expect(first).not.toBe(second);
+    });
+  });
+});
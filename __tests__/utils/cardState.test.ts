@@ -0,0 +1,29 @@
+import { getBuryUntil, isAvailable, isBuried } from "../../src/utils/cardState";
+import { getStartOfDayOffset } from "../../src/utils/dateUtils";
+import { makeCard } from "../../test-utils/cards";
+
+describe("cardState utility", () => {
+  describe("isBuried", () => {
+    it("should be buried until buried_until passes", () => {
+      const card = makeCard("1", { buried_until: getBuryUntil() });
+
+      expect(isBuried(card)).toBe(true);
+      expect(isBuried(card, new Date(getStartOfDayOffset(2)))).toBe(false);
+    });
+
+    it("should not be buried without buried_until", () => {
+      expect(isBuried(makeCard("1"))).toBe(false);
+      expect(isBuried(makeCard("2", { buried_until: null }))).toBe(false);
+    });
+  });
+
+  describe("isAvailable", () => {
+    it("should exclude suspended and buried cards", () => {
+      expect(isAvailable(makeCard("1"))).toBe(true);
+      expect(isAvailable(makeCard("2", { suspended: true }))).toBe(false);
+      expect(isAvailable(makeCard("3", { buried_until: getBuryUntil() }))).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  isOverdue,
+  getBacklog,
+  hasBacklog,
+  suggestCatchUpDays,
+} from "../../src/utils/catchUp";
+import { getRescheduleChanges } from "../../src/utils/reschedule";
+import { getStartOfDayOffset } from "../../src/utils/dateUtils";
+import { appConfig } from "../../src/config/appConfig";
+import { makeCard } from "../../test-utils/cards";
+
+describe("catchUp utility", () => {
+  const now = new Date(2026, 2, 10, 15, 30);
+
+  const overdue = {
+    last_reviewed: getStartOfDayOffset(-15, now),
+    next_review: getStartOfDayOffset(-5, now),
+  };
+
+  describe("isOverdue", () => {
+    it("should flag review cards due before today", () => {
+      expect(isOverdue(makeCard("1", overdue), now)).toBe(true);
+    });
+
+    it("should not flag cards due today", () => {
+      const card = makeCard("1", { next_review: getStartOfDayOffset(0, now) });
+
+      expect(isOverdue(card, now)).toBe(false);
+    });
+
+    it("should ignore learning, suspended and new cards", () => {
+      expect(
+        isOverdue(
+          makeCard("1", { ...overdue, learning_state: "learning" }),
+          now
+        )
+      ).toBe(false);
+      expect(
+        isOverdue(makeCard("2", { ...overdue, suspended: true }), now)
+      ).toBe(false);
+      expect(
+        isOverdue(
+          makeCard("3", {
+            ...overdue,
+            learning_state: undefined,
+            review_count: 0,
+          }),
+          now
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("getBacklog", () => {
+    it("should put the cards closest to being forgotten first", () => {
+      const slightlyLate = makeCard("late", {
+        ...overdue,
+        interval: 30,
+        last_reviewed: getStartOfDayOffset(-32, now),
+      });
+      const veryLate = makeCard("very-late", {
+        ...overdue,
+        interval: 2,
+        last_reviewed: getStartOfDayOffset(-20, now),
+      });
+      const notDue = makeCard("not-due", {
+        next_review: getStartOfDayOffset(3, now),
+      });
+
+      const backlog = getBacklog([slightlyLate, notDue, veryLate], now);
+
+      expect(backlog.map((card) => card.id)).toEqual(["very-late", "late"]);
+    });
+  });
+
+  describe("hasBacklog", () => {
+    it("should only offer the planner above the minimum backlog", () => {
+      const { minBacklog } = appConfig.studySession.catchUp;
+
+      expect(hasBacklog(minBacklog - 1)).toBe(false);
+      expect(hasBacklog(minBacklog)).toBe(true);
+    });
+  });
+
+  describe("suggestCatchUpDays", () => {
+    it("should suggest enough days at the daily pace", () => {
+      const { reviewsPerDay, maxDays } = appConfig.studySession.catchUp;
+
+      expect(suggestCatchUpDays(1)).toBe(1);
+      expect(suggestCatchUpDays(reviewsPerDay * 3 + 1)).toBe(4);
+      expect(suggestCatchUpDays(reviewsPerDay * (maxDays + 10))).toBe(maxDays);
+    });
+  });
+
+  describe("catch_up reschedule", () => {
+    it("should only move overdue cards, spread over the range", () => {
+      const cards = [
+        makeCard("1", overdue),
+        makeCard("2", overdue),
+        makeCard("3", { next_review: getStartOfDayOffset(4, now) }),
+      ];
+
+      const changes = getRescheduleChanges(
+        "catch_up",
+        cards,
+        { startDay: 0, endDay: 1 },
+        now
+      );
+
+      expect(changes.map((change) => change.id).sort()).toEqual(["1", "2"]);
+      expect(changes.map((change) => change.data.next_review).sort()).toEqual([
+        getStartOfDayOffset(0, now),
+        getStartOfDayOffset(1, now),
+      ]);
+    });
+  });
+});
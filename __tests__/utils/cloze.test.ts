@@ -0,0 +1,87 @@
+import {
+  isClozeCard,
+  getClozeNumbers,
+  hasCloze,
+  renderCloze,
+  getClozePrompt,
+  getClozeAnswer,
+  stripCloze,
+} from "../../src/utils/cloze";
+
+describe("cloze utility", () => {
+  const text =
+    "{{c1::Mitochondria}} produce {{c2::ATP}} by {{c2::respiration}}";
+
+  describe("isClozeCard", () => {
+    it("should treat cards without a type as basic", () => {
+      expect(isClozeCard({})).toBe(false);
+      expect(isClozeCard({ card_type: "basic" })).toBe(false);
+      expect(isClozeCard({ card_type: "cloze" })).toBe(true);
+    });
+  });
+
+  describe("getClozeNumbers", () => {
+    it("should return each deletion number once, ascending", () => {
+      expect(getClozeNumbers("{{c3::c}} {{c1::a}} {{c3::d}}")).toEqual([1, 3]);
+      expect(getClozeNumbers(text)).toEqual([1, 2]);
+    });
+
+    it("should ignore text without deletions", () => {
+      expect(getClozeNumbers("No deletions here")).toEqual([]);
+      expect(getClozeNumbers("{{c0::zero}} {c1::single braces}")).toEqual([]);
+      expect(hasCloze("No deletions here")).toBe(false);
+      expect(hasCloze(text)).toBe(true);
+    });
+  });
+
+  describe("renderCloze", () => {
+    it("should blank the active deletion and show the others", () => {
+      expect(renderCloze(text, 1, false)).toEqual([
+        { text: "[...]", active: true },
+        { text: " produce ATP by respiration", active: false },
+      ]);
+    });
+
+    it("should show the hidden text when revealed", () => {
+      expect(renderCloze(text, 1, true)[0]).toEqual({
+        text: "Mitochondria",
+        active: true,
+      });
+    });
+
+    it("should show the hint in the blank", () => {
+      expect(getClozePrompt("Capital: {{c1::Paris::city}}", 1)).toBe(
+        "Capital: [city]"
+      );
+      expect(renderCloze("Capital: {{c1::Paris::city}}", 1, true)[1]).toEqual({
+        text: "Paris",
+        active: true,
+      });
+    });
+  });
+
+  describe("getClozePrompt", () => {
+    it("should blank every part of the active deletion", () => {
+      expect(getClozePrompt(text, 2)).toBe(
+        "Mitochondria produce [...] by [...]"
+      );
+    });
+  });
+
+  describe("getClozeAnswer", () => {
+    it("should join the parts of the active deletion", () => {
+      expect(getClozeAnswer(text, 1)).toBe("Mitochondria");
+      expect(getClozeAnswer(text, 2)).toBe("ATP, respiration");
+      expect(getClozeAnswer(text, 3)).toBe("");
+    });
+  });
+
+  describe("stripCloze", () => {
+    it("should remove the markup and hints", () => {
+      expect(stripCloze(text)).toBe("Mitochondria produce ATP by respiration");
+      expect(stripCloze("{{c1::Paris::city}} is a capital")).toBe(
+        "Paris is a capital"
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { filterCramCards, getCramRequeueGap } from "../../src/utils/cram";
+import { appConfig } from "../../src/config/appConfig";
+import { makeCard } from "../../test-utils/cards";
+
+describe("cram utility", () => {
+  describe("filterCramCards", () => {
+    const cards = [
+      makeCard("1", { ease_factor: 2.1, tags: ["Anatomy"] }),
+      makeCard("2", { ease_factor: 1.4 }),
+      makeCard("3", { ease_factor: 1.8, tags: ["anatomy", "leech"] }),
+      makeCard("4", { ease_factor: 1.3, suspended: true }),
+      makeCard("5", { ease_factor: 2.5, review_count: 0 }),
+    ];
+
+    it("should include every card that isn't suspended", () => {
+      const result = filterCramCards(cards, { type: "all" });
+
+      expect(result.map((card) => card.id)).toEqual(["1", "2", "3", "5"]);
+    });
+
+    it("should include buried cards", () => {
+      const buried = makeCard("6", { buried_until: "2999-01-01T00:00:00Z" });
+
+      expect(filterCramCards([buried], { type: "all" })).toHaveLength(1);
+    });
+
+    it("should only include cards failed today", () => {
+      const result = filterCramCards(cards, { type: "failed_today" }, [
+        "2",
+        "4",
+      ]);
+
+      expect(result.map((card) => card.id)).toEqual(["2"]);
+    });
+
+    it("should match tags regardless of case", () => {
+      const result = filterCramCards(cards, { type: "tag", tag: " ANATOMY " });
+
+      expect(result.map((card) => card.id)).toEqual(["1", "3"]);
+    });
+
+    it("should pick the reviewed cards with the lowest ease", () => {
+      const result = filterCramCards(cards, { type: "lowest_ease", count: 2 });
+
+      expect(result.map((card) => card.id)).toEqual(["2", "3"]);
+    });
+
+    it("should include only the listed cards that aren't suspended", () => {
+      const result = filterCramCards(cards, {
+        type: "cards",
+        cardIds: ["2", "4", "5"],
+      });
+
+      expect(result.map((card) => card.id)).toEqual(["2", "5"]);
+    });
+  });
+
+  describe("getCramRequeueGap", () => {
+    it("should bring missed cards back sooner than hard ones", () => {
+      const { againGap, hardGap } = appConfig.studySession.cram;
+
+      expect(getCramRequeueGap("again")).toBe(againGap);
+      expect(getCramRequeueGap("hard")).toBe(hardGap);
+      expect(againGap).toBeLessThan(hardGap);
+    });
+
+    it("should drop cards answered well", () => {
+      expect(getCramRequeueGap("medium")).toBeNull();
+      expect(getCramRequeueGap("easy")).toBeNull();
+    });
+  });
+});
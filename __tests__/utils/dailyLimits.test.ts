@@ -0,0 +1,78 @@
+import {
+  applyDailyLimits,
+  getRemainingLimits,
+} from "../../src/utils/dailyLimits";
+import { makeCard, makeNewCard } from "../../test-utils/cards";
+
+describe("dailyLimits utility", () => {
+  describe("getRemainingLimits", () => {
+    it("should subtract what was studied today", () => {
+      expect(
+        getRemainingLimits(
+          { newCardsPerDay: 20, maxReviewsPerDay: 200 },
+          { newCount: 5, reviewCount: 50 }
+        )
+      ).toEqual({ newRemaining: 15, reviewRemaining: 150 });
+    });
+
+    it("should never go below zero", () => {
+      expect(
+        getRemainingLimits(
+          { newCardsPerDay: 10, maxReviewsPerDay: 10 },
+          { newCount: 12, reviewCount: 30 }
+        )
+      ).toEqual({ newRemaining: 0, reviewRemaining: 0 });
+    });
+  });
+
+  describe("applyDailyLimits", () => {
+    it("should cap new and review cards separately", () => {
+      const cards = [
+        makeNewCard("n1"),
+        makeCard("r1"),
+        makeNewCard("n2"),
+        makeCard("r2"),
+        makeNewCard("n3"),
+      ];
+
+      const result = applyDailyLimits(cards, {
+        newRemaining: 2,
+        reviewRemaining: 1,
+      });
+
+      expect(result.map((c) => c.id)).toEqual(["n1", "r1", "n2"]);
+    });
+
+    it("should always keep cards in learning steps", () => {
+      const cards = [
+        makeCard("l1", { learning_state: "learning", learning_step: 0 }),
+        makeCard("l2", { learning_state: "relearning", learning_step: 0 }),
+        makeNewCard("n1"),
+      ];
+
+      const result = applyDailyLimits(cards, {
+        newRemaining: 0,
+        reviewRemaining: 0,
+      });
+
+      expect(result.map((c) => c.id)).toEqual(["l1", "l2"]);
+    });
+
+    it("should treat cards without a stored state by review count", () => {
+      const cards = [
+        makeCard("legacy-new", { learning_state: undefined, review_count: 0 }),
+        makeCard("legacy-review", {
+          learning_state: undefined,
+          review_count: 2,
+        }),
+      ];
+
+      const result = applyDailyLimits(cards, {
+        newRemaining: 0,
+        reviewRemaining: 1,
+      });
+
+      expect(result.map((c) => c.id)).toEqual(["legacy-review"]);
+    });
+  });
+});
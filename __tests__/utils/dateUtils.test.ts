@@ -0,0 +1,117 @@
+import {
+  calculateNextReview,
+  getDayRolloverHour,
+  getDaysBetween,
+  getEndOfDay,
+  getStartOfDate,
+  getStartOfDay,
+  getStartOfDayOffset,
+  isCardDue,
+  setDayRolloverHour,
+} from "../../src/utils/dateUtils";
+import { appConfig } from "../../src/config/appConfig";
+
+describe("dateUtils day rollover", () => {
+  const rolloverHour = 4;
+
+  beforeEach(() => {
+    setDayRolloverHour(rolloverHour);
+  });
+
+  afterAll(() => {
+    setDayRolloverHour(appConfig.spacedRepetition.dayRolloverHour);
+  });
+
+  describe("getStartOfDay", () => {
+    it("should start the study day at the rollover hour", () => {
+      const afternoon = new Date(2026, 2, 10, 15, 30);
+
+      expect(getStartOfDay(afternoon)).toBe(
+        new Date(2026, 2, 10, rolloverHour).toISOString()
+      );
+    });
+
+    it("should count the hours before rollover towards the previous day", () => {
+      const lateNight = new Date(2026, 2, 11, 1, 0);
+
+      expect(getStartOfDay(lateNight)).toBe(
+        new Date(2026, 2, 10, rolloverHour).toISOString()
+      );
+    });
+
+    it("should use midnight when the rollover hour is 0", () => {
+      setDayRolloverHour(0);
+
+      expect(getStartOfDay(new Date(2026, 2, 11, 1, 0))).toBe(
+        new Date(2026, 2, 11).toISOString()
+      );
+    });
+  });
+
+  describe("getEndOfDay", () => {
+    it("should end just before the next rollover", () => {
+      const end = new Date(getEndOfDay(new Date(2026, 2, 10, 15, 30)));
+
+      expect(end.getTime()).toBe(
+        new Date(2026, 2, 11, rolloverHour).getTime() - 1
+      );
+    });
+  });
+
+  describe("getStartOfDate", () => {
+    it("should start the study day labelled with a calendar date", () => {
+      expect(getStartOfDate("2026-03-15")).toBe(
+        new Date(2026, 2, 15, rolloverHour).toISOString()
+      );
+    });
+  });
+
+  describe("getDaysBetween", () => {
+    it("should count rollovers crossed, not 24-hour periods", () => {
+      const evening = new Date(2026, 2, 10, 22, 0);
+      const nextMorning = new Date(2026, 2, 11, 9, 0);
+      const lateNight = new Date(2026, 2, 11, 2, 0);
+
+      expect(getDaysBetween(evening, nextMorning)).toBe(1);
+      expect(getDaysBetween(evening, lateNight)).toBe(0);
+    });
+  });
+
+  describe("calculateNextReview", () => {
+    it("should come due when the study day starts", () => {
+      const lateNight = new Date(2026, 2, 11, 1, 0);
+
+      expect(calculateNextReview(1, lateNight)).toBe(
+        new Date(2026, 2, 11, rolloverHour).toISOString()
+      );
+      expect(calculateNextReview(3, new Date(2026, 2, 10, 15, 30))).toBe(
+        getStartOfDayOffset(3, new Date(2026, 2, 10, 15, 30))
+      );
+    });
+
+    it("should round fractional intervals to whole days", () => {
+      const from = new Date(2026, 2, 10, 15, 30);
+
+      expect(calculateNextReview(1.2, from)).toBe(getStartOfDayOffset(1, from));
+    });
+  });
+
+  describe("isCardDue", () => {
+    it("should not show tomorrow's cards before the rollover", () => {
+      const nextReview = calculateNextReview(1, new Date(2026, 2, 10, 15, 30));
+
+      expect(isCardDue(nextReview, new Date(2026, 2, 11, 1, 0))).toBe(false);
+      expect(isCardDue(nextReview, new Date(2026, 2, 11, 5, 0))).toBe(true);
+    });
+  });
+
+  describe("setDayRolloverHour", () => {
+    it("should clamp the hour to a valid range", () => {
+      setDayRolloverHour(30);
+      expect(getDayRolloverHour()).toBe(23);
+
+      setDayRolloverHour(-2);
+      expect(getDayRolloverHour()).toBe(0);
+    });
+  });
+});
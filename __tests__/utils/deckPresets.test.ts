@@ -0,0 +1,149 @@
+import {
+  defaultPresetOptions,
+  getCloneName,
+  getDailyLimits,
+  getSchedulingOptions,
+  parseSteps,
+  formatSteps,
+  validatePresetOptions,
+} from "../../src/utils/deckPresets";
+import {
+  calculateNextReviewData,
+  defaultSm2Parameters,
+} from "../../src/utils/spacedRepAlgorithm";
+import { appConfig } from "../../src/config/appConfig";
+
+describe("deckPresets utility", () => {
+  describe("getCloneName", () => {
+    it("should append (copy) to the name", () => {
+      expect(getCloneName("Biology", ["Biology"])).toBe("Biology (copy)");
+    });
+
+    it("should number copies when the name is taken", () => {
+      expect(
+        getCloneName("Biology", [
+          "Biology",
+          "Biology (copy)",
+          "Biology (copy 2)",
+        ])
+      ).toBe("Biology (copy 3)");
+    });
+  });
+
+  describe("parseSteps", () => {
+    it("should parse steps separated by spaces or commas", () => {
+      expect(parseSteps("1 10")).toEqual([1, 10]);
+      expect(parseSteps(" 1, 10,60 ")).toEqual([1, 10, 60]);
+    });
+
+    it("should return an empty list for empty input", () => {
+      expect(parseSteps("")).toEqual([]);
+    });
+
+    it("should reject non-positive or non-numeric steps", () => {
+      expect(parseSteps("1 0")).toBeNull();
+      expect(parseSteps("1 -5")).toBeNull();
+      expect(parseSteps("1 ten")).toBeNull();
+    });
+
+    it("should round trip with formatSteps", () => {
+      expect(parseSteps(formatSteps([1, 10, 1440]))).toEqual([1, 10, 1440]);
+    });
+  });
+
+  describe("validatePresetOptions", () => {
+    it("should accept the default options", () => {
+      expect(validatePresetOptions(defaultPresetOptions)).toBeNull();
+    });
+
+    it("should reject fractional or negative daily limits", () => {
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          new_cards_per_day: -1,
+        })
+      ).not.toBeNull();
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          max_reviews_per_day: 10.5,
+        })
+      ).not.toBeNull();
+    });
+
+    it("should reject ease bounds that are out of order", () => {
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          min_ease_factor: 2.5,
+          max_ease_factor: 2.0,
+        })
+      ).not.toBeNull();
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          min_ease_factor: appConfig.spacedRepetition.minEaseFactor - 0.1,
+        })
+      ).not.toBeNull();
+    });
+
+    it("should reject non-numeric scheduling options", () => {
+      expect(
+        validatePresetOptions({ ...defaultPresetOptions, easy_bonus: NaN })
+      ).not.toBeNull();
+    });
+
+    it("should reject target retention outside 70-99%", () => {
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          request_retention: 0.5,
+        })
+      ).not.toBeNull();
+      expect(
+        validatePresetOptions({
+          ...defaultPresetOptions,
+          request_retention: 1,
+        })
+      ).not.toBeNull();
+    });
+  });
+
+  describe("option mapping", () => {
+    it("should map daily limits", () => {
+      expect(
+        getDailyLimits({
+          ...defaultPresetOptions,
+          new_cards_per_day: 5,
+          max_reviews_per_day: 50,
+        })
+      ).toEqual({ newCardsPerDay: 5, maxReviewsPerDay: 50 });
+    });
+
+    it("should apply preset scheduling options to SM-2 reviews", () => {
+      const current = {
+        easeFactor: 2.5,
+        interval: 10,
+        reviewCount: 3,
+        lastReviewed: new Date().toISOString(),
+        nextReview: new Date().toISOString(),
+      };
+      const options = getSchedulingOptions({
+        ...defaultPresetOptions,
+        max_ease_factor: 2.6,
+        easy_bonus: 2,
+      });
+
+      const withPreset = calculateNextReviewData(
+        current,
+        "easy",
+        defaultSm2Parameters,
+        options
+      );
+      const withDefaults = calculateNextReviewData(current, "easy");
+
+      expect(withPreset.easeFactor).toBeLessThanOrEqual(2.6);
+      expect(withPreset.interval).toBeGreaterThan(withDefaults.interval);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  validateExamConfig,
+  pickExamCards,
+  getExamTimeLeft,
+  buildExamReport,
+  getAverageAnswerTime,
+} from "../../src/utils/exam";
+import { Card, ExamAnswer } from "../../src/utils/types";
+import { appConfig } from "../../src/config/appConfig";
+import { makeCard } from "../../test-utils/cards";
+
+describe("exam utility", () => {
+  const answer = (
+    card: Card,
+    correct: boolean,
+    timeSeconds: number = 10
+  ): ExamAnswer => ({
+    card_id: card.id,
+    deck_id: card.deck_id,
+    correct,
+    time_seconds: timeSeconds,
+  });
+
+  const timing = {
+    timeLimitSeconds: 600,
+    durationSeconds: 300,
+    timedOut: false,
+  };
+
+  describe("validateExamConfig", () => {
+    const config = {
+      deckIds: ["deck-1"],
+      questionCount: 20,
+      timeLimitMinutes: 15,
+    };
+
+    it("should accept valid settings", () => {
+      expect(validateExamConfig(config)).toBeNull();
+    });
+
+    it("should require a deck", () => {
+      expect(validateExamConfig({ ...config, deckIds: [] })).not.toBeNull();
+    });
+
+    it("should reject question counts and time limits out of range", () => {
+      const { maxQuestionCount, maxTimeLimitMinutes } =
+        appConfig.studySession.exam;
+
+      expect(
+        validateExamConfig({ ...config, questionCount: 0 })
+      ).not.toBeNull();
+      expect(
+        validateExamConfig({ ...config, questionCount: maxQuestionCount + 1 })
+      ).not.toBeNull();
+      expect(
+        validateExamConfig({ ...config, questionCount: 2.5 })
+      ).not.toBeNull();
+      expect(
+        validateExamConfig({ ...config, timeLimitMinutes: NaN })
+      ).not.toBeNull();
+      expect(
+        validateExamConfig({
+          ...config,
+          timeLimitMinutes: maxTimeLimitMinutes + 1,
+        })
+      ).not.toBeNull();
+    });
+  });
+
+  describe("pickExamCards", () => {
+    it("should pick at most the requested number of cards", () => {
+      const cards = Array.from({ length: 10 }, (_, i) => makeCard(`${i}`));
+
+      expect(pickExamCards(cards, 4)).toHaveLength(4);
+      expect(pickExamCards(cards, 50)).toHaveLength(10);
+    });
+
+    it("should leave out suspended cards", () => {
+      const cards = [makeCard("1"), makeCard("2", { suspended: true })];
+
+      expect(pickExamCards(cards, 5).map((card) => card.id)).toEqual(["1"]);
+    });
+
+    it("should pick distinct cards", () => {
+      const cards = Array.from({ length: 10 }, (_, i) => makeCard(`${i}`));
+      const ids = pickExamCards(cards, 10).map((card) => card.id);
+
+      expect(new Set(ids).size).toBe(10);
+    });
+  });
+
+  describe("getExamTimeLeft", () => {
+    it("should count down from the time limit", () => {
+      expect(getExamTimeLeft(0, 60, 15500)).toBe(45);
+    });
+
+    it("should stay between zero and the limit", () => {
+      expect(getExamTimeLeft(0, 60, 120000)).toBe(0);
+      expect(getExamTimeLeft(5000, 60, 0)).toBe(60);
+    });
+  });
+
+  describe("buildExamReport", () => {
+    const cards = [
+      makeCard("1", { tags: ["cells"] }),
+      makeCard("2", { tags: ["cells", "energy"] }),
+      makeCard("3", { deck_id: "deck-2", tags: ["energy"] }),
+      makeCard("4", { deck_id: "deck-2" }),
+    ];
+
+    it("should score overall, per deck and per tag", () => {
+      const report = buildExamReport(
+        cards,
+        [
+          answer(cards[0], true),
+          answer(cards[1], false),
+          answer(cards[2], true),
+          answer(cards[3], true),
+        ],
+        timing
+      );
+
+      expect(report.score).toEqual({ correct: 3, total: 4, percent: 75 });
+      expect(report.by_deck).toEqual({
+        "deck-1": { correct: 1, total: 2, percent: 50 },
+        "deck-2": { correct: 2, total: 2, percent: 100 },
+      });
+      expect(report.by_tag).toEqual({
+        cells: { correct: 1, total: 2, percent: 50 },
+        energy: { correct: 1, total: 2, percent: 50 },
+      });
+      expect(report.missed_card_ids).toEqual(["2"]);
+    });
+
+    it("should count questions not reached as missed", () => {
+      const report = buildExamReport(cards, [answer(cards[0], true)], {
+        ...timing,
+        timedOut: true,
+      });
+
+      expect(report.score).toEqual({ correct: 1, total: 4, percent: 25 });
+      expect(report.missed_card_ids).toEqual(["2", "3", "4"]);
+      expect(report.answers).toHaveLength(1);
+      expect(report.timed_out).toBe(true);
+    });
+
+    it("should keep the timing", () => {
+      const report = buildExamReport(cards, [], timing);
+
+      expect(report.time_limit_seconds).toBe(600);
+      expect(report.duration_seconds).toBe(300);
+      expect(report.score.percent).toBe(0);
+    });
+  });
+
+  describe("getAverageAnswerTime", () => {
+    it("should average the time of answered questions", () => {
+      const report = buildExamReport(
+        [makeCard("1"), makeCard("2")],
+        [answer(makeCard("1"), true, 10), answer(makeCard("2"), false, 25)],
+        timing
+      );
+
+      expect(getAverageAnswerTime(report)).toBe(18);
+    });
+
+    it("should be zero without answers", () => {
+      expect(getAverageAnswerTime(buildExamReport([], [], timing))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  calculateFsrsReviewData,
+  calculateFsrsInterval,
+  calculateRetrievability,
+} from "../../src/utils/fsrsAlgorithm";
+import { getScheduler } from "../../src/utils/scheduler";
+import { CardReviewData } from "../../src/utils/spacedRepAlgorithm";
+
+describe("fsrsAlgorithm utility", () => {
+  const newCard: CardReviewData = {
+    easeFactor: 2.5,
+    interval: 0,
+    reviewCount: 0,
+    lastReviewed: new Date().toISOString(),
+    nextReview: new Date().toISOString(),
+  };
+
+  describe("calculateRetrievability", () => {
+    it("should be 100% immediately after review", () => {
+      expect(calculateRetrievability(0, 10)).toBe(1);
+    });
+
+    it("should be 90% when elapsed days equal stability", () => {
+      expect(calculateRetrievability(10, 10)).toBeCloseTo(0.9, 5);
+    });
+
+    it("should decrease as time passes", () => {
+      expect(calculateRetrievability(20, 10)).toBeLessThan(
+        calculateRetrievability(5, 10)
+      );
+    });
+  });
+
+  describe("calculateFsrsInterval", () => {
+    it("should equal stability at 90% requested retention", () => {
+      expect(calculateFsrsInterval(10, 0.9)).toBe(10);
+    });
+
+    it("should shorten intervals for higher requested retention", () => {
+      expect(calculateFsrsInterval(10, 0.95)).toBeLessThan(
+        calculateFsrsInterval(10, 0.9)
+      );
+    });
+
+    it("should never return less than 1 day", () => {
+      expect(calculateFsrsInterval(0.1, 0.9)).toBe(1);
+    });
+  });
+
+  describe("calculateFsrsReviewData", () => {
+    it("should initialize stability and difficulty on first review", () => {
+      const result = calculateFsrsReviewData(newCard, "medium");
+
+      expect(result.stability).toBeGreaterThan(0);
+      expect(result.fsrsDifficulty).toBeGreaterThanOrEqual(1);
+      expect(result.fsrsDifficulty).toBeLessThanOrEqual(10);
+      expect(result.reviewCount).toBe(1);
+    });
+
+    it("should give easier ratings a longer first interval", () => {
+      const again = calculateFsrsReviewData(newCard, "again");
+      const easy = calculateFsrsReviewData(newCard, "easy");
+
+      expect(easy.interval).toBeGreaterThan(again.interval);
+      expect(easy.fsrsDifficulty!).toBeLessThan(again.fsrsDifficulty!);
+    });
+
+    it("should not change the ease factor", () => {
+      const result = calculateFsrsReviewData(newCard, "easy");
+
+      expect(result.easeFactor).toBe(2.5);
+    });
+
+    it("should grow stability after a successful recall", () => {
+      const reviewed: CardReviewData = {
+        ...newCard,
+        reviewCount: 3,
+        stability: 10,
+        fsrsDifficulty: 5,
+        lastReviewed: new Date(
+          Date.now() - 10 * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      };
+
+      const result = calculateFsrsReviewData(reviewed, "medium");
+
+      expect(result.stability!).toBeGreaterThan(10);
+    });
+
+    it("should shrink stability after a lapse", () => {
+      const reviewed: CardReviewData = {
+        ...newCard,
+        reviewCount: 3,
+        stability: 10,
+        fsrsDifficulty: 5,
+        lastReviewed: new Date(
+          Date.now() - 10 * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      };
+
+      const result = calculateFsrsReviewData(reviewed, "again");
+
+      expect(result.stability!).toBeLessThan(10);
+      expect(result.fsrsDifficulty!).toBeGreaterThan(5);
+    });
+  });
+
+  describe("getScheduler", () => {
+    it("should default to SM-2", () => {
+      expect(getScheduler().type).toBe("sm2");
+    });
+
+    it("should return the FSRS scheduler when selected", () => {
+      const result = getScheduler("fsrs").calculateNextReviewData(
+        newCard,
+        "medium"
+      );
+
+      expect(getScheduler("fsrs").type).toBe("fsrs");
+      expect(result.stability).toBeDefined();
+    });
+  });
+});
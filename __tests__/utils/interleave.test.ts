@@ -0,0 +1,113 @@
+import {
+  getStudyPriority,
+  alternateDecks,
+  interleaveDueCards,
+} from "../../src/utils/interleave";
+import { makeCard, makeNewCard } from "../../test-utils/cards";
+
+describe("interleave utility", () => {
+  const now = new Date("2026-03-10T12:00:00.000Z");
+
+  describe("getStudyPriority", () => {
+    it("should put learning cards before reviews and reviews before new cards", () => {
+      const learning = getStudyPriority(
+        makeCard("1", { deck_id: "a", learning_state: "relearning" })
+      );
+      const review = getStudyPriority(makeCard("2", { deck_id: "a" }));
+      const fresh = getStudyPriority(makeNewCard("3", { deck_id: "a" }));
+
+      expect(learning).toBeLessThan(review);
+      expect(review).toBeLessThan(fresh);
+    });
+
+    it("should treat cards without a stored state by review count", () => {
+      expect(
+        getStudyPriority(
+          makeCard("1", {
+            deck_id: "a",
+            learning_state: undefined,
+            review_count: 0,
+          })
+        )
+      ).toBe(getStudyPriority(makeNewCard("2", { deck_id: "a" })));
+    });
+  });
+
+  describe("alternateDecks", () => {
+    it("should take turns between decks and keep each deck's order", () => {
+      const cards = [
+        makeCard("a1", { deck_id: "a" }),
+        makeCard("a2", { deck_id: "a" }),
+        makeCard("a3", { deck_id: "a" }),
+        makeCard("b1", { deck_id: "b" }),
+      ];
+
+      expect(alternateDecks(cards).map((card) => card.id)).toEqual([
+        "a1",
+        "b1",
+        "a2",
+        "a3",
+      ]);
+    });
+  });
+
+  describe("interleaveDueCards", () => {
+    it("should order learning, review and new cards", () => {
+      const cards = [
+        makeNewCard("new", { deck_id: "a" }),
+        makeCard("review", { deck_id: "b" }),
+        makeCard("learning", { deck_id: "a", learning_state: "learning" }),
+      ];
+
+      expect(interleaveDueCards(cards, now).map((card) => card.id)).toEqual([
+        "learning",
+        "review",
+        "new",
+      ]);
+    });
+
+    it("should show the reviews most likely forgotten first", () => {
+      const cards = [
+        makeCard("recent", {
+          deck_id: "a",
+          last_reviewed: "2026-03-05T12:00:00.000Z",
+        }),
+        makeCard("stale", {
+          deck_id: "a",
+          last_reviewed: "2026-01-10T12:00:00.000Z",
+        }),
+      ];
+
+      expect(interleaveDueCards(cards, now).map((card) => card.id)).toEqual([
+        "stale",
+        "recent",
+      ]);
+    });
+
+    it("should mix new cards from different decks", () => {
+      const cards = [
+        makeNewCard("a1", { deck_id: "a" }),
+        makeNewCard("a2", { deck_id: "a" }),
+        makeNewCard("b1", { deck_id: "b" }),
+        makeNewCard("b2", { deck_id: "b" }),
+      ];
+
+      expect(interleaveDueCards(cards, now).map((card) => card.id)).toEqual([
+        "a1",
+        "b1",
+        "a2",
+        "b2",
+      ]);
+    });
+
+    it("should keep every card", () => {
+      const cards = [
+        makeCard("1", { deck_id: "a" }),
+        makeNewCard("2", { deck_id: "b" }),
+        makeCard("3", { deck_id: "c", learning_state: "learning" }),
+      ];
+
+      expect(interleaveDueCards(cards, now)).toHaveLength(3);
+    });
+  });
+});
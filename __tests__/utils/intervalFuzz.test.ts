@@ -0,0 +1,77 @@
+import {
+  fuzzInterval,
+  getFuzzRange,
+  loadBalanceInterval,
+} from "../../src/utils/intervalFuzz";
+
+describe("intervalFuzz utility", () => {
+  const lowRng = () => 0;
+  const highRng = () => 0.999;
+
+  describe("getFuzzRange", () => {
+    it("should not fuzz short intervals", () => {
+      expect(getFuzzRange(1)).toEqual({ min: 1, max: 1 });
+      expect(getFuzzRange(2)).toEqual({ min: 2, max: 2 });
+    });
+
+    it("should widen the window for longer intervals", () => {
+      const short = getFuzzRange(5);
+      const long = getFuzzRange(60);
+
+      expect(short.min).toBeLessThan(5);
+      expect(short.max).toBeGreaterThan(5);
+      expect(long.max - long.min).toBeGreaterThan(short.max - short.min);
+    });
+
+    it("should never go below one day", () => {
+      expect(getFuzzRange(3).min).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe("fuzzInterval", () => {
+    it("should stay inside the fuzz window", () => {
+      const range = getFuzzRange(30);
+
+      expect(fuzzInterval(30, lowRng)).toBe(range.min);
+      expect(fuzzInterval(30, highRng)).toBe(range.max);
+    });
+
+    it("should leave short intervals unchanged", () => {
+      expect(fuzzInterval(1, highRng)).toBe(1);
+    });
+
+    it("should be deterministic for a given rng", () => {
+      expect(fuzzInterval(45, () => 0.5)).toBe(fuzzInterval(45, () => 0.5));
+    });
+  });
+
+  describe("loadBalanceInterval", () => {
+    it("should pick the least-loaded day", () => {
+      const range = getFuzzRange(30);
+      const counts: Record<number, number> = {};
+      for (let day = range.min; day <= range.max; day++) {
+        counts[day] = 10;
+      }
+      counts[range.max - 1] = 2;
+
+      expect(loadBalanceInterval(30, counts, lowRng)).toBe(range.max - 1);
+    });
+
+    it("should treat days without forecast data as empty", () => {
+      const range = getFuzzRange(30);
+      const counts: Record<number, number> = {};
+      for (let day = range.min; day <= range.max; day++) {
+        counts[day] = 5;
+      }
+      delete counts[range.min + 1];
+
+      expect(loadBalanceInterval(30, counts, highRng)).toBe(range.min + 1);
+    });
+
+    it("should fall back to plain fuzz without forecast data", () => {
+      expect(loadBalanceInterval(30, undefined, lowRng)).toBe(
+        getFuzzRange(30).min
+      );
+    });
+  });
+});
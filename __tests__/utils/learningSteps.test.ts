@@ -0,0 +1,117 @@
+import { applyReview, getLearningState } from "../../src/utils/learningSteps";
+import { sm2Scheduler } from "../../src/utils/scheduler";
+import { CardReviewData } from "../../src/utils/spacedRepAlgorithm";
+
+describe("learningSteps utility", () => {
+  const config = { learningSteps: [1, 10], relearningSteps: [10] };
+
+  const newCard: CardReviewData = {
+    easeFactor: 2.5,
+    interval: 0,
+    reviewCount: 0,
+    lastReviewed: new Date().toISOString(),
+    nextReview: new Date().toISOString(),
+  };
+
+  const reviewCard: CardReviewData = {
+    ...newCard,
+    interval: 10,
+    reviewCount: 4,
+    learningState: "review",
+  };
+
+  const minutesFromNow = (iso: string) =>
+    Math.round((new Date(iso).getTime() - Date.now()) / 60000);
+
+  describe("getLearningState", () => {
+    it("should treat unreviewed cards without a state as new", () => {
+      expect(getLearningState(newCard)).toBe("new");
+    });
+
+    it("should treat reviewed cards without a state as review", () => {
+      expect(getLearningState({ ...newCard, reviewCount: 3 })).toBe("review");
+    });
+  });
+
+  describe("new cards", () => {
+    it("should move to the second step on good", () => {
+      const result = applyReview(newCard, "medium", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("learning");
+      expect(result.learningStep).toBe(1);
+      expect(minutesFromNow(result.nextReview)).toBe(10);
+      expect(result.reviewCount).toBe(0);
+    });
+
+    it("should restart at the first step on again", () => {
+      const result = applyReview(newCard, "again", sm2Scheduler, config);
+
+      expect(result.learningStep).toBe(0);
+      expect(minutesFromNow(result.nextReview)).toBe(1);
+    });
+
+    it("should graduate immediately on easy", () => {
+      const result = applyReview(newCard, "easy", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("review");
+      expect(result.interval).toBeGreaterThanOrEqual(1);
+      expect(result.reviewCount).toBe(1);
+    });
+
+    it("should graduate after good on the last step", () => {
+      const learning: CardReviewData = {
+        ...newCard,
+        learningState: "learning",
+        learningStep: 1,
+      };
+
+      const result = applyReview(learning, "medium", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("review");
+      expect(result.learningStep).toBeNull();
+    });
+
+    it("should go straight to the scheduler when there are no steps", () => {
+      const result = applyReview(newCard, "medium", sm2Scheduler, {
+        learningSteps: [],
+        relearningSteps: [],
+      });
+
+      expect(result.learningState).toBe("review");
+      expect(result.interval).toBe(2);
+    });
+  });
+
+  describe("review cards", () => {
+    it("should enter relearning on again", () => {
+      const result = applyReview(reviewCard, "again", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("relearning");
+      expect(result.learningStep).toBe(0);
+      expect(result.interval).toBe(1);
+      expect(minutesFromNow(result.nextReview)).toBe(10);
+    });
+
+    it("should be scheduled normally on good", () => {
+      const result = applyReview(reviewCard, "medium", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("review");
+      expect(result.interval).toBe(25);
+    });
+
+    it("should return to review after finishing relearning", () => {
+      const relearning: CardReviewData = {
+        ...reviewCard,
+        interval: 1,
+        learningState: "relearning",
+        learningStep: 0,
+      };
+
+      const result = applyReview(relearning, "medium", sm2Scheduler, config);
+
+      expect(result.learningState).toBe("review");
+      expect(result.interval).toBe(1);
+      expect(result.reviewCount).toBe(relearning.reviewCount);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  LEECH_TAG,
+  addTag,
+  isLapse,
+  isLeech,
+  isLeechLapse,
+  removeTag,
+} from "../../src/utils/leech";
+
+describe("leech utility", () => {
+  describe("isLapse", () => {
+    it("should count again on a review card", () => {
+      expect(isLapse("review", "again")).toBe(true);
+    });
+
+    it("should not count failures while still learning", () => {
+      expect(isLapse("learning", "again")).toBe(false);
+      expect(isLapse("relearning", "again")).toBe(false);
+    });
+
+    it("should not count passing ratings", () => {
+      expect(isLapse("review", "hard")).toBe(false);
+    });
+  });
+
+  describe("isLeechLapse", () => {
+    it("should flag when the threshold is reached", () => {
+      expect(isLeechLapse(7, 8)).toBe(false);
+      expect(isLeechLapse(8, 8)).toBe(true);
+    });
+
+    it("should flag again every half threshold", () => {
+      expect(isLeechLapse(9, 8)).toBe(false);
+      expect(isLeechLapse(12, 8)).toBe(true);
+      expect(isLeechLapse(16, 8)).toBe(true);
+    });
+
+    it("should never flag when disabled", () => {
+      expect(isLeechLapse(20, 0)).toBe(false);
+    });
+  });
+
+  describe("tags", () => {
+    it("should add the leech tag once", () => {
+      const tags = addTag(addTag(["biology"], LEECH_TAG), LEECH_TAG);
+
+      expect(tags).toEqual(["biology", LEECH_TAG]);
+      expect(isLeech(tags)).toBe(true);
+    });
+
+    it("should remove the leech tag", () => {
+      const tags = removeTag(["biology", LEECH_TAG], LEECH_TAG);
+
+      expect(tags).toEqual(["biology"]);
+      expect(isLeech(tags)).toBe(false);
+    });
+  });
+});
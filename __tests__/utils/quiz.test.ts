@@ -0,0 +1,153 @@
+import {
+  getDistractorCount,
+  hasCachedDistractors,
+  shuffle,
+  cleanDistractors,
+  pickFallbackDistractors,
+  buildQuizOptions,
+  getQuizRating,
+} from "../../src/utils/quiz";
+import { appConfig } from "../../src/config/appConfig";
+import { makeCard } from "../../test-utils/cards";
+
+describe("quiz utility", () => {
+  // Deterministic generator cycling through fixed values
+  const sequence = (values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  };
+
+  describe("getDistractorCount", () => {
+    it("should leave one option for the answer", () => {
+      expect(getDistractorCount()).toBe(
+        appConfig.studySession.quiz.optionCount - 1
+      );
+    });
+  });
+
+  describe("hasCachedDistractors", () => {
+    it("should require a full set of distractors", () => {
+      const count = getDistractorCount();
+      const full = Array.from({ length: count }, (_, i) => `Wrong ${i}`);
+
+      expect(hasCachedDistractors(makeCard("1", { distractors: full }))).toBe(
+        true
+      );
+      expect(
+        hasCachedDistractors(
+          makeCard("1", { distractors: full.slice(0, count - 1) })
+        )
+      ).toBe(false);
+      expect(hasCachedDistractors(makeCard("1", { distractors: null }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe("shuffle", () => {
+    it("should keep every item without changing the input", () => {
+      const items = [1, 2, 3, 4, 5];
+      const result = shuffle(items, sequence([0.9, 0.1, 0.5]));
+
+      expect([...result].sort()).toEqual(items);
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe("cleanDistractors", () => {
+    it("should drop duplicates, blanks and the answer itself", () => {
+      expect(
+        cleanDistractors("Paris", [
+          " London ",
+          "paris",
+          "London.",
+          "",
+          "Berlin",
+        ])
+      ).toEqual(["London", "Berlin"]);
+    });
+  });
+
+  describe("pickFallbackDistractors", () => {
+    it("should use answers of other cards in the same deck", () => {
+      const card = makeCard("1");
+      const deckCards = [
+        card,
+        makeCard("2"),
+        makeCard("3"),
+        makeCard("4", { deck_id: "deck-2" }),
+      ];
+
+      const distractors = pickFallbackDistractors(card, deckCards, 3);
+
+      expect([...distractors].sort()).toEqual(["Answer 2", "Answer 3"]);
+    });
+
+    it("should stop at the requested count", () => {
+      const card = makeCard("1");
+      const deckCards = Array.from({ length: 10 }, (_, i) =>
+        makeCard(`${i + 2}`)
+      );
+
+      expect(pickFallbackDistractors(card, deckCards, 3)).toHaveLength(3);
+    });
+
+    it("should use other questions for a reverse card", () => {
+      const card = makeCard("1", { direction: "reverse" });
+
+      expect(pickFallbackDistractors(card, [card, makeCard("2")])).toEqual([
+        "Question 2",
+      ]);
+    });
+
+    it("should use other deletions for a cloze card", () => {
+      const cloze = (id: string, question: string) =>
+        makeCard(id, {
+          question,
+          answer: "",
+          card_type: "cloze",
+          cloze_index: 1,
+        });
+      const card = cloze("1", "{{c1::Paris}} is in France");
+
+      expect(
+        pickFallbackDistractors(card, [
+          card,
+          cloze("2", "{{c1::Berlin}} is in Germany"),
+          makeCard("3"),
+        ])
+      ).toEqual(["Berlin"]);
+    });
+
+    it("should skip cards sharing the same answer", () => {
+      const card = makeCard("1", { answer: "Mitochondria" });
+
+      expect(
+        pickFallbackDistractors(card, [
+          card,
+          makeCard("2", { answer: "mitochondria" }),
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe("buildQuizOptions", () => {
+    it("should include the answer once among the distractors", () => {
+      const options = buildQuizOptions(
+        "Paris",
+        ["London", "Berlin", "Madrid", "Rome"],
+        3
+      );
+
+      expect(options).toHaveLength(4);
+      expect(options.filter((option) => option === "Paris")).toHaveLength(1);
+    });
+  });
+
+  describe("getQuizRating", () => {
+    it("should rate correct answers good and wrong answers again", () => {
+      expect(getQuizRating(true)).toBe("medium");
+      expect(getQuizRating(false)).toBe("again");
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  parseDueRange,
+  getForgetChanges,
+  getDueDateChanges,
+  getRescheduleChanges,
+  getUndoChanges,
+  batchCardChanges,
+} from "../../src/utils/reschedule";
+import { getStartOfDayOffset } from "../../src/utils/dateUtils";
+import { appConfig } from "../../src/config/appConfig";
+import { makeCard, makeNewCard } from "../../test-utils/cards";
+
+describe("reschedule utility", () => {
+  const today = new Date(2026, 2, 10, 15, 30);
+
+  describe("parseDueRange", () => {
+    it("should parse a single day offset", () => {
+      expect(parseDueRange("0", today)).toEqual({ startDay: 0, endDay: 0 });
+      expect(parseDueRange(" 3 ", today)).toEqual({ startDay: 3, endDay: 3 });
+    });
+
+    it("should parse a range of days", () => {
+      expect(parseDueRange("1-7", today)).toEqual({ startDay: 1, endDay: 7 });
+      expect(parseDueRange("1 - 7", today)).toEqual({
+        startDay: 1,
+        endDay: 7,
+      });
+    });
+
+    it("should parse a calendar date", () => {
+      expect(parseDueRange("2026-03-15", today)).toEqual({
+        startDay: 5,
+        endDay: 5,
+      });
+    });
+
+    it("should reject past dates, reversed ranges and other input", () => {
+      expect(parseDueRange("2026-03-01", today)).toBeNull();
+      expect(parseDueRange("7-1", today)).toBeNull();
+      expect(parseDueRange("-2", today)).toBeNull();
+      expect(parseDueRange("next week", today)).toBeNull();
+      expect(parseDueRange("", today)).toBeNull();
+    });
+  });
+
+  describe("getForgetChanges", () => {
+    it("should reset the card to new with the default ease", () => {
+      const changes = getForgetChanges();
+
+      expect(changes.ease_factor).toBe(
+        appConfig.spacedRepetition.defaultEaseFactor
+      );
+      expect(changes.interval).toBe(0);
+      expect(changes.review_count).toBe(0);
+      expect(changes.learning_state).toBe("new");
+      expect(changes.learning_step).toBeNull();
+    });
+
+    it("should keep lapses", () => {
+      expect(getForgetChanges()).not.toHaveProperty("lapses");
+    });
+  });
+
+  describe("getDueDateChanges", () => {
+    it("should move every card to a single day", () => {
+      const changes = getDueDateChanges(
+        [makeCard("1"), makeCard("2")],
+        { startDay: 2, endDay: 2 },
+        today
+      );
+
+      changes.forEach((change) => {
+        expect(change.data.next_review).toBe(getStartOfDayOffset(2, today));
+      });
+    });
+
+    it("should spread cards evenly across a range", () => {
+      const cards = Array.from({ length: 14 }, (_, i) => makeCard(`${i}`));
+
+      const changes = getDueDateChanges(
+        cards,
+        { startDay: 1, endDay: 7 },
+        today
+      );
+
+      const perDay = new Map<string, number>();
+      changes.forEach((change) => {
+        const day = change.data.next_review as string;
+        perDay.set(day, (perDay.get(day) || 0) + 1);
+      });
+
+      expect(perDay.size).toBe(7);
+      perDay.forEach((count) => expect(count).toBe(2));
+    });
+
+    it("should turn new cards into review cards", () => {
+      const [change] = getDueDateChanges(
+        [makeNewCard("1")],
+        { startDay: 4, endDay: 4 },
+        today
+      );
+
+      expect(change.data.learning_state).toBe("review");
+      expect(change.data.interval).toBe(4);
+    });
+
+    it("should keep the interval of review cards", () => {
+      const [change] = getDueDateChanges(
+        [makeCard("1")],
+        { startDay: 4, endDay: 4 },
+        today
+      );
+
+      expect(change.data).not.toHaveProperty("interval");
+    });
+  });
+
+  describe("getRescheduleChanges", () => {
+    it("should only change the ease when resetting ease", () => {
+      const [change] = getRescheduleChanges("reset_ease", [makeCard("1")]);
+
+      expect(change.data).toEqual({
+        ease_factor: appConfig.spacedRepetition.defaultEaseFactor,
+      });
+    });
+
+    it("should require a range to set the due date", () => {
+      expect(() => getRescheduleChanges("set_due", [makeCard("1")])).toThrow();
+    });
+  });
+
+  describe("getUndoChanges", () => {
+    it("should restore the previous value of every changed field", () => {
+      const card = makeCard("1", {
+        ease_factor: 2.1,
+        interval: 30,
+        review_count: 6,
+        learning_step: null,
+        next_review: "2026-04-09T00:00:00.000Z",
+      });
+      const changes = getRescheduleChanges("forget", [card]);
+
+      const [undo] = getUndoChanges([card], changes);
+
+      expect(undo).toEqual({
+        id: "1",
+        data: {
+          ease_factor: 2.1,
+          interval: 30,
+          review_count: 6,
+          next_review: "2026-04-09T00:00:00.000Z",
+          learning_state: "review",
+          learning_step: null,
+        },
+      });
+    });
+
+    it("should clear fields that were previously unset", () => {
+      const card = makeCard("1", {
+        learning_state: undefined,
+        learning_step: undefined,
+      });
+      const changes = getRescheduleChanges("forget", [card]);
+
+      const [undo] = getUndoChanges([card], changes);
+
+      expect(undo.data.learning_state).toBeNull();
+      expect(undo.data.learning_step).toBeNull();
+    });
+  });
+
+  describe("batchCardChanges", () => {
+    it("should group identical changes into batches of the given size", () => {
+      const cards = ["1", "2", "3"].map((id) => makeCard(id));
+      const changes = getRescheduleChanges("forget", cards);
+
+      const batches = batchCardChanges(changes, 2);
+
+      expect(batches.map((batch) => batch.ids)).toEqual([["1", "2"], ["3"]]);
+      expect(batches[0].data).toEqual(changes[0].data);
+    });
+
+    it("should keep different changes in separate batches", () => {
+      const changes = [
+        { id: "1", data: { interval: 1 } },
+        { id: "2", data: { interval: 2 } },
+        { id: "3", data: { interval: 1 } },
+      ];
+
+      expect(batchCardChanges(changes, 10)).toEqual([
+        { ids: ["1", "3"], data: { interval: 1 } },
+        { ids: ["2"], data: { interval: 2 } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  calculateResponseTimeBaseline,
+  suggestRatingFromResponseTime,
+} from "../../src/utils/responseTime";
+import { appConfig } from "../../src/config/appConfig";
+import { ReviewDifficulty, ReviewLog } from "../../src/utils/types";
+
+describe("responseTime utility", () => {
+  const { minSamples, maxResponseMs } = appConfig.studySession.responseTime;
+
+  const makeLog = (
+    responseTimeMs: number | null,
+    rating: ReviewDifficulty = "medium"
+  ): ReviewLog => ({
+    id: "log-1",
+    user_id: "user-1",
+    card_id: "card-1",
+    deck_id: "deck-1",
+    rating,
+    review_type: "review",
+    previous_interval: 3,
+    new_interval: 7,
+    ease_factor: 2.5,
+    time_spent: 8,
+    response_time_ms: responseTimeMs,
+    reviewed_at: "2026-03-10T12:00:00.000Z",
+  });
+
+  const makeLogs = (count: number, responseTimeMs: number) =>
+    Array.from({ length: count }, () => makeLog(responseTimeMs));
+
+  describe("calculateResponseTimeBaseline", () => {
+    it("should use the median time of correct answers", () => {
+      const baseline = calculateResponseTimeBaseline([
+        ...makeLogs(minSamples / 2, 2000),
+        ...makeLogs(minSamples / 2, 4000),
+        makeLog(30000, "again"),
+      ]);
+
+      expect(baseline).toEqual({ median_ms: 3000, sample_count: minSamples });
+    });
+
+    it("should wait for enough timed answers", () => {
+      const logs = [...makeLogs(minSamples - 1, 3000), makeLog(null)];
+      expect(calculateResponseTimeBaseline(logs)).toBeNull();
+    });
+
+    it("should leave out answers that were left open too long", () => {
+      const baseline = calculateResponseTimeBaseline([
+        ...makeLogs(minSamples, 3000),
+        ...makeLogs(minSamples, maxResponseMs + 1),
+      ]);
+
+      expect(baseline?.median_ms).toBe(3000);
+      expect(baseline?.sample_count).toBe(minSamples);
+    });
+  });
+
+  describe("suggestRatingFromResponseTime", () => {
+    const baseline = { median_ms: 4000, sample_count: minSamples };
+
+    it("should suggest easy for a fast answer", () => {
+      expect(suggestRatingFromResponseTime(1500, baseline)).toBe("easy");
+    });
+
+    it("should suggest hard for a very slow answer", () => {
+      expect(suggestRatingFromResponseTime(12000, baseline)).toBe("hard");
+    });
+
+    it("should not suggest anything near the usual pace", () => {
+      expect(suggestRatingFromResponseTime(4500, baseline)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  calculateTrueRetention,
+  calculateRetentionWindows,
+  calculatePredictedRetention,
+  predictRetention,
+} from "../../src/utils/retention";
+import { CardReviewData } from "../../src/utils/spacedRepAlgorithm";
+import { ReviewLog } from "../../src/utils/types";
+import { appConfig } from "../../src/config/appConfig";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+describe("retention utility", () => {
+  const now = new Date("2026-03-31T12:00:00.000Z");
+  const { matureIntervalDays } = appConfig.statistics;
+
+  const makeLog = (overrides: Partial<ReviewLog> = {}): ReviewLog => ({
+    id: `log-${Math.random()}`,
+    user_id: "user-1",
+    card_id: "card-1",
+    deck_id: "deck-1",
+    rating: "medium",
+    review_type: "review",
+    previous_interval: 5,
+    new_interval: 12,
+    ease_factor: 2.5,
+    time_spent: 8,
+    reviewed_at: new Date(now.getTime() - MS_PER_DAY).toISOString(),
+    ...overrides,
+  });
+
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * MS_PER_DAY).toISOString();
+
+  describe("calculateTrueRetention", () => {
+    it("should count every rating except again as a pass", () => {
+      const logs = [
+        makeLog({ rating: "easy" }),
+        makeLog({ rating: "medium" }),
+        makeLog({ rating: "hard" }),
+        makeLog({ rating: "again" }),
+      ];
+
+      const window = calculateTrueRetention(logs, 7, now);
+
+      expect(window.overall).toEqual({ passed: 3, total: 4, rate: 75 });
+    });
+
+    it("should split reviews into young and mature by interval", () => {
+      const logs = [
+        makeLog({ previous_interval: matureIntervalDays - 1 }),
+        makeLog({ previous_interval: matureIntervalDays, rating: "again" }),
+        makeLog({ previous_interval: matureIntervalDays + 10 }),
+      ];
+
+      const window = calculateTrueRetention(logs, 7, now);
+
+      expect(window.young).toEqual({ passed: 1, total: 1, rate: 100 });
+      expect(window.mature).toEqual({ passed: 1, total: 2, rate: 50 });
+    });
+
+    it("should ignore learning and new card reviews", () => {
+      const logs = [
+        makeLog({ review_type: "new", rating: "again" }),
+        makeLog({ review_type: "learning", rating: "again" }),
+        makeLog({ review_type: "relearning", rating: "again" }),
+        makeLog(),
+      ];
+
+      const window = calculateTrueRetention(logs, 7, now);
+
+      expect(window.overall).toEqual({ passed: 1, total: 1, rate: 100 });
+    });
+
+    it("should only count reviews inside the window", () => {
+      const logs = [
+        makeLog({ reviewed_at: daysAgo(3) }),
+        makeLog({ reviewed_at: daysAgo(10), rating: "again" }),
+      ];
+
+      const [week, month] = calculateRetentionWindows(logs, [7, 30], now);
+
+      expect(week.days).toBe(7);
+      expect(week.overall.total).toBe(1);
+      expect(month.overall).toEqual({ passed: 1, total: 2, rate: 50 });
+    });
+
+    it("should return a null rate without reviews", () => {
+      const window = calculateTrueRetention([], 30, now);
+
+      expect(window.overall).toEqual({ passed: 0, total: 0, rate: null });
+    });
+  });
+
+  describe("predictRetention", () => {
+    const reviewCard = (
+      overrides: Partial<CardReviewData> = {}
+    ): CardReviewData => ({
+      easeFactor: 2.5,
+      interval: 10,
+      reviewCount: 4,
+      lastReviewed: daysAgo(10),
+      nextReview: now.toISOString(),
+      learningState: "review",
+      ...overrides,
+    });
+
+    it("should reach the target retention on an SM-2 card's due date", () => {
+      expect(predictRetention(reviewCard(), now)).toBeCloseTo(
+        appConfig.fsrs.requestRetention,
+        5
+      );
+    });
+
+    it("should decline as time passes", () => {
+      const early = predictRetention(
+        reviewCard({ lastReviewed: daysAgo(2) }),
+        now
+      );
+      const late = predictRetention(
+        reviewCard({ lastReviewed: daysAgo(20) }),
+        now
+      );
+
+      expect(early as number).toBeGreaterThan(late as number);
+    });
+
+    it("should use FSRS stability when available", () => {
+      // Stability is the interval at which recall drops to 90%
+      const prediction = predictRetention(
+        reviewCard({ stability: 10, interval: 30 }),
+        now
+      );
+
+      expect(prediction).toBeCloseTo(0.9, 2);
+    });
+
+    it("should not predict cards that haven't graduated", () => {
+      expect(
+        predictRetention(reviewCard({ learningState: "learning" }), now)
+      ).toBeNull();
+      expect(
+        predictRetention(
+          reviewCard({ learningState: undefined, reviewCount: 0 }),
+          now
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe("calculatePredictedRetention", () => {
+    it("should average predictions as a percentage", () => {
+      const cards: CardReviewData[] = [
+        {
+          easeFactor: 2.5,
+          interval: 10,
+          reviewCount: 3,
+          lastReviewed: now.toISOString(),
+          nextReview: daysAgo(-10),
+          learningState: "review",
+        },
+        {
+          easeFactor: 2.5,
+          interval: 0,
+          reviewCount: 0,
+          lastReviewed: now.toISOString(),
+          nextReview: now.toISOString(),
+          learningState: "new",
+        },
+      ];
+
+      expect(calculatePredictedRetention(cards, now)).toBe(100);
+    });
+
+    it("should return null without graduated cards", () => {
+      expect(calculatePredictedRetention([], now)).toBeNull();
+    });
+  });
+});
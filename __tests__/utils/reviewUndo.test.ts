@@ -0,0 +1,58 @@
+import {
+  REVIEWED_FIELDS,
+  getReviewUndoChanges,
+} from "../../src/utils/reviewUndo";
+import { makeCard, makeNewCard } from "../../test-utils/cards";
+
+describe("reviewUndo utility", () => {
+  const card = makeCard("card-1", {
+    interval: 6,
+    lapses: 1,
+    learning_step: null,
+    last_reviewed: "2026-03-01T10:00:00.000Z",
+    next_review: "2026-03-07T10:00:00.000Z",
+    stability: 6.2,
+    fsrs_difficulty: 5.1,
+    tags: ["verbs"],
+    suspended: false,
+  });
+
+  describe("getReviewUndoChanges", () => {
+    it("should restore every field a review writes", () => {
+      const changes = getReviewUndoChanges(card);
+
+      expect(changes).toEqual({
+        ease_factor: 2.5,
+        interval: 6,
+        review_count: 3,
+        last_reviewed: "2026-03-01T10:00:00.000Z",
+        next_review: "2026-03-07T10:00:00.000Z",
+        stability: 6.2,
+        fsrs_difficulty: 5.1,
+        learning_state: "review",
+        learning_step: null,
+        lapses: 1,
+        tags: ["verbs"],
+        suspended: false,
+      });
+    });
+
+    it("should clear fields a new card didn't have", () => {
+      const changes = getReviewUndoChanges(makeNewCard("card-1"));
+
+      expect(changes.last_reviewed).toBeNull();
+      expect(changes.stability).toBeNull();
+      expect(changes.fsrs_difficulty).toBeNull();
+      expect(changes.learning_state).toBe("new");
+    });
+
+    it("should leave the card's content alone", () => {
+      const changes = getReviewUndoChanges(card);
+
+      expect(Object.keys(changes)).toEqual(REVIEWED_FIELDS);
+      expect(changes).not.toHaveProperty("question");
+      expect(changes).not.toHaveProperty("answer");
+      expect(changes).not.toHaveProperty("buried_until");
+    });
+  });
+});
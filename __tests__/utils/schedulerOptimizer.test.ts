@@ -0,0 +1,98 @@
+import { optimizeSchedulerParameters } from "../../src/utils/schedulerOptimizer";
+import { appConfig } from "../../src/config/appConfig";
+import { ReviewLog } from "../../src/utils/types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Deterministic history: each card graduates, then gets a few reviews at
+ * growing gaps, failing roughly one review in five
+ */
+function buildLogs(cardCount: number, reviewsPerCard = 4): ReviewLog[] {
+  const start = new Date("2024-01-01T09:00:00.000Z").getTime();
+  const logs: ReviewLog[] = [];
+
+  for (let card = 0; card < cardCount; card++) {
+    let day = 0;
+    let interval = 1;
+
+    const log = (
+      index: number,
+      rating: ReviewLog["rating"],
+      reviewType: ReviewLog["review_type"],
+      newInterval: number
+    ): ReviewLog => ({
+      id: `log-${card}-${index}`,
+      user_id: "user-1",
+      card_id: `card-${card}`,
+      deck_id: "deck-1",
+      rating,
+      review_type: reviewType,
+      previous_interval: interval,
+      new_interval: newInterval,
+      ease_factor: 2.5,
+      time_spent: 5,
+      reviewed_at: new Date(start + day * MS_PER_DAY).toISOString(),
+    });
+
+    logs.push(log(0, "medium", "new", 1));
+
+    for (let review = 1; review <= reviewsPerCard; review++) {
+      day += interval;
+      const failed = (card * 7 + review * 3) % 10 < 2;
+      const nextInterval = failed ? 1 : Math.round(interval * 2.5);
+
+      logs.push(
+        log(review, failed ? "again" : "medium", "review", nextInterval)
+      );
+      interval = nextInterval;
+    }
+  }
+
+  return logs;
+}
+
+describe("schedulerOptimizer utility", () => {
+  const logs = buildLogs(40);
+
+  it("should require enough review history", async () => {
+    await expect(
+      optimizeSchedulerParameters(buildLogs(5), "fsrs")
+    ).rejects.toThrow(`At least ${appConfig.optimizer.minReviews} reviews`);
+  });
+
+  it("should only score reviews of graduated cards", async () => {
+    const report = await optimizeSchedulerParameters(logs, "fsrs");
+
+    expect(report.reviewCount).toBe(160);
+    expect(report.actualRetention).toBeCloseTo(0.8, 1);
+  });
+
+  it("should fit a full set of bounded FSRS weights", async () => {
+    const report = await optimizeSchedulerParameters(logs, "fsrs");
+    const weights = report.parameters.fsrs!.weights;
+
+    expect(weights).toHaveLength(appConfig.fsrs.weights.length);
+    weights.forEach((weight) => expect(Number.isFinite(weight)).toBe(true));
+    expect(report.retentionAfter).toBeGreaterThan(0);
+    expect(report.retentionAfter).toBeLessThanOrEqual(1);
+    expect(report.parameters.optimized_at).toBeDefined();
+  });
+
+  it("should move SM-2 closer to the target retention", async () => {
+    const target = appConfig.fsrs.requestRetention;
+    const report = await optimizeSchedulerParameters(logs, "sm2");
+
+    expect(report.parameters.sm2).toBeDefined();
+    expect(Math.abs(report.retentionAfter - target)).toBeLessThanOrEqual(
+      Math.abs(report.retentionBefore - target)
+    );
+  });
+
+  it("should keep parameters of the other scheduler", async () => {
+    const fsrs = { weights: [...appConfig.fsrs.weights] };
+    const report = await optimizeSchedulerParameters(logs, "sm2", { fsrs });
+
+    expect(report.parameters.fsrs).toEqual(fsrs);
+  });
+});
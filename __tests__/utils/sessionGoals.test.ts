@@ -0,0 +1,178 @@
+import {
+  validateSessionGoal,
+  applySessionGoal,
+  getStudiedCounts,
+  getSessionGoalProgress,
+  getSessionEndReason,
+} from "../../src/utils/sessionGoals";
+import { appConfig } from "../../src/config/appConfig";
+import { ActiveStudySession } from "../../src/utils/types";
+import { makeCard } from "../../test-utils/cards";
+
+describe("sessionGoals utility", () => {
+  const now = new Date(2026, 2, 10, 15, 0).getTime();
+
+  const makeSession = (
+    overrides: Partial<ActiveStudySession> = {}
+  ): ActiveStudySession => ({
+    deck_id: "deck-1",
+    deck_sessions: {
+      "deck-1": {
+        session_id: "session-1",
+        cards_reviewed: 2,
+        correct_count: 1,
+        duration_seconds: 40,
+      },
+    },
+    session_type: "review",
+    current_card_index: 2,
+    cards: ["1", "2", "3", "4"].map((id) => makeCard(id)),
+    learning_queue: [],
+    session_start_time: now - 300 * 1000,
+    cards_reviewed: 4, // Single-deck counters run ahead of the session row
+    correct_count: 2,
+    ...overrides,
+  });
+
+  describe("validateSessionGoal", () => {
+    it("should accept goals within the limits", () => {
+      expect(validateSessionGoal({ type: "clear_due" })).toBeNull();
+      expect(validateSessionGoal({ type: "cards", count: 20 })).toBeNull();
+      expect(validateSessionGoal({ type: "time", minutes: 15 })).toBeNull();
+    });
+
+    it("should reject missing and fractional counts", () => {
+      expect(validateSessionGoal({ type: "cards", count: NaN })).toBe(
+        "Enter between 1 and 500 cards"
+      );
+      expect(validateSessionGoal({ type: "correct", count: 2.5 })).toBe(
+        "Enter between 1 and 500 correct answers"
+      );
+    });
+
+    it("should keep time goals within the session time limit", () => {
+      const maxMinutes = appConfig.studySession.maxSessionDuration / 60;
+
+      expect(
+        validateSessionGoal({ type: "time", minutes: maxMinutes })
+      ).toBeNull();
+      expect(
+        validateSessionGoal({ type: "time", minutes: maxMinutes + 1 })
+      ).toBe(`Enter between 1 and ${maxMinutes} minutes`);
+    });
+  });
+
+  describe("applySessionGoal", () => {
+    const cards = ["1", "2", "3"].map((id) => makeCard(id));
+
+    it("should limit the queue for a card goal", () => {
+      expect(
+        applySessionGoal(cards, { type: "cards", count: 2 }).map((c) => c.id)
+      ).toEqual(["1", "2"]);
+    });
+
+    it("should keep every card for other goals", () => {
+      expect(applySessionGoal(cards, { type: "time", minutes: 5 })).toEqual(
+        cards
+      );
+      expect(applySessionGoal(cards)).toEqual(cards);
+    });
+  });
+
+  describe("getStudiedCounts", () => {
+    it("should count review progress from the session rows", () => {
+      expect(getStudiedCounts(makeSession())).toEqual({
+        cards_reviewed: 2,
+        correct_count: 1,
+      });
+    });
+
+    it("should use the session counters for a cram", () => {
+      expect(getStudiedCounts(makeSession({ session_type: "cram" }))).toEqual({
+        cards_reviewed: 4,
+        correct_count: 2,
+      });
+    });
+  });
+
+  describe("getSessionGoalProgress", () => {
+    it("should count down a time goal", () => {
+      const progress = getSessionGoalProgress(
+        makeSession(),
+        { type: "time", minutes: 15 },
+        now
+      );
+
+      expect(progress).toEqual({
+        current: 300,
+        target: 900,
+        label: "10m left",
+      });
+    });
+
+    it("should count correct answers towards the target", () => {
+      const progress = getSessionGoalProgress(
+        makeSession(),
+        { type: "correct", count: 20 },
+        now
+      );
+
+      expect(progress.label).toBe("1 / 20 correct");
+    });
+
+    it("should include learning cards in the due cards left", () => {
+      const progress = getSessionGoalProgress(
+        makeSession({ learning_queue: [{ card: makeCard("1"), due_at: now }] }),
+        { type: "clear_due" },
+        now
+      );
+
+      expect(progress.label).toBe("3 due left");
+    });
+  });
+
+  describe("getSessionEndReason", () => {
+    it("should continue while the goal isn't met", () => {
+      const session = makeSession({ goal: { type: "time", minutes: 15 } });
+      expect(getSessionEndReason(session, now)).toBeNull();
+    });
+
+    it("should end when a time goal runs out", () => {
+      const session = makeSession({ goal: { type: "time", minutes: 5 } });
+      expect(getSessionEndReason(session, now)).toBe("goal");
+    });
+
+    it("should end when enough answers are correct", () => {
+      const session = makeSession({ goal: { type: "correct", count: 1 } });
+      expect(getSessionEndReason(session, now)).toBe("goal");
+    });
+
+    it("should finish short of a goal once the cards run out", () => {
+      const session = makeSession({
+        goal: { type: "correct", count: 10 },
+        current_card_index: 4,
+      });
+      expect(getSessionEndReason(session, now)).toBe("finished");
+    });
+
+    it("should meet a card goal by studying the whole queue", () => {
+      const session = makeSession({
+        goal: { type: "cards", count: 4 },
+        current_card_index: 4,
+      });
+      expect(getSessionEndReason(session, now)).toBe("goal");
+    });
+
+    it("should end any session at the maximum duration", () => {
+      const { maxSessionDuration } = appConfig.studySession;
+      const session = makeSession({
+        session_start_time: now - maxSessionDuration * 1000,
+      });
+
+      expect(getSessionEndReason(session, now)).toBe("time_limit");
+      expect(
+        getSessionEndReason({ ...session, session_type: "exam" }, now)
+      ).toBeNull();
+    });
+  });
+});
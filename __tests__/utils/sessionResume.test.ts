@@ -0,0 +1,239 @@
+import {
+  toSavedSession,
+  isSavedSessionStale,
+  getSavedCardsLeft,
+  getFinalSessionProgress,
+  reconcileSavedSession,
+  SessionResumeState,
+} from "../../src/utils/sessionResume";
+import {
+  ActiveStudySession,
+  SavedStudySession,
+  StudySession,
+} from "../../src/utils/types";
+import { makeCard } from "../../test-utils/cards";
+
+describe("sessionResume utility", () => {
+  const now = new Date(2026, 2, 10, 15, 0);
+
+  const makeRow = (
+    id: string,
+    overrides: Partial<StudySession> = {}
+  ): StudySession => ({
+    id,
+    user_id: "user-1",
+    deck_id: "deck-1",
+    session_type: "review",
+    cards_reviewed: 0,
+    correct_count: 0,
+    duration_seconds: 0,
+    created_at: "2026-03-10T12:00:00.000Z",
+    ...overrides,
+  });
+
+  const makeSession = (
+    overrides: Partial<ActiveStudySession> = {}
+  ): ActiveStudySession => ({
+    deck_id: "deck-1",
+    deck_sessions: {
+      "deck-1": {
+        session_id: "session-1",
+        cards_reviewed: 2,
+        correct_count: 1,
+        duration_seconds: 40,
+      },
+    },
+    session_type: "review",
+    current_card_index: 2,
+    cards: ["1", "2", "3", "4"].map((id) => makeCard(id)),
+    learning_queue: [],
+    session_start_time: now.getTime() - 300 * 1000,
+    cards_reviewed: 2,
+    correct_count: 1,
+    ...overrides,
+  });
+
+  const save = (overrides: Partial<ActiveStudySession> = {}) =>
+    toSavedSession(
+      "session-1",
+      makeSession(overrides),
+      now
+    ) as SavedStudySession;
+
+  const server = (
+    overrides: Partial<SessionResumeState> = {}
+  ): SessionResumeState => ({
+    sessions: [makeRow("session-1", { cards_reviewed: 2, correct_count: 1 })],
+    cards: ["1", "2", "3", "4"].map((id) => makeCard(id)),
+    reviews: [],
+    ...overrides,
+  });
+
+  describe("toSavedSession", () => {
+    it("should save the queue position, reviewed cards and elapsed time", () => {
+      const saved = save();
+
+      expect(saved.card_ids).toEqual(["1", "2", "3", "4"]);
+      expect(saved.current_card_index).toBe(2);
+      expect(saved.reviewed_card_ids).toEqual(["1", "2"]);
+      expect(saved.elapsed_seconds).toBe(300);
+      expect(saved.saved_at).toBe(now.toISOString());
+    });
+
+    it("should not save exams or finished sessions", () => {
+      expect(
+        toSavedSession("session-1", makeSession({ session_type: "exam" }), now)
+      ).toBeNull();
+      expect(
+        toSavedSession("session-1", makeSession({ current_card_index: 4 }), now)
+      ).toBeNull();
+    });
+
+    it("should not save a session that reached its goal", () => {
+      const session = makeSession({ goal: { type: "time", minutes: 5 } });
+      expect(toSavedSession("session-1", session, now)).toBeNull();
+    });
+
+    it("should keep the goal of a session in progress", () => {
+      expect(save({ goal: { type: "correct", count: 10 } }).goal).toEqual({
+        type: "correct",
+        count: 10,
+      });
+    });
+
+    it("should keep a finished queue with learning cards waiting", () => {
+      const saved = save({
+        current_card_index: 4,
+        learning_queue: [{ card: makeCard("2"), due_at: now.getTime() }],
+      });
+
+      expect(saved.learning_queue).toEqual([
+        { card_id: "2", due_at: now.getTime() },
+      ]);
+      expect(getSavedCardsLeft(saved)).toBe(1);
+    });
+  });
+
+  describe("isSavedSessionStale", () => {
+    it("should keep sessions from the same study day", () => {
+      expect(isSavedSessionStale(save(), now)).toBe(false);
+    });
+
+    it("should finalize sessions from an earlier study day", () => {
+      const nextDay = new Date(2026, 2, 11, 15, 0);
+      expect(isSavedSessionStale(save(), nextDay)).toBe(true);
+    });
+  });
+
+  describe("getFinalSessionProgress", () => {
+    it("should keep counters the server has moved past", () => {
+      const [progress] = getFinalSessionProgress(save(), [
+        makeRow("session-1", { cards_reviewed: 3, correct_count: 2 }),
+      ]);
+
+      expect(progress).toEqual({
+        session_id: "session-1",
+        cards_reviewed: 3,
+        correct_count: 2,
+        duration_seconds: 40,
+      });
+    });
+
+    it("should skip session rows that no longer exist", () => {
+      expect(getFinalSessionProgress(save(), [])).toEqual([]);
+    });
+
+    it("should use the session counters for a cram", () => {
+      const saved = save({
+        session_type: "cram",
+        cards_reviewed: 5,
+        correct_count: 4,
+      });
+
+      const [progress] = getFinalSessionProgress(saved, [makeRow("session-1")]);
+
+      expect(progress.cards_reviewed).toBe(5);
+      expect(progress.correct_count).toBe(4);
+      expect(progress.duration_seconds).toBe(300);
+    });
+  });
+
+  describe("reconcileSavedSession", () => {
+    it("should continue from the saved position with fresh cards", () => {
+      const fresh = makeCard("3", { ease_factor: 2.2 });
+      const session = reconcileSavedSession(
+        save(),
+        server({
+          cards: [makeCard("1"), makeCard("2"), fresh, makeCard("4")],
+        }),
+        now
+      ) as ActiveStudySession;
+
+      expect(session.current_card_index).toBe(2);
+      expect(session.cards[2]).toEqual(fresh);
+      expect(session.session_start_time).toBe(now.getTime() - 300 * 1000);
+      expect(session.cards_reviewed).toBe(2);
+    });
+
+    it("should end when only deleted, suspended and buried cards are left", () => {
+      const session = reconcileSavedSession(
+        save({ cards: ["1", "2", "3", "4", "5"].map((id) => makeCard(id)) }),
+        server({
+          cards: [
+            makeCard("1"),
+            makeCard("2"),
+            makeCard("4", { suspended: true }),
+            makeCard("5", { buried_until: "2026-03-11T04:00:00.000Z" }),
+          ],
+        }),
+        now
+      );
+
+      expect(session).toBeNull();
+    });
+
+    it("should move past cards reviewed after the save", () => {
+      const session = reconcileSavedSession(
+        save(),
+        server({
+          cards: [
+            makeCard("1"),
+            makeCard("2"),
+            makeCard("3", {
+              learning_state: "relearning",
+              next_review: "2026-03-10T15:10:00.000Z",
+            }),
+            makeCard("4"),
+          ],
+          reviews: [{ card_id: "3", rating: "again" }],
+        }),
+        now
+      ) as ActiveStudySession;
+
+      expect(session.cards.slice(2).map((card) => card.id)).toEqual(["4"]);
+      expect(session.learning_queue.map((item) => item.card.id)).toEqual(["3"]);
+      expect(session.cards_reviewed).toBe(3);
+      expect(session.correct_count).toBe(1);
+    });
+
+    it("should drop the progress of deleted session rows", () => {
+      const session = reconcileSavedSession(
+        save(),
+        server({ sessions: [] }),
+        now
+      ) as ActiveStudySession;
+
+      expect(session.deck_sessions).toEqual({});
+    });
+
+    it("should ignore review logs during a cram", () => {
+      const session = reconcileSavedSession(
+        save({ session_type: "cram" }),
+        server({ reviews: [{ card_id: "3", rating: "easy" }] }),
+        now
+      ) as ActiveStudySession;
+
+      expect(session.cards.slice(2).map((card) => card.id)).toEqual(["3", "4"]);
+    });
+  });
+});
@@ -1,7 +1,6 @@
 import {
   calculateNextReviewData,
   initializeCardReviewData,
-  estimateRetentionRate,
   calculateAverageEaseFactor,
   shouldShowCard,
   sortCardsByPriority,
@@ -199,43 +198,6 @@ describe("spacedRepAlgorithm utility", () => {
     });
   });
 
-  describe("estimateRetentionRate", () => {
-    it("should convert ease factor to percentage (1.3 = ~50%)", () => {
-      const result = estimateRetentionRate(1.3);
-
-      expect(result).toBeGreaterThanOrEqual(45);
-      expect(result).toBeLessThanOrEqual(55);
-    });
-
-    it("should convert ease factor to percentage (2.5 = ~90%)", () => {
-      const result = estimateRetentionRate(2.5);
-
-      expect(result).toBeGreaterThanOrEqual(85);
-      expect(result).toBeLessThanOrEqual(95);
-    });
-
-    it("should map minimum ease factor to ~50%", () => {
-      const result = estimateRetentionRate(1.3);
-
-      expect(result).toBeGreaterThan(40);
-    });
-
-    it("should map maximum ease factor to ~100%", () => {
-      const result = estimateRetentionRate(3.0);
-
-      expect(result).toBeGreaterThan(95);
-    });
-
-    it("should maintain monotonic increasing relationship", () => {
-      const result1 = estimateRetentionRate(1.5);
-      const result2 = estimateRetentionRate(2.0);
-      const result3 = estimateRetentionRate(2.5);
-
-      expect(result2).toBeGreaterThan(result1);
-      expect(result3).toBeGreaterThan(result2);
-    });
-  });
-
   describe("calculateAverageEaseFactor", () => {
     it("should calculate average of multiple ease factors", () => {
       const cards: CardReviewData[] = [
@@ -433,8 +395,6 @@ describe("spacedRepAlgorithm utility", () => {
       expect(stats.dueCards).toBe(1);
       expect(stats.newCards).toBe(0);
       expect(stats.averageEaseFactor).toBeGreaterThan(0);
-      expect(stats.estimatedRetention).toBeGreaterThanOrEqual(50);
-      expect(stats.estimatedRetention).toBeLessThanOrEqual(100);
     });
 
     it("should count new cards (reviewCount = 0)", () => {
@@ -473,19 +433,34 @@ describe("spacedRepAlgorithm utility", () => {
       expect(stats.averageEaseFactor).toBe(0);
     });
 
-    it("should estimate retention based on average ease factor", () => {
-      const lowEaseCards = [
-        {
-          cardId: "card-1",
-          easeFactor: 1.3,
-          interval: 1,
-          reviewCount: 1,
-          lastReviewed: new Date().toISOString(),
-          nextReview: new Date(Date.now() + 1).toISOString(),
-        },
-      ];
+    it("should measure true retention from review logs", () => {
+      const now = new Date();
+      const log = (rating: "again" | "medium", previousInterval: number) => ({
+        id: `log-${rating}-${previousInterval}`,
+        user_id: "user-1",
+        card_id: "card-1",
+        deck_id: "deck-1",
+        rating,
+        review_type: "review" as const,
+        previous_interval: previousInterval,
+        new_interval: previousInterval * 2,
+        ease_factor: 2.5,
+        time_spent: 5,
+        reviewed_at: new Date(now.getTime() - 60 * 60 * 1000).toISOString(),
+      });
 
-      const highEaseCards = [
+      const stats = calculateDeckStatistics(
+        [],
+        [log("medium", 3), log("again", 3), log("medium", 30)],
+        now
+      );
+
+      expect(stats.trueRetention[0].young.rate).toBe(50);
+      expect(stats.trueRetention[0].mature.rate).toBe(100);
+    });
+
+    it("should not report retention without review history", () => {
+      const cards = [
         {
           cardId: "card-1",
           easeFactor: 2.5,
@@ -496,12 +471,12 @@ describe("spacedRepAlgorithm utility", () => {
         },
       ];
 
-      const lowStats = calculateDeckStatistics(lowEaseCards);
-      const highStats = calculateDeckStatistics(highEaseCards);
+      const stats = calculateDeckStatistics(cards);
 
-      expect(highStats.estimatedRetention).toBeGreaterThan(
-        lowStats.estimatedRetention
-      );
+      stats.trueRetention.forEach((window) => {
+        expect(window.overall.rate).toBeNull();
+      });
+      expect(stats.predictedRetention).toBe(100);
     });
 
     it("should count all due cards correctly", () => {
@@ -580,8 +555,8 @@ describe("spacedRepAlgorithm utility", () => {
 
       const stats = calculateDeckStatistics(cards);
 
-      expect(stats.estimatedRetention).toBeGreaterThan(0);
-      expect(stats.estimatedRetention).toBeLessThanOrEqual(100);
+      expect(stats.predictedRetention).toBeGreaterThan(0);
+      expect(stats.predictedRetention).toBeLessThanOrEqual(100);
       expect(stats.averageEaseFactor).toBeGreaterThan(0);
     });
   });
@@ -0,0 +1,167 @@
+import {
+  MAX_VACATION_DAYS,
+  getVacationLength,
+  isDuringVacation,
+  isVacationPending,
+  shiftPastVacation,
+  getVacationChanges,
+  parseVacation,
+  validateVacation,
+} from "../../src/utils/vacation";
+import { getStartOfDate, getStartOfDayOffset } from "../../src/utils/dateUtils";
+import { VacationPeriod } from "../../src/utils/types";
+import { makeCard } from "../../test-utils/cards";
+
+describe("vacation utility", () => {
+  const now = new Date(2026, 2, 10, 15, 30);
+
+  // Away for three days, starting two days from now
+  const vacation: VacationPeriod = {
+    start: getStartOfDayOffset(2, now),
+    end: getStartOfDayOffset(4, now),
+  };
+
+  describe("getVacationLength", () => {
+    it("should count both the first and last day", () => {
+      expect(getVacationLength(vacation)).toBe(3);
+    });
+  });
+
+  describe("isDuringVacation", () => {
+    it("should include every hour of the last day", () => {
+      const lastEvening = new Date(getStartOfDayOffset(4, now));
+      lastEvening.setHours(23, 59);
+
+      expect(isDuringVacation(getStartOfDayOffset(2, now), vacation)).toBe(
+        true
+      );
+      expect(isDuringVacation(lastEvening, vacation)).toBe(true);
+    });
+
+    it("should exclude the days around the break", () => {
+      expect(isDuringVacation(getStartOfDayOffset(1, now), vacation)).toBe(
+        false
+      );
+      expect(isDuringVacation(getStartOfDayOffset(5, now), vacation)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("isVacationPending", () => {
+    it("should be pending until the break is over", () => {
+      expect(isVacationPending(vacation, now)).toBe(true);
+      expect(
+        isVacationPending(vacation, new Date(getStartOfDayOffset(3, now)))
+      ).toBe(true);
+      expect(
+        isVacationPending(vacation, new Date(getStartOfDayOffset(5, now)))
+      ).toBe(false);
+    });
+
+    it("should not be pending without a vacation", () => {
+      expect(isVacationPending(null, now)).toBe(false);
+      expect(isVacationPending(undefined, now)).toBe(false);
+    });
+  });
+
+  describe("shiftPastVacation", () => {
+    it("should move due dates during the break by its length", () => {
+      expect(shiftPastVacation(getStartOfDayOffset(3, now), vacation)).toBe(
+        getStartOfDayOffset(6, now)
+      );
+    });
+
+    it("should keep due dates outside the break", () => {
+      const due = getStartOfDayOffset(1, now);
+
+      expect(shiftPastVacation(due, vacation)).toBe(due);
+    });
+
+    it("should keep the time of day across a clock change", () => {
+      // Spans the autumn clock change in both Europe and North America
+      const autumnBreak: VacationPeriod = {
+        start: getStartOfDate("2026-10-24"),
+        end: getStartOfDate("2026-11-02"),
+      };
+      const due = getStartOfDate("2026-10-24");
+
+      const shifted = shiftPastVacation(due, autumnBreak);
+
+      expect(shifted).toBe(getStartOfDate("2026-11-03"));
+      expect(new Date(shifted).getHours()).toBe(new Date(due).getHours());
+      expect(isDuringVacation(shifted, autumnBreak)).toBe(false);
+    });
+  });
+
+  describe("getVacationChanges", () => {
+    it("should only change cards due during the break", () => {
+      const changes = getVacationChanges(
+        [
+          makeCard("before", { next_review: getStartOfDayOffset(1, now) }),
+          makeCard("during", { next_review: getStartOfDayOffset(2, now) }),
+          makeCard("unscheduled"),
+        ],
+        vacation
+      );
+
+      expect(changes).toEqual([
+        {
+          id: "during",
+          data: { next_review: getStartOfDayOffset(5, now) },
+        },
+      ]);
+    });
+  });
+
+  describe("parseVacation", () => {
+    it("should parse typed days", () => {
+      const parsed = parseVacation("2026-03-12", " 2026-03-14 ");
+
+      expect(parsed).not.toBeNull();
+      expect(getVacationLength(parsed as VacationPeriod)).toBe(3);
+    });
+
+    it("should reject other input", () => {
+      expect(parseVacation("", "2026-03-14")).toBeNull();
+      expect(parseVacation("2026-03-12", "next week")).toBeNull();
+      expect(parseVacation("2026-13-40", "2026-03-14")).toBeNull();
+    });
+  });
+
+  describe("validateVacation", () => {
+    it("should accept an upcoming break", () => {
+      expect(validateVacation(vacation, now)).toBeNull();
+    });
+
+    it("should accept a break starting today", () => {
+      expect(
+        validateVacation(
+          { ...vacation, start: getStartOfDayOffset(0, now) },
+          now
+        )
+      ).toBeNull();
+    });
+
+    it("should reject reversed, past and overly long breaks", () => {
+      expect(
+        validateVacation({ start: vacation.end, end: vacation.start }, now)
+      ).not.toBeNull();
+      expect(
+        validateVacation(
+          { ...vacation, start: getStartOfDayOffset(-1, now) },
+          now
+        )
+      ).not.toBeNull();
+      expect(
+        validateVacation(
+          {
+            start: vacation.start,
+            end: getStartOfDayOffset(MAX_VACATION_DAYS + 2, now),
+          },
+          now
+        )
+      ).not.toBeNull();
+    });
+  });
+});
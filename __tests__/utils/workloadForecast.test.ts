@@ -0,0 +1,95 @@
+import {
+  projectCardReviews,
+  projectWorkload,
+} from "../../src/utils/workloadForecast";
+import { Scheduler, sm2Scheduler } from "../../src/utils/scheduler";
+import { getStartOfDayOffset } from "../../src/utils/dateUtils";
+import { makeCard, makeNewCard } from "../../test-utils/cards";
+
+describe("workloadForecast utility", () => {
+  // Due in two days, then every two days with the doubling scheduler
+  const due = { interval: 2, next_review: getStartOfDayOffset(2) };
+
+  // Doubles the interval on every review
+  const doublingScheduler: Scheduler = {
+    ...sm2Scheduler,
+    calculateNextReviewData: (currentData) => ({
+      easeFactor: currentData.easeFactor,
+      interval: currentData.interval * 2,
+      nextReview: currentData.nextReview,
+      reviewCount: currentData.reviewCount + 1,
+    }),
+  };
+
+  describe("projectCardReviews", () => {
+    it("should count the due day and projected follow-ups", () => {
+      expect(
+        projectCardReviews(makeCard("1", due), 30, doublingScheduler)
+      ).toEqual([2, 6, 14]);
+    });
+
+    it("should put overdue cards on today", () => {
+      const card = makeCard("1", {
+        ...due,
+        next_review: getStartOfDayOffset(-5),
+      });
+
+      expect(projectCardReviews(card, 30, doublingScheduler)[0]).toBe(0);
+    });
+
+    it("should skip new and suspended cards", () => {
+      const newCard = makeNewCard("1");
+      const suspended = makeCard("2", { ...due, suspended: true });
+
+      expect(projectCardReviews(newCard, 30, doublingScheduler)).toEqual([]);
+      expect(projectCardReviews(suspended, 30, doublingScheduler)).toEqual([]);
+    });
+
+    it("should stop at the end of the window", () => {
+      const card = makeCard("1", {
+        ...due,
+        next_review: getStartOfDayOffset(40),
+      });
+
+      expect(projectCardReviews(card, 30, doublingScheduler)).toEqual([]);
+    });
+
+    it("should project with a real scheduler", () => {
+      const reviews = projectCardReviews(makeCard("1", due), 30, sm2Scheduler);
+
+      expect(reviews[0]).toBe(2);
+      expect(reviews.length).toBeGreaterThan(1);
+      reviews.forEach((day) => expect(day).toBeLessThan(30));
+    });
+  });
+
+  describe("projectWorkload", () => {
+    it("should total reviews per day overall and per deck", () => {
+      const forecast = projectWorkload(
+        [
+          makeCard("1", due),
+          makeCard("2", { ...due, deck_id: "deck-2" }),
+          makeCard("3", { ...due, deck_id: "deck-2", interval: 10 }),
+        ],
+        7,
+        doublingScheduler
+      );
+
+      expect(forecast.overall).toHaveLength(7);
+      expect(forecast.overall[2]).toBe(3);
+      expect(forecast.overall[6]).toBe(2);
+      expect(forecast.byDeck["deck-1"][6]).toBe(1);
+      expect(forecast.byDeck["deck-2"][2]).toBe(2);
+    });
+
+    it("should include decks with nothing due", () => {
+      const forecast = projectWorkload(
+        [makeNewCard("1")],
+        7,
+        doublingScheduler
+      );
+
+      expect(forecast.byDeck["deck-1"]).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+  });
+});
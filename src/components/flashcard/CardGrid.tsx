@@ -8,6 +8,8 @@ import {
   Dimensions,
 } from "react-native";
 import { Card as CardType } from "../../utils/types";
+import { isBuried } from "../../utils/cardState";
+import { getCardSides, isReverseCard } from "../../utils/cardDirection";
 import { colors } from "../../theme/colors";
 import { typography } from "../../theme/typography";
 import { spacing, borderRadius } from "../../theme/spacing";
@@ -18,12 +20,16 @@ const CARD_WIDTH = (SCREEN_WIDTH - spacing.md * 3) / 2;
 /**
  * CardGrid Component
  * Grid display of flashcards with preview
+ * Suspended and buried cards are dimmed and labelled
+ * Pass selectedIds to show a multi-select state (selection is owned by the
+ * parent, which toggles cards from onCardPress)
  */
 
 interface CardGridProps {
   cards: CardType[];
   onCardPress: (card: CardType) => void;
   onCardLongPress?: (card: CardType) => void;
+  selectedIds?: string[];
   testID?: string;
 }
 
@@ -31,37 +37,69 @@ export const CardGrid: React.FC<CardGridProps> = ({
   cards,
   onCardPress,
   onCardLongPress,
+  selectedIds,
   testID,
 }) => {
-  const renderCard = ({ item }: { item: CardType }) => (
-    <TouchableOpacity
-      onPress={() => onCardPress(item)}
-      onLongPress={() => onCardLongPress?.(item)}
-      style={styles.cardContainer}
-      activeOpacity={0.7}
-    >
-      <View style={styles.card}>
-        <View style={styles.cardHeader}>
-          <Text style={styles.cardLabel}>Q</Text>
-        </View>
+  const renderCard = ({ item }: { item: CardType }) => {
+    const selected = selectedIds?.includes(item.id) ?? false;
+    const stateLabel = item.suspended
+      ? "Suspended"
+      : isBuried(item)
+        ? "Buried"
+        : null;
 
-        <Text style={styles.cardQuestion} numberOfLines={4}>
-          {item.question}
-        </Text>
+    return (
+      <TouchableOpacity
+        onPress={() => onCardPress(item)}
+        onLongPress={() => onCardLongPress?.(item)}
+        style={styles.cardContainer}
+        activeOpacity={0.7}
+        testID={`card-grid-item-${item.id}`}
+      >
+        <View
+          style={[
+            styles.card,
+            stateLabel && styles.cardInactive,
+            selected && styles.cardSelected,
+          ]}
+        >
+          <View style={styles.cardHeader}>
+            {selectedIds ? (
+              <View
+                style={[styles.checkbox, selected && styles.checkboxSelected]}
+              >
+                {selected && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+            ) : (
+              <Text style={styles.cardLabel}>
+                {isReverseCard(item) ? "A" : "Q"}
+              </Text>
+            )}
+            {stateLabel && (
+              <View style={styles.stateBadge}>
+                <Text style={styles.stateText}>{stateLabel}</Text>
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.cardQuestion} numberOfLines={4}>
+            {getCardSides(item).front}
+          </Text>
 
-        <View style={styles.cardFooter}>
-          <View
-            style={[
-              styles.difficultyBadge,
-              styles[`difficulty_${item.difficulty}`],
-            ]}
-          >
-            <Text style={styles.difficultyText}>{item.difficulty}</Text>
+          <View style={styles.cardFooter}>
+            <View
+              style={[
+                styles.difficultyBadge,
+                styles[`difficulty_${item.difficulty}`],
+              ]}
+            >
+              <Text style={styles.difficultyText}>{item.difficulty}</Text>
+            </View>
           </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   if (cards.length === 0) {
     return (
@@ -79,6 +117,7 @@ export const CardGrid: React.FC<CardGridProps> = ({
       data={cards}
       renderItem={renderCard}
       keyExtractor={(item) => item.id}
+      extraData={selectedIds}
       numColumns={2}
       contentContainerStyle={styles.grid}
       columnWrapperStyle={styles.row}
@@ -112,10 +151,58 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
   },
 
+  cardInactive: {
+    opacity: 0.5,
+  },
+
+  cardSelected: {
+    opacity: 1,
+    borderColor: colors.primary.main,
+    borderWidth: 2,
+  },
+
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: borderRadius.sm,
+    borderWidth: 2,
+    borderColor: colors.surface.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  checkboxSelected: {
+    borderColor: colors.primary.main,
+    backgroundColor: colors.primary.main,
+  },
+
+  checkmark: {
+    ...typography.caption,
+    color: colors.primary.contrast,
+    fontWeight: "700",
+  },
+
   cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
     marginBottom: spacing.sm,
   },
 
+  stateBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.surface.border,
+  },
+
+  stateText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+
   cardLabel: {
     ...typography.label,
     color: colors.primary.main,
@@ -13,12 +13,14 @@ import { spacing, borderRadius } from "../../theme/spacing";
 interface DifficultySelectorProps {
   onSelect: (difficulty: ReviewDifficulty) => void;
   disabled?: boolean;
+  suggested?: ReviewDifficulty | null; // Highlighted, from a typed answer or response time
   testID?: string;
 }
 
 export const DifficultySelector: React.FC<DifficultySelectorProps> = ({
   onSelect,
   disabled = false,
+  suggested,
   testID,
 }) => {
   const difficulties: Array<{
@@ -66,12 +68,16 @@ export const DifficultySelector: React.FC<DifficultySelectorProps> = ({
             style={[
               styles.button,
               { backgroundColor: diff.color },
+              suggested === diff.value && styles.buttonSuggested,
               disabled && styles.buttonDisabled,
             ]}
             activeOpacity={0.8}
+            testID={`difficulty-${diff.value}`}
           >
             <Text style={styles.buttonLabel}>{diff.label}</Text>
-            <Text style={styles.buttonDescription}>{diff.description}</Text>
+            <Text style={styles.buttonDescription}>
+              {suggested === diff.value ? "Suggested" : diff.description}
+            </Text>
           </TouchableOpacity>
         ))}
       </View>
@@ -107,6 +113,11 @@ const styles = StyleSheet.create({
     minHeight: 64,
   },
 
+  buttonSuggested: {
+    borderWidth: 2,
+    borderColor: colors.text.primary,
+  },
+
   buttonDisabled: {
     opacity: 0.5,
   },
@@ -1,4 +1,4 @@
-import React, { useRef } from "react";
+import React, { useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -8,6 +8,9 @@ import {
   Dimensions,
 } from "react-native";
 import { Card as CardType } from "../../utils/types";
+import { diffAnswer } from "../../utils/answerGrading";
+import { getCardSides, isReverseCard } from "../../utils/cardDirection";
+import { ClozeSegment, isClozeCard, renderCloze } from "../../utils/cloze";
 import { colors } from "../../theme/colors";
 import { typography } from "../../theme/typography";
 import { spacing, borderRadius } from "../../theme/spacing";
@@ -18,12 +21,14 @@ const CARD_WIDTH = SCREEN_WIDTH - spacing.md * 4;
 /**
  * FlashcardCard Component
  * Card with 3D flip animation showing question/answer
+ * Reverse cards show the answer first; cloze cards blank the studied deletion
  */
 
 interface FlashcardCardProps {
   card: CardType;
   isFlipped: boolean;
   onFlip: () => void;
+  typedAnswer?: string; // Shown as a diff against the answer when set
   testID?: string;
 }
 
@@ -31,10 +36,30 @@ export const FlashcardCard: React.FC<FlashcardCardProps> = ({
   card,
   isFlipped,
   onFlip,
+  typedAnswer,
   testID,
 }) => {
   const flipAnimation = useRef(new Animated.Value(0)).current;
 
+  const { front, back } = getCardSides(card);
+  const reverse = isReverseCard(card);
+  const cloze = isClozeCard(card);
+
+  const clozeSegments = useMemo(() => {
+    if (!cloze) return null;
+    const index = card.cloze_index ?? 1;
+    return {
+      front: renderCloze(card.question, index, false),
+      back: renderCloze(card.question, index, true),
+    };
+  }, [cloze, card.question, card.cloze_index]);
+
+  const answerDiff = useMemo(
+    () =>
+      typedAnswer !== undefined ? diffAnswer(typedAnswer.trim(), back) : null,
+    [typedAnswer, back]
+  );
+
   React.useEffect(() => {
     Animated.spring(flipAnimation, {
       toValue: isFlipped ? 180 : 0,
@@ -49,6 +74,25 @@ export const FlashcardCard: React.FC<FlashcardCardProps> = ({
     outputRange: ["0deg", "180deg"],
   });
 
+  const renderClozeText = (segments: ClozeSegment[], revealed: boolean) => (
+    <Text style={styles.text}>
+      {segments.map((segment, index) => (
+        <Text
+          key={index}
+          style={
+            segment.active
+              ? revealed
+                ? styles.clozeAnswer
+                : styles.clozeBlank
+              : undefined
+          }
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+
   const backInterpolate = flipAnimation.interpolate({
     inputRange: [0, 180],
     outputRange: ["180deg", "360deg"],
@@ -83,8 +127,14 @@ export const FlashcardCard: React.FC<FlashcardCardProps> = ({
         ]}
       >
         <View style={styles.content}>
-          <Text style={styles.label}>Question</Text>
-          <Text style={styles.text}>{card.question}</Text>
+          <Text style={styles.label}>
+            {cloze ? "Cloze" : reverse ? "Answer" : "Question"}
+          </Text>
+          {clozeSegments ? (
+            renderClozeText(clozeSegments.front, false)
+          ) : (
+            <Text style={styles.text}>{front}</Text>
+          )}
         </View>
 
         <View style={styles.tapHint}>
@@ -104,15 +154,52 @@ export const FlashcardCard: React.FC<FlashcardCardProps> = ({
         ]}
       >
         <View style={styles.content}>
-          <Text style={styles.label}>Answer</Text>
-          <Text style={styles.text}>{card.answer}</Text>
+          {answerDiff && (
+            <View style={styles.typedAnswer} testID="typed-answer-diff">
+              <Text style={styles.label}>Your Answer</Text>
+              <Text style={styles.diffText}>
+                {answerDiff.map((segment, index) => (
+                  <Text
+                    key={index}
+                    style={
+                      segment.type === "equal"
+                        ? styles.diffEqual
+                        : segment.type === "extra"
+                          ? styles.diffExtra
+                          : styles.diffMissing
+                    }
+                  >
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+            </View>
+          )}
+          {clozeSegments ? (
+            <>
+              <Text style={styles.label}>Cloze</Text>
+              {renderClozeText(clozeSegments.back, true)}
+              {!!card.answer.trim() && (
+                <Text style={styles.clozeExtra}>{card.answer}</Text>
+              )}
+            </>
+          ) : (
+            <>
+              <Text style={styles.label}>
+                {reverse ? "Question" : "Answer"}
+              </Text>
+              <Text style={styles.text}>{back}</Text>
+            </>
+          )}
         </View>
 
-        <View style={styles.questionPreview}>
-          <Text style={styles.questionPreviewText} numberOfLines={2}>
-            Q: {card.question}
-          </Text>
-        </View>
+        {!cloze && (
+          <View style={styles.questionPreview}>
+            <Text style={styles.questionPreviewText} numberOfLines={2}>
+              {reverse ? "A" : "Q"}: {front}
+            </Text>
+          </View>
+        )}
       </Animated.View>
     </TouchableOpacity>
   );
@@ -165,6 +252,47 @@ const styles = StyleSheet.create({
     textAlign: "left",
   },
 
+  clozeBlank: {
+    color: colors.primary.main,
+    fontWeight: "700",
+  },
+
+  clozeAnswer: {
+    color: colors.primary.main,
+    fontWeight: "700",
+    textDecorationLine: "underline",
+  },
+
+  clozeExtra: {
+    ...typography.bodyRegular,
+    color: colors.text.secondary,
+    marginTop: spacing.lg,
+  },
+
+  typedAnswer: {
+    marginBottom: spacing.lg,
+  },
+
+  diffText: {
+    ...typography.bodyLarge,
+  },
+
+  diffEqual: {
+    color: colors.success.main,
+  },
+
+  // Typed but not in the answer
+  diffExtra: {
+    color: colors.error.main,
+    textDecorationLine: "line-through",
+  },
+
+  // In the answer but not typed
+  diffMissing: {
+    color: colors.warning.main,
+    textDecorationLine: "underline",
+  },
+
   tapHint: {
     alignItems: "center",
     paddingTop: spacing.md,
@@ -0,0 +1,143 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Card as CardType } from "../../utils/types";
+import Button from "../common/Button";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+
+/**
+ * LeechList Component
+ * Cards that keep being forgotten, with actions to fix them
+ */
+
+interface LeechListProps {
+  cards: CardType[];
+  onEdit: (card: CardType) => void;
+  onRewrite: (card: CardType) => void;
+  onReset: (card: CardType) => void;
+  rewritingCardId?: string | null;
+  testID?: string;
+}
+
+export const LeechList: React.FC<LeechListProps> = ({
+  cards,
+  onEdit,
+  onRewrite,
+  onReset,
+  rewritingCardId,
+  testID,
+}) => {
+  return (
+    <View style={styles.container} testID={testID}>
+      {cards.map((card) => (
+        <View key={card.id} style={styles.item}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.lapses}>
+              {card.lapses} {card.lapses === 1 ? "lapse" : "lapses"}
+            </Text>
+            {card.suspended && (
+              <View style={styles.suspendedBadge}>
+                <Text style={styles.suspendedText}>Suspended</Text>
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.question} numberOfLines={3}>
+            {card.question}
+          </Text>
+
+          <View style={styles.actions}>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={() => onEdit(card)}
+              style={styles.actionButton}
+              testID={`leech-edit-${card.id}`}
+            >
+              Edit
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={() => onRewrite(card)}
+              loading={rewritingCardId === card.id}
+              disabled={!!rewritingCardId}
+              style={styles.actionButton}
+              testID={`leech-rewrite-${card.id}`}
+            >
+              Rewrite
+            </Button>
+            <Button
+              variant="tertiary"
+              size="small"
+              onPress={() => onReset(card)}
+              style={styles.actionButton}
+              testID={`leech-reset-${card.id}`}
+            >
+              Reset
+            </Button>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+
+  item: {
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.error.main,
+    padding: spacing.md,
+  },
+
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.sm,
+  },
+
+  lapses: {
+    ...typography.label,
+    color: colors.error.light,
+    fontWeight: "600",
+  },
+
+  suspendedBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.warning.main,
+  },
+
+  suspendedText: {
+    ...typography.caption,
+    color: colors.warning.contrast,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+
+  question: {
+    ...typography.bodyRegular,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+
+  actions: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default LeechList;
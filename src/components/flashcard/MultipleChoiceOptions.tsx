@@ -0,0 +1,111 @@
+import React, { useMemo } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { buildQuizOptions } from "../../utils/quiz";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+
+/**
+ * MultipleChoiceOptions Component
+ * Shuffled answer choices for quiz mode; marks the right and wrong
+ * choice once one is picked
+ */
+
+interface MultipleChoiceOptionsProps {
+  answer: string;
+  distractors: string[];
+  selected: string | null; // Choice picked, null until answered
+  onSelect: (option: string, correct: boolean) => void;
+  disabled?: boolean;
+  testID?: string;
+}
+
+export const MultipleChoiceOptions: React.FC<MultipleChoiceOptionsProps> = ({
+  answer,
+  distractors,
+  selected,
+  onSelect,
+  disabled = false,
+  testID,
+}) => {
+  // Shuffled once per question so the order holds while answering
+  const options = useMemo(
+    () => buildQuizOptions(answer, distractors),
+    [answer, distractors]
+  );
+
+  const answered = selected !== null;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {options.map((option, index) => {
+        const isAnswer = option === answer;
+        const isSelected = option === selected;
+
+        return (
+          <TouchableOpacity
+            key={option}
+            onPress={() => onSelect(option, isAnswer)}
+            disabled={disabled || answered}
+            style={[
+              styles.option,
+              answered && isAnswer && styles.optionCorrect,
+              answered && isSelected && !isAnswer && styles.optionWrong,
+              answered && !isAnswer && !isSelected && styles.optionFaded,
+            ]}
+            activeOpacity={0.8}
+            testID={`quiz-option-${index}`}
+          >
+            <Text style={styles.optionLetter}>
+              {String.fromCharCode(65 + index)}
+            </Text>
+            <Text style={styles.optionText}>{option}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    gap: spacing.sm,
+  },
+
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    borderColor: colors.divider,
+    backgroundColor: colors.background.paper,
+  },
+
+  optionCorrect: {
+    borderColor: colors.success.main,
+  },
+
+  optionWrong: {
+    borderColor: colors.error.main,
+  },
+
+  optionFaded: {
+    opacity: 0.5,
+  },
+
+  optionLetter: {
+    ...typography.button,
+    color: colors.primary.main,
+    marginRight: spacing.md,
+  },
+
+  optionText: {
+    ...typography.bodyRegular,
+    color: colors.text.primary,
+    flex: 1,
+  },
+});
+
+export default MultipleChoiceOptions;
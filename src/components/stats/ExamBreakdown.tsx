@@ -0,0 +1,183 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Card, ExamReport, ExamScore } from "../../utils/types";
+import { getCardSides } from "../../utils/cardDirection";
+import { formatDuration } from "../../utils/dateUtils";
+import { getAverageAnswerTime } from "../../utils/exam";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+
+/**
+ * ExamBreakdown Component
+ * Exam score per deck and tag, time per question and the missed questions
+ */
+
+interface ExamBreakdownProps {
+  report: ExamReport;
+  questions: Card[];
+  deckNames: Record<string, string>; // By deck ID
+  testID?: string;
+}
+
+export const ExamBreakdown: React.FC<ExamBreakdownProps> = ({
+  report,
+  questions,
+  deckNames,
+  testID,
+}) => {
+  const cardById = new Map(questions.map((card) => [card.id, card]));
+  const tags = Object.entries(report.by_tag).sort(
+    ([, a], [, b]) => a.percent - b.percent
+  );
+
+  const renderScore = (key: string, label: string, score: ExamScore) => (
+    <View key={key} style={styles.row}>
+      <Text style={styles.rowLabel} numberOfLines={1}>
+        {label}
+      </Text>
+      <Text style={styles.rowCount}>
+        {score.correct}/{score.total}
+      </Text>
+      <Text style={styles.rowPercent}>{score.percent}%</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.sectionTitle}>By Deck</Text>
+      {Object.entries(report.by_deck).map(([deckId, score]) =>
+        renderScore(deckId, deckNames[deckId] ?? "Deck", score)
+      )}
+
+      {tags.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>By Tag</Text>
+          {tags.map(([tag, score]) => renderScore(tag, tag, score))}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Time per Question</Text>
+      <Text style={styles.hint}>
+        Average {formatDuration(getAverageAnswerTime(report))}
+      </Text>
+      {report.answers.map((answer, index) => (
+        <View key={`${answer.card_id}-${index}`} style={styles.row}>
+          <Text style={styles.rowLabel} numberOfLines={1}>
+            {index + 1}.{" "}
+            {cardById.has(answer.card_id)
+              ? getCardSides(cardById.get(answer.card_id) as Card).front
+              : "Question"}
+          </Text>
+          <Text style={answer.correct ? styles.correct : styles.missed}>
+            {answer.correct ? "✓" : "✗"}
+          </Text>
+          <Text style={styles.rowCount}>
+            {formatDuration(answer.time_seconds)}
+          </Text>
+        </View>
+      ))}
+
+      {report.missed_card_ids.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>
+            Missed ({report.missed_card_ids.length})
+          </Text>
+          {report.missed_card_ids
+            .map((cardId) => cardById.get(cardId))
+            .filter((card): card is Card => !!card)
+            .map((card) => {
+              const { front, back } = getCardSides(card);
+              return (
+                <View key={card.id} style={styles.missedItem}>
+                  <Text style={styles.missedFront}>{front}</Text>
+                  <Text style={styles.missedBack}>{back}</Text>
+                </View>
+              );
+            })}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+
+  sectionTitle: {
+    ...typography.label,
+    color: colors.primary.main,
+    textTransform: "uppercase",
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+
+  hint: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+
+  rowLabel: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    flex: 1,
+  },
+
+  rowCount: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+
+  rowPercent: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontWeight: "600",
+    minWidth: 40,
+    textAlign: "right",
+  },
+
+  correct: {
+    ...typography.bodySmall,
+    color: colors.success.main,
+  },
+
+  missed: {
+    ...typography.bodySmall,
+    color: colors.error.main,
+  },
+
+  missedItem: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+
+  missedFront: {
+    ...typography.bodyRegular,
+    color: colors.text.primary,
+  },
+
+  missedBack: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+});
+
+export default ExamBreakdown;
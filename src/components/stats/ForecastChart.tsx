@@ -0,0 +1,167 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { formatDate, getStartOfDayOffset } from "../../utils/dateUtils";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+
+/**
+ * ForecastChart Component
+ * Bar chart of reviews due per day, starting today
+ */
+
+interface ForecastChartProps {
+  values: number[]; // Reviews due per day offset from today
+  height?: number;
+  labelEvery?: number; // Days between axis labels
+  testID?: string;
+}
+
+export const ForecastChart: React.FC<ForecastChartProps> = ({
+  values,
+  height = 120,
+  labelEvery = 7,
+  testID,
+}) => {
+  const summary = useMemo(() => {
+    const total = values.reduce((sum, count) => sum + count, 0);
+    const peak = Math.max(0, ...values);
+    const peakDay = values.indexOf(peak);
+
+    return {
+      total,
+      peak,
+      peakDay,
+      average: values.length > 0 ? total / values.length : 0,
+    };
+  }, [values]);
+
+  const formatDay = (day: number) =>
+    day === 0 ? "Today" : formatDate(getStartOfDayOffset(day), "MMM d");
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.summary}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{values[0] ?? 0}</Text>
+          <Text style={styles.summaryLabel}>Today</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>
+            {summary.average.toFixed(1)}
+          </Text>
+          <Text style={styles.summaryLabel}>Per day</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{summary.peak}</Text>
+          <Text style={styles.summaryLabel}>
+            {summary.peak > 0 ? `Peak (${formatDay(summary.peakDay)})` : "Peak"}
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.bars, { height }]}>
+        {values.map((count, day) => (
+          <View key={day} style={styles.barSlot}>
+            <View
+              style={[
+                styles.bar,
+                day === summary.peakDay && summary.peak > 0 && styles.peakBar,
+                {
+                  height:
+                    summary.peak > 0
+                      ? Math.max(count > 0 ? 2 : 0, (count / summary.peak) * height)
+                      : 0,
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.axis}>
+        {values.map((_, day) => (
+          <View key={day} style={styles.barSlot}>
+            {day % labelEvery === 0 && (
+              <Text style={styles.axisLabel} numberOfLines={1}>
+                {formatDay(day)}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.total}>
+        {summary.total} reviews over the next {values.length} days
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+  },
+
+  summary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+
+  summaryItem: {
+    alignItems: "center",
+    flex: 1,
+  },
+
+  summaryValue: {
+    ...typography.h3,
+    color: colors.text.primary,
+  },
+
+  summaryLabel: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+
+  bars: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+  },
+
+  barSlot: {
+    flex: 1,
+    alignItems: "center",
+  },
+
+  bar: {
+    width: "70%",
+    borderTopLeftRadius: borderRadius.sm,
+    borderTopRightRadius: borderRadius.sm,
+    backgroundColor: colors.primary.main,
+  },
+
+  peakBar: {
+    backgroundColor: colors.warning.main,
+  },
+
+  axis: {
+    flexDirection: "row",
+    marginTop: spacing.xs,
+  },
+
+  axisLabel: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    width: 48,
+  },
+
+  total: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,115 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { RetentionRate, RetentionWindow } from "../../utils/retention";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+
+/**
+ * RetentionTable Component
+ * True retention (pass rate of reviews) per window, by card maturity
+ */
+
+interface RetentionTableProps {
+  windows: RetentionWindow[];
+  predictedRetention?: number | null; // Average chance of recall now (%)
+  testID?: string;
+}
+
+const ROWS: { key: "young" | "mature" | "overall"; label: string }[] = [
+  { key: "young", label: "Young" },
+  { key: "mature", label: "Mature" },
+  { key: "overall", label: "Total" },
+];
+
+const formatRate = (rate: RetentionRate) =>
+  rate.rate === null ? "—" : `${rate.rate}%`;
+
+export const RetentionTable: React.FC<RetentionTableProps> = ({
+  windows,
+  predictedRetention,
+  testID,
+}) => {
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.row}>
+        <Text style={[styles.cell, styles.labelCell]} />
+        {windows.map((window) => (
+          <Text key={window.days} style={[styles.cell, styles.headerCell]}>
+            {window.days} days
+          </Text>
+        ))}
+      </View>
+
+      {ROWS.map(({ key, label }) => (
+        <View key={key} style={styles.row}>
+          <Text style={[styles.cell, styles.labelCell]}>{label}</Text>
+          {windows.map((window) => (
+            <View key={window.days} style={styles.cell}>
+              <Text style={styles.rateText}>{formatRate(window[key])}</Text>
+              <Text style={styles.countText}>
+                {window[key].passed}/{window[key].total}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {predictedRetention !== undefined && (
+        <Text style={styles.predicted}>
+          {predictedRetention === null
+            ? "No graduated cards to predict retention for"
+            : `Predicted retention right now: ${predictedRetention}%`}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.xs,
+  },
+
+  cell: {
+    flex: 1,
+    alignItems: "center",
+    textAlign: "center",
+  },
+
+  labelCell: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: "left",
+  },
+
+  headerCell: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+
+  rateText: {
+    ...typography.h3,
+    color: colors.text.primary,
+  },
+
+  countText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+
+  predicted: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+    textAlign: "center",
+  },
+});
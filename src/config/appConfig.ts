@@ -1,4 +1,5 @@
 import { env } from "./env";
+import { LeechAction, SchedulerType } from "../utils/types";
 
 /**
  * Application-wide configuration
@@ -18,6 +19,8 @@ export const appConfig = {
     timeout: 30000, // 30 seconds
     retryAttempts: 3,
     retryDelay: 1000, // 1 second
+    batchSize: 100, // Rows written per request in bulk updates
+    maxConcurrentRequests: 4, // Bulk update requests in flight at once
   },
 
   // Supabase Configuration
@@ -65,14 +68,80 @@ export const appConfig = {
     defaultSessionSize: 20, // Number of cards per session
     maxSessionDuration: 3600, // 1 hour in seconds
     autoSaveInterval: 30000, // 30 seconds
+    defaultNewCardsPerDay: 20, // Per-deck limit on first-time cards
+    defaultMaxReviewsPerDay: 200, // Per-deck limit on review cards
+    forecastDays: 30, // Days covered by the workload forecast
+    maxUndoDepth: 10, // Reviews that can be undone, most recent first
+    goals: {
+      defaultMinutes: 15, // Default length of a time goal
+      defaultCorrectCount: 20, // Default target of a correct-answers goal
+      maxCount: 500, // Largest card or correct-answers goal
+    },
+    catchUp: {
+      minBacklog: 20, // Overdue cards before the catch-up planner is offered
+      reviewsPerDay: 50, // Extra backlog reviews suggested per day
+      maxDays: 30, // Longest catch-up plan
+    },
+    cram: {
+      againGap: 3, // Cards shown before a card answered "again" comes back
+      hardGap: 8, // Cards shown before a card answered "hard" comes back
+      lowestEaseCount: 20, // Default size of a lowest-ease cram
+    },
+    exam: {
+      defaultQuestionCount: 20,
+      maxQuestionCount: 200,
+      defaultTimeLimitMinutes: 15,
+      maxTimeLimitMinutes: 180,
+    },
+    // Minimum similarity (0-1) of a typed answer for each suggested rating
+    typedAnswer: {
+      easyThreshold: 1, // Exact match once case, punctuation and accents are ignored
+      mediumThreshold: 0.85,
+      hardThreshold: 0.6, // Anything lower suggests "again"
+    },
+    quiz: {
+      optionCount: 4, // Choices per question, including the right answer
+    },
+    // Rating suggested from the time taken to reveal an answer
+    responseTime: {
+      sampleSize: 200, // Recent reviews the baseline is measured from
+      minSamples: 20, // Timed correct answers needed before suggesting
+      maxResponseMs: 120000, // Longer answers are left out of the baseline
+      fastRatio: 0.5, // At most this fraction of the baseline suggests "easy"
+      slowRatio: 2.5, // At least this multiple of the baseline suggests "hard"
+    },
   },
 
   // Spaced Repetition Configuration (SM-2 Algorithm)
   spacedRepetition: {
+    defaultScheduler: "sm2" as SchedulerType,
     minEaseFactor: 1.3,
     maxEaseFactor: 2.5,
     defaultEaseFactor: 2.5,
     easyBonus: 1.3,
+    easeDeltas: {
+      hard: -0.15, // Show more often
+      medium: 0,
+      easy: 0.1, // Show less often
+    },
+    learningSteps: [1, 10], // Minutes between steps for new cards
+    relearningSteps: [10], // Minutes between steps for lapsed cards
+    learnAheadMinutes: 20, // Show learning cards early when nothing else is due
+    leechThreshold: 8, // Lapses before a card is flagged as a leech
+    leechAction: "tag" as LeechAction, // "suspend" also removes leeches from study
+    burySiblings: true, // Hide sibling cards for the rest of the day after a review
+    dayRolloverHour: 4, // Local hour a new study day starts (reviews at 1am count for the day before)
+    fuzz: {
+      enabled: true,
+      minInterval: 2.5, // Days; shorter intervals are never fuzzed
+      loadBalance: true, // Prefer the least-loaded day in the fuzz window
+      // Fraction of the interval (within each band) added to the window
+      ranges: [
+        { start: 2.5, end: 7, factor: 0.15 },
+        { start: 7, end: 20, factor: 0.1 },
+        { start: 20, end: Infinity, factor: 0.05 },
+      ],
+    },
     intervals: {
       again: 1, // Review again in 1 day
       hard: 1.2, // Review in 1.2 days
@@ -81,6 +150,30 @@ export const appConfig = {
     },
   },
 
+  // Scheduler Optimizer Configuration (fits parameters to review history)
+  optimizer: {
+    minReviews: 100, // Recall outcomes needed before fitting
+    maxReviews: 5000, // Most recent review logs used for fitting
+    maxIterations: 40, // Coordinate descent passes
+  },
+
+  // Statistics Configuration
+  statistics: {
+    matureIntervalDays: 21, // Cards reviewed at this interval or longer are mature
+    retentionWindows: [7, 30], // Days covered by each true retention window
+  },
+
+  // FSRS Configuration (alternative scheduler)
+  fsrs: {
+    requestRetention: 0.9, // Target probability of recall at review time
+    maximumInterval: 36500, // 100 years in days
+    // Default FSRS-4.5 weights (w0-w16)
+    weights: [
+      0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+      0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+    ],
+  },
+
   // Storage Configuration
   storage: {
     cacheExpiry: 86400000, // 24 hours in milliseconds
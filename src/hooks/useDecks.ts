@@ -6,6 +6,7 @@ import {
   createDeck,
   updateDeck,
   deleteDeck,
+  fetchDailyLimitStatus,
   selectAllDecks,
   selectDeckById,
   selectDeckLoading,
@@ -98,6 +99,26 @@ export function useDecks() {
     [dispatch]
   );
 
+  /**
+   * Assign an options preset to a deck (null = built-in defaults)
+   */
+  const handleAssignPreset = useCallback(
+    async (deckId: string, presetId: string | null) => {
+      try {
+        logger.logUserAction("assign_deck_preset", { deckId, presetId });
+        const result = await dispatch(
+          updateDeck({ deckId, presetId })
+        ).unwrap();
+        dispatch(fetchDailyLimitStatus(deckId));
+        return result;
+      } catch (err) {
+        logger.error("Failed to assign preset", { error: err, deckId });
+        throw err;
+      }
+    },
+    [dispatch]
+  );
+
   /**
    * Delete deck
    */
@@ -140,6 +161,7 @@ export function useDecks() {
     loadDeck,
     createDeck: handleCreateDeck,
     updateDeck: handleUpdateDeck,
+    assignPreset: handleAssignPreset,
     deleteDeck: handleDeleteDeck,
     clearError: handleClearError,
     getDeckById: (deckId: string) => useAppSelector(selectDeckById(deckId)),
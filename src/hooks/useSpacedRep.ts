@@ -8,9 +8,17 @@ import {
   selectReviewStats,
   selectAverageEaseFactor,
 } from "../store/slices/spacedRepSlice";
+import {
+  selectScheduler,
+  selectSchedulerParameters,
+} from "../store/slices/settingsSlice";
 import { ReviewDifficulty, Card } from "../utils/types";
 import { CardReviewData } from "../utils/spacedRepAlgorithm";
-import { formatDueDate } from "../utils/dateUtils";
+import {
+  formatDueDate,
+  getDaysBetween,
+  isCardDue as isDue,
+} from "../utils/dateUtils";
 import { logger } from "../services/logger";
 
 /**
@@ -25,6 +33,8 @@ export function useSpacedRep() {
   const currentInterval = useAppSelector(selectCurrentInterval);
   const reviewStats = useAppSelector(selectReviewStats);
   const averageEaseFactor = useAppSelector(selectAverageEaseFactor);
+  const scheduler = useAppSelector(selectScheduler);
+  const schedulerParameters = useAppSelector(selectSchedulerParameters);
 
   /**
    * Calculate next review for a card
@@ -33,10 +43,12 @@ export function useSpacedRep() {
     (card: Card, difficulty: ReviewDifficulty) => {
       const currentData: CardReviewData = {
         easeFactor: card.ease_factor,
-        interval: currentInterval,
+        interval: card.interval,
         reviewCount: card.review_count,
         lastReviewed: card.last_reviewed || new Date().toISOString(),
         nextReview: card.next_review || new Date().toISOString(),
+        stability: card.stability,
+        fsrsDifficulty: card.fsrs_difficulty,
       };
 
       dispatch(
@@ -44,6 +56,8 @@ export function useSpacedRep() {
           cardId: card.id,
           currentData,
           difficulty,
+          scheduler,
+          parameters: schedulerParameters,
         })
       );
 
@@ -54,7 +68,7 @@ export function useSpacedRep() {
         newEaseFactor: currentEaseFactor,
       });
     },
-    [dispatch, currentEaseFactor, currentInterval]
+    [dispatch, currentEaseFactor, scheduler, schedulerParameters]
   );
 
   /**
@@ -68,10 +82,7 @@ export function useSpacedRep() {
    * Check if card is due
    */
   const isCardDue = useCallback((card: Card) => {
-    if (!card.next_review) return true;
-    const dueDate = new Date(card.next_review);
-    const now = new Date();
-    return dueDate <= now;
+    return isDue(card.next_review ?? null);
   }, []);
 
   /**
@@ -79,11 +90,7 @@ export function useSpacedRep() {
    */
   const getDaysUntilReview = useCallback((card: Card) => {
     if (!card.next_review) return 0;
-    const dueDate = new Date(card.next_review);
-    const now = new Date();
-    const diffTime = dueDate.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return Math.max(0, diffDays);
+    return Math.max(0, getDaysBetween(new Date(), card.next_review));
   }, []);
 
   /**
@@ -145,6 +152,7 @@ export function useSpacedRep() {
   }, []);
 
   return {
+    scheduler,
     currentEaseFactor,
     nextReviewDate,
     currentInterval,
@@ -1,20 +1,40 @@
 import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
 import { useAppDispatch, useAppSelector } from "../store";
 import {
   startStudySession,
+  startMultiDeckSession,
+  startCramSession,
+  startExamSession,
   recordCardReview,
+  recordCramAnswer,
+  undoLastReview,
+  persistActiveSession,
+  resumeSavedSession,
+  answerExamCard,
+  finishExam,
+  saveDeckProgress,
   advanceToNextCard,
+  releaseDueLearningCards,
   incrementCorrectCount,
   endStudySession,
   selectActiveSession,
+  selectSessionId,
   selectCurrentCard,
   selectSessionProgress,
   selectIsSessionActive,
+  selectCanUndoReview,
   selectStudyLoading,
   selectStudyError,
 } from "../store/slices/studySlice";
-import { ReviewDifficulty } from "../utils/types";
+import {
+  CramFilter,
+  ExamConfig,
+  ReviewDifficulty,
+  SessionGoal,
+} from "../utils/types";
 import { logger } from "../services/logger";
+import { appConfig } from "../config/appConfig";
 
 /**
  * useStudySession Hook
@@ -24,25 +44,43 @@ export function useStudySession() {
   const dispatch = useAppDispatch();
 
   const activeSession = useAppSelector(selectActiveSession);
+  const sessionId = useAppSelector(selectSessionId);
   const currentCard = useAppSelector(selectCurrentCard);
   const progress = useAppSelector(selectSessionProgress);
   const isActive = useAppSelector(selectIsSessionActive);
+  const canUndo = useAppSelector(selectCanUndoReview);
   const loading = useAppSelector(selectStudyLoading);
   const error = useAppSelector(selectStudyError);
 
   const [cardStartTime, setCardStartTime] = useState<number>(Date.now());
-  const [isAnswerRevealed, setIsAnswerRevealed] = useState(false);
+  // When the current card's answer was first revealed
+  const [revealedAt, setRevealedAt] = useState<number | null>(null);
+
+  // Time taken to reveal the current card's answer
+  const responseTimeMs =
+    revealedAt !== null ? Math.max(0, revealedAt - cardStartTime) : null;
 
   /**
-   * Start new study session
+   * Start new study session (a cram session when a filter is given)
+   * A cram over listed cards needs no deck; goals only apply to reviews
    */
   const startSession = useCallback(
-    async (deckId: string) => {
+    async (
+      deckId: string | undefined,
+      cram?: CramFilter,
+      goal?: SessionGoal
+    ) => {
       try {
         logger.logUserAction("start_study_session", { deckId });
-        await dispatch(startStudySession(deckId)).unwrap();
+        if (cram) {
+          await dispatch(startCramSession({ deckId, filter: cram })).unwrap();
+        } else if (deckId) {
+          await dispatch(startStudySession({ deckId, goal })).unwrap();
+        } else {
+          throw new Error("A deck is required to study");
+        }
         setCardStartTime(Date.now());
-        setIsAnswerRevealed(false);
+        setRevealedAt(null);
         logger.logUserAction("study_session_started");
       } catch (err) {
         logger.error("Failed to start study session", { error: err });
@@ -52,11 +90,104 @@ export function useStudySession() {
     [dispatch]
   );
 
+  /**
+   * Start a session across several decks (every deck when none are given)
+   */
+  const startMultiDeckSessionAction = useCallback(
+    async (deckIds?: string[]) => {
+      try {
+        await dispatch(startMultiDeckSession(deckIds)).unwrap();
+        setCardStartTime(Date.now());
+        setRevealedAt(null);
+      } catch (err) {
+        logger.error("Failed to start cross-deck session", { error: err });
+        throw err;
+      }
+    },
+    [dispatch]
+  );
+
+  /**
+   * Resume the session saved before the app closed
+   * Returns the restored session (for its counters and start time)
+   */
+  const resumeSession = useCallback(async () => {
+    try {
+      const result = await dispatch(resumeSavedSession()).unwrap();
+      setCardStartTime(Date.now());
+      setRevealedAt(null);
+      logger.logUserAction("study_session_resumed", {
+        sessionId: result.sessionId,
+      });
+      return result.session;
+    } catch (err) {
+      logger.error("Failed to resume study session", { error: err });
+      throw err;
+    }
+  }, [dispatch]);
+
+  /**
+   * Start a timed exam
+   */
+  const startExamSessionAction = useCallback(
+    async (config: ExamConfig) => {
+      try {
+        await dispatch(startExamSession(config)).unwrap();
+        setCardStartTime(Date.now());
+        setRevealedAt(null);
+      } catch (err) {
+        logger.error("Failed to start exam", { error: err });
+        throw err;
+      }
+    },
+    [dispatch]
+  );
+
+  /**
+   * Answer the current exam question and move on
+   */
+  const answerExamQuestion = useCallback(
+    (correct: boolean) => {
+      if (!activeSession?.exam || !currentCard) {
+        logger.warn("No active exam or current question");
+        return;
+      }
+
+      const timeSeconds = Math.floor((Date.now() - cardStartTime) / 1000);
+      dispatch(answerExamCard({ correct, timeSeconds }));
+      setCardStartTime(Date.now());
+      setRevealedAt(null);
+
+      logger.logUserAction("exam_question_answered", {
+        cardId: currentCard.id,
+        correct,
+        timeSeconds,
+      });
+    },
+    [dispatch, activeSession, currentCard, cardStartTime]
+  );
+
+  /**
+   * Finish the exam (time ran out, every question answered, or ended early)
+   */
+  const finishExamAction = useCallback(
+    async (timedOut: boolean) => {
+      try {
+        await dispatch(finishExam({ timedOut })).unwrap();
+      } catch (err) {
+        // The report is still shown; only saving it failed
+        logger.error("Failed to save exam results", { error: err });
+      }
+    },
+    [dispatch]
+  );
+
   /**
    * Reveal answer
    */
   const revealAnswer = useCallback(() => {
-    setIsAnswerRevealed(true);
+    // Flipping the card back and forth keeps the first reveal
+    setRevealedAt((at) => at ?? Date.now());
     logger.logUserAction("answer_revealed", {
       cardId: currentCard?.id,
     });
@@ -67,12 +198,21 @@ export function useStudySession() {
    */
   const reviewCard = useCallback(
     async (difficulty: ReviewDifficulty) => {
-      if (!activeSession || !currentCard) {
+      if (!activeSession || !sessionId || !currentCard) {
         logger.warn("No active session or current card");
         return;
       }
 
       try {
+        // Cram answers never reach the scheduler
+        if (activeSession.session_type === "cram") {
+          await dispatch(recordCramAnswer(difficulty)).unwrap();
+          setCardStartTime(Date.now());
+          setRevealedAt(null);
+          logger.logUserAction("card_crammed", { difficulty });
+          return;
+        }
+
         const timeSpent = Math.floor((Date.now() - cardStartTime) / 1000); // seconds
 
         logger.logUserAction("review_card", {
@@ -81,16 +221,25 @@ export function useStudySession() {
           timeSpent,
         });
 
+        // Reviews are logged against the session row of the card's deck
+        const deckSessionId =
+          activeSession.deck_sessions[currentCard.deck_id]?.session_id ??
+          sessionId;
+
         // Record review
-        await dispatch(
+        const result = await dispatch(
           recordCardReview({
-            sessionId: activeSession.deck_id, // Using deck_id as session identifier
+            sessionId: deckSessionId,
             cardId: currentCard.id,
             difficulty,
             timeSpent,
+            responseTimeMs: responseTimeMs ?? undefined,
           })
         ).unwrap();
 
+        // Saving progress is best-effort; the review itself is recorded
+        dispatch(saveDeckProgress(currentCard.deck_id));
+
         // Increment correct count for easy/medium
         if (difficulty === "easy" || difficulty === "medium") {
           dispatch(incrementCorrectCount());
@@ -99,26 +248,55 @@ export function useStudySession() {
         // Advance to next card
         dispatch(advanceToNextCard());
 
+        // Bring back any learning cards whose step is due
+        dispatch(releaseDueLearningCards(Date.now()));
+
         // Reset for next card
         setCardStartTime(Date.now());
-        setIsAnswerRevealed(false);
+        setRevealedAt(null);
 
         logger.logUserAction("card_reviewed", { difficulty });
+
+        return result;
       } catch (err) {
         logger.error("Failed to review card", { error: err });
         throw err;
       }
     },
-    [dispatch, activeSession, currentCard, cardStartTime]
+    [
+      dispatch,
+      activeSession,
+      sessionId,
+      currentCard,
+      cardStartTime,
+      responseTimeMs,
+    ]
   );
 
+  /**
+   * Undo the last review and show its card again
+   */
+  const undoReview = useCallback(async () => {
+    try {
+      await dispatch(undoLastReview()).unwrap();
+      setCardStartTime(Date.now());
+      setRevealedAt(null);
+      logger.logUserAction("review_undone");
+    } catch (err) {
+      logger.error("Failed to undo review", { error: err });
+      throw err;
+    }
+  }, [dispatch]);
+
   /**
    * End study session
    */
   const endSession = useCallback(() => {
     logger.logUserAction("end_study_session");
     dispatch(endStudySession());
-    setIsAnswerRevealed(false);
+    // Nothing is left to resume
+    dispatch(persistActiveSession());
+    setRevealedAt(null);
   }, [dispatch]);
 
   /**
@@ -141,7 +319,7 @@ export function useStudySession() {
    */
   const isSessionComplete = useCallback(() => {
     if (!progress) return false;
-    return progress.current > progress.total;
+    return progress.current > progress.total && progress.learningCount === 0;
   }, [progress]);
 
   /**
@@ -152,12 +330,37 @@ export function useStudySession() {
     return Math.round((progress.correctCount / progress.cardsReviewed) * 100);
   }, [progress]);
 
+  /**
+   * Save the session periodically and when the app goes to the background,
+   * so it can be resumed if the app is closed
+   */
+  useEffect(() => {
+    if (!isActive) return;
+
+    const timer = setInterval(() => {
+      dispatch(persistActiveSession());
+    }, appConfig.studySession.autoSaveInterval);
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") {
+        dispatch(persistActiveSession());
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+      // Also saves the finished state (clearing it) when a session completes
+      dispatch(persistActiveSession());
+    };
+  }, [dispatch, isActive]);
+
   /**
    * Reset answer state when card changes
    */
   useEffect(() => {
     if (currentCard) {
-      setIsAnswerRevealed(false);
+      setRevealedAt(null);
       setCardStartTime(Date.now());
     }
   }, [currentCard?.id]);
@@ -167,12 +370,20 @@ export function useStudySession() {
     currentCard,
     progress,
     isActive,
+    canUndo,
     loading,
     error,
-    isAnswerRevealed,
+    isAnswerRevealed: revealedAt !== null,
+    responseTimeMs,
     startSession,
+    resumeSession,
+    startMultiDeckSession: startMultiDeckSessionAction,
+    startExamSession: startExamSessionAction,
+    answerExamQuestion,
+    finishExam: finishExamAction,
     revealAnswer,
     reviewCard,
+    undoReview,
     endSession,
     getSessionDuration,
     getCurrentCardTime,
@@ -6,6 +6,9 @@ import { LibraryNavigator, LibraryStackParamList } from "./LibraryNavigator";
 import { SettingsNavigator, SettingsStackParamList } from "./SettingsNavigator";
 import TutorChatScreen from "../screens/tutor/TutorChatScreen";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useAppSelector } from "../store";
+import { selectSavedSession } from "../store/slices/studySlice";
+import { isSavedSessionStale } from "../utils/sessionResume";
 
 export type AppBottomTabParamList = {
   CaptureTab: {
@@ -24,9 +27,17 @@ const Tab = createBottomTabNavigator<AppBottomTabParamList>();
 
 export const AppNavigator: React.FC = () => {
   const theme = useTheme();
+  const savedSession = useAppSelector(selectSavedSession);
+
+  // Open on the library, where resuming an unfinished session is offered
+  const initialRouteName =
+    savedSession && !isSavedSessionStale(savedSession)
+      ? "LibraryTab"
+      : "CaptureTab";
 
   return (
     <Tab.Navigator
+      initialRouteName={initialRouteName}
       screenOptions={{
         headerShown: false,
         tabBarActiveTintColor: "#0ea5e9",
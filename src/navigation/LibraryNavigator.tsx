@@ -3,6 +3,8 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import DecksListScreen from "../screens/library/DecksListScreen";
 import DeckDetailScreen from "../screens/library/DeckDetailScreen";
 import StudyModeScreen from "../screens/library/StudyModeScreen";
+import StatisticsScreen from "../screens/library/StatisticsScreen";
+import DeckOptionsScreen from "../screens/library/DeckOptionsScreen";
 
 export type LibraryStackParamList = {
   DecksList: undefined;
@@ -12,6 +14,10 @@ export type LibraryStackParamList = {
   StudyMode: {
     deckId: string;
   };
+  Statistics: undefined;
+  DeckOptions: {
+    deckId: string;
+  };
 };
 
 const Stack = createNativeStackNavigator<LibraryStackParamList>();
@@ -40,6 +46,20 @@ export const LibraryNavigator: React.FC = () => {
           gestureDirection: "vertical",
         }}
       />
+      <Stack.Screen
+        name="Statistics"
+        component={StatisticsScreen}
+        options={{
+          presentation: "card",
+        }}
+      />
+      <Stack.Screen
+        name="DeckOptions"
+        component={DeckOptionsScreen}
+        options={{
+          presentation: "card",
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -17,6 +17,7 @@ import {
   generateFlashcards,
 } from "../../services/ai/cardGeneration";
 import { appConfig } from "../../config/appConfig";
+import { getClozeNumbers, stripCloze } from "../../utils/cloze";
 import Button from "../../components/common/Button";
 import Card from "../../components/common/Card";
 import { colors } from "../../theme/colors";
@@ -43,7 +44,7 @@ export const CardGenerationScreen: React.FC = () => {
   const route = useRoute<CardGenerationScreenRouteProp>();
   const dispatch = useAppDispatch();
 
-  const { ocrText, deckId } = route.params;
+  const { ocrText, deckId, cardType = "basic" } = route.params;
 
   const [cards, setCards] = useState<GeneratedCard[]>([]);
   const [isGenerating, setIsGenerating] = useState(true);
@@ -81,6 +82,7 @@ export const CardGenerationScreen: React.FC = () => {
 
       logger.logUserAction("card_generation_started", {
         textLength: ocrText.length,
+        cardType,
       });
 
       const generatedCards: GeneratedCard[] = [];
@@ -88,13 +90,17 @@ export const CardGenerationScreen: React.FC = () => {
 
       if (appConfig.gemini.streamingEnabled) {
         // Stream cards as they're generated
-        for await (const card of generateFlashcardsStream(ocrText, cardCount)) {
+        for await (const card of generateFlashcardsStream(
+          ocrText,
+          cardCount,
+          cardType
+        )) {
           generatedCards.push(card);
           updateUIWithNewCard(card, generatedCards.length, cardCount);
         }
       } else {
         // Generate all cards at once
-        const allCards = await generateFlashcards(ocrText, cardCount);
+        const allCards = await generateFlashcards(ocrText, cardCount, cardType);
         generatedCards.push(...allCards);
         setCards([...generatedCards]);
         setProgress(100);
@@ -204,13 +210,31 @@ export const CardGenerationScreen: React.FC = () => {
                 <Text style={styles.cardNumber}>Card {index + 1}</Text>
               </View>
 
-              <View style={styles.cardContent}>
-                <Text style={styles.label}>Question:</Text>
-                <Text style={styles.question}>{card.question}</Text>
-
-                <Text style={styles.label}>Answer:</Text>
-                <Text style={styles.answer}>{card.answer}</Text>
-              </View>
+              {card.card_type === "cloze" ? (
+                <View style={styles.cardContent}>
+                  <Text style={styles.label}>
+                    Cloze ({getClozeNumbers(card.question).length} cards):
+                  </Text>
+                  <Text style={styles.question}>
+                    {stripCloze(card.question)}
+                  </Text>
+
+                  {!!card.answer && (
+                    <>
+                      <Text style={styles.label}>Extra:</Text>
+                      <Text style={styles.answer}>{card.answer}</Text>
+                    </>
+                  )}
+                </View>
+              ) : (
+                <View style={styles.cardContent}>
+                  <Text style={styles.label}>Question:</Text>
+                  <Text style={styles.question}>{card.question}</Text>
+
+                  <Text style={styles.label}>Answer:</Text>
+                  <Text style={styles.answer}>{card.answer}</Text>
+                </View>
+              )}
             </Card>
           </Animated.View>
         ))}
@@ -10,6 +10,7 @@ import {
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { CaptureStackParamList, GeneratedCard } from "../../utils/types";
+import { getClozeNumbers, hasCloze } from "../../utils/cloze";
 import { useAppDispatch } from "../../store";
 import { createMultipleCards } from "../../store/slices/cardSlice";
 import { createDeck } from "../../store/slices/deckSlice";
@@ -62,6 +63,14 @@ export const CardReviewScreen: React.FC = () => {
   const handleSaveEdit = () => {
     if (!editingCard) return;
 
+    if (editingCard.card_type === "cloze" && !hasCloze(editingCard.question)) {
+      Alert.alert(
+        "Invalid Cloze",
+        "Mark at least one deletion, for example {{c1::term}}"
+      );
+      return;
+    }
+
     setCards((prev) =>
       prev.map((c) => (c.tempId === editingCard.tempId ? editingCard : c))
     );
@@ -89,6 +98,44 @@ export const CardReviewScreen: React.FC = () => {
     ]);
   };
 
+  /**
+   * Toggle creating a reverse card (answer shown first) for a card
+   */
+  const handleToggleReverse = (card: GeneratedCard) => {
+    setCards((prev) =>
+      prev.map((c) =>
+        c.tempId === card.tempId ? { ...c, reversible: !c.reversible } : c
+      )
+    );
+  };
+
+  /**
+   * Create reverse cards for every Q&A card, or for none if all have them
+   */
+  const handleToggleReverseAll = () => {
+    const reversible = !allReversible;
+    setCards((prev) =>
+      prev.map((c) => (c.card_type === "cloze" ? c : { ...c, reversible }))
+    );
+    logger.logUserAction("reverse_all_toggled", { reversible });
+  };
+
+  // Cloze cards can't be reversed; each deletion is studied separately
+  const basicCards = cards.filter((c) => c.card_type !== "cloze");
+  const allReversible =
+    basicCards.length > 0 && basicCards.every((c) => c.reversible);
+  const reverseCount = basicCards.filter((c) => c.reversible).length;
+  const studyItemCount = cards.reduce(
+    (count, c) =>
+      count +
+      (c.card_type === "cloze"
+        ? getClozeNumbers(c.question).length
+        : c.reversible
+          ? 2
+          : 1),
+    0
+  );
+
   /**
    * Save cards
    */
@@ -161,6 +208,8 @@ export const CardReviewScreen: React.FC = () => {
       logger.logUserAction("saving_cards_to_deck", {
         deckId: targetDeckId,
         cardCount: cards.length,
+        reverseCount,
+        studyItemCount,
       });
 
       // Convert to card format
@@ -168,6 +217,8 @@ export const CardReviewScreen: React.FC = () => {
         question: card.question,
         answer: card.answer,
         difficulty: "medium" as const,
+        reversible: card.card_type !== "cloze" && !!card.reversible,
+        cardType: card.card_type ?? "basic",
       }));
 
       // Save cards
@@ -185,7 +236,7 @@ export const CardReviewScreen: React.FC = () => {
       dispatch(
         showToast({
           type: "success",
-          message: `${cards.length} cards saved successfully!`,
+          message: `${studyItemCount} cards saved successfully!`,
         })
       );
 
@@ -218,6 +269,21 @@ export const CardReviewScreen: React.FC = () => {
       <View style={styles.cardHeader}>
         <Text style={styles.cardNumber}>Card {index + 1}</Text>
         <View style={styles.cardActions}>
+          {item.card_type !== "cloze" && (
+            <TouchableOpacity
+              onPress={() => handleToggleReverse(item)}
+              testID={`reverse-toggle-${index}`}
+            >
+              <Text
+                style={[
+                  styles.actionText,
+                  !item.reversible && styles.inactiveText,
+                ]}
+              >
+                {item.reversible ? "⇄ Reverse" : "⇄ Add Reverse"}
+              </Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity onPress={() => handleEditCard(item)}>
             <Text style={styles.actionText}>✏️ Edit</Text>
           </TouchableOpacity>
@@ -229,13 +295,29 @@ export const CardReviewScreen: React.FC = () => {
         </View>
       </View>
 
-      <View style={styles.cardContent}>
-        <Text style={styles.label}>Q:</Text>
-        <Text style={styles.question}>{item.question}</Text>
+      {item.card_type === "cloze" ? (
+        <View style={styles.cardContent}>
+          <Text style={styles.label}>
+            Cloze ({getClozeNumbers(item.question).length} cards):
+          </Text>
+          <Text style={styles.question}>{item.question}</Text>
+
+          {!!item.answer && (
+            <>
+              <Text style={styles.label}>Extra:</Text>
+              <Text style={styles.answer}>{item.answer}</Text>
+            </>
+          )}
+        </View>
+      ) : (
+        <View style={styles.cardContent}>
+          <Text style={styles.label}>Q:</Text>
+          <Text style={styles.question}>{item.question}</Text>
 
-        <Text style={styles.label}>A:</Text>
-        <Text style={styles.answer}>{item.answer}</Text>
-      </View>
+          <Text style={styles.label}>A:</Text>
+          <Text style={styles.answer}>{item.answer}</Text>
+        </View>
+      )}
     </Card>
   );
 
@@ -246,7 +328,21 @@ export const CardReviewScreen: React.FC = () => {
         <Text style={styles.title}>Review Cards</Text>
         <Text style={styles.subtitle}>
           {cards.length} card{cards.length !== 1 ? "s" : ""} ready to save
+          {studyItemCount > cards.length && ` (${studyItemCount} to study)`}
         </Text>
+        {basicCards.length > 0 && (
+          <TouchableOpacity
+            onPress={handleToggleReverseAll}
+            style={styles.reverseAll}
+            testID="reverse-all-toggle"
+          >
+            <Text style={styles.actionText}>
+              {allReversible
+                ? "Remove all reverse cards"
+                : "Also create reverse for all"}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Cards List */}
@@ -305,7 +401,9 @@ export const CardReviewScreen: React.FC = () => {
               onChangeText={(text) =>
                 setEditingCard({ ...editingCard, question: text })
               }
-              label="Question"
+              label={
+                editingCard.card_type === "cloze" ? "Cloze Text" : "Question"
+              }
               multiline
             />
 
@@ -314,7 +412,11 @@ export const CardReviewScreen: React.FC = () => {
               onChangeText={(text) =>
                 setEditingCard({ ...editingCard, answer: text })
               }
-              label="Answer"
+              label={
+                editingCard.card_type === "cloze"
+                  ? "Extra (Optional)"
+                  : "Answer"
+              }
               multiline
             />
           </View>
@@ -407,6 +509,14 @@ const styles = StyleSheet.create({
     color: colors.error.main,
   },
 
+  inactiveText: {
+    color: colors.text.tertiary,
+  },
+
+  reverseAll: {
+    marginTop: spacing.sm,
+  },
+
   cardContent: {},
 
   label: {
@@ -7,10 +7,11 @@ import {
   Image,
   Alert,
   Dimensions,
+  TouchableOpacity,
 } from "react-native";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { CaptureStackParamList } from "../../utils/types";
+import { CaptureStackParamList, CardKind } from "../../utils/types";
 import { extractTextFromImage } from "../../services/vision/ocrService";
 import { prepareImageForOCR } from "../../services/vision/imageProcessing";
 import { validateOCRText } from "../../utils/validation";
@@ -31,6 +32,11 @@ type OCRPreviewScreenNavigationProp = NativeStackNavigationProp<
 
 type OCRPreviewScreenRouteProp = RouteProp<CaptureStackParamList, "OCRPreview">;
 
+const CARD_TYPE_OPTIONS: { value: CardKind; label: string }[] = [
+  { value: "basic", label: "Q&A" },
+  { value: "cloze", label: "Cloze" },
+];
+
 /**
  * OCRPreviewScreen
  * Preview captured image and extracted OCR text with editing capability
@@ -44,6 +50,7 @@ export const OCRPreviewScreen: React.FC = () => {
   const [ocrText, setOcrText] = useState("");
   const [isProcessing, setIsProcessing] = useState(true);
   const [error, setError] = useState("");
+  const [cardType, setCardType] = useState<CardKind>("basic");
 
   /**
    * Process image and extract text
@@ -114,9 +121,10 @@ export const OCRPreviewScreen: React.FC = () => {
 
     logger.logUserAction("ocr_text_confirmed", {
       textLength: ocrText.length,
+      cardType,
     });
 
-    navigation.navigate("CardGeneration", { ocrText });
+    navigation.navigate("CardGeneration", { ocrText, cardType });
   };
 
   if (isProcessing) {
@@ -160,6 +168,30 @@ export const OCRPreviewScreen: React.FC = () => {
               style={styles.textInput}
             />
           )}
+
+          <Text style={styles.optionLabel}>Card Type</Text>
+          <View style={styles.options}>
+            {CARD_TYPE_OPTIONS.map((option) => {
+              const selected = option.value === cardType;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => setCardType(option.value)}
+                  testID={`card-type-${option.value}`}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      selected && styles.optionTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
         </View>
       </ScrollView>
 
@@ -240,6 +272,41 @@ const styles = StyleSheet.create({
     minHeight: 200,
   },
 
+  optionLabel: {
+    ...typography.label,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  options: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+
+  option: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+  },
+
+  optionSelected: {
+    backgroundColor: colors.primary.main,
+    borderColor: colors.primary.main,
+  },
+
+  optionText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+
+  optionTextSelected: {
+    color: colors.primary.contrast,
+  },
+
   errorContainer: {
     backgroundColor: colors.error.main,
     padding: spacing.md,
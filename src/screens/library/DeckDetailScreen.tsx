@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -9,25 +9,86 @@ import {
   Alert,
   SectionList,
 } from "react-native";
-import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import {
+  useNavigation,
+  useRoute,
+  useFocusEffect,
+  RouteProp,
+} from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { LibraryStackParamList, Deck, Card } from "../../utils/types";
+import {
+  LibraryStackParamList,
+  Deck,
+  Card,
+  CramFilter,
+  SessionGoal,
+} from "../../utils/types";
 import { useDecks } from "../../hooks/useDecks";
 import { useAppDispatch, useAppSelector } from "../../store";
-import { fetchCards } from "../../store/slices/cardSlice";
+import {
+  fetchCards,
+  updateCard,
+  rescheduleCards,
+  undoReschedule,
+} from "../../store/slices/cardSlice";
 import { selectCardsByDeckId } from "../../store/slices/cardSlice";
-import { selectDeckById } from "../../store/slices/deckSlice";
+import {
+  selectDeckById,
+  fetchDailyLimitStatus,
+  fetchWorkloadForecast,
+  fetchRetentionStats,
+  selectDailyLimitStatus,
+  selectWorkloadForecast,
+  selectRetentionStats,
+} from "../../store/slices/deckSlice";
 import Button from "../../components/common/Button";
 import CardComponent from "../../components/common/Card";
 import LoadingSpinner from "../../components/common/LoadingSpinner";
 import Modal from "../../components/common/Modal";
 import Input from "../../components/common/Input";
 import { CardGrid } from "../../components/flashcard/CardGrid";
+import { LeechList } from "../../components/flashcard/LeechList";
+import { ForecastChart } from "../../components/stats/ForecastChart";
+import { RetentionTable } from "../../components/stats/RetentionTable";
+import { improveCard } from "../../services/ai/cardGeneration";
+import { LEECH_TAG, isLeech, removeTag } from "../../utils/leech";
+import { initializeCardReviewData } from "../../utils/spacedRepAlgorithm";
+import { applyDailyLimits } from "../../utils/dailyLimits";
+import { getBuryUntil, isAvailable, isBuried } from "../../utils/cardState";
+import {
+  calculatePredictedRetention,
+  getCardReviewData,
+} from "../../utils/retention";
+import {
+  DueRange,
+  RescheduleAction,
+  RESCHEDULE_LABELS,
+  parseDueRange,
+} from "../../utils/reschedule";
+import {
+  getBacklog,
+  hasBacklog,
+  suggestCatchUpDays,
+} from "../../utils/catchUp";
+import { CRAM_FILTER_LABELS, CramFilterOption } from "../../utils/cram";
+import { hasCloze, isClozeCard } from "../../utils/cloze";
+import {
+  SESSION_GOAL_LABELS,
+  SessionGoalType,
+  validateSessionGoal,
+} from "../../utils/sessionGoals";
+import { UpdateCardRequest } from "../../services/api/types";
 import { colors } from "../../theme/colors";
 import { typography } from "../../theme/typography";
 import { spacing, borderRadius } from "../../theme/spacing";
-import { formatRelative, formatDate } from "../../utils/dateUtils";
+import {
+  formatRelative,
+  formatDate,
+  formatDuration,
+  isCardDue,
+} from "../../utils/dateUtils";
 import { logger } from "../../services/logger";
+import { appConfig } from "../../config/appConfig";
 
 type DeckDetailScreenNavigationProp = NativeStackNavigationProp<
   LibraryStackParamList,
@@ -51,6 +112,9 @@ export const DeckDetailScreen: React.FC = () => {
 
   const deck = useAppSelector(selectDeckById(deckId));
   const deckCards = useAppSelector(selectCardsByDeckId(deckId));
+  const dailyLimits = useAppSelector(selectDailyLimitStatus(deckId));
+  const forecast = useAppSelector(selectWorkloadForecast(deckId));
+  const retention = useAppSelector(selectRetentionStats(deckId));
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +123,26 @@ export const DeckDetailScreen: React.FC = () => {
   const [editDescription, setEditDescription] = useState("");
   const [titleError, setTitleError] = useState("");
   const [isUpdating, setIsUpdating] = useState(false);
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
+  const [editQuestion, setEditQuestion] = useState("");
+  const [editAnswer, setEditAnswer] = useState("");
+  const [isSavingCard, setIsSavingCard] = useState(false);
+  const [rewritingCardId, setRewritingCardId] = useState<string | null>(null);
+  const [selectedCardIds, setSelectedCardIds] = useState<string[] | null>(null); // null = not selecting
+  const [dueDateCardIds, setDueDateCardIds] = useState<string[] | null>(null);
+  const [dueDateInput, setDueDateInput] = useState("");
+  const [dueDateError, setDueDateError] = useState("");
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [catchUpDaysInput, setCatchUpDaysInput] = useState<string | null>(null); // null = modal closed
+  const [catchUpError, setCatchUpError] = useState("");
+  const [cramFilterType, setCramFilterType] = useState<CramFilterOption | null>(
+    null
+  ); // null = modal closed
+  const [cramInput, setCramInput] = useState("");
+  const [cramError, setCramError] = useState("");
+  const [goalType, setGoalType] = useState<SessionGoalType | null>(null); // null = modal closed
+  const [goalInput, setGoalInput] = useState("");
+  const [goalError, setGoalError] = useState("");
 
   /**
    * Load deck and cards on mount
@@ -67,6 +151,18 @@ export const DeckDetailScreen: React.FC = () => {
     loadDeckData();
   }, [deckId]);
 
+  /**
+   * Refresh today's remaining limits, the forecast and retention whenever
+   * the screen is shown (e.g. when coming back from a study session)
+   */
+  useFocusEffect(
+    useCallback(() => {
+      dispatch(fetchDailyLimitStatus(deckId));
+      dispatch(fetchWorkloadForecast(deckId));
+      dispatch(fetchRetentionStats(deckId));
+    }, [dispatch, deckId])
+  );
+
   /**
    * Update edit form when deck changes
    */
@@ -110,6 +206,9 @@ export const DeckDetailScreen: React.FC = () => {
   const handleRefresh = async () => {
     try {
       setRefreshing(true);
+      dispatch(fetchDailyLimitStatus(deckId));
+      dispatch(fetchWorkloadForecast(deckId));
+      dispatch(fetchRetentionStats(deckId));
       await loadDeckData();
     } catch (err) {
       logger.error("Failed to refresh deck", { error: err });
@@ -228,27 +327,533 @@ export const DeckDetailScreen: React.FC = () => {
   };
 
   /**
-   * Navigate to study mode
+   * Navigate to deck options (preset selection and editing)
+   */
+  const handleOpenDeckOptions = () => {
+    logger.logNavigation("DeckDetail", "DeckOptions", { deckId });
+    navigation.navigate("DeckOptions", { deckId });
+  };
+
+  /**
+   * Open the session goal options
    */
   const handleStudyDeck = () => {
-    logger.logNavigation("DeckDetail", "StudyMode", { deckId });
-    navigation.navigate("StudyMode", { deckId });
+    setGoalType("clear_due");
+    setGoalInput("");
+    setGoalError("");
+  };
+
+  /**
+   * Select a session goal, pre-filling its default
+   */
+  const handleSelectGoal = (type: SessionGoalType) => {
+    const { defaultSessionSize, goals } = appConfig.studySession;
+
+    setGoalType(type);
+    setGoalError("");
+    setGoalInput(
+      type === "cards"
+        ? String(defaultSessionSize)
+        : type === "time"
+          ? String(goals.defaultMinutes)
+          : type === "correct"
+            ? String(goals.defaultCorrectCount)
+            : ""
+    );
+  };
+
+  /**
+   * Validate the session goal and navigate to study mode
+   */
+  const handleStartStudy = () => {
+    if (!goalType) return;
+
+    const value = Number(goalInput.trim());
+    let goal: SessionGoal;
+    switch (goalType) {
+      case "cards":
+      case "correct":
+        goal = { type: goalType, count: value };
+        break;
+      case "time":
+        goal = { type: "time", minutes: value };
+        break;
+      default:
+        goal = { type: "clear_due" };
+    }
+
+    const validationError = validateSessionGoal(goal);
+    if (validationError) {
+      setGoalError(validationError);
+      return;
+    }
+
+    setGoalType(null);
+    logger.logNavigation("DeckDetail", "StudyMode", {
+      deckId,
+      goal: goal.type,
+    });
+    navigation.navigate("StudyMode", { deckId, goal });
+  };
+
+  /**
+   * Navigate to study mode as a multiple-choice quiz
+   */
+  const handleQuizDeck = () => {
+    logger.logNavigation("DeckDetail", "StudyMode", { deckId, quiz: true });
+    navigation.navigate("StudyMode", { deckId, quiz: true });
+  };
+
+  /**
+   * Open the cram options
+   */
+  const handleOpenCram = () => {
+    setCramFilterType("all");
+    setCramInput("");
+    setCramError("");
+  };
+
+  /**
+   * Select a cram filter, pre-filling its value
+   */
+  const handleSelectCramFilter = (type: CramFilterOption) => {
+    setCramFilterType(type);
+    setCramError("");
+    setCramInput(
+      type === "lowest_ease"
+        ? String(appConfig.studySession.cram.lowestEaseCount)
+        : ""
+    );
+  };
+
+  /**
+   * Validate the cram filter and start a cram session
+   */
+  const handleStartCram = () => {
+    if (!cramFilterType) return;
+
+    let filter: CramFilter;
+    switch (cramFilterType) {
+      case "tag": {
+        const tag = cramInput.trim();
+        if (!tag) {
+          setCramError("Enter a tag");
+          return;
+        }
+        filter = { type: "tag", tag };
+        break;
+      }
+      case "lowest_ease": {
+        const count = Number(cramInput.trim());
+        if (!Number.isInteger(count) || count < 1) {
+          setCramError("Enter a number of cards");
+          return;
+        }
+        filter = { type: "lowest_ease", count };
+        break;
+      }
+      default:
+        filter = { type: cramFilterType };
+    }
+
+    setCramFilterType(null);
+    logger.logNavigation("DeckDetail", "StudyMode", {
+      deckId,
+      cram: filter.type,
+    });
+    navigation.navigate("StudyMode", { deckId, cram: filter });
   };
 
   /**
-   * Handle card press
+   * Navigate to statistics (forecast across all decks)
+   */
+  const handleViewStatistics = () => {
+    logger.logNavigation("DeckDetail", "Statistics", { deckId });
+    navigation.navigate("Statistics");
+  };
+
+  /**
+   * Handle card press (toggles selection while selecting)
    */
   const handleCardPress = (card: Card) => {
+    if (selectedCardIds) {
+      setSelectedCardIds(
+        selectedCardIds.includes(card.id)
+          ? selectedCardIds.filter((id) => id !== card.id)
+          : [...selectedCardIds, card.id]
+      );
+      return;
+    }
+
     logger.logUserAction("view_card", { cardId: card.id, deckId });
     // Future: Navigate to card detail or edit screen
   };
 
   /**
-   * Handle card long press
+   * Enter or leave card multi-select
+   */
+  const handleToggleSelection = () => {
+    setSelectedCardIds(selectedCardIds ? null : []);
+  };
+
+  /**
+   * Select every card, or clear the selection when all are selected
+   */
+  const handleSelectAll = () => {
+    if (!selectedCardIds) return;
+    setSelectedCardIds(
+      selectedCardIds.length === deckCards.length
+        ? []
+        : deckCards.map((card) => card.id)
+    );
+  };
+
+  /**
+   * Run a bulk reschedule, then offer to undo it
+   */
+  const runReschedule = async (
+    cardIds: string[],
+    action: RescheduleAction,
+    range?: DueRange
+  ) => {
+    try {
+      setIsRescheduling(true);
+
+      const result = await dispatch(
+        rescheduleCards({ cardIds, action, range })
+      ).unwrap();
+
+      setSelectedCardIds(null);
+      dispatch(fetchDailyLimitStatus(deckId));
+      dispatch(fetchWorkloadForecast(deckId));
+
+      const count = result.updated.length;
+      const failedCount = result.failed.length;
+
+      Alert.alert(
+        failedCount > 0 ? "Some Cards Not Updated" : RESCHEDULE_LABELS[action],
+        failedCount > 0
+          ? `${RESCHEDULE_LABELS[action]} updated ${count} of ${count + failedCount} cards. ${failedCount} could not be updated; try again on those cards.`
+          : `Updated ${count} card${count !== 1 ? "s" : ""}.`,
+        [
+          { text: "Undo", onPress: handleUndoReschedule },
+          { text: "OK", style: "cancel" },
+        ]
+      );
+    } catch (err) {
+      logger.error("Failed to reschedule cards", { error: err, action });
+      Alert.alert("Error", "Failed to update cards. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setIsRescheduling(false);
+    }
+  };
+
+  /**
+   * Restore the cards changed by the last bulk reschedule
+   */
+  const handleUndoReschedule = async () => {
+    try {
+      const { remaining } = await dispatch(undoReschedule()).unwrap();
+      dispatch(fetchDailyLimitStatus(deckId));
+      dispatch(fetchWorkloadForecast(deckId));
+
+      if (remaining.length > 0) {
+        Alert.alert(
+          "Undo Incomplete",
+          `${remaining.length} card${remaining.length !== 1 ? "s" : ""} could not be restored.`,
+          [
+            { text: "Try Again", onPress: handleUndoReschedule },
+            { text: "OK", style: "cancel" },
+          ]
+        );
+      }
+    } catch (err) {
+      logger.error("Failed to undo reschedule", { error: err });
+      Alert.alert("Error", "Failed to undo. Please try again.", [
+        { text: "OK" },
+      ]);
+    }
+  };
+
+  /**
+   * Bulk actions for the given cards (selected cards or the whole deck)
+   */
+  const handleRescheduleMenu = (cardIds: string[]) => {
+    if (cardIds.length === 0) return;
+
+    logger.logUserAction("open_reschedule_menu", {
+      deckId,
+      count: cardIds.length,
+    });
+
+    Alert.alert(
+      "Reschedule",
+      `${cardIds.length} card${cardIds.length !== 1 ? "s" : ""}`,
+      [
+        {
+          text: "Forget",
+          style: "destructive",
+          onPress: () => runReschedule(cardIds, "forget"),
+        },
+        {
+          text: "Set Due Date",
+          onPress: () => {
+            setDueDateInput("");
+            setDueDateError("");
+            setDueDateCardIds(cardIds);
+          },
+        },
+        {
+          text: "Reset Ease",
+          onPress: () => runReschedule(cardIds, "reset_ease"),
+        },
+        { text: "Cancel", style: "cancel" },
+      ]
+    );
+  };
+
+  /**
+   * Validate the typed due date and reschedule the pending cards
+   */
+  const handleSetDueDate = async () => {
+    if (!dueDateCardIds) return;
+
+    const range = parseDueRange(dueDateInput);
+    if (!range) {
+      setDueDateError('Enter days from today ("0", "1-7") or a date');
+      return;
+    }
+
+    const cardIds = dueDateCardIds;
+    setDueDateCardIds(null);
+    await runReschedule(cardIds, "set_due", range);
+  };
+
+  /**
+   * Open the catch-up planner with the suggested number of days
+   */
+  const handleOpenCatchUp = (backlogCount: number) => {
+    logger.logUserAction("open_catch_up", { deckId, backlogCount });
+
+    setCatchUpError("");
+    setCatchUpDaysInput(String(suggestCatchUpDays(backlogCount)));
+  };
+
+  /**
+   * Spread the overdue cards over the chosen number of days
+   */
+  const handleCatchUp = async () => {
+    if (catchUpDaysInput === null) return;
+
+    const { maxDays } = appConfig.studySession.catchUp;
+    const days = Number(catchUpDaysInput.trim());
+    if (!Number.isInteger(days) || days < 1 || days > maxDays) {
+      setCatchUpError(`Enter a number of days from 1 to ${maxDays}`);
+      return;
+    }
+
+    setCatchUpDaysInput(null);
+    await runReschedule(
+      getBacklog(deckCards).map((card) => card.id),
+      "catch_up",
+      { startDay: 0, endDay: days - 1 }
+    );
+  };
+
+  /**
+   * Save a card state change (suspend/bury) and refresh what depends on it
+   */
+  const updateCardState = async (
+    card: Card,
+    updates: UpdateCardRequest,
+    action: string
+  ) => {
+    try {
+      logger.logUserAction(action, { cardId: card.id, deckId });
+
+      await dispatch(updateCard({ cardId: card.id, updates })).unwrap();
+
+      dispatch(fetchWorkloadForecast(deckId));
+    } catch (err) {
+      logger.error("Failed to update card state", { error: err, action });
+      Alert.alert("Error", "Failed to update card. Please try again.", [
+        { text: "OK" },
+      ]);
+    }
+  };
+
+  /**
+   * Handle card long press (suspend/bury actions)
    */
   const handleCardLongPress = (card: Card) => {
     logger.logUserAction("long_press_card", { cardId: card.id });
-    // Future: Show card options (edit, delete, duplicate)
+
+    const buried = isBuried(card);
+
+    Alert.alert("Card Options", card.question, [
+      {
+        text: card.suspended ? "Unsuspend" : "Suspend",
+        onPress: () =>
+          updateCardState(
+            card,
+            { suspended: !card.suspended },
+            card.suspended ? "unsuspend_card" : "suspend_card"
+          ),
+      },
+      {
+        text: buried ? "Unbury" : "Bury Until Tomorrow",
+        onPress: () =>
+          updateCardState(
+            card,
+            { buriedUntil: buried ? null : getBuryUntil() },
+            buried ? "unbury_card" : "bury_card"
+          ),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  /**
+   * Open the card editor for a leech
+   */
+  const handleEditLeech = (card: Card) => {
+    logger.logUserAction("edit_leech", { cardId: card.id });
+    setEditingCard(card);
+    setEditQuestion(card.question);
+    setEditAnswer(card.answer);
+  };
+
+  /**
+   * Ask AI to rewrite a leech, then let the user review it in the editor
+   */
+  const handleRewriteLeech = async (card: Card) => {
+    try {
+      setRewritingCardId(card.id);
+      logger.logUserAction("rewrite_leech", { cardId: card.id });
+
+      const improved = await improveCard({
+        question: card.question,
+        answer: card.answer,
+      });
+
+      setEditingCard(card);
+      setEditQuestion(improved.question);
+      setEditAnswer(improved.answer);
+    } catch (err) {
+      logger.error("Failed to rewrite leech", { error: err });
+      Alert.alert("Error", "Failed to rewrite card. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setRewritingCardId(null);
+    }
+  };
+
+  /**
+   * Close card editor
+   */
+  const handleCloseCardEditor = () => {
+    setEditingCard(null);
+    setEditQuestion("");
+    setEditAnswer("");
+  };
+
+  /**
+   * Save an edited leech
+   * The content changed, so its lapse history no longer applies. Cloze
+   * cards may leave the extra empty.
+   */
+  const handleSaveLeech = async () => {
+    if (!editingCard || !editQuestion.trim()) return;
+
+    const cloze = isClozeCard(editingCard);
+    if (!cloze && !editAnswer.trim()) return;
+
+    if (cloze && !hasCloze(editQuestion)) {
+      Alert.alert(
+        "Invalid Cloze",
+        "Mark at least one deletion, for example {{c1::term}}"
+      );
+      return;
+    }
+
+    try {
+      setIsSavingCard(true);
+
+      await dispatch(
+        updateCard({
+          cardId: editingCard.id,
+          updates: {
+            question: editQuestion.trim(),
+            answer: editAnswer.trim(),
+            lapses: 0,
+            tags: removeTag(editingCard.tags, LEECH_TAG),
+            suspended: false,
+          },
+        })
+      ).unwrap();
+
+      logger.logUserAction("leech_updated", { cardId: editingCard.id });
+      handleCloseCardEditor();
+    } catch (err) {
+      logger.error("Failed to save leech", { error: err });
+      Alert.alert("Error", "Failed to save card. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setIsSavingCard(false);
+    }
+  };
+
+  /**
+   * Reset a leech's progress so it is learned again from scratch
+   */
+  const handleResetLeech = (card: Card) => {
+    Alert.alert(
+      "Reset Card",
+      "This clears the card's review history and makes it new again.",
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              logger.logUserAction("reset_leech", { cardId: card.id });
+
+              const reviewData = initializeCardReviewData();
+
+              await dispatch(
+                updateCard({
+                  cardId: card.id,
+                  updates: {
+                    easeFactor: reviewData.easeFactor,
+                    interval: reviewData.interval,
+                    reviewCount: reviewData.reviewCount,
+                    nextReview: reviewData.nextReview,
+                    learningState: "new",
+                    learningStep: null,
+                    lapses: 0,
+                    tags: removeTag(card.tags, LEECH_TAG),
+                    suspended: false,
+                  },
+                })
+              ).unwrap();
+            } catch (err) {
+              logger.error("Failed to reset leech", { error: err });
+              Alert.alert("Error", "Failed to reset card. Please try again.", [
+                { text: "OK" },
+              ]);
+            }
+          },
+        },
+      ]
+    );
   };
 
   /**
@@ -279,10 +884,22 @@ export const DeckDetailScreen: React.FC = () => {
     return <LoadingSpinner fullScreen message="Loading deck details..." />;
   }
 
-  const dueCards = deckCards.filter((card) => {
-    if (!card.next_review) return true;
-    return new Date(card.next_review) <= new Date();
-  }).length;
+  const dueCardList = deckCards.filter(
+    (card) => isAvailable(card) && isCardDue(card.next_review ?? null)
+  );
+
+  // Only what today's limits allow is actually studyable
+  const dueCards = dailyLimits
+    ? applyDailyLimits(dueCardList, dailyLimits).length
+    : dueCardList.length;
+
+  const leechCards = deckCards.filter((card) => isLeech(card.tags));
+
+  const backlogCount = getBacklog(deckCards).length;
+
+  const predictedRetention = calculatePredictedRetention(
+    deckCards.map(getCardReviewData)
+  );
 
   return (
     <View style={styles.container}>
@@ -307,14 +924,25 @@ export const DeckDetailScreen: React.FC = () => {
             )}
           </View>
 
-          <Button
-            variant="secondary"
-            size="small"
-            onPress={handleOpenEditModal}
-            testID="edit-deck-button"
-          >
-            Edit
-          </Button>
+          <View style={styles.headerActions}>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={() => handleRescheduleMenu(deckCards.map((c) => c.id))}
+              disabled={deckCards.length === 0 || isRescheduling}
+              testID="reschedule-deck-button"
+            >
+              Reschedule
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={handleOpenEditModal}
+              testID="edit-deck-button"
+            >
+              Edit
+            </Button>
+          </View>
         </View>
 
         {/* Stats Section */}
@@ -342,6 +970,30 @@ export const DeckDetailScreen: React.FC = () => {
               </View>
             </View>
           </CardComponent>
+
+          {dailyLimits && (
+            <Text style={styles.limitsText} testID="daily-limits-text">
+              New: {dailyLimits.newRemaining}, review:{" "}
+              {dailyLimits.reviewRemaining} remaining today
+            </Text>
+          )}
+
+          {hasBacklog(backlogCount) && (
+            <View style={styles.backlogBanner} testID="backlog-banner">
+              <Text style={styles.backlogText}>
+                {backlogCount} overdue cards from missed days
+              </Text>
+              <TouchableOpacity
+                onPress={() => handleOpenCatchUp(backlogCount)}
+                disabled={isRescheduling}
+                testID="catch-up-button"
+              >
+                <Text style={styles.backlogAction}>
+                  Spread over {suggestCatchUpDays(backlogCount)} days
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
 
         {/* Study Mode Section */}
@@ -358,17 +1010,139 @@ export const DeckDetailScreen: React.FC = () => {
               ? "No Cards to Study"
               : `Study ${dueCards || deck.card_count} Cards`}
           </Button>
+
+          <Button
+            variant="secondary"
+            onPress={handleOpenCram}
+            disabled={deck.card_count === 0}
+            testID="cram-button"
+            style={styles.optionsButton}
+          >
+            Cram
+          </Button>
+
+          <Button
+            variant="secondary"
+            onPress={handleQuizDeck}
+            disabled={deck.card_count === 0}
+            testID="quiz-button"
+            style={styles.optionsButton}
+          >
+            Quiz
+          </Button>
+
+          <Button
+            variant="secondary"
+            onPress={handleOpenDeckOptions}
+            testID="deck-options-button"
+            style={styles.optionsButton}
+          >
+            Deck Options
+          </Button>
         </View>
 
+        {/* Forecast Section */}
+        {forecast && (
+          <View style={styles.forecastSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Forecast</Text>
+              <TouchableOpacity
+                onPress={handleViewStatistics}
+                testID="view-statistics-button"
+              >
+                <Text style={styles.linkText}>All decks</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ForecastChart values={forecast} testID="deck-forecast-chart" />
+          </View>
+        )}
+
+        {/* Retention Section */}
+        {retention && (
+          <View style={styles.forecastSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Retention</Text>
+            </View>
+
+            <RetentionTable
+              windows={retention}
+              predictedRetention={predictedRetention}
+              testID="deck-retention-table"
+            />
+          </View>
+        )}
+
+        {/* Leeches Section */}
+        {leechCards.length > 0 && (
+          <View style={styles.leechSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Leeches</Text>
+              <Text style={styles.cardCount}>
+                {leechCards.length} {leechCards.length === 1 ? "card" : "cards"}
+              </Text>
+            </View>
+
+            <LeechList
+              cards={leechCards}
+              onEdit={handleEditLeech}
+              onRewrite={handleRewriteLeech}
+              onReset={handleResetLeech}
+              rewritingCardId={rewritingCardId}
+              testID="deck-leech-list"
+            />
+          </View>
+        )}
+
         {/* Cards Section */}
         <View style={styles.cardsSection}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Cards</Text>
-            <Text style={styles.cardCount}>
-              {deckCards.length} {deckCards.length === 1 ? "card" : "cards"}
-            </Text>
+            <View style={styles.cardsHeaderRight}>
+              <Text style={styles.cardCount}>
+                {deckCards.length} {deckCards.length === 1 ? "card" : "cards"}
+              </Text>
+              {deckCards.length > 0 && (
+                <TouchableOpacity
+                  onPress={handleToggleSelection}
+                  testID="select-cards-button"
+                >
+                  <Text style={styles.linkText}>
+                    {selectedCardIds ? "Done" : "Select"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </View>
 
+          {selectedCardIds && (
+            <View style={styles.selectionBar}>
+              <Text style={styles.selectionText}>
+                {selectedCardIds.length} selected
+              </Text>
+              <View style={styles.headerActions}>
+                <Button
+                  variant="tertiary"
+                  size="small"
+                  onPress={handleSelectAll}
+                  testID="select-all-button"
+                >
+                  {selectedCardIds.length === deckCards.length ? "None" : "All"}
+                </Button>
+                <Button
+                  variant="primary"
+                  size="small"
+                  onPress={() => handleRescheduleMenu(selectedCardIds)}
+                  disabled={selectedCardIds.length === 0 || isRescheduling}
+                  loading={isRescheduling}
+                  testID="reschedule-selected-button"
+                >
+                  Reschedule
+                </Button>
+              </View>
+            </View>
+          )}
+
           {deckCards.length === 0 ? (
             <View style={styles.emptyCardsContainer}>
               <Text style={styles.emptyIcon}>🗂️</Text>
@@ -381,7 +1155,10 @@ export const DeckDetailScreen: React.FC = () => {
             <CardGrid
               cards={deckCards}
               onCardPress={handleCardPress}
-              onCardLongPress={handleCardLongPress}
+              onCardLongPress={
+                selectedCardIds ? handleCardPress : handleCardLongPress
+              }
+              selectedIds={selectedCardIds ?? undefined}
               testID="deck-cards-grid"
             />
           )}
@@ -403,6 +1180,217 @@ export const DeckDetailScreen: React.FC = () => {
         </Button>
       </View>
 
+      {/* Set Due Date Modal */}
+      <Modal
+        visible={dueDateCardIds !== null}
+        onClose={() => setDueDateCardIds(null)}
+        title="Set Due Date"
+        size="small"
+        primaryAction={{
+          label: "Reschedule",
+          onPress: handleSetDueDate,
+          loading: isRescheduling,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setDueDateCardIds(null),
+        }}
+        testID="set-due-date-modal"
+      >
+        <View style={styles.modalContent}>
+          <Input
+            label="Due In (days)"
+            placeholder="e.g. 0, 3, 1-7 or 2026-12-01"
+            value={dueDateInput}
+            onChangeText={(text) => {
+              setDueDateInput(text);
+              if (dueDateError) {
+                setDueDateError("");
+              }
+            }}
+            error={dueDateError}
+            helperText="A range spreads the cards evenly across those days"
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID="due-date-input"
+          />
+        </View>
+      </Modal>
+
+      {/* Catch Up Modal */}
+      <Modal
+        visible={catchUpDaysInput !== null}
+        onClose={() => setCatchUpDaysInput(null)}
+        title="Catch Up"
+        size="small"
+        primaryAction={{
+          label: "Spread",
+          onPress: handleCatchUp,
+          loading: isRescheduling,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setCatchUpDaysInput(null),
+        }}
+        testID="catch-up-modal"
+      >
+        <View style={styles.modalContent}>
+          <Input
+            label="Days"
+            value={catchUpDaysInput ?? ""}
+            onChangeText={(text) => {
+              setCatchUpDaysInput(text);
+              if (catchUpError) {
+                setCatchUpError("");
+              }
+            }}
+            error={catchUpError}
+            helperText="Cards closest to being forgotten come first"
+            keyboardType="numeric"
+            testID="catch-up-days-input"
+          />
+        </View>
+      </Modal>
+
+      {/* Study Goal Modal */}
+      <Modal
+        visible={goalType !== null}
+        onClose={() => setGoalType(null)}
+        title="Study"
+        size="small"
+        primaryAction={{
+          label: "Start",
+          onPress: handleStartStudy,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setGoalType(null),
+        }}
+        testID="study-goal-modal"
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.goalHint}>
+            Choose when this session ends. Sessions stop after{" "}
+            {formatDuration(appConfig.studySession.maxSessionDuration)} at most.
+          </Text>
+
+          <View style={styles.goalOptions}>
+            {(Object.keys(SESSION_GOAL_LABELS) as SessionGoalType[]).map(
+              (type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.goalOption,
+                    goalType === type && styles.goalOptionSelected,
+                  ]}
+                  onPress={() => handleSelectGoal(type)}
+                  testID={`study-goal-${type}`}
+                >
+                  <Text
+                    style={[
+                      styles.goalOptionText,
+                      goalType === type && styles.goalOptionTextSelected,
+                    ]}
+                  >
+                    {SESSION_GOAL_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+
+          {goalType !== null && goalType !== "clear_due" && (
+            <Input
+              label={
+                goalType === "cards"
+                  ? "Number of Cards"
+                  : goalType === "time"
+                    ? "Minutes"
+                    : "Correct Answers"
+              }
+              value={goalInput}
+              onChangeText={(text) => {
+                setGoalInput(text);
+                if (goalError) {
+                  setGoalError("");
+                }
+              }}
+              error={goalError}
+              keyboardType="numeric"
+              testID="study-goal-input"
+            />
+          )}
+        </View>
+      </Modal>
+
+      {/* Cram Modal */}
+      <Modal
+        visible={cramFilterType !== null}
+        onClose={() => setCramFilterType(null)}
+        title="Cram"
+        size="small"
+        primaryAction={{
+          label: "Start",
+          onPress: handleStartCram,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setCramFilterType(null),
+        }}
+        testID="cram-modal"
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.cramHint}>
+            Drill cards before an exam. Your review schedule is not changed.
+          </Text>
+
+          <View style={styles.cramOptions}>
+            {(Object.keys(CRAM_FILTER_LABELS) as CramFilterOption[]).map(
+              (type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.cramOption,
+                    cramFilterType === type && styles.cramOptionSelected,
+                  ]}
+                  onPress={() => handleSelectCramFilter(type)}
+                  testID={`cram-filter-${type}`}
+                >
+                  <Text
+                    style={[
+                      styles.cramOptionText,
+                      cramFilterType === type && styles.cramOptionTextSelected,
+                    ]}
+                  >
+                    {CRAM_FILTER_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+
+          {(cramFilterType === "tag" || cramFilterType === "lowest_ease") && (
+            <Input
+              label={cramFilterType === "tag" ? "Tag" : "Number of Cards"}
+              value={cramInput}
+              onChangeText={(text) => {
+                setCramInput(text);
+                if (cramError) {
+                  setCramError("");
+                }
+              }}
+              error={cramError}
+              keyboardType={
+                cramFilterType === "lowest_ease" ? "numeric" : "default"
+              }
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="cram-filter-input"
+            />
+          )}
+        </View>
+      </Modal>
+
       {/* Edit Deck Modal */}
       <Modal
         visible={showEditModal}
@@ -449,6 +1437,56 @@ export const DeckDetailScreen: React.FC = () => {
           />
         </View>
       </Modal>
+
+      {/* Edit Card Modal */}
+      <Modal
+        visible={!!editingCard}
+        onClose={handleCloseCardEditor}
+        title="Edit Card"
+        size="medium"
+        primaryAction={{
+          label: "Save",
+          onPress: handleSaveLeech,
+          loading: isSavingCard,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: handleCloseCardEditor,
+        }}
+        testID="edit-card-modal"
+      >
+        <View style={styles.modalContent}>
+          <Input
+            label={
+              editingCard && isClozeCard(editingCard)
+                ? "Cloze Text"
+                : "Question"
+            }
+            value={editQuestion}
+            onChangeText={setEditQuestion}
+            multiline
+            numberOfLines={3}
+            maxLength={appConfig.card.maxQuestionLength}
+            style={styles.descriptionInput}
+            testID="edit-question-input"
+          />
+
+          <Input
+            label={
+              editingCard && isClozeCard(editingCard)
+                ? "Extra (Optional)"
+                : "Answer"
+            }
+            value={editAnswer}
+            onChangeText={setEditAnswer}
+            multiline
+            numberOfLines={3}
+            maxLength={appConfig.card.maxAnswerLength}
+            style={styles.descriptionInput}
+            testID="edit-answer-input"
+          />
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -478,6 +1516,11 @@ const styles = StyleSheet.create({
     marginRight: spacing.md,
   },
 
+  headerActions: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+
   title: {
     ...typography.h1,
     color: colors.text.primary,
@@ -520,6 +1563,42 @@ const styles = StyleSheet.create({
     textTransform: "uppercase",
   },
 
+  optionsButton: {
+    marginTop: spacing.sm,
+  },
+
+  limitsText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  backlogBanner: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.warning.main,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+  },
+
+  backlogText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+
+  backlogAction: {
+    ...typography.bodySmall,
+    color: colors.warning.main,
+    fontWeight: "600",
+  },
+
   actionSection: {
     paddingHorizontal: spacing.md,
     paddingBottom: spacing.md,
@@ -529,6 +1608,22 @@ const styles = StyleSheet.create({
     width: "100%",
   },
 
+  forecastSection: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+
+  linkText: {
+    ...typography.bodySmall,
+    color: colors.primary.main,
+    fontWeight: "600",
+  },
+
+  leechSection: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+
   cardsSection: {
     paddingHorizontal: spacing.md,
   },
@@ -550,6 +1645,27 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
   },
 
+  cardsHeaderRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+
+  selectionBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+
+  selectionText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+
   emptyCardsContainer: {
     alignItems: "center",
     paddingVertical: spacing.xl,
@@ -619,6 +1735,72 @@ const styles = StyleSheet.create({
     gap: spacing.md,
   },
 
+  cramHint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+
+  cramOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+
+  cramOption: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+  },
+
+  cramOptionSelected: {
+    backgroundColor: colors.primary.main,
+    borderColor: colors.primary.main,
+  },
+
+  cramOptionText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+
+  cramOptionTextSelected: {
+    color: colors.primary.contrast,
+  },
+
+  goalHint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+
+  goalOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+
+  goalOption: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+  },
+
+  goalOptionSelected: {
+    backgroundColor: colors.primary.main,
+    borderColor: colors.primary.main,
+  },
+
+  goalOptionText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+
+  goalOptionTextSelected: {
+    color: colors.primary.contrast,
+  },
+
   descriptionInput: {
     minHeight: 80,
   },
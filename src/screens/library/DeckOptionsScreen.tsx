@@ -0,0 +1,596 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { LibraryStackParamList, DeckPresetOptions } from "../../utils/types";
+import { useDecks } from "../../hooks/useDecks";
+import { useAppDispatch, useAppSelector } from "../../store";
+import { selectDeckById } from "../../store/slices/deckSlice";
+import {
+  fetchPresets,
+  createPreset,
+  updatePreset,
+  deletePreset,
+  selectAllPresets,
+  selectPresetById,
+  selectPresetLoading,
+} from "../../store/slices/presetSlice";
+import Button from "../../components/common/Button";
+import Input from "../../components/common/Input";
+import LoadingSpinner from "../../components/common/LoadingSpinner";
+import {
+  DEFAULT_PRESET_NAME,
+  defaultPresetOptions,
+  getCloneName,
+  getPresetOptions,
+  parseSteps,
+  formatSteps,
+  validatePresetOptions,
+} from "../../utils/deckPresets";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+import { logger } from "../../services/logger";
+
+type DeckOptionsScreenRouteProp = RouteProp<
+  LibraryStackParamList,
+  "DeckOptions"
+>;
+
+// Option values as typed into the form
+interface OptionsForm {
+  name: string;
+  learningSteps: string;
+  relearningSteps: string;
+  newCardsPerDay: string;
+  maxReviewsPerDay: string;
+  minEaseFactor: string;
+  maxEaseFactor: string;
+  easyBonus: string;
+  requestRetention: string; // Percent
+}
+
+const toForm = (name: string, options: DeckPresetOptions): OptionsForm => ({
+  name,
+  learningSteps: formatSteps(options.learning_steps),
+  relearningSteps: formatSteps(options.relearning_steps),
+  newCardsPerDay: String(options.new_cards_per_day),
+  maxReviewsPerDay: String(options.max_reviews_per_day),
+  minEaseFactor: String(options.min_ease_factor),
+  maxEaseFactor: String(options.max_ease_factor),
+  easyBonus: String(options.easy_bonus),
+  requestRetention: String(Math.round(options.request_retention * 100)),
+});
+
+/**
+ * DeckOptionsScreen
+ * Assign, create, clone and edit the option preset used by a deck
+ */
+export const DeckOptionsScreen: React.FC = () => {
+  const route = useRoute<DeckOptionsScreenRouteProp>();
+  const dispatch = useAppDispatch();
+  const { deckId } = route.params;
+
+  const { decks, assignPreset } = useDecks();
+  const deck = useAppSelector(selectDeckById(deckId));
+  const presets = useAppSelector(selectAllPresets);
+  const presetsLoading = useAppSelector(selectPresetLoading);
+  const preset = useAppSelector(selectPresetById(deck?.preset_id ?? null));
+
+  const [form, setForm] = useState<OptionsForm>(
+    toForm(DEFAULT_PRESET_NAME, defaultPresetOptions)
+  );
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Load presets on mount
+   */
+  useEffect(() => {
+    dispatch(fetchPresets());
+  }, [dispatch]);
+
+  /**
+   * Reset the form whenever the assigned preset changes or is saved
+   */
+  useEffect(() => {
+    setForm(
+      preset
+        ? toForm(preset.name, preset)
+        : toForm(DEFAULT_PRESET_NAME, defaultPresetOptions)
+    );
+    setFormError("");
+  }, [preset?.id, preset?.updated_at]);
+
+  const updateField = (field: keyof OptionsForm) => (text: string) => {
+    setForm((current) => ({ ...current, [field]: text }));
+    if (formError) {
+      setFormError("");
+    }
+  };
+
+  /**
+   * Assign a preset to this deck (null = built-in defaults)
+   */
+  const handleAssign = async (presetId: string | null) => {
+    if (!deck || deck.preset_id === presetId) return;
+
+    try {
+      await assignPreset(deckId, presetId);
+    } catch (err) {
+      logger.error("Failed to assign preset", { error: err, deckId });
+      Alert.alert("Error", "Failed to change preset. Please try again.", [
+        { text: "OK" },
+      ]);
+    }
+  };
+
+  /**
+   * Create a preset from the given options and assign it to this deck
+   */
+  const createAndAssign = async (name: string, options: DeckPresetOptions) => {
+    try {
+      const created = await dispatch(createPreset({ name, options })).unwrap();
+      await assignPreset(deckId, created.id);
+    } catch (err) {
+      logger.error("Failed to create preset", { error: err, deckId });
+      Alert.alert(
+        "Error",
+        typeof err === "string"
+          ? err
+          : "Failed to create preset. Please try again.",
+        [{ text: "OK" }]
+      );
+    }
+  };
+
+  const existingNames = presets.map((item) => item.name);
+
+  /**
+   * New preset starting from the built-in defaults
+   */
+  const handleNewPreset = () => {
+    logger.logUserAction("new_preset", { deckId });
+    createAndAssign(
+      getCloneName(DEFAULT_PRESET_NAME, existingNames),
+      defaultPresetOptions
+    );
+  };
+
+  /**
+   * Copy the preset currently used by this deck
+   */
+  const handleClonePreset = () => {
+    logger.logUserAction("clone_preset", {
+      deckId,
+      presetId: preset?.id ?? null,
+    });
+    createAndAssign(
+      getCloneName(preset?.name ?? DEFAULT_PRESET_NAME, existingNames),
+      preset ? getPresetOptions(preset) : defaultPresetOptions
+    );
+  };
+
+  /**
+   * Delete the preset used by this deck
+   */
+  const handleDeletePreset = () => {
+    if (!preset) return;
+
+    const deckCount = decks.filter(
+      (item) => item.preset_id === preset.id
+    ).length;
+
+    Alert.alert(
+      "Delete Preset",
+      `Delete "${preset.name}"? ${deckCount} deck${deckCount !== 1 ? "s" : ""} using it will go back to the default options.`,
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await dispatch(deletePreset(preset.id)).unwrap();
+            } catch (err) {
+              logger.error("Failed to delete preset", { error: err });
+              Alert.alert(
+                "Error",
+                "Failed to delete preset. Please try again.",
+                [{ text: "OK" }]
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Validate the form and save it to the preset
+   */
+  const handleSave = async () => {
+    if (!preset) return;
+
+    const learningSteps = parseSteps(form.learningSteps);
+    const relearningSteps = parseSteps(form.relearningSteps);
+
+    if (!form.name.trim()) {
+      setFormError("Preset name is required");
+      return;
+    }
+
+    if (!learningSteps || learningSteps.length === 0 || !relearningSteps) {
+      setFormError("Steps must be positive minutes separated by spaces");
+      return;
+    }
+
+    const options: DeckPresetOptions = {
+      learning_steps: learningSteps,
+      relearning_steps: relearningSteps,
+      new_cards_per_day: Number(form.newCardsPerDay),
+      max_reviews_per_day: Number(form.maxReviewsPerDay),
+      min_ease_factor: Number(form.minEaseFactor),
+      max_ease_factor: Number(form.maxEaseFactor),
+      easy_bonus: Number(form.easyBonus),
+      request_retention: Number(form.requestRetention) / 100,
+    };
+
+    const validationError = validatePresetOptions(options);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await dispatch(
+        updatePreset({ presetId: preset.id, name: form.name, options })
+      ).unwrap();
+      logger.logUserAction("preset_saved", { presetId: preset.id });
+    } catch (err) {
+      logger.error("Failed to save preset", { error: err });
+      Alert.alert("Error", "Failed to save preset. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!deck) {
+    return <LoadingSpinner fullScreen message="Loading deck..." />;
+  }
+
+  const editable = !!preset;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Deck Options</Text>
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {deck.title}
+          </Text>
+        </View>
+
+        {/* Preset Selection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Preset</Text>
+          <Text style={styles.sectionHint}>
+            Presets are shared: changing one updates every deck that uses it.
+          </Text>
+
+          <TouchableOpacity
+            style={[
+              styles.presetRow,
+              !deck.preset_id && styles.presetRowSelected,
+            ]}
+            onPress={() => handleAssign(null)}
+            testID="preset-default"
+          >
+            <Text style={styles.presetName}>
+              {DEFAULT_PRESET_NAME} (built-in)
+            </Text>
+            {!deck.preset_id && <Text style={styles.presetBadge}>In use</Text>}
+          </TouchableOpacity>
+
+          {presets.map((item) => (
+            <TouchableOpacity
+              key={item.id}
+              style={[
+                styles.presetRow,
+                deck.preset_id === item.id && styles.presetRowSelected,
+              ]}
+              onPress={() => handleAssign(item.id)}
+              testID={`preset-${item.id}`}
+            >
+              <Text style={styles.presetName} numberOfLines={1}>
+                {item.name}
+              </Text>
+              {deck.preset_id === item.id && (
+                <Text style={styles.presetBadge}>In use</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          {presetsLoading && presets.length === 0 && (
+            <LoadingSpinner message="Loading presets..." />
+          )}
+
+          <View style={styles.presetActions}>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={handleNewPreset}
+              testID="new-preset-button"
+              style={styles.presetAction}
+            >
+              New
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onPress={handleClonePreset}
+              testID="clone-preset-button"
+              style={styles.presetAction}
+            >
+              Clone
+            </Button>
+            {preset && (
+              <Button
+                variant="tertiary"
+                size="small"
+                onPress={handleDeletePreset}
+                testID="delete-preset-button"
+                style={styles.presetAction}
+              >
+                Delete
+              </Button>
+            )}
+          </View>
+        </View>
+
+        {/* Options Form */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Options</Text>
+          {!editable && (
+            <Text style={styles.sectionHint}>
+              The built-in defaults can't be changed. Clone them to customize.
+            </Text>
+          )}
+
+          <Input
+            label="Preset Name"
+            value={form.name}
+            onChangeText={updateField("name")}
+            editable={editable}
+            testID="preset-name-input"
+          />
+
+          <Text style={styles.groupTitle}>Learning</Text>
+          <Input
+            label="Learning Steps (minutes)"
+            value={form.learningSteps}
+            onChangeText={updateField("learningSteps")}
+            helperText="e.g. 1 10"
+            editable={editable}
+            testID="learning-steps-input"
+          />
+          <Input
+            label="Relearning Steps (minutes)"
+            value={form.relearningSteps}
+            onChangeText={updateField("relearningSteps")}
+            helperText="Leave empty to skip relearning"
+            editable={editable}
+            testID="relearning-steps-input"
+          />
+
+          <Text style={styles.groupTitle}>Daily Limits</Text>
+          <View style={styles.row}>
+            <Input
+              label="New Cards/Day"
+              value={form.newCardsPerDay}
+              onChangeText={updateField("newCardsPerDay")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="new-cards-per-day-input"
+            />
+            <Input
+              label="Reviews/Day"
+              value={form.maxReviewsPerDay}
+              onChangeText={updateField("maxReviewsPerDay")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="max-reviews-per-day-input"
+            />
+          </View>
+
+          <Text style={styles.groupTitle}>Scheduling</Text>
+          <View style={styles.row}>
+            <Input
+              label="Minimum Ease"
+              value={form.minEaseFactor}
+              onChangeText={updateField("minEaseFactor")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="min-ease-input"
+            />
+            <Input
+              label="Maximum Ease"
+              value={form.maxEaseFactor}
+              onChangeText={updateField("maxEaseFactor")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="max-ease-input"
+            />
+          </View>
+          <View style={styles.row}>
+            <Input
+              label="Easy Bonus"
+              value={form.easyBonus}
+              onChangeText={updateField("easyBonus")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="easy-bonus-input"
+            />
+            <Input
+              label="Target Retention (%)"
+              value={form.requestRetention}
+              onChangeText={updateField("requestRetention")}
+              keyboardType="numeric"
+              editable={editable}
+              style={styles.rowInput}
+              testID="target-retention-input"
+            />
+          </View>
+
+          {!!formError && <Text style={styles.errorText}>{formError}</Text>}
+
+          {editable && (
+            <Button
+              variant="primary"
+              onPress={handleSave}
+              loading={saving}
+              disabled={saving}
+              testID="save-preset-button"
+              style={styles.saveButton}
+            >
+              Save Preset
+            </Button>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.default,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  header: {
+    padding: spacing.md,
+    backgroundColor: colors.background.paper,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+
+  title: {
+    ...typography.h1,
+    color: colors.text.primary,
+  },
+
+  subtitle: {
+    ...typography.bodyRegular,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+
+  section: {
+    padding: spacing.md,
+  },
+
+  sectionTitle: {
+    ...typography.h2,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+
+  sectionHint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginBottom: spacing.md,
+  },
+
+  presetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    borderWidth: 2,
+    borderColor: "transparent",
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  presetRowSelected: {
+    borderColor: colors.primary.main,
+  },
+
+  presetName: {
+    ...typography.bodyRegular,
+    color: colors.text.primary,
+    flex: 1,
+  },
+
+  presetBadge: {
+    ...typography.caption,
+    color: colors.primary.main,
+    marginLeft: spacing.sm,
+  },
+
+  presetActions: {
+    flexDirection: "row",
+    marginTop: spacing.sm,
+  },
+
+  presetAction: {
+    marginRight: spacing.sm,
+  },
+
+  groupTitle: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+
+  rowInput: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.error.main,
+    marginTop: spacing.sm,
+  },
+
+  saveButton: {
+    marginTop: spacing.lg,
+  },
+});
+
+export default DeckOptionsScreen;
@@ -10,8 +10,13 @@ import {
 } from "react-native";
 import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { LibraryStackParamList, Deck } from "../../utils/types";
+import { LibraryStackParamList, Deck, ExamConfig } from "../../utils/types";
 import { useDecks } from "../../hooks/useDecks";
+import { useAppDispatch, useAppSelector } from "../../store";
+import {
+  discardSavedSession,
+  selectSavedSession,
+} from "../../store/slices/studySlice";
 import Button from "../../components/common/Button";
 import Card from "../../components/common/Card";
 import LoadingSpinner from "../../components/common/LoadingSpinner";
@@ -21,6 +26,12 @@ import { colors } from "../../theme/colors";
 import { typography } from "../../theme/typography";
 import { spacing, borderRadius } from "../../theme/spacing";
 import { formatRelative } from "../../utils/dateUtils";
+import { validateExamConfig } from "../../utils/exam";
+import {
+  getSavedCardsLeft,
+  isSavedSessionStale,
+} from "../../utils/sessionResume";
+import { appConfig } from "../../config/appConfig";
 import { logger } from "../../services/logger";
 
 type DecksListScreenNavigationProp = NativeStackNavigationProp<
@@ -35,6 +46,8 @@ type DecksListScreenNavigationProp = NativeStackNavigationProp<
  */
 export const DecksListScreen: React.FC = () => {
   const navigation = useNavigation<DecksListScreenNavigationProp>();
+  const dispatch = useAppDispatch();
+  const savedSession = useAppSelector(selectSavedSession);
   const {
     decks,
     loading,
@@ -52,6 +65,12 @@ export const DecksListScreen: React.FC = () => {
   const [newDeckDescription, setNewDeckDescription] = useState("");
   const [titleError, setTitleError] = useState("");
   const [creatingDeck, setCreatingDeck] = useState(false);
+  const [showStudyAllModal, setShowStudyAllModal] = useState(false);
+  const [selectedDeckIds, setSelectedDeckIds] = useState<string[]>([]);
+  const [showExamModal, setShowExamModal] = useState(false);
+  const [examQuestionCount, setExamQuestionCount] = useState("");
+  const [examTimeLimit, setExamTimeLimit] = useState("");
+  const [examError, setExamError] = useState("");
 
   /**
    * Load decks on mount and when screen comes into focus
@@ -64,6 +83,41 @@ export const DecksListScreen: React.FC = () => {
     }, [])
   );
 
+  /**
+   * Offer to resume a session cut short by the app closing
+   * Sessions from an earlier study day are finalized without asking
+   */
+  useEffect(() => {
+    if (!savedSession) return;
+
+    if (isSavedSessionStale(savedSession)) {
+      dispatch(discardSavedSession());
+      return;
+    }
+
+    const cardsLeft = getSavedCardsLeft(savedSession);
+    const reviewed = savedSession.reviewed_card_ids.length;
+
+    Alert.alert(
+      "Resume Session",
+      `You studied ${reviewed} ${reviewed === 1 ? "card" : "cards"} before the app closed. Pick up the ${cardsLeft} left?`,
+      [
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => dispatch(discardSavedSession()),
+        },
+        {
+          text: "Resume",
+          onPress: () => {
+            logger.logNavigation("DecksList", "StudyMode", { resume: true });
+            navigation.navigate("StudyMode", { resume: true });
+          },
+        },
+      ]
+    );
+  }, [savedSession?.session_id]);
+
   /**
    * Handle pull to refresh
    */
@@ -94,6 +148,94 @@ export const DecksListScreen: React.FC = () => {
     navigation.navigate("StudyMode", { deckId });
   };
 
+  /**
+   * Open the deck picker for a cross-deck session (every deck selected)
+   */
+  const handleOpenStudyAll = () => {
+    setSelectedDeckIds(decks.map((deck) => deck.id));
+    setShowStudyAllModal(true);
+  };
+
+  /**
+   * Include or leave out a deck
+   */
+  const handleToggleStudyDeck = (deckId: string) => {
+    setSelectedDeckIds((current) =>
+      current.includes(deckId)
+        ? current.filter((id) => id !== deckId)
+        : [...current, deckId]
+    );
+  };
+
+  /**
+   * Study the due cards of the selected decks together
+   */
+  const handleStudyAll = () => {
+    if (selectedDeckIds.length === 0) {
+      Alert.alert("No Decks Selected", "Choose at least one deck to study.", [
+        { text: "OK" },
+      ]);
+      return;
+    }
+
+    // Every deck is the default, so newly created decks are included later
+    const deckIds =
+      selectedDeckIds.length === decks.length ? undefined : selectedDeckIds;
+
+    setShowStudyAllModal(false);
+    logger.logNavigation("DecksList", "StudyMode", {
+      deckCount: deckIds?.length ?? "all",
+    });
+    navigation.navigate("StudyMode", { deckIds });
+  };
+
+  /**
+   * Open the exam settings (every deck selected)
+   */
+  const handleOpenExam = () => {
+    const { defaultQuestionCount, defaultTimeLimitMinutes } =
+      appConfig.studySession.exam;
+
+    setSelectedDeckIds(decks.map((deck) => deck.id));
+    setExamQuestionCount(String(defaultQuestionCount));
+    setExamTimeLimit(String(defaultTimeLimitMinutes));
+    setExamError("");
+    setShowExamModal(true);
+  };
+
+  /**
+   * Validate the exam settings and start the exam
+   */
+  const handleStartExam = () => {
+    const config: ExamConfig = {
+      deckIds: selectedDeckIds,
+      questionCount: Number(examQuestionCount.trim()),
+      timeLimitMinutes: Number(examTimeLimit.trim()),
+    };
+
+    const problem = validateExamConfig(config);
+    if (problem) {
+      setExamError(problem);
+      return;
+    }
+
+    setShowExamModal(false);
+    logger.logNavigation("DecksList", "StudyMode", {
+      exam: true,
+      deckCount: config.deckIds.length,
+      questionCount: config.questionCount,
+    });
+    navigation.navigate("StudyMode", { exam: config });
+  };
+
+  /**
+   * Navigate to statistics
+   */
+  const handleStatisticsPress = () => {
+    logger.logNavigation("DecksList", "Statistics");
+    navigation.navigate("Statistics");
+  };
+
   /**
    * Open create deck modal
    */
@@ -323,16 +465,47 @@ export const DecksListScreen: React.FC = () => {
           </Text>
         </View>
 
-        <Button
-          variant="primary"
-          onPress={handleOpenCreateModal}
-          style={styles.createButton}
-          testID="create-deck-button"
-        >
-          + New Deck
-        </Button>
+        <View style={styles.headerActions}>
+          <Button
+            variant="secondary"
+            onPress={handleStatisticsPress}
+            testID="statistics-button"
+          >
+            Stats
+          </Button>
+          <Button
+            variant="primary"
+            onPress={handleOpenCreateModal}
+            style={styles.createButton}
+            testID="create-deck-button"
+          >
+            + New Deck
+          </Button>
+        </View>
       </View>
 
+      {/* Study All Due */}
+      {decks.length > 0 && (
+        <View style={styles.studyAllContainer}>
+          <Button
+            variant="primary"
+            onPress={handleOpenStudyAll}
+            style={styles.studyAllButton}
+            testID="study-all-button"
+          >
+            Study All Due
+          </Button>
+          <Button
+            variant="secondary"
+            onPress={handleOpenExam}
+            style={styles.studyAllButton}
+            testID="exam-button"
+          >
+            Exam
+          </Button>
+        </View>
+      )}
+
       {/* Decks List */}
       <FlatList
         data={decks}
@@ -355,6 +528,131 @@ export const DecksListScreen: React.FC = () => {
         testID="decks-list"
       />
 
+      {/* Study All Due Modal */}
+      <Modal
+        visible={showStudyAllModal}
+        onClose={() => setShowStudyAllModal(false)}
+        title="Study All Due"
+        size="medium"
+        primaryAction={{
+          label: "Study",
+          onPress: handleStudyAll,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setShowStudyAllModal(false),
+        }}
+        testID="study-all-modal"
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.studyAllHint}>
+            Due cards from these decks are mixed into one session. Each deck
+            keeps its own daily limits.
+          </Text>
+
+          <View style={styles.deckOptions}>
+            {decks.map((deck) => {
+              const selected = selectedDeckIds.includes(deck.id);
+
+              return (
+                <TouchableOpacity
+                  key={deck.id}
+                  style={[
+                    styles.deckOption,
+                    selected && styles.deckOptionSelected,
+                  ]}
+                  onPress={() => handleToggleStudyDeck(deck.id)}
+                  testID={`study-all-deck-${deck.id}`}
+                >
+                  <Text
+                    style={[
+                      styles.deckOptionText,
+                      selected && styles.deckOptionTextSelected,
+                    ]}
+                  >
+                    {deck.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Exam Modal */}
+      <Modal
+        visible={showExamModal}
+        onClose={() => setShowExamModal(false)}
+        title="Exam"
+        size="medium"
+        primaryAction={{
+          label: "Start",
+          onPress: handleStartExam,
+        }}
+        secondaryAction={{
+          label: "Cancel",
+          onPress: () => setShowExamModal(false),
+        }}
+        testID="exam-modal"
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.studyAllHint}>
+            Random questions from these decks, answered against the clock. Your
+            review schedule is not changed.
+          </Text>
+
+          <View style={styles.deckOptions}>
+            {decks.map((deck) => {
+              const selected = selectedDeckIds.includes(deck.id);
+
+              return (
+                <TouchableOpacity
+                  key={deck.id}
+                  style={[
+                    styles.deckOption,
+                    selected && styles.deckOptionSelected,
+                  ]}
+                  onPress={() => handleToggleStudyDeck(deck.id)}
+                  testID={`exam-deck-${deck.id}`}
+                >
+                  <Text
+                    style={[
+                      styles.deckOptionText,
+                      selected && styles.deckOptionTextSelected,
+                    ]}
+                  >
+                    {deck.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Input
+            label="Questions"
+            value={examQuestionCount}
+            onChangeText={(text) => {
+              setExamQuestionCount(text);
+              setExamError("");
+            }}
+            keyboardType="numeric"
+            testID="exam-question-count-input"
+          />
+
+          <Input
+            label="Time Limit (minutes)"
+            value={examTimeLimit}
+            onChangeText={(text) => {
+              setExamTimeLimit(text);
+              setExamError("");
+            }}
+            keyboardType="numeric"
+            error={examError}
+            testID="exam-time-limit-input"
+          />
+        </View>
+      </Modal>
+
       {/* Create Deck Modal */}
       <Modal
         visible={showCreateModal}
@@ -432,10 +730,59 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
   },
 
+  headerActions: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+
   createButton: {
     minWidth: 120,
   },
 
+  studyAllContainer: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+  },
+
+  studyAllButton: {
+    flex: 1,
+  },
+
+  studyAllHint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+
+  deckOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+
+  deckOption: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+  },
+
+  deckOptionSelected: {
+    backgroundColor: colors.primary.main,
+    borderColor: colors.primary.main,
+  },
+
+  deckOptionText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+
+  deckOptionTextSelected: {
+    color: colors.primary.contrast,
+  },
+
   listContent: {
     padding: spacing.md,
   },
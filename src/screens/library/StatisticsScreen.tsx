@@ -0,0 +1,267 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from "react-native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { LibraryStackParamList } from "../../utils/types";
+import { useAppDispatch, useAppSelector } from "../../store";
+import {
+  fetchWorkloadForecast,
+  fetchRetentionStats,
+  selectAllDecks,
+  selectDeckState,
+  selectWorkloadForecast,
+  selectRetentionStats,
+} from "../../store/slices/deckSlice";
+import LoadingSpinner from "../../components/common/LoadingSpinner";
+import { ForecastChart } from "../../components/stats/ForecastChart";
+import { RetentionTable } from "../../components/stats/RetentionTable";
+import { colors } from "../../theme/colors";
+import { typography } from "../../theme/typography";
+import { spacing, borderRadius } from "../../theme/spacing";
+import { logger } from "../../services/logger";
+import { appConfig } from "../../config/appConfig";
+
+type StatisticsScreenNavigationProp = NativeStackNavigationProp<
+  LibraryStackParamList,
+  "Statistics"
+>;
+
+// Days covered by the "this week" column
+const WEEK_DAYS = 7;
+
+/**
+ * StatisticsScreen
+ * Review workload forecast across all decks, with a per-deck breakdown
+ */
+export const StatisticsScreen: React.FC = () => {
+  const navigation = useNavigation<StatisticsScreenNavigationProp>();
+  const dispatch = useAppDispatch();
+
+  const decks = useAppSelector(selectAllDecks);
+  const { forecastById } = useAppSelector(selectDeckState);
+  const forecast = useAppSelector(selectWorkloadForecast());
+  const retention = useAppSelector(selectRetentionStats());
+  const [refreshing, setRefreshing] = useState(false);
+
+  /**
+   * Reload the forecast and retention whenever the screen is shown
+   */
+  useFocusEffect(
+    useCallback(() => {
+      dispatch(fetchWorkloadForecast(undefined));
+      dispatch(fetchRetentionStats(undefined));
+    }, [dispatch])
+  );
+
+  /**
+   * Handle pull to refresh
+   */
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      await Promise.all([
+        dispatch(fetchWorkloadForecast(undefined)),
+        dispatch(fetchRetentionStats(undefined)),
+      ]);
+    } catch (err) {
+      logger.error("Failed to refresh forecast", { error: err });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  /**
+   * Navigate to deck detail
+   */
+  const handleDeckPress = (deckId: string) => {
+    logger.logNavigation("Statistics", "DeckDetail", { deckId });
+    navigation.navigate("DeckDetail", { deckId });
+  };
+
+  if (!forecast) {
+    return <LoadingSpinner fullScreen message="Loading forecast..." />;
+  }
+
+  const sum = (values: number[]) =>
+    values.reduce((total, count) => total + count, 0);
+
+  // Busiest decks first
+  const deckRows = decks
+    .map((deck) => ({
+      deck,
+      values: forecastById[deck.id] ?? [],
+    }))
+    .filter(({ values }) => sum(values) > 0)
+    .sort((a, b) => sum(b.values) - sum(a.values));
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.primary.main}
+            colors={[colors.primary.main]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>Statistics</Text>
+          <Text style={styles.subtitle}>
+            Reviews due over the next {appConfig.studySession.forecastDays} days
+          </Text>
+        </View>
+
+        {/* Overall Forecast */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>All Decks</Text>
+          <ForecastChart values={forecast} testID="overall-forecast-chart" />
+        </View>
+
+        {/* True Retention */}
+        {retention && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Retention</Text>
+            <RetentionTable
+              windows={retention}
+              testID="overall-retention-table"
+            />
+          </View>
+        )}
+
+        {/* Per-Deck Breakdown */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>By Deck</Text>
+
+          {deckRows.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No reviews scheduled in this period
+            </Text>
+          ) : (
+            deckRows.map(({ deck, values }) => (
+              <TouchableOpacity
+                key={deck.id}
+                style={styles.deckRow}
+                onPress={() => handleDeckPress(deck.id)}
+                testID={`forecast-deck-${deck.id}`}
+              >
+                <Text style={styles.deckTitle} numberOfLines={1}>
+                  {deck.title}
+                </Text>
+                <View style={styles.deckStats}>
+                  <View style={styles.deckStat}>
+                    <Text style={styles.deckStatValue}>{values[0] ?? 0}</Text>
+                    <Text style={styles.deckStatLabel}>Today</Text>
+                  </View>
+                  <View style={styles.deckStat}>
+                    <Text style={styles.deckStatValue}>
+                      {sum(values.slice(0, WEEK_DAYS))}
+                    </Text>
+                    <Text style={styles.deckStatLabel}>This week</Text>
+                  </View>
+                  <View style={styles.deckStat}>
+                    <Text style={styles.deckStatValue}>{sum(values)}</Text>
+                    <Text style={styles.deckStatLabel}>
+                      {values.length} days
+                    </Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.default,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  header: {
+    padding: spacing.md,
+    backgroundColor: colors.background.paper,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+
+  title: {
+    ...typography.h1,
+    color: colors.text.primary,
+  },
+
+  subtitle: {
+    ...typography.bodyRegular,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+
+  section: {
+    padding: spacing.md,
+  },
+
+  sectionTitle: {
+    ...typography.h2,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+
+  emptyText: {
+    ...typography.bodyRegular,
+    color: colors.text.secondary,
+    textAlign: "center",
+  },
+
+  deckRow: {
+    backgroundColor: colors.surface.main,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  deckTitle: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+
+  deckStats: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+
+  deckStat: {
+    alignItems: "center",
+    flex: 1,
+  },
+
+  deckStatValue: {
+    ...typography.h3,
+    color: colors.primary.main,
+  },
+
+  deckStatLabel: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+});
+
+export default StatisticsScreen;
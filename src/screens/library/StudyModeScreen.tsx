@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useRef } from "react";
 import {
   View,
   Text,
@@ -10,21 +10,58 @@ import {
 } from "react-native";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
-import { LibraryStackParamList, Card } from "../../utils/types";
+import {
+  LibraryStackParamList,
+  Card,
+  AIAnswerGrade,
+  ReviewDifficulty,
+} from "../../utils/types";
 import { useStudySession } from "../../hooks/useStudySession";
 import { useAppDispatch, useAppSelector } from "../../store";
 import {
+  selectActiveSession,
   selectCurrentCard,
   selectSessionProgress,
+  selectNextLearningDue,
+  selectIsCramSession,
+  selectIsMultiDeckSession,
+  selectResponseTimeBaseline,
+  releaseDueLearningCards,
+  loadResponseTimeBaseline,
 } from "../../store/slices/studySlice";
+import { selectSettings } from "../../store/slices/settingsSlice";
+import { selectCardsByDeckId, updateCard } from "../../store/slices/cardSlice";
+import { selectIsOffline } from "../../store/slices/uiSlice";
+import { selectAllDecks } from "../../store/slices/deckSlice";
 import Button from "../../components/common/Button";
+import Input from "../../components/common/Input";
 import LoadingSpinner from "../../components/common/LoadingSpinner";
 import FlashcardCard from "../../components/flashcard/FlashcardCard";
 import DifficultySelector from "../../components/flashcard/DifficultySelector";
+import MultipleChoiceOptions from "../../components/flashcard/MultipleChoiceOptions";
+import ExamBreakdown from "../../components/stats/ExamBreakdown";
 import { colors } from "../../theme/colors";
 import { typography } from "../../theme/typography";
 import { spacing, borderRadius } from "../../theme/spacing";
 import { logger } from "../../services/logger";
+import { formatDuration } from "../../utils/dateUtils";
+import { AnswerGrade, gradeTypedAnswer } from "../../utils/answerGrading";
+import { gradeAnswerWithAI } from "../../services/ai/answerGrading";
+import { generateDistractors } from "../../services/ai/distractorGeneration";
+import {
+  getQuizRating,
+  hasCachedDistractors,
+  pickFallbackDistractors,
+} from "../../utils/quiz";
+import { getCardSides, isReverseCard } from "../../utils/cardDirection";
+import { getExamTimeLeft } from "../../utils/exam";
+import { suggestRatingFromResponseTime } from "../../utils/responseTime";
+import {
+  getSessionEndReason,
+  getSessionGoalProgress,
+  getStudiedCounts,
+} from "../../utils/sessionGoals";
+import { appConfig } from "../../config/appConfig";
 
 type StudyModeScreenNavigationProp = NativeStackNavigationProp<
   LibraryStackParamList,
@@ -45,10 +82,19 @@ export const StudyModeScreen: React.FC = () => {
   const route = useRoute<StudyModeScreenRouteProp>();
   const dispatch = useAppDispatch();
 
-  const { deckId } = route.params;
+  const { deckId, deckIds, cram, quiz, exam, goal, resume } = route.params;
   const {
     startSession,
+    resumeSession,
+    startMultiDeckSession,
+    startExamSession,
+    answerExamQuestion,
+    finishExam,
+    revealAnswer,
+    responseTimeMs,
     reviewCard,
+    undoReview,
+    canUndo,
     endSession,
     isActive,
     loading,
@@ -60,10 +106,37 @@ export const StudyModeScreen: React.FC = () => {
 
   const reduxCurrentCard = useAppSelector(selectCurrentCard);
   const reduxProgress = useAppSelector(selectSessionProgress);
+  const nextLearningDue = useAppSelector(selectNextLearningDue);
+  const { type_answers: typeAnswers, time_suggestions: timeSuggestions } =
+    useAppSelector(selectSettings);
+  const responseTimeBaseline = useAppSelector(selectResponseTimeBaseline);
+  const activeSession = useAppSelector(selectActiveSession);
+  // A resumed session has no route params describing it
+  const isCram = useAppSelector(selectIsCramSession) || !!cram;
+  const isMultiDeck = useAppSelector(selectIsMultiDeckSession);
+  const deckCards = useAppSelector(
+    selectCardsByDeckId(reduxCurrentCard?.deck_id ?? deckId ?? "")
+  );
+  const decks = useAppSelector(selectAllDecks);
+  const isOffline = useAppSelector(selectIsOffline);
 
   const [sessionStarted, setSessionStarted] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [showAnswer, setShowAnswer] = useState(false);
   const [isReviewing, setIsReviewing] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [answerGrade, setAnswerGrade] = useState<AnswerGrade | null>(null);
+  const [aiGrade, setAiGrade] = useState<AIAnswerGrade | null>(null);
+  const [isAiGrading, setIsAiGrading] = useState(false);
+  const [quizDistractors, setQuizDistractors] = useState<string[] | null>(null);
+  const [quizChoice, setQuizChoice] = useState<string | null>(null);
+  const [isLoadingQuiz, setIsLoadingQuiz] = useState(false);
+  // Distractors per card for this session, including offline fallbacks
+  const distractorCache = useRef<Record<string, string[]>>({});
+  const currentCardId = useRef<string | null>(null);
+  const isFinishingExam = useRef(false);
+  // Ratings given this session, most recent last (for undo)
+  const reviewRatings = useRef<ReviewDifficulty[]>([]);
   const [sessionStats, setSessionStats] = useState<{
     totalCards: number;
     cardsStudied: number;
@@ -76,16 +149,284 @@ export const StudyModeScreen: React.FC = () => {
    */
   useEffect(() => {
     initializeSession();
-  }, [deckId]);
+  }, [deckId, cram]);
+
+  /**
+   * Load the response-time baseline used to suggest ratings
+   */
+  useEffect(() => {
+    if (timeSuggestions && !isOffline) {
+      dispatch(loadResponseTimeBaseline());
+    }
+  }, [timeSuggestions]);
+
+  /**
+   * Time the answer from the card appearing to its first reveal
+   */
+  useEffect(() => {
+    if (showAnswer) {
+      revealAnswer();
+    }
+  }, [showAnswer]);
+
+  const isWaitingForLearningCards =
+    !!reduxProgress &&
+    reduxProgress.current > reduxProgress.total &&
+    reduxProgress.learningCount > 0;
+
+  /**
+   * While only learning cards remain, poll until the next step comes due
+   */
+  useEffect(() => {
+    if (!isWaitingForLearningCards) return;
+
+    const timer = setInterval(() => {
+      const timestamp = Date.now();
+      setNow(timestamp);
+      dispatch(releaseDueLearningCards(timestamp));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isWaitingForLearningCards, dispatch]);
+
+  const examProgress = activeSession?.exam ?? null;
+  const examReport = examProgress?.report ?? null;
+  const examTimeLeft =
+    examProgress && activeSession
+      ? getExamTimeLeft(
+          activeSession.session_start_time,
+          examProgress.time_limit_seconds,
+          now
+        )
+      : null;
+  const isExamRunning = !!examProgress && !examReport;
+
+  // Exams keep their own clock; other sessions end at a goal or time limit
+  const sessionEnd =
+    activeSession && !examProgress
+      ? getSessionEndReason(activeSession, now)
+      : null;
+  const goalProgress =
+    activeSession?.goal && !examProgress
+      ? getSessionGoalProgress(activeSession, activeSession.goal, now)
+      : null;
+  const isSessionRunning =
+    sessionStarted && !!activeSession && !examProgress && sessionEnd === null;
+
+  /**
+   * Tick the session clock for time goals and the session time limit
+   */
+  useEffect(() => {
+    if (!isSessionRunning) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isSessionRunning]);
+
+  /**
+   * Tick the exam countdown
+   */
+  useEffect(() => {
+    if (!isExamRunning) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isExamRunning]);
+
+  /**
+   * Finish the exam when time runs out or every question is answered
+   */
+  useEffect(() => {
+    if (!isExamRunning || !reduxProgress || isFinishingExam.current) return;
+
+    const timedOut = examTimeLeft === 0;
+    if (timedOut || reduxProgress.current > reduxProgress.total) {
+      isFinishingExam.current = true;
+      setShowAnswer(false);
+      finishExam(timedOut);
+    }
+  }, [isExamRunning, examTimeLeft, reduxProgress?.current]);
+
+  /**
+   * Clear the typed answer when the card changes
+   */
+  useEffect(() => {
+    setTypedAnswer("");
+    setAnswerGrade(null);
+    setAiGrade(null);
+    setQuizChoice(null);
+
+    currentCardId.current = reduxCurrentCard?.id ?? null;
+    if (quiz && reduxCurrentCard) {
+      loadQuizDistractors(reduxCurrentCard);
+    }
+  }, [reduxCurrentCard?.id]);
+
+  /**
+   * Load the wrong answers for a quiz question
+   * Generated once per card and cached on it; other cards' answers are
+   * used offline or when generation fails
+   */
+  const loadQuizDistractors = async (card: Card) => {
+    const cached =
+      distractorCache.current[card.id] ??
+      (hasCachedDistractors(card) ? (card.distractors as string[]) : null);
+
+    if (cached) {
+      setQuizDistractors(cached);
+      setIsLoadingQuiz(false);
+      return;
+    }
+
+    setQuizDistractors(null);
+    setIsLoadingQuiz(true);
+
+    let distractors = pickFallbackDistractors(card, [
+      ...deckCards,
+      ...(activeSession?.cards ?? []),
+    ]);
+
+    if (!isOffline) {
+      try {
+        distractors = await generateDistractors(card);
+        dispatch(updateCard({ cardId: card.id, updates: { distractors } }));
+      } catch (err) {
+        logger.warn("Using deck answers as quiz options", {
+          cardId: card.id,
+          error: err,
+        });
+      }
+    }
+
+    distractorCache.current[card.id] = distractors;
+
+    // The card may have changed while generating
+    if (currentCardId.current === card.id) {
+      setQuizDistractors(distractors);
+      setIsLoadingQuiz(false);
+    }
+  };
+
+  /**
+   * Reveal the answer once a quiz choice is picked
+   */
+  const handleQuizSelect = (option: string, correct: boolean) => {
+    if (!reduxCurrentCard) return;
+
+    setQuizChoice(option);
+    setShowAnswer(true);
+
+    logger.logUserAction("quiz_answered", {
+      cardId: reduxCurrentCard.id,
+      correct,
+    });
+  };
+
+  // Too few cards for wrong answers falls back to flipping the card
+  const isQuizQuestion = !!quiz && !!quizDistractors?.length;
+  const cardSides = reduxCurrentCard ? getCardSides(reduxCurrentCard) : null;
+  const isQuizCorrect = !!cardSides && quizChoice === cardSides.back;
+  const isTypingAnswer = typeAnswers && !quiz;
+
+  /**
+   * Grade the typed answer and reveal the stored one
+   */
+  const handleCheckAnswer = () => {
+    if (!reduxCurrentCard) return;
+
+    const grade = gradeTypedAnswer(
+      typedAnswer,
+      getCardSides(reduxCurrentCard).back
+    );
+    setAnswerGrade(grade);
+    setShowAnswer(true);
+
+    logger.logUserAction("typed_answer_checked", {
+      cardId: reduxCurrentCard.id,
+      similarity: Math.round(grade.similarity * 100),
+      suggestedRating: grade.suggestedRating,
+    });
+  };
+
+  /**
+   * Ask the AI whether a differently worded answer is still correct
+   */
+  const handleAiGrade = async () => {
+    if (!reduxCurrentCard) return;
+
+    try {
+      setIsAiGrading(true);
+      const grade = await gradeAnswerWithAI(reduxCurrentCard, typedAnswer);
+      setAiGrade(grade);
+
+      logger.logUserAction("typed_answer_ai_graded", {
+        cardId: reduxCurrentCard.id,
+        correct: grade.correct,
+      });
+    } catch (err) {
+      logger.error("Failed to grade answer with AI", { error: err });
+      Alert.alert("Error", "Failed to grade your answer. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setIsAiGrading(false);
+    }
+  };
+
+  // An answer the AI accepts is at least "Good"
+  const suggestedRating =
+    answerGrade &&
+    aiGrade?.correct &&
+    (answerGrade.suggestedRating === "again" ||
+      answerGrade.suggestedRating === "hard")
+      ? "medium"
+      : (answerGrade?.suggestedRating ?? null);
+
+  // Typed answers are graded instead; typing is slower than recalling
+  const timedRating =
+    timeSuggestions &&
+    !isTypingAnswer &&
+    responseTimeBaseline &&
+    responseTimeMs !== null
+      ? suggestRatingFromResponseTime(responseTimeMs, responseTimeBaseline)
+      : null;
 
   /**
    * Initialize study session
    */
   const initializeSession = async () => {
     try {
-      logger.logUserAction("initialize_study_session", { deckId });
+      logger.logUserAction("initialize_study_session", {
+        deckId,
+        deckCount: deckId ? 1 : (deckIds?.length ?? "all"),
+        cram: cram?.type,
+        quiz: !!quiz,
+        exam: !!exam,
+        resume: !!resume,
+      });
 
-      await startSession(deckId);
+      isFinishingExam.current = false;
+      if (resume) {
+        const session = await resumeSession();
+        const counts = getStudiedCounts(session);
+
+        setSessionStarted(true);
+        setSessionStats({
+          totalCards: session.cards.length,
+          cardsStudied: counts.cards_reviewed,
+          correctCount: counts.correct_count,
+          startTime: session.session_start_time,
+        });
+        return;
+      }
+
+      if (exam) {
+        await startExamSession(exam);
+      } else if (deckId || cram) {
+        await startSession(deckId, cram, goal);
+      } else {
+        await startMultiDeckSession(deckIds);
+      }
 
       setSessionStarted(true);
       setSessionStats({
@@ -98,12 +439,18 @@ export const StudyModeScreen: React.FC = () => {
       logger.logUserAction("study_session_initialized", { deckId });
     } catch (err) {
       logger.error("Failed to start study session", { error: err });
-      Alert.alert("Error", "Failed to start study session. Please try again.", [
-        {
-          text: "Go Back",
-          onPress: () => navigation.goBack(),
-        },
-      ]);
+      Alert.alert(
+        "Error",
+        typeof err === "string"
+          ? err
+          : "Failed to start study session. Please try again.",
+        [
+          {
+            text: "Go Back",
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
     }
   };
 
@@ -125,7 +472,18 @@ export const StudyModeScreen: React.FC = () => {
         });
 
         // Review the card
-        await reviewCard(difficulty);
+        const result = await reviewCard(difficulty);
+        reviewRatings.current.push(difficulty);
+
+        if (result?.isNewLeech) {
+          Alert.alert(
+            "Leech Detected",
+            result.card.suspended
+              ? "You keep forgetting this card, so it has been suspended. Rewrite it from the deck's leech list."
+              : "You keep forgetting this card. Consider rewriting it from the deck's leech list.",
+            [{ text: "OK" }]
+          );
+        }
 
         // Update stats
         if (sessionStats) {
@@ -158,12 +516,83 @@ export const StudyModeScreen: React.FC = () => {
     [reduxCurrentCard, isReviewing, sessionStats, reviewCard]
   );
 
+  /**
+   * Undo the last review and bring its card back
+   */
+  const handleUndoReview = useCallback(async () => {
+    if (!canUndo || isReviewing) return;
+
+    try {
+      setIsReviewing(true);
+      await undoReview();
+
+      const difficulty = reviewRatings.current.pop();
+      if (sessionStats) {
+        setSessionStats({
+          ...sessionStats,
+          cardsStudied: Math.max(0, sessionStats.cardsStudied - 1),
+          correctCount:
+            difficulty === "easy" || difficulty === "medium"
+              ? sessionStats.correctCount - 1
+              : sessionStats.correctCount,
+        });
+      }
+
+      setShowAnswer(false);
+    } catch (err) {
+      Alert.alert("Error", "Failed to undo the review. Please try again.", [
+        { text: "OK" },
+      ]);
+    } finally {
+      setIsReviewing(false);
+    }
+  }, [canUndo, isReviewing, sessionStats, undoReview]);
+
+  /**
+   * Mark an exam question and move to the next one
+   */
+  const handleExamAnswer = (correct: boolean) => {
+    if (!reduxCurrentCard || !isExamRunning) return;
+
+    answerExamQuestion(correct);
+    setShowAnswer(false);
+
+    if (sessionStats) {
+      setSessionStats({
+        ...sessionStats,
+        cardsStudied: sessionStats.cardsStudied + 1,
+        correctCount: sessionStats.correctCount + (correct ? 1 : 0),
+      });
+    }
+  };
+
   /**
    * Handle end session
    */
   const handleEndSession = () => {
     if (!sessionStats) return;
 
+    // Ending an exam early still produces its report
+    if (isExamRunning) {
+      Alert.alert(
+        "End Exam",
+        "Questions you haven't answered will count as missed.",
+        [
+          { text: "Keep Going", style: "cancel" },
+          {
+            text: "End Exam",
+            style: "destructive",
+            onPress: () => {
+              isFinishingExam.current = true;
+              setShowAnswer(false);
+              finishExam(false);
+            },
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       "End Study Session",
       `You've studied ${sessionStats.cardsStudied} cards. End session?`,
@@ -233,14 +662,114 @@ export const StudyModeScreen: React.FC = () => {
     );
   }
 
+  /**
+   * Render exam report
+   */
+  if (examReport && activeSession) {
+    const { score } = examReport;
+    const missedCount = examReport.missed_card_ids.length;
+
+    return (
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <View style={styles.sessionCompleteContainer}>
+          <Text style={styles.successIcon}>
+            {examReport.timed_out ? "⏰" : "📝"}
+          </Text>
+
+          <Text style={styles.completeTitle}>
+            {examReport.timed_out ? "Time's Up!" : "Exam Complete!"}
+          </Text>
+
+          {/* Stats Card */}
+          <View style={styles.statsContainer}>
+            <View style={styles.statRow}>
+              <Text style={styles.statLabel}>Score</Text>
+              <Text style={styles.statValue}>{score.percent}%</Text>
+            </View>
+
+            <View style={styles.divider} />
+
+            <View style={styles.statRow}>
+              <Text style={styles.statLabel}>Correct</Text>
+              <Text style={styles.statValue}>
+                {score.correct} / {score.total}
+              </Text>
+            </View>
+
+            <View style={styles.divider} />
+
+            <View style={styles.statRow}>
+              <Text style={styles.statLabel}>Answered</Text>
+              <Text style={styles.statValue}>
+                {examReport.answers.length} / {score.total}
+              </Text>
+            </View>
+
+            <View style={styles.divider} />
+
+            <View style={styles.statRow}>
+              <Text style={styles.statLabel}>Time Spent</Text>
+              <Text style={styles.statValue}>
+                {formatDuration(examReport.duration_seconds)}
+              </Text>
+            </View>
+          </View>
+
+          <ExamBreakdown
+            report={examReport}
+            questions={activeSession.cards}
+            deckNames={Object.fromEntries(
+              decks.map((deck) => [deck.id, deck.title])
+            )}
+            testID="exam-breakdown"
+          />
+
+          {/* Action Buttons */}
+          <View style={styles.completeActions}>
+            <Button
+              variant="secondary"
+              onPress={() => navigation.goBack()}
+              style={styles.actionButton}
+              testID="back-button"
+            >
+              Done
+            </Button>
+
+            {missedCount > 0 && (
+              <Button
+                variant="primary"
+                onPress={() => {
+                  logger.logNavigation("StudyMode", "StudyMode", {
+                    cram: "cards",
+                    cardCount: missedCount,
+                  });
+                  endSession();
+                  navigation.replace("StudyMode", {
+                    cram: {
+                      type: "cards",
+                      cardIds: examReport.missed_card_ids,
+                    },
+                  });
+                }}
+                style={styles.actionButton}
+                testID="review-missed-button"
+              >
+                {`Review These (${missedCount})`}
+              </Button>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    );
+  }
+
   /**
    * Render session complete state
    */
-  if (
-    sessionStats &&
-    reduxProgress &&
-    reduxProgress.current > reduxProgress.total
-  ) {
+  if (!examProgress && sessionStats && sessionEnd !== null) {
     const duration = Math.floor((Date.now() - sessionStats.startTime) / 1000);
     const minutes = Math.floor(duration / 60);
     const seconds = duration % 60;
@@ -255,10 +784,27 @@ export const StudyModeScreen: React.FC = () => {
       >
         <View style={styles.sessionCompleteContainer}>
           {/* Success Icon */}
-          <Text style={styles.successIcon}>🎉</Text>
+          <Text style={styles.successIcon}>
+            {sessionEnd === "time_limit" ? "⏰" : "🎉"}
+          </Text>
 
           {/* Title */}
-          <Text style={styles.completeTitle}>Session Complete!</Text>
+          <Text style={styles.completeTitle}>
+            {sessionEnd === "goal"
+              ? "Goal Reached!"
+              : sessionEnd === "time_limit"
+                ? "Time's Up!"
+                : isCram
+                  ? "Cram Complete!"
+                  : "Session Complete!"}
+          </Text>
+          {sessionEnd === "time_limit" && (
+            <Text style={styles.completeHint}>
+              Sessions end after{" "}
+              {formatDuration(appConfig.studySession.maxSessionDuration)}. Take
+              a break and start a new one to keep going.
+            </Text>
+          )}
 
           {/* Stats Card */}
           <View style={styles.statsContainer}>
@@ -282,6 +828,26 @@ export const StudyModeScreen: React.FC = () => {
                 {minutes}:{seconds.toString().padStart(2, "0")}
               </Text>
             </View>
+
+            {/* Cards studied per deck */}
+            {isMultiDeck &&
+              activeSession &&
+              Object.entries(activeSession.deck_sessions).map(
+                ([sessionDeckId, deckProgress]) => (
+                  <React.Fragment key={sessionDeckId}>
+                    <View style={styles.divider} />
+                    <View style={styles.statRow}>
+                      <Text style={styles.statLabel} numberOfLines={1}>
+                        {decks.find((deck) => deck.id === sessionDeckId)
+                          ?.title ?? "Deck"}
+                      </Text>
+                      <Text style={styles.statValue}>
+                        {deckProgress.cards_reviewed}
+                      </Text>
+                    </View>
+                  </React.Fragment>
+                )
+              )}
           </View>
 
           {/* Encouragement */}
@@ -304,20 +870,35 @@ export const StudyModeScreen: React.FC = () => {
               Back to Deck
             </Button>
 
+            {/* A resumed session can't be started again */}
+            {!resume && (
+              <Button
+                variant="primary"
+                onPress={() => {
+                  setSessionStarted(false);
+                  setSessionStats(null);
+                  setShowAnswer(false);
+                  initializeSession();
+                }}
+                style={styles.actionButton}
+                testID="study-again-button"
+              >
+                Study Again
+              </Button>
+            )}
+          </View>
+
+          {/* A mis-tap on the last card can still be taken back */}
+          {canUndo && (
             <Button
-              variant="primary"
-              onPress={() => {
-                setSessionStarted(false);
-                setSessionStats(null);
-                setShowAnswer(false);
-                initializeSession();
-              }}
-              style={styles.actionButton}
-              testID="study-again-button"
+              variant="tertiary"
+              onPress={handleUndoReview}
+              disabled={isReviewing}
+              testID="undo-last-review-button"
             >
-              Study Again
+              Undo Last Review
             </Button>
-          </View>
+          )}
         </View>
       </ScrollView>
     );
@@ -336,16 +917,48 @@ export const StudyModeScreen: React.FC = () => {
               ? `${reduxProgress.current} / ${reduxProgress.total}`
               : "Loading..."}
           </Text>
-          <Text style={styles.progressLabel}>Cards</Text>
+          <Text
+            style={[
+              styles.progressLabel,
+              examTimeLeft !== null && examTimeLeft < 60 && styles.examTimeLow,
+            ]}
+            testID={exam ? "exam-countdown" : undefined}
+          >
+            {examTimeLeft !== null
+              ? `Exam · ${Math.floor(examTimeLeft / 60)}:${(examTimeLeft % 60)
+                  .toString()
+                  .padStart(2, "0")} left`
+              : isCram
+                ? "Cram · schedule unchanged"
+                : quiz
+                  ? "Quiz"
+                  : goalProgress
+                    ? `Goal · ${goalProgress.label}`
+                    : isMultiDeck || (!deckId && !resume)
+                      ? "Due across decks"
+                      : "Cards"}
+          </Text>
         </View>
 
-        <TouchableOpacity
-          onPress={handleEndSession}
-          testID="end-session-button"
-          style={styles.endButton}
-        >
-          <Text style={styles.endButtonText}>✕</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {canUndo && (
+            <TouchableOpacity
+              onPress={handleUndoReview}
+              disabled={isReviewing}
+              testID="undo-review-button"
+              style={styles.endButton}
+            >
+              <Text style={styles.endButtonText}>↶</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={handleEndSession}
+            testID="end-session-button"
+            style={styles.endButton}
+          >
+            <Text style={styles.endButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Progress Bar */}
@@ -355,8 +968,11 @@ export const StudyModeScreen: React.FC = () => {
             style={[
               styles.progressBar,
               {
+                // A goal's progress when one is set
                 width: `${Math.round(
-                  (reduxProgress.current / reduxProgress.total) * 100
+                  goalProgress
+                    ? (goalProgress.current / goalProgress.target) * 100 || 0
+                    : (reduxProgress.current / reduxProgress.total) * 100
                 )}%`,
               },
             ]}
@@ -370,33 +986,123 @@ export const StudyModeScreen: React.FC = () => {
         contentContainerStyle={styles.contentContainer}
         showsVerticalScrollIndicator={false}
       >
-        {reduxCurrentCard ? (
+        {isWaitingForLearningCards ? (
+          <View style={styles.waitingContainer} testID="learning-wait">
+            <Text style={styles.waitingTitle}>
+              {reduxProgress?.learningCount} learning{" "}
+              {reduxProgress?.learningCount === 1 ? "card" : "cards"} left
+            </Text>
+            <Text style={styles.waitingText}>
+              Next card in{" "}
+              {formatDuration(
+                Math.max(0, Math.ceil(((nextLearningDue ?? now) - now) / 1000))
+              )}
+            </Text>
+          </View>
+        ) : reduxCurrentCard ? (
           <>
             {/* Flashcard */}
             <View style={styles.cardContainer}>
               <FlashcardCard
                 card={reduxCurrentCard}
                 isFlipped={showAnswer}
-                onFlip={() => setShowAnswer(!showAnswer)}
+                onFlip={() => {
+                  if (!isQuizQuestion || quizChoice) {
+                    setShowAnswer(!showAnswer);
+                  }
+                }}
+                typedAnswer={answerGrade ? typedAnswer : undefined}
                 testID="study-card"
               />
             </View>
 
-            {/* Tap Hint */}
-            {!showAnswer && (
-              <View style={styles.tapHint}>
-                <Text style={styles.tapHintText}>
-                  Tap card to reveal answer
+            {/* Quiz Choices */}
+            {quiz && isLoadingQuiz && (
+              <LoadingSpinner message="Loading choices..." />
+            )}
+            {isQuizQuestion && (
+              <MultipleChoiceOptions
+                answer={getCardSides(reduxCurrentCard).back}
+                distractors={quizDistractors as string[]}
+                selected={quizChoice}
+                onSelect={handleQuizSelect}
+                disabled={isReviewing}
+                testID="quiz-options"
+              />
+            )}
+
+            {/* Typed Answer */}
+            {isTypingAnswer && !showAnswer && (
+              <View style={styles.typedAnswerContainer}>
+                <Input
+                  value={typedAnswer}
+                  onChangeText={setTypedAnswer}
+                  placeholder="Type your answer"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  testID="typed-answer-input"
+                />
+                <Button
+                  variant="primary"
+                  onPress={handleCheckAnswer}
+                  testID="check-answer-button"
+                >
+                  Check
+                </Button>
+              </View>
+            )}
+
+            {/* Typed Answer Grade */}
+            {showAnswer && answerGrade && (
+              <View style={styles.gradeInfo} testID="answer-grade">
+                <Text style={styles.gradeText}>
+                  {answerGrade.exact
+                    ? "Exact match"
+                    : `${Math.round(answerGrade.similarity * 100)}% match`}
                 </Text>
+                {aiGrade ? (
+                  <Text style={styles.aiGradeText}>
+                    {aiGrade.correct ? "✓ " : "✗ "}
+                    {aiGrade.feedback ||
+                      (aiGrade.correct ? "Correct" : "Incorrect")}
+                  </Text>
+                ) : (
+                  !answerGrade.exact &&
+                  typedAnswer.trim().length > 0 && (
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      onPress={handleAiGrade}
+                      loading={isAiGrading}
+                      testID="ai-grade-button"
+                    >
+                      AI Grade
+                    </Button>
+                  )
+                )}
               </View>
             )}
 
+            {/* Tap Hint */}
+            {!showAnswer &&
+              !isTypingAnswer &&
+              !isQuizQuestion &&
+              !isLoadingQuiz && (
+                <View style={styles.tapHint}>
+                  <Text style={styles.tapHintText}>
+                    Tap card to reveal answer
+                  </Text>
+                </View>
+              )}
+
             {/* Question Preview (when answer is shown) */}
             {showAnswer && (
               <View style={styles.cardInfo}>
-                <Text style={styles.infoLabel}>Question:</Text>
+                <Text style={styles.infoLabel}>
+                  {isReverseCard(reduxCurrentCard) ? "Answer:" : "Question:"}
+                </Text>
                 <Text style={styles.infoText} numberOfLines={2}>
-                  {reduxCurrentCard.question}
+                  {getCardSides(reduxCurrentCard).front}
                 </Text>
               </View>
             )}
@@ -408,12 +1114,57 @@ export const StudyModeScreen: React.FC = () => {
         )}
       </ScrollView>
 
+      {/* Quiz Result */}
+      {showAnswer && reduxCurrentCard && isQuizQuestion && (
+        <View style={styles.quizResultContainer}>
+          <Text
+            style={[
+              styles.quizResultText,
+              isQuizCorrect ? styles.quizCorrect : styles.quizWrong,
+            ]}
+          >
+            {isQuizCorrect ? "Correct!" : "Incorrect"}
+          </Text>
+          <Button
+            variant="primary"
+            onPress={() => handleDifficultySelect(getQuizRating(isQuizCorrect))}
+            loading={isReviewing}
+            testID="quiz-continue-button"
+          >
+            Continue
+          </Button>
+        </View>
+      )}
+
+      {/* Exam Marking */}
+      {showAnswer && reduxCurrentCard && isExamRunning && (
+        <View style={styles.examActions}>
+          <Button
+            variant="secondary"
+            onPress={() => handleExamAnswer(false)}
+            style={styles.examButton}
+            testID="exam-missed-button"
+          >
+            ✗ Missed
+          </Button>
+          <Button
+            variant="primary"
+            onPress={() => handleExamAnswer(true)}
+            style={styles.examButton}
+            testID="exam-correct-button"
+          >
+            ✓ Correct
+          </Button>
+        </View>
+      )}
+
       {/* Difficulty Selector */}
-      {showAnswer && reduxCurrentCard && (
+      {showAnswer && reduxCurrentCard && !isQuizQuestion && !examProgress && (
         <View style={styles.difficultyContainer}>
           <DifficultySelector
             onSelect={handleDifficultySelect}
             disabled={isReviewing}
+            suggested={suggestedRating ?? timedRating}
             testID="difficulty-selector"
           />
         </View>
@@ -454,6 +1205,15 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
   },
 
+  examTimeLow: {
+    color: colors.error.main,
+  },
+
+  headerActions: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+
   endButton: {
     width: 40,
     height: 40,
@@ -505,6 +1265,48 @@ const styles = StyleSheet.create({
     marginTop: spacing.md,
   },
 
+  quizResultContainer: {
+    padding: spacing.md,
+    gap: spacing.sm,
+    backgroundColor: colors.background.paper,
+  },
+
+  quizResultText: {
+    ...typography.bodyLarge,
+    textAlign: "center",
+  },
+
+  quizCorrect: {
+    color: colors.success.main,
+  },
+
+  quizWrong: {
+    color: colors.error.main,
+  },
+
+  typedAnswerContainer: {
+    width: "100%",
+    gap: spacing.sm,
+  },
+
+  gradeInfo: {
+    width: "100%",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+
+  gradeText: {
+    ...typography.bodyLarge,
+    color: colors.text.primary,
+  },
+
+  aiGradeText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: "center",
+  },
+
   tapHintText: {
     ...typography.bodySmall,
     color: colors.text.tertiary,
@@ -532,6 +1334,24 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
   },
 
+  waitingContainer: {
+    width: "100%",
+    height: 300,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+
+  waitingTitle: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+
+  waitingText: {
+    ...typography.bodyRegular,
+    color: colors.text.secondary,
+  },
+
   loadingCardContainer: {
     width: "100%",
     height: 300,
@@ -547,6 +1367,20 @@ const styles = StyleSheet.create({
     paddingVertical: spacing.md,
   },
 
+  examActions: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    backgroundColor: colors.background.paper,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+
+  examButton: {
+    flex: 1,
+  },
+
   sessionCompleteContainer: {
     flex: 1,
     padding: spacing.lg,
@@ -566,6 +1400,14 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
 
+  completeHint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: "center",
+    marginBottom: spacing.lg,
+    paddingHorizontal: spacing.md,
+  },
+
   statsContainer: {
     width: "100%",
     backgroundColor: colors.surface.main,
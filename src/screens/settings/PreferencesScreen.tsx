@@ -12,6 +12,18 @@ import { Text, Divider } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useAppDispatch, useAppSelector } from "../../store";
 import { logger } from "../../services/logger";
+import {
+  defaultSettings,
+  optimizeScheduler,
+  selectSchedulerOptimizing,
+  selectSettings,
+  selectVacation,
+  startVacation,
+  updateSettings,
+} from "../../store/slices/settingsSlice";
+import Input from "../../components/common/Input";
+import { isVacationPending, parseVacation } from "../../utils/vacation";
+import { formatDate } from "../../utils/dateUtils";
 import { colors } from "../../theme/colors";
 import { spacing } from "../../theme/spacing";
 import { typography } from "../../theme/typography";
@@ -30,6 +42,9 @@ const PreferencesScreen: React.FC = () => {
 
   // Redux state
   const { user } = useAppSelector((state) => state.auth);
+  const settings = useAppSelector(selectSettings);
+  const optimizing = useAppSelector(selectSchedulerOptimizing);
+  const vacation = useAppSelector(selectVacation);
 
   // Local state for preferences
   const [isLoading, setIsLoading] = useState(false);
@@ -37,6 +52,9 @@ const PreferencesScreen: React.FC = () => {
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [darkModeEnabled, setDarkModeEnabled] = useState(true);
   const [autoGenerateCards, setAutoGenerateCards] = useState(false);
+  const [vacationStart, setVacationStart] = useState("");
+  const [vacationEnd, setVacationEnd] = useState("");
+  const [savingVacation, setSavingVacation] = useState(false);
 
   // Load preferences from storage on mount
   useEffect(() => {
@@ -118,6 +136,137 @@ const PreferencesScreen: React.FC = () => {
     [savePreference]
   );
 
+  // Handle scheduler toggle (FSRS vs SM-2)
+  const handleSchedulerToggle = useCallback(
+    (value: boolean) => {
+      const scheduler = value ? "fsrs" : "sm2";
+      dispatch(updateSettings({ scheduler }));
+      logger.info("Scheduler changed", { scheduler });
+    },
+    [dispatch]
+  );
+
+  // Handle leech action toggle (suspend vs tag only)
+  const handleLeechSuspendToggle = useCallback(
+    (value: boolean) => {
+      const leechAction = value ? "suspend" : "tag";
+      dispatch(updateSettings({ leech_action: leechAction }));
+      logger.info("Leech action changed", { leechAction });
+    },
+    [dispatch]
+  );
+
+  // Handle typed answers toggle
+  const handleTypeAnswersToggle = useCallback(
+    (value: boolean) => {
+      dispatch(updateSettings({ type_answers: value }));
+      logger.info("Typed answers changed", { enabled: value });
+    },
+    [dispatch]
+  );
+
+  // Handle response-time rating suggestions toggle
+  const handleTimeSuggestionsToggle = useCallback(
+    (value: boolean) => {
+      dispatch(updateSettings({ time_suggestions: value }));
+      logger.info("Response time suggestions changed", { enabled: value });
+    },
+    [dispatch]
+  );
+
+  // Handle day rollover change (hour a new study day starts)
+  const handleRolloverChange = useCallback(
+    (delta: number) => {
+      const hour = (settings.day_rollover_hour + delta + 24) % 24;
+      dispatch(updateSettings({ day_rollover_hour: hour }));
+      logger.info("Day rollover hour changed", { hour });
+    },
+    [dispatch, settings.day_rollover_hour]
+  );
+
+  // Handle scheduler optimization (fit parameters to review history)
+  const handleOptimizeScheduler = useCallback(async () => {
+    try {
+      const report = await dispatch(optimizeScheduler()).unwrap();
+      const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+      logger.logUserAction("optimize_scheduler", {
+        scheduler: report.scheduler,
+        reviewCount: report.reviewCount,
+      });
+
+      Alert.alert(
+        "Optimize Scheduler",
+        `Based on ${report.reviewCount} reviews you remember ${percent(
+          report.actualRetention
+        )} of due cards.\n\nExpected retention: ${percent(
+          report.retentionBefore
+        )} → ${percent(report.retentionAfter)}`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Apply",
+            onPress: () => {
+              dispatch(
+                updateSettings({ scheduler_parameters: report.parameters })
+              );
+              logger.info("Optimized scheduler parameters applied", {
+                scheduler: report.scheduler,
+              });
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        typeof error === "string"
+          ? error
+          : "Failed to optimize scheduler. Please try again."
+      );
+    }
+  }, [dispatch]);
+
+  // Handle vacation start (pause the schedule for the chosen days)
+  const handleStartVacation = useCallback(async () => {
+    const period = parseVacation(vacationStart, vacationEnd);
+    if (!period) {
+      Alert.alert("Vacation", "Enter the first and last day as YYYY-MM-DD.");
+      return;
+    }
+
+    try {
+      setSavingVacation(true);
+      const movedCount = await dispatch(startVacation(period)).unwrap();
+
+      logger.logUserAction("start_vacation", { ...period, movedCount });
+
+      setVacationStart("");
+      setVacationEnd("");
+      Alert.alert(
+        "Vacation",
+        movedCount > 0
+          ? `${movedCount} card${movedCount === 1 ? "" : "s"} moved past your break.`
+          : "No cards were due during your break."
+      );
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        typeof error === "string"
+          ? error
+          : "Failed to start vacation. Please try again."
+      );
+    } finally {
+      setSavingVacation(false);
+    }
+  }, [dispatch, vacationStart, vacationEnd]);
+
+  // Handle vacation end (cards already moved keep their new dates)
+  const handleEndVacation = useCallback(() => {
+    dispatch(updateSettings({ vacation: null }));
+    logger.logUserAction("end_vacation");
+  }, [dispatch]);
+
   // Handle reset preferences
   const handleResetPreferences = useCallback(() => {
     Alert.alert(
@@ -139,6 +288,17 @@ const PreferencesScreen: React.FC = () => {
               setNotificationsEnabled(true);
               setDarkModeEnabled(true);
               setAutoGenerateCards(false);
+              dispatch(
+                updateSettings({
+                  scheduler: defaultSettings.scheduler,
+                  leech_threshold: defaultSettings.leech_threshold,
+                  leech_action: defaultSettings.leech_action,
+                  day_rollover_hour: defaultSettings.day_rollover_hour,
+                  type_answers: defaultSettings.type_answers,
+                  time_suggestions: defaultSettings.time_suggestions,
+                  scheduler_parameters: undefined,
+                })
+              );
               logger.info("Preferences reset to defaults");
               Alert.alert("Success", "Preferences have been reset.");
             } catch (error) {
@@ -157,7 +317,7 @@ const PreferencesScreen: React.FC = () => {
         },
       ]
     );
-  }, []);
+  }, [dispatch]);
 
   if (isLoading) {
     return (
@@ -215,6 +375,179 @@ const PreferencesScreen: React.FC = () => {
           value={autoGenerateCards}
           onToggle={handleAutoGenerateToggle}
         />
+
+        <Divider style={styles.divider} />
+
+        <PreferenceItem
+          label="Type Answers"
+          description="Type each answer before revealing it and get a suggested rating"
+          value={settings.type_answers}
+          onToggle={handleTypeAnswersToggle}
+        />
+
+        <Divider style={styles.divider} />
+
+        <PreferenceItem
+          label="Suggest Ratings by Speed"
+          description="Highlight Easy for quick answers and Hard for slow ones, based on your usual pace"
+          value={settings.time_suggestions}
+          onToggle={handleTimeSuggestionsToggle}
+        />
+
+        <Divider style={styles.divider} />
+
+        <PreferenceItem
+          label="FSRS Scheduler"
+          description="Schedule reviews with FSRS instead of SM-2 for better retention"
+          value={settings.scheduler === "fsrs"}
+          onToggle={handleSchedulerToggle}
+        />
+
+        <Divider style={styles.divider} />
+
+        <PreferenceItem
+          label="Suspend Leeches"
+          description={`Stop showing cards forgotten ${settings.leech_threshold} times until you fix them`}
+          value={settings.leech_action === "suspend"}
+          onToggle={handleLeechSuspendToggle}
+        />
+
+        <Divider style={styles.divider} />
+
+        <View style={styles.preferenceItem}>
+          <View style={styles.preferenceContent}>
+            <Text
+              style={[typography.bodyLarge, { color: colors.text.primary }]}
+            >
+              Next Day Starts At
+            </Text>
+            <Text
+              style={[
+                typography.bodySmall,
+                { color: colors.text.secondary, marginTop: spacing.xs },
+              ]}
+            >
+              Reviews before this hour count towards the previous day
+            </Text>
+          </View>
+          <View style={styles.hourControls}>
+            <TouchableOpacity
+              style={styles.hourButton}
+              onPress={() => handleRolloverChange(-1)}
+              testID="rollover-decrease-button"
+            >
+              <Text style={[typography.button, { color: colors.text.primary }]}>
+                −
+              </Text>
+            </TouchableOpacity>
+            <Text
+              style={[
+                typography.bodyLarge,
+                styles.hourValue,
+                { color: colors.text.primary },
+              ]}
+            >
+              {`${settings.day_rollover_hour}:00`}
+            </Text>
+            <TouchableOpacity
+              style={styles.hourButton}
+              onPress={() => handleRolloverChange(1)}
+              testID="rollover-increase-button"
+            >
+              <Text style={[typography.button, { color: colors.text.primary }]}>
+                +
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      {/* Vacation Section */}
+      <View style={styles.section}>
+        <Text style={[typography.h3, styles.sectionTitle]}>Vacation</Text>
+
+        {isVacationPending(vacation) ? (
+          <>
+            <Text
+              style={[typography.bodyLarge, { color: colors.text.primary }]}
+            >
+              {`${formatDate(vacation.start)} – ${formatDate(vacation.end)}`}
+            </Text>
+            <Text
+              style={[
+                typography.bodySmall,
+                {
+                  color: colors.text.secondary,
+                  marginTop: spacing.xs,
+                  marginBottom: spacing.md,
+                },
+              ]}
+            >
+              No reviews will come due during your break
+            </Text>
+
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={handleEndVacation}
+            >
+              <Text style={[typography.button, { color: colors.text.primary }]}>
+                End Vacation
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text
+              style={[
+                typography.bodySmall,
+                { color: colors.text.secondary, marginBottom: spacing.md },
+              ]}
+            >
+              Pause your schedule so no cards come due while you're away
+            </Text>
+
+            <Input
+              label="First Day"
+              value={vacationStart}
+              onChangeText={setVacationStart}
+              placeholder="YYYY-MM-DD"
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="vacation-start-input"
+            />
+            <Input
+              label="Last Day"
+              value={vacationEnd}
+              onChangeText={setVacationEnd}
+              placeholder="YYYY-MM-DD"
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="vacation-end-input"
+            />
+
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={handleStartVacation}
+              disabled={savingVacation}
+            >
+              {savingVacation ? (
+                <ActivityIndicator
+                  color={colors.primary.contrast}
+                  size="small"
+                />
+              ) : (
+                <Text
+                  style={[
+                    typography.button,
+                    { color: colors.primary.contrast },
+                  ]}
+                >
+                  Start Vacation
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
       {/* Sync & Data Section */}
@@ -273,6 +606,45 @@ const PreferencesScreen: React.FC = () => {
       <View style={styles.section}>
         <Text style={[typography.h3, styles.sectionTitle]}>Advanced</Text>
 
+        <TouchableOpacity
+          style={styles.advancedButton}
+          onPress={handleOptimizeScheduler}
+          disabled={optimizing}
+        >
+          <View style={styles.advancedButtonContent}>
+            <View style={styles.preferenceContent}>
+              <Text
+                style={[typography.bodyLarge, { color: colors.text.primary }]}
+              >
+                Optimize Scheduler
+              </Text>
+              <Text
+                style={[
+                  typography.bodySmall,
+                  { color: colors.text.secondary, marginTop: spacing.xs },
+                ]}
+              >
+                {settings.scheduler_parameters?.optimized_at
+                  ? `Last optimized ${new Date(
+                      settings.scheduler_parameters.optimized_at
+                    ).toLocaleDateString()}`
+                  : "Fit review intervals to your own review history"}
+              </Text>
+            </View>
+            {optimizing ? (
+              <ActivityIndicator color={colors.primary.main} size="small" />
+            ) : (
+              <Text
+                style={[typography.caption, { color: colors.text.tertiary }]}
+              >
+                →
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+
+        <Divider style={styles.divider} />
+
         <TouchableOpacity style={styles.advancedButton}>
           <View style={styles.advancedButtonContent}>
             <View>
@@ -456,6 +828,23 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: spacing.md,
   },
+  hourControls: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  hourButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  hourValue: {
+    minWidth: 56,
+    textAlign: "center",
+  },
   divider: {
     marginVertical: spacing.md,
     backgroundColor: colors.divider,
@@ -484,6 +873,13 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     minHeight: 48,
   },
+  primaryButton: {
+    backgroundColor: colors.primary.main,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.surface.border,
+  },
   destructiveButton: {
     backgroundColor: colors.error.main,
   },
@@ -0,0 +1,76 @@
+import { generateContent } from "./geminiClient";
+import { logger } from "../logger";
+import { AppError, ErrorCode } from "../../utils/errorHandling";
+import { AIAnswerGrade, Card } from "../../utils/types";
+import { getCardSides } from "../../utils/cardDirection";
+
+/**
+ * Answer Grading Service
+ * Asks Gemini whether a typed answer means the same as the stored answer
+ * when the wording differs too much for fuzzy matching
+ */
+
+/**
+ * Check a typed answer for semantic correctness
+ */
+export async function gradeAnswerWithAI(
+  card: Card,
+  typedAnswer: string
+): Promise<AIAnswerGrade> {
+  try {
+    logger.info("Grading typed answer with AI", { cardId: card.id });
+
+    if (!typedAnswer.trim()) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, "Type an answer first");
+    }
+
+    const { front, back } = getCardSides(card);
+
+    const prompt = `You are grading a student's flashcard answer. Accept answers that mean the same as the correct answer even if worded differently, but reject answers that are incomplete or wrong.
+
+Question: ${front}
+Correct answer: ${back}
+Student's answer: ${typedAnswer.trim()}
+
+Return ONLY valid JSON format (no markdown):
+{
+  "correct": true,
+  "feedback": "One sentence explaining the grade"
+}
+
+Grade the answer:`;
+
+    const response = await generateContent(prompt);
+
+    const cleanedResponse = response
+      .replace(/```json\s*/g, "")
+      .replace(/```\s*/g, "")
+      .trim();
+
+    const parsed = JSON.parse(cleanedResponse);
+
+    if (typeof parsed.correct !== "boolean") {
+      throw new Error("Invalid grade format");
+    }
+
+    const grade: AIAnswerGrade = {
+      correct: parsed.correct,
+      feedback: String(parsed.feedback || "").trim(),
+    };
+
+    logger.info("Typed answer graded", {
+      cardId: card.id,
+      correct: grade.correct,
+    });
+
+    return grade;
+  } catch (error) {
+    logger.error("AI answer grading failed", { error });
+
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    throw new AppError(ErrorCode.GEMINI_API_ERROR, "Failed to grade answer");
+  }
+}
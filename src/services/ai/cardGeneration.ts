@@ -1,12 +1,14 @@
 import { generateContent, generateContentStream } from "./geminiClient";
 import { logger } from "../logger";
 import { AppError, ErrorCode } from "../../utils/errorHandling";
-import { GeneratedCard } from "../../utils/types";
+import { CardKind, GeneratedCard } from "../../utils/types";
+import { hasCloze } from "../../utils/cloze";
 import { appConfig } from "../../config/appConfig";
 
 /**
  * Card Generation Service
  * Handles flashcard generation from OCR text using Gemini AI
+ * Generates Q&A cards or cloze deletion cards ({{c1::...}} markup)
  */
 
 /**
@@ -14,12 +16,14 @@ import { appConfig } from "../../config/appConfig";
  */
 export async function generateFlashcards(
   ocrText: string,
-  cardCount: number = appConfig.gemini.defaultCardCount
+  cardCount: number = appConfig.gemini.defaultCardCount,
+  cardType: CardKind = "basic"
 ): Promise<GeneratedCard[]> {
   try {
     logger.info("Generating flashcards", {
       textLength: ocrText.length,
       cardCount,
+      cardType,
     });
 
     // Validate inputs
@@ -38,7 +42,7 @@ export async function generateFlashcards(
     }
 
     // Create prompt for Gemini
-    const prompt = createCardGenerationPrompt(ocrText, cardCount);
+    const prompt = createPrompt(ocrText, cardCount, cardType);
 
     // Generate content
     const response = await generateContent(prompt);
@@ -77,12 +81,14 @@ export async function generateFlashcards(
  */
 export async function* generateFlashcardsStream(
   ocrText: string,
-  cardCount: number = appConfig.gemini.defaultCardCount
+  cardCount: number = appConfig.gemini.defaultCardCount,
+  cardType: CardKind = "basic"
 ): AsyncGenerator<GeneratedCard, void, unknown> {
   try {
     logger.info("Starting streaming flashcard generation", {
       textLength: ocrText.length,
       cardCount,
+      cardType,
     });
 
     // Validate inputs
@@ -94,7 +100,7 @@ export async function* generateFlashcardsStream(
     }
 
     // Create prompt
-    const prompt = createCardGenerationPrompt(ocrText, cardCount);
+    const prompt = createPrompt(ocrText, cardCount, cardType);
 
     // Buffer to accumulate streamed text
     let buffer = "";
@@ -141,6 +147,19 @@ export async function* generateFlashcardsStream(
   }
 }
 
+/**
+ * Create prompt for the requested card type
+ */
+function createPrompt(
+  ocrText: string,
+  cardCount: number,
+  cardType: CardKind
+): string {
+  return cardType === "cloze"
+    ? createClozeGenerationPrompt(ocrText, cardCount)
+    : createCardGenerationPrompt(ocrText, cardCount);
+}
+
 /**
  * Create prompt for card generation
  */
@@ -178,8 +197,47 @@ ${ocrText}
 Generate exactly ${cardCount} flashcards as a JSON array:`;
 }
 
+/**
+ * Create prompt for cloze deletion card generation
+ */
+function createClozeGenerationPrompt(
+  ocrText: string,
+  cardCount: number
+): string {
+  return `You are an expert educator creating cloze deletion flashcards for students.
+
+Your task: Generate exactly ${cardCount} high-quality cloze deletion notes from the following text.
+
+Instructions:
+1. Write each note as one or two self-contained sentences taken or adapted from the text
+2. Mark the key terms to recall as {{c1::term}}, {{c2::term}}, ... numbering each deletion in order
+3. Use 1 to 3 deletions per note; repeat a number only when the parts must be recalled together
+4. Optionally add a short hint after the term: {{c1::term::hint}}
+5. Never hide so much that the sentence loses its meaning
+6. "extra" is optional context shown after the answer (use "" if not needed)
+7. Return ONLY valid JSON array format (no markdown, no extra text)
+
+Output format (JSON array only):
+[
+  {
+    "text": "{{c1::Photosynthesis}} converts sunlight, water and carbon dioxide into {{c2::oxygen}} and {{c3::glucose}}.",
+    "extra": "It takes place in the chloroplasts of plant cells."
+  },
+  {
+    "text": "The Calvin cycle takes place in the {{c1::stroma::part of the chloroplast}}.",
+    "extra": ""
+  }
+]
+
+TEXT TO ANALYZE:
+${ocrText}
+
+Generate exactly ${cardCount} cloze notes as a JSON array:`;
+}
+
 /**
  * Parse generated cards from AI response
+ * Accepts Q&A items ({question, answer}) and cloze items ({text, extra})
  */
 function parseGeneratedCards(response: string): GeneratedCard[] {
   try {
@@ -205,20 +263,31 @@ function parseGeneratedCards(response: string): GeneratedCard[] {
 
     // Map to GeneratedCard format
     const cards: GeneratedCard[] = parsed
-      .filter((item) => {
+      .map((item): Omit<GeneratedCard, "tempId"> | null => {
+        if (!item || typeof item !== "object") return null;
+
+        // Cloze items need at least one deletion
+        if (typeof item.text === "string") {
+          return hasCloze(item.text)
+            ? {
+                question: item.text.trim(),
+                answer: typeof item.extra === "string" ? item.extra.trim() : "",
+                card_type: "cloze",
+              }
+            : null;
+        }
+
         // Validate card structure
-        return (
-          item &&
-          typeof item === "object" &&
-          typeof item.question === "string" &&
+        return typeof item.question === "string" &&
           typeof item.answer === "string" &&
           item.question.trim().length > 0 &&
           item.answer.trim().length > 0
-        );
+          ? { question: item.question.trim(), answer: item.answer.trim() }
+          : null;
       })
-      .map((item, index) => ({
-        question: item.question.trim(),
-        answer: item.answer.trim(),
+      .filter((card): card is Omit<GeneratedCard, "tempId"> => card !== null)
+      .map((card, index) => ({
+        ...card,
         tempId: `temp_${Date.now()}_${index}`,
       }));
 
@@ -292,13 +361,43 @@ Generate ONE new flashcard as JSON:`;
   }
 }
 
+/**
+ * Create prompt for rewriting a cloze note
+ * The deletions are numbered per card, so the rewrite must keep them
+ */
+function createClozeImprovePrompt(card: GeneratedCard): string {
+  return `You are an expert educator. Improve this cloze deletion flashcard by making the sentence clearer:
+
+Current Cloze Note:
+Text: ${card.question}
+Extra: ${card.answer}
+
+Instructions:
+1. Keep every deletion marked as {{cN::term}} (or {{cN::term::hint}}) with the same numbers
+2. Keep what each deletion hides; only reword the text around it
+3. "extra" is optional context shown after the answer (use "" if not needed)
+
+Return ONLY valid JSON format (no markdown):
+{
+  "text": "Improved text with {{c1::deletions}}",
+  "extra": "Improved extra"
+}
+
+Improve this cloze note:`;
+}
+
 /**
  * Improve card quality (refine question/answer)
+ * Cloze notes keep their deletions
  */
 export async function improveCard(card: GeneratedCard): Promise<GeneratedCard> {
   try {
     logger.info("Improving card quality", { question: card.question });
 
+    if (hasCloze(card.question)) {
+      return await improveClozeCard(card);
+    }
+
     const prompt = `You are an expert educator. Improve this flashcard by making the question clearer and the answer more comprehensive:
 
 Current Flashcard:
@@ -343,3 +442,30 @@ Improve this flashcard:`;
     );
   }
 }
+
+/**
+ * Rewrite a cloze note, rejecting text that lost its deletions
+ */
+async function improveClozeCard(card: GeneratedCard): Promise<GeneratedCard> {
+  const response = await generateContent(createClozeImprovePrompt(card));
+
+  const cleanedResponse = response
+    .replace(/```json\s*/g, "")
+    .replace(/```\s*/g, "")
+    .trim();
+
+  const parsed = JSON.parse(cleanedResponse);
+
+  if (typeof parsed.text !== "string" || !hasCloze(parsed.text)) {
+    throw new Error("Invalid cloze format");
+  }
+
+  logger.info("Cloze card improved successfully");
+
+  return {
+    question: parsed.text.trim(),
+    answer: typeof parsed.extra === "string" ? parsed.extra.trim() : "",
+    card_type: "cloze",
+    tempId: card.tempId,
+  };
+}
@@ -0,0 +1,70 @@
+import { generateContent } from "./geminiClient";
+import { logger } from "../logger";
+import { AppError, ErrorCode } from "../../utils/errorHandling";
+import { Card } from "../../utils/types";
+import { cleanDistractors, getDistractorCount } from "../../utils/quiz";
+import { getCardSides } from "../../utils/cardDirection";
+
+/**
+ * Distractor Generation Service
+ * Writes plausible wrong answers for quiz mode. Results are cached on the
+ * card by the caller, so each card is only sent once.
+ */
+
+/**
+ * Generate wrong answers for a card
+ */
+export async function generateDistractors(
+  card: Card,
+  count: number = getDistractorCount()
+): Promise<string[]> {
+  try {
+    logger.info("Generating quiz distractors", { cardId: card.id, count });
+
+    const { front, back } = getCardSides(card);
+
+    const prompt = `You are writing a multiple-choice quiz from a flashcard. Write ${count} wrong answers that a student who half-knows the material might pick. Match the length, style and format of the correct answer, and make sure none of them is also correct.
+
+Question: ${front}
+Correct answer: ${back}
+
+Return ONLY valid JSON format (no markdown):
+{
+  "distractors": ["Wrong answer 1", "Wrong answer 2"]
+}
+
+Write the wrong answers:`;
+
+    const response = await generateContent(prompt);
+
+    const cleanedResponse = response
+      .replace(/```json\s*/g, "")
+      .replace(/```\s*/g, "")
+      .trim();
+
+    const parsed = JSON.parse(cleanedResponse);
+
+    if (!Array.isArray(parsed.distractors)) {
+      throw new Error("Invalid distractor format");
+    }
+
+    const distractors = cleanDistractors(
+      back,
+      parsed.distractors.map(String)
+    ).slice(0, count);
+
+    if (distractors.length < count) {
+      throw new Error("Not enough distractors");
+    }
+
+    logger.info("Quiz distractors generated", { cardId: card.id });
+
+    return distractors;
+  } catch (error) {
+    logger.error("Distractor generation failed", { error });
+    throw new AppError(
+      ErrorCode.CARD_GENERATION_FAILED,
+      "Failed to generate quiz options"
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { supabase } from "./supabaseClient";
 import { logger } from "../logger";
 import { AppError, ErrorCode } from "../../utils/errorHandling";
-import { updateDeckCardCount } from "./deckApi";
+import { updateDeckCardCount, getDailyLimitStatus } from "./deckApi";
 import {
   ApiResponse,
   CreateCardRequest,
@@ -16,15 +16,80 @@ import {
   DeleteCardResponse,
   GetDueCardsRequest,
   GetDueCardsResponse,
+  GetDueCountsByDayRequest,
+  GetDueCountsByDayResponse,
+  BurySiblingsRequest,
+  BurySiblingsResponse,
+  GetWorkloadForecastRequest,
+  GetWorkloadForecastResponse,
+  BatchUpdateRequest,
+  BatchUpdateResponse,
+  ApplyVacationRequest,
+  ApplyVacationResponse,
+  SupabaseCard,
 } from "./types";
 import { Card } from "../../utils/types";
+import { CardChanges, batchCardChanges } from "../../utils/reschedule";
+import { applyDailyLimits } from "../../utils/dailyLimits";
+import { getScheduler } from "../../utils/scheduler";
+import { projectWorkload } from "../../utils/workloadForecast";
+import { isOverdue } from "../../utils/catchUp";
+import { getVacationChanges } from "../../utils/vacation";
+import { createNoteId } from "../../utils/cardDirection";
+import { getClozeNumbers, hasCloze, isClozeCard } from "../../utils/cloze";
 import { appConfig } from "../../config/appConfig";
+import {
+  getStartOfDay,
+  getStartOfDayOffset,
+  getEndOfDay,
+  getDaysBetween,
+} from "../../utils/dateUtils";
 
 /**
  * Card API
  * Handles CRUD operations for flashcards
  */
 
+/**
+ * PostgREST `or` filter for cards that are not buried at the given time
+ */
+export function notBuriedFilter(now: string): string {
+  return `buried_until.is.null,buried_until.lte.${now}`;
+}
+
+/**
+ * Map a Supabase card row to the app Card shape
+ */
+export function mapSupabaseCard(item: SupabaseCard): Card {
+  return {
+    id: item.id,
+    deck_id: item.deck_id,
+    question: item.question,
+    answer: item.answer,
+    difficulty: item.difficulty,
+    last_reviewed: item.last_reviewed,
+    next_review: item.next_review,
+    ease_factor: item.ease_factor,
+    review_count: item.review_count,
+    interval: item.interval ?? 0,
+    stability: item.stability ?? undefined,
+    fsrs_difficulty: item.fsrs_difficulty ?? undefined,
+    learning_state: item.learning_state ?? undefined,
+    learning_step: item.learning_step ?? null,
+    lapses: item.lapses ?? 0,
+    tags: item.tags ?? [],
+    suspended: item.suspended ?? false,
+    buried_until: item.buried_until ?? null,
+    note_id: item.note_id ?? null,
+    direction: item.direction ?? "forward",
+    card_type: item.card_type ?? "basic",
+    cloze_index: item.cloze_index ?? null,
+    distractors: item.distractors ?? null,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
+}
+
 /**
  * Create a single card
  */
@@ -43,6 +108,9 @@ export async function createCard(
         difficulty: request.difficulty || "medium",
         ease_factor: appConfig.spacedRepetition.defaultEaseFactor,
         review_count: 0,
+        interval: 0,
+        learning_state: "new",
+        lapses: 0,
         next_review: new Date().toISOString(), // Due immediately
       })
       .select()
@@ -53,19 +121,7 @@ export async function createCard(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to create card");
     }
 
-    const card: Card = {
-      id: data.id,
-      deck_id: data.deck_id,
-      question: data.question,
-      answer: data.answer,
-      difficulty: data.difficulty,
-      last_reviewed: data.last_reviewed,
-      next_review: data.next_review,
-      ease_factor: data.ease_factor,
-      review_count: data.review_count,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-    };
+    const card: Card = mapSupabaseCard(data);
 
     // Update deck card count
     await updateDeckCardCount(request.deckId);
@@ -103,6 +159,117 @@ export async function createCard(
   }
 }
 
+/**
+ * Row for a card that has never been studied
+ */
+function newCardRow(
+  deckId: string,
+  content: {
+    question: string;
+    answer: string;
+    difficulty?: "easy" | "medium" | "hard";
+  }
+) {
+  return {
+    deck_id: deckId,
+    question: content.question,
+    answer: content.answer,
+    difficulty: content.difficulty || "medium",
+    ease_factor: appConfig.spacedRepetition.defaultEaseFactor,
+    review_count: 0,
+    interval: 0,
+    learning_state: "new",
+    lapses: 0,
+    next_review: new Date().toISOString(), // Due immediately
+  };
+}
+
+/**
+ * One row per cloze deletion, all sharing the note's text
+ */
+function clozeRows(
+  row: ReturnType<typeof newCardRow>,
+  numbers: number[],
+  noteId: string
+) {
+  return numbers.map((number) => ({
+    ...row,
+    direction: "forward",
+    card_type: "cloze",
+    cloze_index: number,
+    note_id: noteId,
+  }));
+}
+
+/**
+ * Adds and removes a cloze note's cards to match the deletions in its
+ * (already saved) text
+ */
+async function syncClozeCards(
+  card: Card,
+  noteId: string
+): Promise<{ addedCards: Card[]; removedCardIds: string[] }> {
+  const numbers = getClozeNumbers(card.question);
+
+  const { data: rows, error } = await supabase
+    .from("cards")
+    .select("id, cloze_index")
+    .eq("note_id", noteId);
+
+  if (error) {
+    logger.error("Supabase fetch cloze cards error", { error });
+    throw new AppError(
+      ErrorCode.DATABASE_ERROR,
+      "Failed to update cloze cards"
+    );
+  }
+
+  const existing = new Set(rows.map((row) => row.cloze_index));
+  const removedCardIds = rows
+    .filter((row) => !numbers.includes(row.cloze_index))
+    .map((row) => row.id);
+  const missing = numbers.filter((number) => !existing.has(number));
+
+  if (removedCardIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("cards")
+      .delete()
+      .in("id", removedCardIds);
+
+    if (deleteError) {
+      logger.error("Supabase delete cloze cards error", { error: deleteError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to update cloze cards"
+      );
+    }
+  }
+
+  let addedCards: Card[] = [];
+  if (missing.length > 0) {
+    const { data, error: insertError } = await supabase
+      .from("cards")
+      .insert(clozeRows(newCardRow(card.deck_id, card), missing, noteId))
+      .select();
+
+    if (insertError) {
+      logger.error("Supabase create cloze cards error", { error: insertError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to update cloze cards"
+      );
+    }
+
+    addedCards = data.map(mapSupabaseCard);
+  }
+
+  if (removedCardIds.length > 0 || addedCards.length > 0) {
+    await updateDeckCardCount(card.deck_id);
+  }
+
+  return { addedCards, removedCardIds };
+}
+
 /**
  * Create multiple cards at once (batch insert)
  */
@@ -115,15 +282,32 @@ export async function createMultipleCards(
       count: request.cards.length,
     });
 
-    const cardsToInsert = request.cards.map((card) => ({
-      deck_id: request.deckId,
-      question: card.question,
-      answer: card.answer,
-      difficulty: card.difficulty || "medium",
-      ease_factor: appConfig.spacedRepetition.defaultEaseFactor,
-      review_count: 0,
-      next_review: new Date().toISOString(), // Due immediately
-    }));
+    const cardsToInsert = request.cards.flatMap((card) => {
+      const row = newCardRow(request.deckId, card);
+
+      if (card.cardType === "cloze") {
+        const numbers = getClozeNumbers(card.question);
+        if (numbers.length === 0) {
+          throw new AppError(
+            ErrorCode.VALIDATION_ERROR,
+            "Cloze card has no deletions"
+          );
+        }
+
+        return clozeRows(row, numbers, createNoteId());
+      }
+
+      if (!card.reversible) {
+        return [{ ...row, direction: "forward" }];
+      }
+
+      // Both directions share the content, each with its own review state
+      const noteId = createNoteId();
+      return [
+        { ...row, direction: "forward", note_id: noteId },
+        { ...row, direction: "reverse", note_id: noteId },
+      ];
+    });
 
     const { data, error } = await supabase
       .from("cards")
@@ -135,19 +319,7 @@ export async function createMultipleCards(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to create cards");
     }
 
-    const cards: Card[] = data.map((item) => ({
-      id: item.id,
-      deck_id: item.deck_id,
-      question: item.question,
-      answer: item.answer,
-      difficulty: item.difficulty,
-      last_reviewed: item.last_reviewed,
-      next_review: item.next_review,
-      ease_factor: item.ease_factor,
-      review_count: item.review_count,
-      created_at: item.created_at,
-      updated_at: item.updated_at,
-    }));
+    const cards: Card[] = data.map(mapSupabaseCard);
 
     // Update deck card count
     await updateDeckCardCount(request.deckId);
@@ -209,7 +381,11 @@ export async function getCards(
 
     // Filter for due cards only
     if (request.dueOnly) {
-      query = query.lte("next_review", new Date().toISOString());
+      const now = new Date().toISOString();
+      query = query
+        .lte("next_review", now)
+        .eq("suspended", false)
+        .or(notBuriedFilter(now));
     }
 
     // Pagination
@@ -231,19 +407,7 @@ export async function getCards(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch cards");
     }
 
-    const cards: Card[] = data.map((item) => ({
-      id: item.id,
-      deck_id: item.deck_id,
-      question: item.question,
-      answer: item.answer,
-      difficulty: item.difficulty,
-      last_reviewed: item.last_reviewed,
-      next_review: item.next_review,
-      ease_factor: item.ease_factor,
-      review_count: item.review_count,
-      created_at: item.created_at,
-      updated_at: item.updated_at,
-    }));
+    const cards: Card[] = data.map(mapSupabaseCard);
 
     logger.info("Cards fetched successfully", { count: cards.length });
 
@@ -306,19 +470,7 @@ export async function getCard(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch card");
     }
 
-    const card: Card = {
-      id: data.id,
-      deck_id: data.deck_id,
-      question: data.question,
-      answer: data.answer,
-      difficulty: data.difficulty,
-      last_reviewed: data.last_reviewed,
-      next_review: data.next_review,
-      ease_factor: data.ease_factor,
-      review_count: data.review_count,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-    };
+    const card: Card = mapSupabaseCard(data);
 
     return {
       success: true,
@@ -377,6 +529,43 @@ export async function updateCard(
       updateData.last_reviewed = request.lastReviewed;
     if (request.reviewCount !== undefined)
       updateData.review_count = request.reviewCount;
+    if (request.interval !== undefined) updateData.interval = request.interval;
+    if (request.stability !== undefined)
+      updateData.stability = request.stability;
+    if (request.fsrsDifficulty !== undefined)
+      updateData.fsrs_difficulty = request.fsrsDifficulty;
+    if (request.learningState !== undefined)
+      updateData.learning_state = request.learningState;
+    if (request.learningStep !== undefined)
+      updateData.learning_step = request.learningStep;
+    if (request.lapses !== undefined) updateData.lapses = request.lapses;
+    if (request.tags !== undefined) updateData.tags = request.tags;
+    if (request.suspended !== undefined)
+      updateData.suspended = request.suspended;
+    if (request.buriedUntil !== undefined)
+      updateData.buried_until = request.buriedUntil;
+    // Cloze text must keep at least one deletion
+    if (request.question !== undefined && !hasCloze(request.question)) {
+      const { data: existing } = await supabase
+        .from("cards")
+        .select("card_type")
+        .eq("id", cardId)
+        .single();
+
+      if (existing && isClozeCard(existing)) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          "Cloze card has no deletions"
+        );
+      }
+    }
+
+    if (request.distractors !== undefined) {
+      updateData.distractors = request.distractors;
+    } else if (request.question !== undefined || request.answer !== undefined) {
+      // Cached quiz options were written for the old content
+      updateData.distractors = null;
+    }
 
     const { data, error } = await supabase
       .from("cards")
@@ -390,25 +579,46 @@ export async function updateCard(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to update card");
     }
 
-    const card: Card = {
-      id: data.id,
-      deck_id: data.deck_id,
-      question: data.question,
-      answer: data.answer,
-      difficulty: data.difficulty,
-      last_reviewed: data.last_reviewed,
-      next_review: data.next_review,
-      ease_factor: data.ease_factor,
-      review_count: data.review_count,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-    };
+    const card: Card = mapSupabaseCard(data);
+
+    // Sibling directions share the content
+    if (
+      card.note_id &&
+      (request.question !== undefined || request.answer !== undefined)
+    ) {
+      const { error: siblingError } = await supabase
+        .from("cards")
+        .update({
+          question: card.question,
+          answer: card.answer,
+          distractors: null,
+          updated_at: updateData.updated_at,
+        })
+        .eq("note_id", card.note_id)
+        .neq("id", cardId);
+
+      if (siblingError) {
+        logger.error("Supabase update sibling cards error", {
+          error: siblingError,
+        });
+        throw new AppError(
+          ErrorCode.DATABASE_ERROR,
+          "Failed to update sibling cards"
+        );
+      }
+    }
+
+    // A cloze note has one card per deletion in its text
+    const siblingChanges =
+      card.note_id && isClozeCard(card) && request.question !== undefined
+        ? await syncClozeCards(card, card.note_id)
+        : {};
 
     logger.info("Card updated successfully", { cardId });
 
     return {
       success: true,
-      data: { card },
+      data: { card, ...siblingChanges },
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
@@ -437,6 +647,129 @@ export async function updateCard(
   }
 }
 
+/**
+ * Runs tasks with at most `limit` in flight at once, in order
+ */
+async function runLimited<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Apply a different set of field changes to each of many cards
+ * Cards with the same changes are written together in batches, a few
+ * requests at a time. A failed batch fails only its own cards, which are
+ * returned in `failed` for the caller to report.
+ */
+export async function batchUpdateCards(
+  request: BatchUpdateRequest<CardChanges>
+): Promise<ApiResponse<BatchUpdateResponse<Card>>> {
+  try {
+    logger.info("Batch updating cards", { count: request.updates.length });
+
+    const updatedAt = new Date().toISOString();
+    const { batchSize, maxConcurrentRequests } = appConfig.api;
+    const batches = batchCardChanges(request.updates, batchSize);
+
+    const results = await runLimited(
+      batches.map(({ ids, data }) => async () => {
+        try {
+          const { data: rows, error } = await supabase
+            .from("cards")
+            .update({ ...data, updated_at: updatedAt })
+            .in("id", ids)
+            .select();
+
+          return { ids, rows: rows ?? [], error };
+        } catch (error) {
+          return { ids, rows: [], error };
+        }
+      }),
+      maxConcurrentRequests
+    );
+
+    const updated: Card[] = [];
+    const failed: BatchUpdateResponse<Card>["failed"] = [];
+
+    results.forEach(({ ids, rows, error }) => {
+      if (error) {
+        logger.error("Supabase batch update cards error", {
+          error,
+          count: ids.length,
+        });
+        ids.forEach((id) =>
+          failed.push({ id, error: "Failed to update card" })
+        );
+        return;
+      }
+
+      // Rows missing from the result were deleted or can't be written
+      const rowIds = new Set(rows.map((row: SupabaseCard) => row.id));
+      rows.forEach((row: SupabaseCard) => updated.push(mapSupabaseCard(row)));
+      ids
+        .filter((id) => !rowIds.has(id))
+        .forEach((id) => failed.push({ id, error: "Card not found" }));
+    });
+
+    if (updated.length === 0 && failed.length > 0) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to update cards");
+    }
+
+    if (failed.length > 0) {
+      logger.warn("Cards batch partly updated", {
+        updated: updated.length,
+        failed: failed.length,
+      });
+    } else {
+      logger.info("Cards batch updated", { updated: updated.length });
+    }
+
+    return {
+      success: true,
+      data: { updated, failed },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Batch update cards failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to update cards",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
 /**
  * Delete card
  */
@@ -512,37 +845,36 @@ export async function getDueCards(
 
     const now = new Date().toISOString();
 
-    let query = supabase
+    const { data, error } = await supabase
       .from("cards")
-      .select("*", { count: "exact" })
+      .select("*")
       .eq("deck_id", request.deckId)
       .lte("next_review", now)
+      .eq("suspended", false)
+      .or(notBuriedFilter(now))
       .order("next_review", { ascending: true });
 
-    if (request.limit) {
-      query = query.limit(request.limit);
-    }
-
-    const { data, count, error } = await query;
-
     if (error) {
       logger.error("Supabase get due cards error", { error });
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch due cards");
     }
 
-    const cards: Card[] = data.map((item) => ({
-      id: item.id,
-      deck_id: item.deck_id,
-      question: item.question,
-      answer: item.answer,
-      difficulty: item.difficulty,
-      last_reviewed: item.last_reviewed,
-      next_review: item.next_review,
-      ease_factor: item.ease_factor,
-      review_count: item.review_count,
-      created_at: item.created_at,
-      updated_at: item.updated_at,
-    }));
+    // Only cards within today's deck limits count as due
+    const limitsResponse = await getDailyLimitStatus(request.deckId);
+
+    if (!limitsResponse.success || !limitsResponse.data) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch daily limits"
+      );
+    }
+
+    const allDue = data.map(mapSupabaseCard);
+    const dueCards = applyDailyLimits(allDue, limitsResponse.data);
+
+    const cards: Card[] = request.limit
+      ? dueCards.slice(0, request.limit)
+      : dueCards;
 
     logger.info("Due cards fetched successfully", { count: cards.length });
 
@@ -550,7 +882,8 @@ export async function getDueCards(
       success: true,
       data: {
         cards,
-        dueCount: count || 0,
+        dueCount: dueCards.length,
+        overdueCount: allDue.filter((card) => isOverdue(card)).length,
       },
       timestamp: new Date().toISOString(),
     };
@@ -579,3 +912,295 @@ export async function getDueCards(
     };
   }
 }
+
+/**
+ * Bury the other cards of a note (already suspended ones are left alone)
+ */
+export async function burySiblings(
+  request: BurySiblingsRequest
+): Promise<ApiResponse<BurySiblingsResponse>> {
+  try {
+    logger.info("Burying sibling cards", {
+      cardId: request.cardId,
+      noteId: request.noteId,
+    });
+
+    const { data, error } = await supabase
+      .from("cards")
+      .update({ buried_until: request.until })
+      .eq("note_id", request.noteId)
+      .neq("id", request.cardId)
+      .eq("suspended", false)
+      .select("id");
+
+    if (error) {
+      logger.error("Supabase bury siblings error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to bury sibling cards"
+      );
+    }
+
+    const cardIds = data.map((row: { id: string }) => row.id);
+
+    logger.info("Sibling cards buried", { count: cardIds.length });
+
+    return {
+      success: true,
+      data: { cardIds },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Bury siblings failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to bury sibling cards",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Count cards coming due on each day of a range (for load balancing)
+ */
+export async function getDueCountsByDay(
+  request: GetDueCountsByDayRequest
+): Promise<ApiResponse<GetDueCountsByDayResponse>> {
+  try {
+    logger.info("Fetching due counts by day", request);
+
+    const today = getStartOfDay();
+    const from = getStartOfDayOffset(request.fromDay);
+    const to = getEndOfDay(getStartOfDayOffset(request.toDay));
+
+    let query = supabase
+      .from("cards")
+      .select("next_review")
+      .gte("next_review", from)
+      .lte("next_review", to)
+      .eq("suspended", false);
+
+    if (request.deckId) {
+      query = query.eq("deck_id", request.deckId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error("Supabase get due counts error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch due counts"
+      );
+    }
+
+    const counts: Record<number, number> = {};
+    data.forEach((row: { next_review: string }) => {
+      const day = getDaysBetween(today, row.next_review);
+      counts[day] = (counts[day] || 0) + 1;
+    });
+
+    return {
+      success: true,
+      data: { counts },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get due counts failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch due counts",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Project reviews due on each of the next days, overall and per deck
+ * Includes follow-up reviews of cards answered on time within the window
+ */
+export async function getWorkloadForecast(
+  request: GetWorkloadForecastRequest
+): Promise<ApiResponse<GetWorkloadForecastResponse>> {
+  try {
+    const days = request.days ?? appConfig.studySession.forecastDays;
+
+    logger.info("Fetching workload forecast", {
+      deckId: request.deckId,
+      days,
+    });
+
+    let query = supabase
+      .from("cards")
+      .select("*")
+      .eq("suspended", false)
+      .not("next_review", "is", null);
+
+    if (request.deckId) {
+      query = query.eq("deck_id", request.deckId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error("Supabase get workload forecast error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch workload forecast"
+      );
+    }
+
+    const forecast = projectWorkload(
+      data.map(mapSupabaseCard),
+      days,
+      getScheduler(request.scheduler, request.schedulerParameters)
+    );
+
+    return {
+      success: true,
+      data: {
+        startDate: getStartOfDay(),
+        ...forecast,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get workload forecast failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch workload forecast",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Move every card due during a vacation past the end of it
+ */
+export async function applyVacation(
+  request: ApplyVacationRequest
+): Promise<ApiResponse<ApplyVacationResponse>> {
+  try {
+    const { vacation } = request;
+
+    logger.info("Applying vacation", vacation);
+
+    const { data, error } = await supabase
+      .from("cards")
+      .select("*")
+      .gte("next_review", getStartOfDay(vacation.start))
+      .lt("next_review", getStartOfDayOffset(1, new Date(vacation.end)));
+
+    if (error) {
+      logger.error("Supabase get vacation cards error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch cards due during the vacation"
+      );
+    }
+
+    const updates = getVacationChanges(data.map(mapSupabaseCard), vacation);
+
+    if (updates.length === 0) {
+      return {
+        success: true,
+        data: { movedCount: 0 },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const result = await batchUpdateCards({ updates });
+
+    if (!result.success || !result.data) {
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to move cards");
+    }
+
+    // Cards left behind would come due during the break; moved cards are
+    // past it, so trying again only moves the rest
+    if (result.data.failed.length > 0) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        `${result.data.failed.length} of ${updates.length} cards could not be moved past your break. Please try again.`
+      );
+    }
+
+    logger.info("Vacation applied", { movedCount: result.data.updated.length });
+
+    return {
+      success: true,
+      data: { movedCount: result.data.updated.length },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Apply vacation failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to apply vacation",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
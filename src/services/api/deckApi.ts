@@ -10,14 +10,36 @@ import {
   GetDecksResponse,
   GetDeckResponse,
   DeleteDeckResponse,
+  GetDailyLimitStatusResponse,
+  SupabaseDeck,
 } from "./types";
 import { Deck } from "../../utils/types";
+import { getTodayReviewCounts } from "./reviewLogApi";
+import { getRemainingLimits } from "../../utils/dailyLimits";
+import { getDailyLimits } from "../../utils/deckPresets";
+import { getDeckOptions } from "./presetApi";
 
 /**
  * Deck API
  * Handles CRUD operations for decks
  */
 
+/**
+ * Map a Supabase deck row to the app Deck shape
+ */
+export function mapSupabaseDeck(item: SupabaseDeck): Deck {
+  return {
+    id: item.id,
+    user_id: item.user_id,
+    title: item.title,
+    description: item.description,
+    card_count: item.card_count,
+    preset_id: item.preset_id ?? null,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
+}
+
 /**
  * Create a new deck
  */
@@ -42,15 +64,7 @@ export async function createDeck(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to create deck");
     }
 
-    const deck: Deck = {
-      id: data.id,
-      user_id: data.user_id,
-      title: data.title,
-      description: data.description,
-      card_count: data.card_count,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-    };
+    const deck: Deck = mapSupabaseDeck(data);
 
     logger.info("Deck created successfully", { deckId: deck.id });
 
@@ -102,15 +116,7 @@ export async function getDecks(): Promise<ApiResponse<GetDecksResponse>> {
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch decks");
     }
 
-    const decks: Deck[] = data.map((item) => ({
-      id: item.id,
-      user_id: item.user_id,
-      title: item.title,
-      description: item.description,
-      card_count: item.card_count,
-      created_at: item.created_at,
-      updated_at: item.updated_at,
-    }));
+    const decks: Deck[] = data.map(mapSupabaseDeck);
 
     logger.info("Decks fetched successfully", { count: decks.length });
 
@@ -182,15 +188,7 @@ export async function getDeck(
       logger.warn("Failed to count due cards", { error: countError });
     }
 
-    const deck: Deck = {
-      id: deckData.id,
-      user_id: deckData.user_id,
-      title: deckData.title,
-      description: deckData.description,
-      card_count: deckData.card_count,
-      created_at: deckData.created_at,
-      updated_at: deckData.updated_at,
-    };
+    const deck: Deck = mapSupabaseDeck(deckData);
 
     logger.info("Deck fetched successfully", { deckId: deck.id });
 
@@ -251,6 +249,10 @@ export async function updateDeck(
       updateData.description = request.description;
     }
 
+    if (request.presetId !== undefined) {
+      updateData.preset_id = request.presetId;
+    }
+
     const { data, error } = await supabase
       .from("decks")
       .update(updateData)
@@ -263,15 +265,7 @@ export async function updateDeck(
       throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to update deck");
     }
 
-    const deck: Deck = {
-      id: data.id,
-      user_id: data.user_id,
-      title: data.title,
-      description: data.description,
-      card_count: data.card_count,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-    };
+    const deck: Deck = mapSupabaseDeck(data);
 
     logger.info("Deck updated successfully", { deckId: deck.id });
 
@@ -358,6 +352,72 @@ export async function deleteDeck(
   }
 }
 
+/**
+ * Get how many new and review cards a deck may still hand out today
+ */
+export async function getDailyLimitStatus(
+  deckId: string
+): Promise<ApiResponse<GetDailyLimitStatusResponse>> {
+  try {
+    logger.info("Fetching daily limit status", { deckId });
+
+    // Limits come from the deck's options preset
+    const optionsResponse = await getDeckOptions(deckId);
+
+    if (!optionsResponse.success || !optionsResponse.data) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch deck options"
+      );
+    }
+
+    const limits = getDailyLimits(optionsResponse.data.options);
+
+    const countsResponse = await getTodayReviewCounts(deckId);
+
+    if (!countsResponse.success || !countsResponse.data) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to count today's reviews"
+      );
+    }
+
+    const remaining = getRemainingLimits(limits, countsResponse.data);
+
+    return {
+      success: true,
+      data: {
+        ...limits,
+        ...remaining,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get daily limit status failed", { error, deckId });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch daily limits",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
 /**
  * Update deck card count (called after adding/removing cards)
  */
@@ -0,0 +1,367 @@
+import { supabase } from "./supabaseClient";
+import { logger } from "../logger";
+import { AppError, ErrorCode } from "../../utils/errorHandling";
+import {
+  ApiResponse,
+  GetPresetsResponse,
+  CreatePresetRequest,
+  CreatePresetResponse,
+  UpdatePresetRequest,
+  UpdatePresetResponse,
+  DeletePresetResponse,
+  GetDeckOptionsResponse,
+  SupabaseDeckPreset,
+} from "./types";
+import { DeckPreset } from "../../utils/types";
+import {
+  defaultPresetOptions,
+  getPresetOptions,
+  validatePresetOptions,
+} from "../../utils/deckPresets";
+
+/**
+ * Deck Preset API
+ * Handles CRUD operations for deck option presets
+ */
+
+/**
+ * Map a Supabase preset row to the app DeckPreset shape
+ */
+export function mapSupabasePreset(item: SupabaseDeckPreset): DeckPreset {
+  return {
+    id: item.id,
+    user_id: item.user_id,
+    name: item.name,
+    learning_steps: item.learning_steps ?? defaultPresetOptions.learning_steps,
+    relearning_steps:
+      item.relearning_steps ?? defaultPresetOptions.relearning_steps,
+    new_cards_per_day: item.new_cards_per_day,
+    max_reviews_per_day: item.max_reviews_per_day,
+    min_ease_factor: item.min_ease_factor,
+    max_ease_factor: item.max_ease_factor,
+    easy_bonus: item.easy_bonus,
+    request_retention: item.request_retention,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
+}
+
+/**
+ * Get all presets for current user
+ */
+export async function getPresets(): Promise<ApiResponse<GetPresetsResponse>> {
+  try {
+    logger.info("Fetching deck presets");
+
+    const { data, error } = await supabase
+      .from("deck_presets")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      logger.error("Supabase get presets error", { error });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch presets");
+    }
+
+    const presets = data.map(mapSupabasePreset);
+
+    logger.info("Deck presets fetched successfully", {
+      count: presets.length,
+    });
+
+    return {
+      success: true,
+      data: { presets },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get presets failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch presets",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Create a new preset
+ */
+export async function createPreset(
+  request: CreatePresetRequest
+): Promise<ApiResponse<CreatePresetResponse>> {
+  try {
+    logger.info("Creating deck preset", { name: request.name });
+
+    if (!request.name.trim()) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, "Preset name is required");
+    }
+
+    const validationError = validatePresetOptions(request.options);
+    if (validationError) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, validationError);
+    }
+
+    const { data, error } = await supabase
+      .from("deck_presets")
+      .insert({
+        name: request.name.trim(),
+        ...getPresetOptions(request.options),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Supabase create preset error", { error });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to create preset");
+    }
+
+    const preset = mapSupabasePreset(data);
+
+    logger.info("Deck preset created successfully", { presetId: preset.id });
+
+    return {
+      success: true,
+      data: { preset },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Create preset failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to create preset",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Update an existing preset (applies to every deck using it)
+ */
+export async function updatePreset(
+  presetId: string,
+  request: UpdatePresetRequest
+): Promise<ApiResponse<UpdatePresetResponse>> {
+  try {
+    logger.info("Updating deck preset", { presetId });
+
+    if (request.name !== undefined && !request.name.trim()) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, "Preset name is required");
+    }
+
+    if (request.options) {
+      const validationError = validatePresetOptions(request.options);
+      if (validationError) {
+        throw new AppError(ErrorCode.VALIDATION_ERROR, validationError);
+      }
+    }
+
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+      ...(request.options && getPresetOptions(request.options)),
+    };
+
+    if (request.name !== undefined) updateData.name = request.name.trim();
+
+    const { data, error } = await supabase
+      .from("deck_presets")
+      .update(updateData)
+      .eq("id", presetId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Supabase update preset error", { error });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to update preset");
+    }
+
+    const preset = mapSupabasePreset(data);
+
+    logger.info("Deck preset updated successfully", { presetId });
+
+    return {
+      success: true,
+      data: { preset },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Update preset failed", { error, presetId });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to update preset",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Delete a preset (decks using it fall back to the defaults)
+ */
+export async function deletePreset(
+  presetId: string
+): Promise<ApiResponse<DeletePresetResponse>> {
+  try {
+    logger.info("Deleting deck preset", { presetId });
+
+    const { error } = await supabase
+      .from("deck_presets")
+      .delete()
+      .eq("id", presetId);
+
+    if (error) {
+      logger.error("Supabase delete preset error", { error });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to delete preset");
+    }
+
+    logger.info("Deck preset deleted successfully", { presetId });
+
+    return {
+      success: true,
+      data: { presetId },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Delete preset failed", { error, presetId });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to delete preset",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Get the options in effect for a deck (its preset, or the defaults)
+ */
+export async function getDeckOptions(
+  deckId: string
+): Promise<ApiResponse<GetDeckOptionsResponse>> {
+  try {
+    logger.info("Fetching deck options", { deckId });
+
+    const { data: deckData, error: deckError } = await supabase
+      .from("decks")
+      .select("preset_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError) {
+      logger.error("Supabase get deck preset error", { error: deckError });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch deck");
+    }
+
+    if (!deckData.preset_id) {
+      return {
+        success: true,
+        data: { preset: null, options: defaultPresetOptions },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const { data: presetData, error: presetError } = await supabase
+      .from("deck_presets")
+      .select("*")
+      .eq("id", deckData.preset_id)
+      .single();
+
+    if (presetError) {
+      logger.error("Supabase get preset error", { error: presetError });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch preset");
+    }
+
+    const preset = mapSupabasePreset(presetData);
+
+    return {
+      success: true,
+      data: { preset, options: getPresetOptions(preset) },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get deck options failed", { error, deckId });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch deck options",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,386 @@
+import { supabase } from "./supabaseClient";
+import { logger } from "../logger";
+import { AppError, ErrorCode } from "../../utils/errorHandling";
+import {
+  ApiResponse,
+  CreateReviewLogRequest,
+  CreateReviewLogResponse,
+  GetReviewLogsRequest,
+  GetReviewLogsResponse,
+  GetTodayReviewCountsResponse,
+  GetRetentionStatsRequest,
+  GetRetentionStatsResponse,
+  GetResponseTimeBaselineResponse,
+  SupabaseReviewLog,
+} from "./types";
+import { ReviewLog } from "../../utils/types";
+import { getStartOfDay, getStartOfDayOffset } from "../../utils/dateUtils";
+import { calculateRetentionWindows } from "../../utils/retention";
+import { calculateResponseTimeBaseline } from "../../utils/responseTime";
+import { appConfig } from "../../config/appConfig";
+
+/**
+ * Review Log API
+ * Stores one row per card review (rating, intervals, ease, time spent)
+ */
+
+/**
+ * Map a Supabase review log row to the app ReviewLog shape
+ */
+export function mapSupabaseReviewLog(item: SupabaseReviewLog): ReviewLog {
+  return {
+    id: item.id,
+    user_id: item.user_id,
+    card_id: item.card_id,
+    deck_id: item.deck_id,
+    session_id: item.session_id,
+    rating: item.rating,
+    review_type: item.review_type,
+    previous_interval: item.previous_interval,
+    new_interval: item.new_interval,
+    ease_factor: item.ease_factor,
+    time_spent: item.time_spent,
+    response_time_ms: item.response_time_ms,
+    reviewed_at: item.reviewed_at,
+  };
+}
+
+/**
+ * Create a review log entry
+ */
+export async function createReviewLog(
+  request: CreateReviewLogRequest
+): Promise<ApiResponse<CreateReviewLogResponse>> {
+  try {
+    logger.info("Creating review log", { cardId: request.cardId });
+
+    const { data, error } = await supabase
+      .from("review_logs")
+      .insert({
+        card_id: request.cardId,
+        deck_id: request.deckId,
+        session_id: request.sessionId || null,
+        rating: request.rating,
+        review_type: request.reviewType,
+        previous_interval: request.previousInterval,
+        new_interval: request.newInterval,
+        ease_factor: request.easeFactor,
+        time_spent: request.timeSpent,
+        response_time_ms: request.responseTimeMs ?? null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Supabase create review log error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to create review log"
+      );
+    }
+
+    return {
+      success: true,
+      data: { reviewLog: mapSupabaseReviewLog(data) },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Create review log failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to create review log",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Get review logs (with optional filters), newest first
+ */
+export async function getReviewLogs(
+  request: GetReviewLogsRequest = {}
+): Promise<ApiResponse<GetReviewLogsResponse>> {
+  try {
+    logger.info("Fetching review logs", request);
+
+    let query = supabase
+      .from("review_logs")
+      .select("*", { count: "exact" })
+      .order("reviewed_at", { ascending: false });
+
+    if (request.deckId) {
+      query = query.eq("deck_id", request.deckId);
+    }
+
+    if (request.cardId) {
+      query = query.eq("card_id", request.cardId);
+    }
+
+    if (request.since) {
+      query = query.gte("reviewed_at", request.since);
+    }
+
+    if (request.limit) {
+      query = query.limit(request.limit);
+    }
+
+    const { data, count, error } = await query;
+
+    if (error) {
+      logger.error("Supabase get review logs error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch review logs"
+      );
+    }
+
+    const reviewLogs: ReviewLog[] = data.map(mapSupabaseReviewLog);
+
+    logger.info("Review logs fetched successfully", {
+      count: reviewLogs.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        reviewLogs,
+        total: count || 0,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get review logs failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch review logs",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Count distinct new and review cards studied in a deck today
+ * (used to enforce daily limits across sessions)
+ */
+export async function getTodayReviewCounts(
+  deckId: string
+): Promise<ApiResponse<GetTodayReviewCountsResponse>> {
+  try {
+    logger.info("Fetching today's review counts", { deckId });
+
+    const { data, error } = await supabase
+      .from("review_logs")
+      .select("card_id, review_type")
+      .eq("deck_id", deckId)
+      .gte("reviewed_at", getStartOfDay())
+      .in("review_type", ["new", "review"]);
+
+    if (error) {
+      logger.error("Supabase get today review counts error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch today's review counts"
+      );
+    }
+
+    const newCards = new Set<string>();
+    const reviewCards = new Set<string>();
+
+    data.forEach((row: { card_id: string; review_type: string }) => {
+      if (row.review_type === "new") {
+        newCards.add(row.card_id);
+      } else {
+        reviewCards.add(row.card_id);
+      }
+    });
+
+    return {
+      success: true,
+      data: {
+        newCount: newCards.size,
+        reviewCount: reviewCards.size,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get today review counts failed", { error, deckId });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch today's review counts",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * True retention (pass rate of graduated-card reviews) over each configured
+ * window, split into young and mature cards
+ */
+export async function getRetentionStats(
+  request: GetRetentionStatsRequest = {}
+): Promise<ApiResponse<GetRetentionStatsResponse>> {
+  try {
+    logger.info("Fetching retention stats", request);
+
+    const { retentionWindows } = appConfig.statistics;
+    const longestWindow = Math.max(...retentionWindows);
+
+    let query = supabase
+      .from("review_logs")
+      .select("*")
+      .eq("review_type", "review")
+      .gte("reviewed_at", getStartOfDayOffset(-longestWindow));
+
+    if (request.deckId) {
+      query = query.eq("deck_id", request.deckId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error("Supabase get retention stats error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch retention stats"
+      );
+    }
+
+    const reviewLogs: ReviewLog[] = data.map(mapSupabaseReviewLog);
+    const windows = calculateRetentionWindows(reviewLogs, retentionWindows);
+
+    return {
+      success: true,
+      data: { windows },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get retention stats failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch retention stats",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Get the user's response-time baseline from their most recent timed reviews
+ */
+export async function getResponseTimeBaseline(): Promise<
+  ApiResponse<GetResponseTimeBaselineResponse>
+> {
+  try {
+    logger.info("Fetching response time baseline");
+
+    const { data, error } = await supabase
+      .from("review_logs")
+      .select("*")
+      .not("response_time_ms", "is", null)
+      .order("reviewed_at", { ascending: false })
+      .limit(appConfig.studySession.responseTime.sampleSize);
+
+    if (error) {
+      logger.error("Supabase get response time baseline error", { error });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch response time baseline"
+      );
+    }
+
+    const reviewLogs: ReviewLog[] = data.map(mapSupabaseReviewLog);
+
+    return {
+      success: true,
+      data: { baseline: calculateResponseTimeBaseline(reviewLogs) },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get response time baseline failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch response time baseline",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -1,24 +1,62 @@
 import { supabase } from "./supabaseClient";
 import { logger } from "../logger";
 import { AppError, ErrorCode } from "../../utils/errorHandling";
-import { updateCard } from "./cardApi";
 import {
-  calculateNextReviewData,
-  initializeCardReviewData,
-} from "../../utils/spacedRepAlgorithm";
+  updateCard,
+  mapSupabaseCard,
+  getDueCountsByDay,
+  burySiblings,
+  notBuriedFilter,
+} from "./cardApi";
+import { getDailyLimitStatus } from "./deckApi";
+import { getDeckOptions } from "./presetApi";
+import { createReviewLog } from "./reviewLogApi";
+import { getScheduler } from "../../utils/scheduler";
+import { applyReview, getLearningState } from "../../utils/learningSteps";
+import { LEECH_TAG, addTag, isLapse, isLeechLapse } from "../../utils/leech";
+import { appConfig } from "../../config/appConfig";
+import {
+  getFuzzRange,
+  hasFuzz,
+  loadBalanceInterval,
+} from "../../utils/intervalFuzz";
+import {
+  calculateNextReview,
+  getStartOfDay,
+  getStartOfDayOffset,
+} from "../../utils/dateUtils";
+import { applyDailyLimits } from "../../utils/dailyLimits";
+import { getBuryUntil } from "../../utils/cardState";
+import { isVacationPending, shiftPastVacation } from "../../utils/vacation";
+import { filterCramCards } from "../../utils/cram";
+import { pickExamCards } from "../../utils/exam";
+import { interleaveDueCards } from "../../utils/interleave";
+import { applySessionGoal } from "../../utils/sessionGoals";
+import {
+  getLearningStepsConfig,
+  getSchedulingOptions,
+} from "../../utils/deckPresets";
 import {
   ApiResponse,
   CreateSessionRequest,
   CreateSessionResponse,
+  CreateCramSessionRequest,
+  CreateExamSessionRequest,
+  CreateMultiDeckSessionRequest,
+  CreateMultiDeckSessionResponse,
   UpdateSessionRequest,
   UpdateSessionResponse,
   RecordReviewRequest,
   RecordReviewResponse,
+  UndoReviewRequest,
+  UndoReviewResponse,
+  GetSessionResumeStateRequest,
+  GetSessionResumeStateResponse,
   GetSessionsRequest,
   GetSessionsResponse,
   GetSessionStatsResponse,
 } from "./types";
-import { StudySession, Card } from "../../utils/types";
+import { StudySession, Card, ReviewLog } from "../../utils/types";
 
 /**
  * Study Session API
@@ -32,9 +70,42 @@ export async function createSession(
   request: CreateSessionRequest
 ): Promise<ApiResponse<CreateSessionResponse>> {
   try {
-    logger.info("Creating study session", { deckId: request.deckId });
+    logger.info("Creating study session", {
+      deckId: request.deckId,
+      goal: request.goal?.type,
+    });
+
+    // Fetch due cards for this deck
+    const now = new Date().toISOString();
+    const { data: cardsData, error: cardsError } = await supabase
+      .from("cards")
+      .select("*")
+      .eq("deck_id", request.deckId)
+      .lte("next_review", now)
+      .eq("suspended", false)
+      .or(notBuriedFilter(now))
+      .order("next_review", { ascending: true });
+
+    if (cardsError) {
+      logger.error("Error fetching cards for session", { error: cardsError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch cards for session"
+      );
+    }
 
-    // Create session record
+    // Hold back new/review cards beyond today's deck limits
+    const limitsResponse = await getDailyLimitStatus(request.deckId);
+
+    if (!limitsResponse.success || !limitsResponse.data) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch daily limits for session"
+      );
+    }
+
+    // Create session record once everything it needs has loaded, so a
+    // failed lookup doesn't leave an empty session behind
     const { data: sessionData, error: sessionError } = await supabase
       .from("study_sessions")
       .insert({
@@ -54,62 +125,474 @@ export async function createSession(
       );
     }
 
-    // Fetch due cards for this deck
-    const now = new Date().toISOString();
+    const session: StudySession = {
+      id: sessionData.id,
+      user_id: sessionData.user_id,
+      deck_id: sessionData.deck_id,
+      cards_reviewed: sessionData.cards_reviewed,
+      correct_count: sessionData.correct_count,
+      duration_seconds: sessionData.duration_seconds,
+      created_at: sessionData.created_at,
+    };
+
+    const cards: Card[] = applySessionGoal(
+      applyDailyLimits(cardsData.map(mapSupabaseCard), limitsResponse.data),
+      request.goal
+    );
+
+    logger.info("Study session created successfully", {
+      sessionId: session.id,
+      cardCount: cards.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        session,
+        cards,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Create session failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to create study session",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Create a cram session
+ * Cards are drilled without touching their schedule, so daily limits and
+ * burying don't apply and only the session record is saved
+ * A cram over listed cards may span decks and needs no deck ID
+ */
+export async function createCramSession(
+  request: CreateCramSessionRequest
+): Promise<ApiResponse<CreateSessionResponse>> {
+  try {
+    logger.info("Creating cram session", {
+      deckId: request.deckId,
+      filter: request.filter.type,
+    });
+
+    const { filter } = request;
+
+    if (!request.deckId && filter.type !== "cards") {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "A deck is required for this cram filter"
+      );
+    }
+
+    let cardsQuery = supabase.from("cards").select("*").eq("suspended", false);
+
+    cardsQuery =
+      filter.type === "cards"
+        ? cardsQuery.in("id", filter.cardIds)
+        : cardsQuery.eq("deck_id", request.deckId);
+
+    const { data: cardsData, error: cardsError } = await cardsQuery.order(
+      "created_at",
+      { ascending: true }
+    );
+
+    if (cardsError) {
+      logger.error("Error fetching cards for cram session", {
+        error: cardsError,
+      });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch cards for session"
+      );
+    }
+
+    // Cards answered "again" since the start of today
+    let failedTodayIds: string[] = [];
+    if (request.filter.type === "failed_today") {
+      const { data: logsData, error: logsError } = await supabase
+        .from("review_logs")
+        .select("card_id")
+        .eq("deck_id", request.deckId)
+        .eq("rating", "again")
+        .gte("reviewed_at", getStartOfDay());
+
+      if (logsError) {
+        logger.error("Error fetching failed cards for cram session", {
+          error: logsError,
+        });
+        throw new AppError(
+          ErrorCode.DATABASE_ERROR,
+          "Failed to fetch today's reviews"
+        );
+      }
+
+      failedTodayIds = logsData.map((row: { card_id: string }) => row.card_id);
+    }
+
+    const cards = filterCramCards(
+      cardsData.map(mapSupabaseCard),
+      request.filter,
+      failedTodayIds
+    );
+
+    if (cards.length === 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "No cards match this cram filter"
+      );
+    }
+
+    const { data: sessionData, error: sessionError } = await supabase
+      .from("study_sessions")
+      .insert({
+        deck_id: request.deckId ?? null,
+        session_type: "cram",
+        cards_reviewed: 0,
+        correct_count: 0,
+        duration_seconds: 0,
+      })
+      .select()
+      .single();
+
+    if (sessionError) {
+      logger.error("Supabase create cram session error", {
+        error: sessionError,
+      });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to create study session"
+      );
+    }
+
+    const session: StudySession = {
+      id: sessionData.id,
+      user_id: sessionData.user_id,
+      deck_id: sessionData.deck_id,
+      session_type: "cram",
+      cards_reviewed: sessionData.cards_reviewed,
+      correct_count: sessionData.correct_count,
+      duration_seconds: sessionData.duration_seconds,
+      created_at: sessionData.created_at,
+    };
+
+    logger.info("Cram session created successfully", {
+      sessionId: session.id,
+      cardCount: cards.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        session,
+        cards,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Create cram session failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to create cram session",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Create an exam session
+ * Questions are picked at random from the decks regardless of due dates.
+ * Answers never reach the scheduler; the report is saved when it ends.
+ */
+export async function createExamSession(
+  request: CreateExamSessionRequest
+): Promise<ApiResponse<CreateSessionResponse>> {
+  try {
+    logger.info("Creating exam session", {
+      deckCount: request.deckIds.length,
+      questionCount: request.questionCount,
+    });
+
+    if (request.deckIds.length === 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "Select at least one deck for the exam"
+      );
+    }
+
     const { data: cardsData, error: cardsError } = await supabase
       .from("cards")
       .select("*")
-      .eq("deck_id", request.deckId)
-      .lte("next_review", now)
-      .order("next_review", { ascending: true });
+      .in("deck_id", request.deckIds)
+      .eq("suspended", false);
 
     if (cardsError) {
-      logger.error("Error fetching cards for session", { error: cardsError });
+      logger.error("Error fetching cards for exam session", {
+        error: cardsError,
+      });
       throw new AppError(
         ErrorCode.DATABASE_ERROR,
         "Failed to fetch cards for session"
       );
     }
 
+    const cards = pickExamCards(
+      cardsData.map(mapSupabaseCard),
+      request.questionCount
+    );
+
+    if (cards.length === 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "These decks have no cards to ask"
+      );
+    }
+
+    const { data: sessionData, error: sessionError } = await supabase
+      .from("study_sessions")
+      .insert({
+        // Exams over several decks belong to none of them
+        deck_id: request.deckIds.length === 1 ? request.deckIds[0] : null,
+        session_type: "exam",
+        cards_reviewed: 0,
+        correct_count: 0,
+        duration_seconds: 0,
+      })
+      .select()
+      .single();
+
+    if (sessionError) {
+      logger.error("Supabase create exam session error", {
+        error: sessionError,
+      });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to create study session"
+      );
+    }
+
     const session: StudySession = {
       id: sessionData.id,
       user_id: sessionData.user_id,
       deck_id: sessionData.deck_id,
+      session_type: "exam",
       cards_reviewed: sessionData.cards_reviewed,
       correct_count: sessionData.correct_count,
       duration_seconds: sessionData.duration_seconds,
+      exam_report: null,
       created_at: sessionData.created_at,
     };
 
-    const cards: Card[] = cardsData.map((item) => ({
+    logger.info("Exam session created successfully", {
+      sessionId: session.id,
+      questionCount: cards.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        session,
+        cards,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Create exam session failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to create exam session",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Create a session across several decks (every deck by default)
+ * Each deck keeps its own daily limits and gets its own session row
+ */
+export async function createMultiDeckSession(
+  request: CreateMultiDeckSessionRequest
+): Promise<ApiResponse<CreateMultiDeckSessionResponse>> {
+  try {
+    logger.info("Creating cross-deck study session", {
+      deckCount: request.deckIds?.length ?? "all",
+    });
+
+    let deckIds = request.deckIds;
+
+    if (!deckIds) {
+      const { data: decksData, error: decksError } = await supabase
+        .from("decks")
+        .select("id");
+
+      if (decksError) {
+        logger.error("Error fetching decks for session", {
+          error: decksError,
+        });
+        throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch decks");
+      }
+
+      deckIds = decksData.map((row: { id: string }) => row.id);
+    }
+
+    if (deckIds.length === 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "Select at least one deck to study"
+      );
+    }
+
+    // Fetch due cards for every deck
+    const now = new Date().toISOString();
+    const { data: cardsData, error: cardsError } = await supabase
+      .from("cards")
+      .select("*")
+      .in("deck_id", deckIds)
+      .lte("next_review", now)
+      .eq("suspended", false)
+      .or(notBuriedFilter(now))
+      .order("next_review", { ascending: true });
+
+    if (cardsError) {
+      logger.error("Error fetching cards for session", { error: cardsError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch cards for session"
+      );
+    }
+
+    const cardsByDeck = new Map<string, Card[]>();
+    cardsData.map(mapSupabaseCard).forEach((card: Card) => {
+      cardsByDeck.set(card.deck_id, [
+        ...(cardsByDeck.get(card.deck_id) ?? []),
+        card,
+      ]);
+    });
+
+    // Hold back new/review cards beyond each deck's limits for today
+    const dueCards: Card[] = [];
+    for (const [deckId, deckCards] of cardsByDeck) {
+      const limitsResponse = await getDailyLimitStatus(deckId);
+
+      if (!limitsResponse.success || !limitsResponse.data) {
+        throw new AppError(
+          ErrorCode.DATABASE_ERROR,
+          "Failed to fetch daily limits for session"
+        );
+      }
+
+      dueCards.push(...applyDailyLimits(deckCards, limitsResponse.data));
+    }
+
+    if (dueCards.length === 0) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        "No cards are due in these decks"
+      );
+    }
+
+    // One session row per deck that has cards to study
+    const studiedDeckIds = Array.from(
+      new Set(dueCards.map((card) => card.deck_id))
+    );
+
+    const { data: sessionsData, error: sessionError } = await supabase
+      .from("study_sessions")
+      .insert(
+        studiedDeckIds.map((deckId) => ({
+          deck_id: deckId,
+          cards_reviewed: 0,
+          correct_count: 0,
+          duration_seconds: 0,
+        }))
+      )
+      .select();
+
+    if (sessionError) {
+      logger.error("Supabase create sessions error", { error: sessionError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to create study session"
+      );
+    }
+
+    const sessions: StudySession[] = sessionsData.map((item) => ({
       id: item.id,
+      user_id: item.user_id,
       deck_id: item.deck_id,
-      question: item.question,
-      answer: item.answer,
-      difficulty: item.difficulty,
-      last_reviewed: item.last_reviewed,
-      next_review: item.next_review,
-      ease_factor: item.ease_factor,
-      review_count: item.review_count,
+      cards_reviewed: item.cards_reviewed,
+      correct_count: item.correct_count,
+      duration_seconds: item.duration_seconds,
       created_at: item.created_at,
-      updated_at: item.updated_at,
     }));
 
-    logger.info("Study session created successfully", {
-      sessionId: session.id,
+    const cards = interleaveDueCards(dueCards);
+
+    logger.info("Cross-deck study session created successfully", {
+      deckCount: sessions.length,
       cardCount: cards.length,
     });
 
     return {
       success: true,
       data: {
-        session,
+        sessions,
         cards,
       },
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    logger.error("Create session failed", { error });
+    logger.error("Create cross-deck session failed", { error });
 
     if (error instanceof AppError) {
       return {
@@ -152,6 +635,8 @@ export async function updateSession(
       updateData.correct_count = request.correctCount;
     if (request.durationSeconds !== undefined)
       updateData.duration_seconds = request.durationSeconds;
+    if (request.examReport !== undefined)
+      updateData.exam_report = request.examReport;
 
     const { data, error } = await supabase
       .from("study_sessions")
@@ -172,9 +657,11 @@ export async function updateSession(
       id: data.id,
       user_id: data.user_id,
       deck_id: data.deck_id,
+      session_type: data.session_type ?? "review",
       cards_reviewed: data.cards_reviewed,
       correct_count: data.correct_count,
       duration_seconds: data.duration_seconds,
+      exam_report: data.exam_report ?? null,
       created_at: data.created_at,
     };
 
@@ -221,6 +708,7 @@ export async function recordReview(
       sessionId,
       cardId: request.cardId,
       difficulty: request.difficulty,
+      scheduler: request.scheduler,
     });
 
     // Fetch current card data
@@ -235,19 +723,98 @@ export async function recordReview(
       throw new AppError(ErrorCode.RECORD_NOT_FOUND, "Card not found");
     }
 
-    // Calculate next review data using SM-2 algorithm
+    // Steps and scheduling bounds come from the deck's options preset
+    const optionsResponse = await getDeckOptions(cardData.deck_id);
+
+    if (!optionsResponse.success || !optionsResponse.data) {
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch deck options"
+      );
+    }
+
+    const deckOptions = optionsResponse.data.options;
+
+    // Calculate next review data using the user's scheduler
+    const scheduler = getScheduler(
+      request.scheduler,
+      request.schedulerParameters,
+      getSchedulingOptions(deckOptions)
+    );
+
     const currentReviewData = {
       easeFactor: cardData.ease_factor,
-      interval: cardData.review_count === 0 ? 0 : 1, // Simplified
+      interval: cardData.interval ?? 0,
       reviewCount: cardData.review_count,
       lastReviewed: cardData.last_reviewed || new Date().toISOString(),
       nextReview: cardData.next_review || new Date().toISOString(),
+      stability: cardData.stability ?? undefined,
+      fsrsDifficulty: cardData.fsrs_difficulty ?? undefined,
+      learningState: cardData.learning_state ?? undefined,
+      learningStep: cardData.learning_step ?? null,
     };
 
-    const nextReviewData = calculateNextReviewData(
+    // Learning/relearning steps run before the day-based scheduler
+    let nextReviewData = applyReview(
       currentReviewData,
+      request.difficulty,
+      scheduler,
+      getLearningStepsConfig(deckOptions)
+    );
+
+    // Fuzz day-based intervals onto the least-loaded nearby day
+    if (nextReviewData.learningState === "review") {
+      const fuzzRange = getFuzzRange(nextReviewData.interval);
+
+      if (hasFuzz(fuzzRange)) {
+        const forecast = await getDueCountsByDay({
+          fromDay: fuzzRange.min,
+          toDay: fuzzRange.max,
+        });
+
+        const interval = loadBalanceInterval(
+          nextReviewData.interval,
+          forecast.data?.counts
+        );
+
+        nextReviewData = {
+          ...nextReviewData,
+          interval,
+          nextReview: calculateNextReview(interval),
+        };
+      }
+
+      // Nothing comes due during an upcoming break
+      if (isVacationPending(request.vacation)) {
+        nextReviewData = {
+          ...nextReviewData,
+          nextReview: shiftPastVacation(
+            nextReviewData.nextReview,
+            request.vacation
+          ),
+        };
+      }
+    }
+
+    // Count lapses and flag leeches
+    const lapsed = isLapse(
+      getLearningState(currentReviewData),
       request.difficulty
     );
+    const lapses = (cardData.lapses ?? 0) + (lapsed ? 1 : 0);
+    const leechThreshold =
+      request.leechThreshold ?? appConfig.spacedRepetition.leechThreshold;
+    const leechAction =
+      request.leechAction ?? appConfig.spacedRepetition.leechAction;
+    const isNewLeech = lapsed && isLeechLapse(lapses, leechThreshold);
+
+    if (isNewLeech) {
+      logger.info("Card flagged as leech", {
+        cardId: request.cardId,
+        lapses,
+        leechAction,
+      });
+    }
 
     // Update card with new review data
     const updateResponse = await updateCard(request.cardId, {
@@ -255,6 +822,16 @@ export async function recordReview(
       nextReview: nextReviewData.nextReview,
       lastReviewed: new Date().toISOString(),
       reviewCount: nextReviewData.reviewCount,
+      interval: nextReviewData.interval,
+      stability: nextReviewData.stability,
+      fsrsDifficulty: nextReviewData.fsrsDifficulty,
+      learningState: nextReviewData.learningState,
+      learningStep: nextReviewData.learningStep,
+      lapses,
+      ...(isNewLeech && {
+        tags: addTag(cardData.tags ?? [], LEECH_TAG),
+        suspended: leechAction === "suspend" ? true : undefined,
+      }),
     });
 
     if (!updateResponse.success || !updateResponse.data) {
@@ -266,12 +843,58 @@ export async function recordReview(
 
     const updatedCard = updateResponse.data.card;
 
+    // Append to review log (history is best-effort; never fail the review)
+    const logResponse = await createReviewLog({
+      cardId: request.cardId,
+      deckId: cardData.deck_id,
+      sessionId,
+      rating: request.difficulty,
+      reviewType: getLearningState(currentReviewData),
+      previousInterval: currentReviewData.interval,
+      newInterval: nextReviewData.interval,
+      easeFactor: nextReviewData.easeFactor,
+      timeSpent: request.timeSpent,
+      responseTimeMs: request.responseTimeMs,
+    });
+
+    let reviewLog: ReviewLog | undefined;
+    if (logResponse.success && logResponse.data) {
+      reviewLog = logResponse.data.reviewLog;
+    } else {
+      logger.warn("Failed to write review log", {
+        cardId: request.cardId,
+        error: logResponse.error,
+      });
+    }
+
+    // Siblings (e.g. the reverse card) wait until tomorrow (best-effort)
+    let buriedCardIds: string[] = [];
+    if (cardData.note_id && appConfig.spacedRepetition.burySiblings) {
+      const buryResponse = await burySiblings({
+        cardId: request.cardId,
+        noteId: cardData.note_id,
+        until: getBuryUntil(),
+      });
+
+      if (buryResponse.success && buryResponse.data) {
+        buriedCardIds = buryResponse.data.cardIds;
+      } else {
+        logger.warn("Failed to bury sibling cards", {
+          cardId: request.cardId,
+          error: buryResponse.error,
+        });
+      }
+    }
+
     // Get next card from the same deck
+    const now = new Date().toISOString();
     const { data: nextCardData } = await supabase
       .from("cards")
       .select("*")
       .eq("deck_id", cardData.deck_id)
-      .lte("next_review", new Date().toISOString())
+      .lte("next_review", now)
+      .eq("suspended", false)
+      .or(notBuriedFilter(now))
       .neq("id", request.cardId)
       .order("next_review", { ascending: true })
       .limit(1)
@@ -279,19 +902,7 @@ export async function recordReview(
 
     let nextCard: Card | undefined;
     if (nextCardData) {
-      nextCard = {
-        id: nextCardData.id,
-        deck_id: nextCardData.deck_id,
-        question: nextCardData.question,
-        answer: nextCardData.answer,
-        difficulty: nextCardData.difficulty,
-        last_reviewed: nextCardData.last_reviewed,
-        next_review: nextCardData.next_review,
-        ease_factor: nextCardData.ease_factor,
-        review_count: nextCardData.review_count,
-        created_at: nextCardData.created_at,
-        updated_at: nextCardData.updated_at,
-      };
+      nextCard = mapSupabaseCard(nextCardData);
     }
 
     // Get session progress
@@ -309,7 +920,9 @@ export async function recordReview(
       .from("cards")
       .select("*", { count: "exact", head: true })
       .eq("deck_id", cardData.deck_id)
-      .lte("next_review", new Date().toISOString());
+      .lte("next_review", now)
+      .eq("suspended", false)
+      .or(notBuriedFilter(now));
 
     logger.info("Card review recorded successfully", {
       cardId: request.cardId,
@@ -319,6 +932,10 @@ export async function recordReview(
       success: true,
       data: {
         card: updatedCard,
+        previousCard: mapSupabaseCard(cardData),
+        isNewLeech,
+        buriedCardIds,
+        reviewLog,
         nextCard,
         sessionProgress: {
           cardsReviewed: cardsReviewed + 1,
@@ -357,6 +974,202 @@ export async function recordReview(
   }
 }
 
+/**
+ * Undo a recorded review: restores the card and the session counters,
+ * removes the review log entry and brings back the siblings it buried
+ */
+export async function undoReview(
+  request: UndoReviewRequest
+): Promise<ApiResponse<UndoReviewResponse>> {
+  try {
+    logger.info("Undoing card review", { cardId: request.cardId });
+
+    const { data, error } = await supabase
+      .from("cards")
+      .update({ ...request.changes, updated_at: new Date().toISOString() })
+      .eq("id", request.cardId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Supabase undo review error", { error });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to restore card");
+    }
+
+    // History and burying are best-effort, as when the review was recorded
+    if (request.reviewLogId) {
+      const { error: logError } = await supabase
+        .from("review_logs")
+        .delete()
+        .eq("id", request.reviewLogId);
+
+      if (logError) {
+        logger.warn("Failed to delete review log", {
+          reviewLogId: request.reviewLogId,
+          error: logError,
+        });
+      }
+    }
+
+    if (request.buriedCardIds.length > 0) {
+      const { error: buryError } = await supabase
+        .from("cards")
+        .update({ buried_until: null })
+        .in("id", request.buriedCardIds);
+
+      if (buryError) {
+        logger.warn("Failed to unbury sibling cards", {
+          cardId: request.cardId,
+          error: buryError,
+        });
+      }
+    }
+
+    if (request.session) {
+      const sessionResponse = await updateSession(
+        request.session.sessionId,
+        request.session.progress
+      );
+
+      if (!sessionResponse.success) {
+        logger.warn("Failed to roll back session progress", {
+          sessionId: request.session.sessionId,
+          error: sessionResponse.error,
+        });
+      }
+    }
+
+    logger.info("Card review undone", { cardId: request.cardId });
+
+    return {
+      success: true,
+      data: { card: mapSupabaseCard(data) },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Undo review failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to undo review",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Server state of a session saved before the app closed: its session rows,
+ * its cards as they are now and the reviews recorded since the save
+ */
+export async function getSessionResumeState(
+  request: GetSessionResumeStateRequest
+): Promise<ApiResponse<GetSessionResumeStateResponse>> {
+  try {
+    logger.info("Fetching session resume state", {
+      sessionCount: request.sessionIds.length,
+      cardCount: request.cardIds.length,
+    });
+
+    const { data: sessionRows, error: sessionsError } = await supabase
+      .from("study_sessions")
+      .select("*")
+      .in("id", request.sessionIds);
+
+    if (sessionsError) {
+      logger.error("Supabase fetch sessions error", { error: sessionsError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch study sessions"
+      );
+    }
+
+    const { data: cardRows, error: cardsError } = await supabase
+      .from("cards")
+      .select("*")
+      .in("id", Array.from(new Set(request.cardIds)));
+
+    if (cardsError) {
+      logger.error("Supabase fetch cards error", { error: cardsError });
+      throw new AppError(ErrorCode.DATABASE_ERROR, "Failed to fetch cards");
+    }
+
+    const { data: logRows, error: logsError } = await supabase
+      .from("review_logs")
+      .select("card_id, rating")
+      .in("session_id", request.sessionIds)
+      .gt("reviewed_at", request.since)
+      .order("reviewed_at", { ascending: true });
+
+    if (logsError) {
+      logger.error("Supabase fetch review logs error", { error: logsError });
+      throw new AppError(
+        ErrorCode.DATABASE_ERROR,
+        "Failed to fetch review logs"
+      );
+    }
+
+    const sessions: StudySession[] = (sessionRows || []).map((item) => ({
+      id: item.id,
+      user_id: item.user_id,
+      deck_id: item.deck_id,
+      session_type: item.session_type ?? "review",
+      cards_reviewed: item.cards_reviewed,
+      correct_count: item.correct_count,
+      duration_seconds: item.duration_seconds,
+      exam_report: item.exam_report ?? null,
+      created_at: item.created_at,
+    }));
+
+    return {
+      success: true,
+      data: {
+        sessions,
+        cards: (cardRows || []).map(mapSupabaseCard),
+        reviews: logRows || [],
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error("Get session resume state failed", { error });
+
+    if (error instanceof AppError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: "Failed to fetch session state",
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
 /**
  * Get study sessions (with optional filters)
  */
@@ -375,6 +1188,10 @@ export async function getSessions(
       query = query.eq("deck_id", request.deckId);
     }
 
+    if (request.sessionType) {
+      query = query.eq("session_type", request.sessionType);
+    }
+
     if (request.limit) {
       query = query.limit(request.limit);
     }
@@ -400,9 +1217,11 @@ export async function getSessions(
       id: item.id,
       user_id: item.user_id,
       deck_id: item.deck_id,
+      session_type: item.session_type ?? "review",
       cards_reviewed: item.cards_reviewed,
       correct_count: item.correct_count,
       duration_seconds: item.duration_seconds,
+      exam_report: item.exam_report ?? null,
       created_at: item.created_at,
     }));
 
@@ -485,26 +1304,17 @@ export async function getSessionStats(): Promise<
         ? Math.round((totalCorrect / totalCardsReviewed) * 100)
         : 0;
 
-    // Calculate streak (consecutive days with sessions)
+    // Calculate streak (consecutive study days with sessions)
     let currentStreak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
 
     const sessionDates = sessions
-      .map((s) => {
-        const date = new Date(s.created_at);
-        date.setHours(0, 0, 0, 0);
-        return date.getTime();
-      })
+      .map((s) => getStartOfDay(s.created_at))
       .filter((value, index, self) => self.indexOf(value) === index)
-      .sort((a, b) => b - a);
+      .sort()
+      .reverse();
 
     for (let i = 0; i < sessionDates.length; i++) {
-      const expectedDate = new Date(today);
-      expectedDate.setDate(expectedDate.getDate() - i);
-      expectedDate.setHours(0, 0, 0, 0);
-
-      if (sessionDates[i] === expectedDate.getTime()) {
+      if (sessionDates[i] === getStartOfDayOffset(-i)) {
         currentStreak++;
       } else {
         break;
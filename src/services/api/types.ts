@@ -3,7 +3,27 @@
  * Type definitions for API requests and responses
  */
 
-import { User, Deck, Card, StudySession } from "../../utils/types";
+import {
+  User,
+  Deck,
+  Card,
+  StudySession,
+  SchedulerType,
+  SchedulerParameters,
+  LeechAction,
+  ReviewLog,
+  DeckPreset,
+  DeckPresetOptions,
+  VacationPeriod,
+  CramFilter,
+  ExamReport,
+  StudySessionType,
+  SessionGoal,
+} from "../../utils/types";
+import { RetentionWindow } from "../../utils/retention";
+import { ResponseTimeBaseline } from "../../utils/responseTime";
+import { CardChanges } from "../../utils/reschedule";
+import { SessionResumeState } from "../../utils/sessionResume";
 
 // ============================================
 // Generic API Response Wrapper
@@ -89,6 +109,7 @@ export interface CreateDeckResponse {
 export interface UpdateDeckRequest {
   title?: string;
   description?: string;
+  presetId?: string | null; // null resets the deck to the built-in defaults
 }
 
 export interface UpdateDeckResponse {
@@ -105,11 +126,53 @@ export interface GetDeckResponse {
   dueCards: number;
 }
 
+export interface GetDailyLimitStatusResponse {
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  newRemaining: number;
+  reviewRemaining: number;
+}
+
 export interface DeleteDeckResponse {
   message: string;
   deckId: string;
 }
 
+// ============================================
+// Deck Preset API Types
+// ============================================
+
+export interface GetPresetsResponse {
+  presets: DeckPreset[];
+}
+
+export interface CreatePresetRequest {
+  name: string;
+  options: DeckPresetOptions;
+}
+
+export interface CreatePresetResponse {
+  preset: DeckPreset;
+}
+
+export interface UpdatePresetRequest {
+  name?: string;
+  options?: DeckPresetOptions;
+}
+
+export interface UpdatePresetResponse {
+  preset: DeckPreset;
+}
+
+export interface DeletePresetResponse {
+  presetId: string;
+}
+
+export interface GetDeckOptionsResponse {
+  preset: DeckPreset | null; // null when the deck uses the defaults
+  options: DeckPresetOptions;
+}
+
 // ============================================
 // Card API Types
 // ============================================
@@ -131,6 +194,8 @@ export interface CreateMultipleCardsRequest {
     question: string;
     answer: string;
     difficulty?: "easy" | "medium" | "hard";
+    reversible?: boolean; // Adds a reverse card sharing the same note
+    cardType?: "basic" | "cloze"; // Cloze text adds one card per deletion
   }>;
 }
 
@@ -148,10 +213,22 @@ export interface UpdateCardRequest {
   nextReview?: string;
   lastReviewed?: string;
   reviewCount?: number;
+  interval?: number;
+  stability?: number;
+  fsrsDifficulty?: number;
+  learningState?: "new" | "learning" | "review" | "relearning";
+  learningStep?: number | null;
+  lapses?: number;
+  tags?: string[];
+  suspended?: boolean;
+  buriedUntil?: string | null; // null unburies
+  distractors?: string[] | null; // null clears the cached quiz options
 }
 
 export interface UpdateCardResponse {
   card: Card;
+  addedCards?: Card[]; // Cloze cards for deletions the edit added
+  removedCardIds?: string[]; // Cloze cards whose deletion the edit removed
 }
 
 export interface GetCardsRequest {
@@ -183,6 +260,48 @@ export interface GetDueCardsRequest {
 export interface GetDueCardsResponse {
   cards: Card[];
   dueCount: number;
+  overdueCount: number; // Due before today (a backlog after missed days)
+}
+
+export interface GetDueCountsByDayRequest {
+  deckId?: string; // All of the user's cards when omitted
+  fromDay: number; // Day offset from today (inclusive)
+  toDay: number; // Day offset from today (inclusive)
+}
+
+export interface GetDueCountsByDayResponse {
+  counts: Record<number, number>; // Due cards keyed by day offset
+}
+
+export interface BurySiblingsRequest {
+  cardId: string; // The card just reviewed (not buried)
+  noteId: string;
+  until: string; // ISO date the siblings come back
+}
+
+export interface BurySiblingsResponse {
+  cardIds: string[];
+}
+
+export interface GetWorkloadForecastRequest {
+  deckId?: string; // All of the user's cards when omitted
+  days?: number; // Defaults to the configured forecast window
+  scheduler?: SchedulerType;
+  schedulerParameters?: SchedulerParameters;
+}
+
+export interface GetWorkloadForecastResponse {
+  startDate: string; // Day offset 0
+  overall: number[]; // Reviews due per day
+  byDeck: Record<string, number[]>;
+}
+
+export interface ApplyVacationRequest {
+  vacation: VacationPeriod;
+}
+
+export interface ApplyVacationResponse {
+  movedCount: number; // Cards moved past the break
 }
 
 // ============================================
@@ -191,6 +310,7 @@ export interface GetDueCardsResponse {
 
 export interface CreateSessionRequest {
   deckId: string;
+  goal?: SessionGoal; // A card goal limits the cards fetched
 }
 
 export interface CreateSessionResponse {
@@ -198,10 +318,30 @@ export interface CreateSessionResponse {
   cards: Card[];
 }
 
+export interface CreateMultiDeckSessionRequest {
+  deckIds?: string[]; // Every deck when omitted
+}
+
+export interface CreateMultiDeckSessionResponse {
+  sessions: StudySession[]; // One per deck with due cards
+  cards: Card[];
+}
+
+export interface CreateCramSessionRequest {
+  deckId?: string; // Only optional when the filter lists the cards
+  filter: CramFilter;
+}
+
+export interface CreateExamSessionRequest {
+  deckIds: string[];
+  questionCount: number;
+}
+
 export interface UpdateSessionRequest {
   cardsReviewed?: number;
   correctCount?: number;
   durationSeconds?: number;
+  examReport?: ExamReport;
 }
 
 export interface UpdateSessionResponse {
@@ -212,10 +352,20 @@ export interface RecordReviewRequest {
   cardId: string;
   difficulty: "again" | "hard" | "medium" | "easy";
   timeSpent: number; // seconds
+  responseTimeMs?: number; // Until the answer was revealed
+  scheduler?: SchedulerType;
+  schedulerParameters?: SchedulerParameters;
+  leechThreshold?: number;
+  leechAction?: LeechAction;
+  vacation?: VacationPeriod | null; // Reviews never come due during a break
 }
 
 export interface RecordReviewResponse {
   card: Card;
+  previousCard: Card; // Stored card before the review (for undo)
+  isNewLeech: boolean; // Card crossed the leech threshold on this review
+  buriedCardIds: string[]; // Siblings buried for the rest of the day
+  reviewLog?: ReviewLog;
   nextCard?: Card;
   sessionProgress: {
     cardsReviewed: number;
@@ -224,8 +374,32 @@ export interface RecordReviewResponse {
   };
 }
 
+export interface UndoReviewRequest {
+  cardId: string;
+  changes: CardChanges; // Restores the card's fields from before the review
+  reviewLogId?: string; // Log entry written by the review
+  buriedCardIds: string[]; // Siblings buried by the review
+  session?: {
+    sessionId: string;
+    progress: UpdateSessionRequest; // Counters from before the review
+  };
+}
+
+export interface UndoReviewResponse {
+  card: Card;
+}
+
+export interface GetSessionResumeStateRequest {
+  sessionIds: string[];
+  cardIds: string[];
+  since: string; // ISO date of the last save
+}
+
+export type GetSessionResumeStateResponse = SessionResumeState;
+
 export interface GetSessionsRequest {
   deckId?: string;
+  sessionType?: StudySessionType;
   limit?: number;
   offset?: number;
 }
@@ -243,6 +417,56 @@ export interface GetSessionStatsResponse {
   currentStreak: number; // consecutive days
 }
 
+// ============================================
+// Review Log API Types
+// ============================================
+
+export interface CreateReviewLogRequest {
+  cardId: string;
+  deckId: string;
+  sessionId?: string;
+  rating: "again" | "hard" | "medium" | "easy";
+  reviewType: "new" | "learning" | "review" | "relearning";
+  previousInterval: number;
+  newInterval: number;
+  easeFactor: number;
+  timeSpent: number; // seconds
+  responseTimeMs?: number;
+}
+
+export interface CreateReviewLogResponse {
+  reviewLog: ReviewLog;
+}
+
+export interface GetTodayReviewCountsResponse {
+  newCount: number; // Cards studied for the first time today
+  reviewCount: number; // Review cards studied today
+}
+
+export interface GetReviewLogsRequest {
+  deckId?: string;
+  cardId?: string;
+  since?: string; // ISO date string
+  limit?: number;
+}
+
+export interface GetReviewLogsResponse {
+  reviewLogs: ReviewLog[];
+  total: number;
+}
+
+export interface GetRetentionStatsRequest {
+  deckId?: string; // All decks when omitted
+}
+
+export interface GetRetentionStatsResponse {
+  windows: RetentionWindow[]; // One per configured window, shortest first
+}
+
+export interface GetResponseTimeBaselineResponse {
+  baseline: ResponseTimeBaseline | null; // null until enough answers are timed
+}
+
 // ============================================
 // Supabase-specific Types
 // ============================================
@@ -267,10 +491,27 @@ export interface SupabaseDeck {
   title: string;
   description?: string;
   card_count: number;
+  preset_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface SupabaseDeckPreset {
+  id: string;
+  user_id: string;
+  name: string;
+  learning_steps: number[];
+  relearning_steps: number[];
+  new_cards_per_day: number;
+  max_reviews_per_day: number;
+  min_ease_factor: number;
+  max_ease_factor: number;
+  easy_bonus: number;
+  request_retention: number;
+  created_at: string;
+  updated_at?: string;
+}
+
 export interface SupabaseCard {
   id: string;
   deck_id: string;
@@ -281,17 +522,49 @@ export interface SupabaseCard {
   next_review?: string;
   ease_factor: number;
   review_count: number;
+  interval?: number;
+  stability?: number;
+  fsrs_difficulty?: number;
+  learning_state?: "new" | "learning" | "review" | "relearning";
+  learning_step?: number | null;
+  lapses?: number;
+  tags?: string[] | null;
+  suspended?: boolean;
+  buried_until?: string | null;
+  note_id?: string | null;
+  direction?: "forward" | "reverse" | null;
+  card_type?: "basic" | "cloze" | null;
+  cloze_index?: number | null;
+  distractors?: string[] | null;
   created_at: string;
   updated_at?: string;
 }
 
-export interface SupabaseStudySession {
+export interface SupabaseReviewLog {
   id: string;
   user_id: string;
+  card_id: string;
   deck_id: string;
+  session_id?: string;
+  rating: "again" | "hard" | "medium" | "easy";
+  review_type: "new" | "learning" | "review" | "relearning";
+  previous_interval: number;
+  new_interval: number;
+  ease_factor: number;
+  time_spent: number;
+  response_time_ms: number | null;
+  reviewed_at: string;
+}
+
+export interface SupabaseStudySession {
+  id: string;
+  user_id: string;
+  deck_id: string | null;
+  session_type?: "review" | "cram" | "exam" | null;
   cards_reviewed: number;
   correct_count: number;
   duration_seconds: number;
+  exam_report?: ExamReport | null;
   created_at: string;
 }
 
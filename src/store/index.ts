@@ -10,6 +10,8 @@ import studyReducer from "./slices/studySlice";
 import spacedRepReducer from "./slices/spacedRepSlice";
 import uiReducer from "./slices/uiSlice";
 import syncReducer from "./slices/syncSlice";
+import settingsReducer from "./slices/settingsSlice";
+import presetReducer from "./slices/presetSlice";
 
 // Import middleware
 import apiMiddleware from "./middleware/apiMiddleware";
@@ -27,6 +29,8 @@ const rootReducer = combineReducers({
   spacedRep: spacedRepReducer,
   ui: uiReducer,
   sync: syncReducer,
+  settings: settingsReducer,
+  preset: presetReducer,
 });
 
 /**
@@ -70,6 +74,8 @@ export const resetStore = () => {
   const { resetSpacedRepState } = require("./slices/spacedRepSlice");
   const { resetUIState } = require("./slices/uiSlice");
   const { resetSyncState } = require("./slices/syncSlice");
+  const { resetSettingsState } = require("./slices/settingsSlice");
+  const { clearPresets } = require("./slices/presetSlice");
 
   // Dispatch all reset actions
   store.dispatch(resetAuthState());
@@ -79,6 +85,8 @@ export const resetStore = () => {
   store.dispatch(resetSpacedRepState());
   store.dispatch(resetUIState());
   store.dispatch(resetSyncState());
+  store.dispatch(resetSettingsState());
+  store.dispatch(clearPresets());
 
   logger.info("Redux store reset");
 };
@@ -1,12 +1,14 @@
 import { Middleware } from "@reduxjs/toolkit";
 import {
   addToSyncQueue,
+  removeFromSyncQueue,
   processSyncQueue,
   saveSyncQueue,
 } from "../slices/syncSlice";
 import { setNetworkStatus } from "../slices/uiSlice";
 import { logger } from "../../services/logger";
 import { appConfig } from "../../config/appConfig";
+import { SyncQueueItem } from "../../utils/types";
 
 /**
  * Sync Middleware
@@ -80,11 +82,21 @@ export const syncMiddleware: Middleware = (store) => {
         type: (action as any).type,
       });
 
-      // Add to sync queue
-      const queueItem = createSyncQueueItem(action);
-      if (queueItem) {
+      // An undone review that hasn't synced yet is dropped instead
+      const queuedReview = findQueuedReview(
+        store.getState().sync.pendingChanges,
+        action
+      );
+      const queueItem = queuedReview ? null : createSyncQueueItem(action);
+
+      if (queuedReview) {
+        store.dispatch(removeFromSyncQueue(queuedReview.id) as any);
+      } else if (queueItem) {
+        // Add to sync queue
         store.dispatch(addToSyncQueue(queueItem) as any);
+      }
 
+      if (queuedReview || queueItem) {
         // Save queue to storage
         const updatedQueue = store.getState().sync.pendingChanges;
         store.dispatch(saveSyncQueue(updatedQueue) as any);
@@ -130,6 +142,7 @@ function shouldQueueAction(actionType: string | symbol | undefined): boolean {
 
     // Study session actions
     "study/recordReview/fulfilled",
+    "study/undoReview/fulfilled",
   ];
 
   return queueableActions.some((pattern) => actionType.includes(pattern));
@@ -193,7 +206,7 @@ function createSyncQueueItem(action: any): any | null {
       operation: "update" as const,
       entity: "card" as const,
       entityId: action.meta.arg.cardId,
-      data: action.payload,
+      data: action.payload.card,
     };
   }
 
@@ -213,8 +226,23 @@ function createSyncQueueItem(action: any): any | null {
       entity: "card" as const,
       entityId: action.meta.arg.cardId,
       data: {
+        requestId: action.meta.requestId,
         difficulty: action.meta.arg.difficulty,
         timeSpent: action.meta.arg.timeSpent,
+        responseTimeMs: action.meta.arg.responseTimeMs,
+      },
+    };
+  }
+
+  // Queued after the review it undoes, so it syncs after it
+  if (actionType.includes("study/undoReview")) {
+    return {
+      operation: "update" as const,
+      entity: "card" as const,
+      entityId: action.payload.request.cardId,
+      data: {
+        requestId: action.payload.entry.request_id,
+        undo: action.payload.request,
       },
     };
   }
@@ -222,4 +250,23 @@ function createSyncQueueItem(action: any): any | null {
   return null;
 }
 
+/**
+ * Queued review that an undo action cancels, if it hasn't synced yet
+ */
+function findQueuedReview(
+  queue: SyncQueueItem[],
+  action: any
+): SyncQueueItem | undefined {
+  if (!action.type.includes("study/undoReview")) {
+    return undefined;
+  }
+
+  return queue.find(
+    (item) =>
+      item.entity === "card" &&
+      !item.data?.undo &&
+      item.data?.requestId === action.payload.entry.request_id
+  );
+}
+
 export default syncMiddleware;
@@ -1,15 +1,33 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { Card, NormalizedState, GeneratedCard } from "../../utils/types";
 import * as cardApi from "../../services/api/cardApi";
+import {
+  CreateMultipleCardsRequest,
+  UpdateCardRequest,
+} from "../../services/api/types";
 import { logger } from "../../services/logger";
+import {
+  CardChangeSet,
+  DueRange,
+  RescheduleAction,
+  RESCHEDULE_LABELS,
+  getRescheduleChanges,
+  getUndoChanges,
+} from "../../utils/reschedule";
 
 /**
  * Card Slice
  * Manages card state with normalized structure
  */
 
+interface BulkUndo {
+  label: string; // e.g. "Forget"
+  updates: CardChangeSet[]; // Restores the fields the bulk action changed
+}
+
 interface CardState extends NormalizedState<Card> {
   generatingCardIds: string[]; // Cards currently being generated
+  lastBulkUndo: BulkUndo | null; // Most recent bulk reschedule, until undone
 }
 
 // Initial state
@@ -19,6 +37,7 @@ const initialState: CardState = {
   loading: false,
   error: null,
   generatingCardIds: [],
+  lastBulkUndo: null,
 };
 
 // Async thunks
@@ -133,17 +152,7 @@ export const createCard = createAsyncThunk(
 export const createMultipleCards = createAsyncThunk(
   "card/createMultipleCards",
   async (
-    {
-      deckId,
-      cards,
-    }: {
-      deckId: string;
-      cards: Array<{
-        question: string;
-        answer: string;
-        difficulty?: "easy" | "medium" | "hard";
-      }>;
-    },
+    { deckId, cards }: CreateMultipleCardsRequest,
     { rejectWithValue }
   ) => {
     try {
@@ -184,15 +193,7 @@ export const updateCard = createAsyncThunk(
       updates,
     }: {
       cardId: string;
-      updates: {
-        question?: string;
-        answer?: string;
-        difficulty?: "easy" | "medium" | "hard";
-        easeFactor?: number;
-        nextReview?: string;
-        lastReviewed?: string;
-        reviewCount?: number;
-      };
+      updates: UpdateCardRequest;
     },
     { rejectWithValue }
   ) => {
@@ -209,7 +210,7 @@ export const updateCard = createAsyncThunk(
 
       logger.logUserAction("card_updated", { cardId });
 
-      return response.data.card;
+      return response.data;
     } catch (error) {
       logger.error("Update card failed", { error, cardId });
       return rejectWithValue("Failed to update card");
@@ -217,6 +218,112 @@ export const updateCard = createAsyncThunk(
   }
 );
 
+/**
+ * Forget, set the due date of, or reset the ease of many cards at once
+ */
+export const rescheduleCards = createAsyncThunk(
+  "card/rescheduleCards",
+  async (
+    {
+      cardIds,
+      action,
+      range,
+    }: {
+      cardIds: string[];
+      action: RescheduleAction;
+      range?: DueRange;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      logger.logUserAction("reschedule_cards", {
+        action,
+        count: cardIds.length,
+      });
+
+      const { card: cardState } = getState() as { card: CardState };
+      const cards = cardIds
+        .map((id) => cardState.byId[id])
+        .filter((card): card is Card => !!card);
+
+      const updates = getRescheduleChanges(action, cards, range);
+      const undo = getUndoChanges(cards, updates);
+
+      const response = await cardApi.batchUpdateCards({ updates });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to reschedule cards"
+        );
+      }
+
+      const updatedIds = new Set(response.data.updated.map((card) => card.id));
+
+      logger.logUserAction("cards_rescheduled", {
+        action,
+        updated: response.data.updated.length,
+        failed: response.data.failed.length,
+      });
+
+      return {
+        updated: response.data.updated,
+        failed: response.data.failed,
+        undo: {
+          label: RESCHEDULE_LABELS[action],
+          updates: undo.filter((change) => updatedIds.has(change.id)),
+        },
+      };
+    } catch (error) {
+      logger.error("Reschedule cards failed", { error, action });
+      return rejectWithValue("Failed to reschedule cards");
+    }
+  }
+);
+
+/**
+ * Undo the most recent bulk reschedule
+ */
+export const undoReschedule = createAsyncThunk(
+  "card/undoReschedule",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { lastBulkUndo } = (getState() as { card: CardState }).card;
+
+      if (!lastBulkUndo) {
+        return rejectWithValue("Nothing to undo");
+      }
+
+      logger.logUserAction("undo_reschedule", {
+        label: lastBulkUndo.label,
+        count: lastBulkUndo.updates.length,
+      });
+
+      const response = await cardApi.batchUpdateCards({
+        updates: lastBulkUndo.updates,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to undo reschedule"
+        );
+      }
+
+      // Cards that couldn't be restored stay undoable
+      const failedIds = new Set(response.data.failed.map((item) => item.id));
+
+      return {
+        updated: response.data.updated,
+        remaining: lastBulkUndo.updates.filter((change) =>
+          failedIds.has(change.id)
+        ),
+      };
+    } catch (error) {
+      logger.error("Undo reschedule failed", { error });
+      return rejectWithValue("Failed to undo reschedule");
+    }
+  }
+);
+
 /**
  * Delete card
  */
@@ -295,6 +402,8 @@ const cardSlice = createSlice({
         difficulty: "medium",
         ease_factor: 2.5,
         review_count: 0,
+        interval: 0,
+        lapses: 0,
         created_at: new Date().toISOString(),
       };
 
@@ -350,6 +459,7 @@ const cardSlice = createSlice({
       state.byId = {};
       state.allIds = [];
       state.generatingCardIds = [];
+      state.lastBulkUndo = null;
       state.error = null;
       state.loading = false;
     },
@@ -444,8 +554,19 @@ const cardSlice = createSlice({
       })
       .addCase(updateCard.fulfilled, (state, action) => {
         state.loading = false;
-        const card = action.payload;
+        const { card, addedCards = [], removedCardIds = [] } = action.payload;
         state.byId[card.id] = card;
+        // Cloze edits can add or remove deletions
+        addedCards.forEach((added) => {
+          state.byId[added.id] = added;
+          state.allIds.push(added.id);
+        });
+        removedCardIds.forEach((id) => {
+          delete state.byId[id];
+        });
+        state.allIds = state.allIds.filter(
+          (id) => !removedCardIds.includes(id)
+        );
         state.error = null;
       })
       .addCase(updateCard.rejected, (state, action) => {
@@ -453,6 +574,36 @@ const cardSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Bulk reschedule (kept out of the shared loading flag)
+    builder
+      .addCase(rescheduleCards.fulfilled, (state, action) => {
+        action.payload.updated.forEach((card) => {
+          state.byId[card.id] = card;
+        });
+        state.lastBulkUndo =
+          action.payload.undo.updates.length > 0 ? action.payload.undo : null;
+        state.error = null;
+      })
+      .addCase(rescheduleCards.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Undo bulk reschedule
+    builder
+      .addCase(undoReschedule.fulfilled, (state, action) => {
+        action.payload.updated.forEach((card) => {
+          state.byId[card.id] = card;
+        });
+        state.lastBulkUndo =
+          action.payload.remaining.length > 0 && state.lastBulkUndo
+            ? { ...state.lastBulkUndo, updates: action.payload.remaining }
+            : null;
+        state.error = null;
+      })
+      .addCase(undoReschedule.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     // Delete card
     builder
       .addCase(deleteCard.pending, (state) => {
@@ -528,5 +679,8 @@ export const selectCardLoading = (state: { card: CardState }) =>
 
 export const selectCardError = (state: { card: CardState }) => state.card.error;
 
+export const selectLastBulkUndo = (state: { card: CardState }) =>
+  state.card.lastBulkUndo;
+
 // Reducer
 export default cardSlice.reducer;
@@ -1,19 +1,38 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { Deck, NormalizedState } from "../../utils/types";
 import * as deckApi from "../../services/api/deckApi";
+import { getWorkloadForecast } from "../../services/api/cardApi";
+import { getRetentionStats } from "../../services/api/reviewLogApi";
+import { RetentionWindow } from "../../utils/retention";
+import { GetDailyLimitStatusResponse } from "../../services/api/types";
 import { logger } from "../../services/logger";
+import { selectSettings, SettingsState } from "./settingsSlice";
+import { deletePreset } from "./presetSlice";
 
 /**
  * Deck Slice
  * Manages deck state with normalized structure (byId + allIds)
  */
 
+interface DeckState extends NormalizedState<Deck> {
+  dailyLimitsById: Record<string, GetDailyLimitStatusResponse>; // Remaining today
+  forecastById: Record<string, number[]>; // Reviews due per day from today
+  overallForecast: number[] | null; // Across all decks
+  retentionById: Record<string, RetentionWindow[]>; // True retention per window
+  overallRetention: RetentionWindow[] | null; // Across all decks
+}
+
 // Initial state
-const initialState: NormalizedState<Deck> = {
+const initialState: DeckState = {
   byId: {},
   allIds: [],
   loading: false,
   error: null,
+  dailyLimitsById: {},
+  forecastById: {},
+  overallForecast: null,
+  retentionById: {},
+  overallRetention: null,
 };
 
 // Async thunks
@@ -114,13 +133,23 @@ export const updateDeck = createAsyncThunk(
       deckId,
       title,
       description,
-    }: { deckId: string; title?: string; description?: string },
+      presetId,
+    }: {
+      deckId: string;
+      title?: string;
+      description?: string;
+      presetId?: string | null;
+    },
     { rejectWithValue }
   ) => {
     try {
       logger.logUserAction("update_deck", { deckId });
 
-      const response = await deckApi.updateDeck(deckId, { title, description });
+      const response = await deckApi.updateDeck(deckId, {
+        title,
+        description,
+        presetId,
+      });
 
       if (!response.success || !response.data) {
         return rejectWithValue(
@@ -138,6 +167,90 @@ export const updateDeck = createAsyncThunk(
   }
 );
 
+/**
+ * Fetch how many new/review cards a deck has left for today
+ */
+export const fetchDailyLimitStatus = createAsyncThunk(
+  "deck/fetchDailyLimitStatus",
+  async (deckId: string, { rejectWithValue }) => {
+    try {
+      logger.info("Fetching daily limit status", { deckId });
+
+      const response = await deckApi.getDailyLimitStatus(deckId);
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to fetch daily limits"
+        );
+      }
+
+      return { deckId, status: response.data };
+    } catch (error) {
+      logger.error("Fetch daily limit status failed", { error, deckId });
+      return rejectWithValue("Failed to fetch daily limits");
+    }
+  }
+);
+
+/**
+ * Fetch the review workload forecast (one deck, or every deck when omitted)
+ */
+export const fetchWorkloadForecast = createAsyncThunk(
+  "deck/fetchWorkloadForecast",
+  async (deckId: string | undefined, { getState, rejectWithValue }) => {
+    try {
+      logger.info("Fetching workload forecast", { deckId });
+
+      const settings = selectSettings(
+        getState() as { settings: SettingsState }
+      );
+
+      const response = await getWorkloadForecast({
+        deckId,
+        scheduler: settings.scheduler,
+        schedulerParameters: settings.scheduler_parameters,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to fetch workload forecast"
+        );
+      }
+
+      return { deckId, forecast: response.data };
+    } catch (error) {
+      logger.error("Fetch workload forecast failed", { error, deckId });
+      return rejectWithValue("Failed to fetch workload forecast");
+    }
+  }
+);
+
+/**
+ * Fetch true retention measured from review logs (one deck, or every deck
+ * when omitted)
+ */
+export const fetchRetentionStats = createAsyncThunk(
+  "deck/fetchRetentionStats",
+  async (deckId: string | undefined, { rejectWithValue }) => {
+    try {
+      logger.info("Fetching retention stats", { deckId });
+
+      const response = await getRetentionStats({ deckId });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to fetch retention stats"
+        );
+      }
+
+      return { deckId, windows: response.data.windows };
+    } catch (error) {
+      logger.error("Fetch retention stats failed", { error, deckId });
+      return rejectWithValue("Failed to fetch retention stats");
+    }
+  }
+);
+
 /**
  * Delete deck
  */
@@ -191,6 +304,11 @@ const deckSlice = createSlice({
     clearDecks(state) {
       state.byId = {};
       state.allIds = [];
+      state.dailyLimitsById = {};
+      state.forecastById = {};
+      state.overallForecast = null;
+      state.retentionById = {};
+      state.overallRetention = null;
       state.error = null;
       state.loading = false;
     },
@@ -283,6 +401,9 @@ const deckSlice = createSlice({
         state.loading = false;
         const deckId = action.payload;
         delete state.byId[deckId];
+        delete state.dailyLimitsById[deckId];
+        delete state.forecastById[deckId];
+        delete state.retentionById[deckId];
         state.allIds = state.allIds.filter((id) => id !== deckId);
         state.error = null;
       })
@@ -290,6 +411,55 @@ const deckSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       });
+
+    // Fetch daily limit status (kept out of the shared loading flag)
+    builder
+      .addCase(fetchDailyLimitStatus.fulfilled, (state, action) => {
+        state.dailyLimitsById[action.payload.deckId] = action.payload.status;
+      })
+      .addCase(fetchDailyLimitStatus.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Decks using a deleted preset fall back to the defaults
+    builder.addCase(deletePreset.fulfilled, (state, action) => {
+      state.allIds.forEach((id) => {
+        if (state.byId[id].preset_id === action.payload) {
+          state.byId[id].preset_id = null;
+          delete state.dailyLimitsById[id];
+        }
+      });
+    });
+
+    // Fetch workload forecast (kept out of the shared loading flag)
+    builder
+      .addCase(fetchWorkloadForecast.fulfilled, (state, action) => {
+        const { deckId, forecast } = action.payload;
+        if (deckId) {
+          // Filtered to one deck, so the overall series is that deck's
+          state.forecastById[deckId] = forecast.overall;
+        } else {
+          state.forecastById = { ...state.forecastById, ...forecast.byDeck };
+          state.overallForecast = forecast.overall;
+        }
+      })
+      .addCase(fetchWorkloadForecast.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Fetch retention stats (kept out of the shared loading flag)
+    builder
+      .addCase(fetchRetentionStats.fulfilled, (state, action) => {
+        const { deckId, windows } = action.payload;
+        if (deckId) {
+          state.retentionById[deckId] = windows;
+        } else {
+          state.overallRetention = windows;
+        }
+      })
+      .addCase(fetchRetentionStats.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
   },
 });
 
@@ -298,24 +468,34 @@ export const { clearDeckError, updateDeckLocally, clearDecks } =
   deckSlice.actions;
 
 // Selectors
-export const selectDeckState = (state: { deck: NormalizedState<Deck> }) =>
-  state.deck;
+export const selectDeckState = (state: { deck: DeckState }) => state.deck;
 
-export const selectAllDecks = (state: { deck: NormalizedState<Deck> }) =>
+export const selectAllDecks = (state: { deck: DeckState }) =>
   state.deck.allIds.map((id) => state.deck.byId[id]);
 
 export const selectDeckById =
-  (deckId: string) => (state: { deck: NormalizedState<Deck> }) =>
+  (deckId: string) => (state: { deck: DeckState }) =>
     state.deck.byId[deckId];
 
-export const selectDeckLoading = (state: { deck: NormalizedState<Deck> }) =>
+export const selectDeckLoading = (state: { deck: DeckState }) =>
   state.deck.loading;
 
-export const selectDeckError = (state: { deck: NormalizedState<Deck> }) =>
-  state.deck.error;
+export const selectDeckError = (state: { deck: DeckState }) => state.deck.error;
 
-export const selectDeckCount = (state: { deck: NormalizedState<Deck> }) =>
+export const selectDeckCount = (state: { deck: DeckState }) =>
   state.deck.allIds.length;
 
+export const selectDailyLimitStatus =
+  (deckId: string) => (state: { deck: DeckState }) =>
+    state.deck.dailyLimitsById[deckId];
+
+export const selectWorkloadForecast =
+  (deckId?: string) => (state: { deck: DeckState }) =>
+    deckId ? state.deck.forecastById[deckId] : state.deck.overallForecast;
+
+export const selectRetentionStats =
+  (deckId?: string) => (state: { deck: DeckState }) =>
+    deckId ? state.deck.retentionById[deckId] : state.deck.overallRetention;
+
 // Reducer
 export default deckSlice.reducer;
@@ -0,0 +1,251 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import {
+  DeckPreset,
+  DeckPresetOptions,
+  NormalizedState,
+} from "../../utils/types";
+import * as presetApi from "../../services/api/presetApi";
+import { logger } from "../../services/logger";
+
+/**
+ * Preset Slice
+ * Manages deck option presets with normalized structure (byId + allIds)
+ */
+
+type PresetState = NormalizedState<DeckPreset>;
+
+// Initial state
+const initialState: PresetState = {
+  byId: {},
+  allIds: [],
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+
+/**
+ * Fetch all presets
+ */
+export const fetchPresets = createAsyncThunk(
+  "preset/fetchPresets",
+  async (_, { rejectWithValue }) => {
+    try {
+      logger.info("Fetching deck presets");
+
+      const response = await presetApi.getPresets();
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to fetch presets"
+        );
+      }
+
+      return response.data.presets;
+    } catch (error) {
+      logger.error("Fetch presets failed", { error });
+      return rejectWithValue("Failed to fetch presets");
+    }
+  }
+);
+
+/**
+ * Create new preset
+ */
+export const createPreset = createAsyncThunk(
+  "preset/createPreset",
+  async (
+    { name, options }: { name: string; options: DeckPresetOptions },
+    { rejectWithValue }
+  ) => {
+    try {
+      logger.logUserAction("create_preset", { name });
+
+      const response = await presetApi.createPreset({ name, options });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to create preset"
+        );
+      }
+
+      logger.logUserAction("preset_created", {
+        presetId: response.data.preset.id,
+      });
+
+      return response.data.preset;
+    } catch (error) {
+      logger.error("Create preset failed", { error });
+      return rejectWithValue("Failed to create preset");
+    }
+  }
+);
+
+/**
+ * Update preset
+ */
+export const updatePreset = createAsyncThunk(
+  "preset/updatePreset",
+  async (
+    {
+      presetId,
+      name,
+      options,
+    }: {
+      presetId: string;
+      name?: string;
+      options?: DeckPresetOptions;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      logger.logUserAction("update_preset", { presetId });
+
+      const response = await presetApi.updatePreset(presetId, {
+        name,
+        options,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to update preset"
+        );
+      }
+
+      logger.logUserAction("preset_updated", { presetId });
+
+      return response.data.preset;
+    } catch (error) {
+      logger.error("Update preset failed", { error, presetId });
+      return rejectWithValue("Failed to update preset");
+    }
+  }
+);
+
+/**
+ * Delete preset
+ */
+export const deletePreset = createAsyncThunk(
+  "preset/deletePreset",
+  async (presetId: string, { rejectWithValue }) => {
+    try {
+      logger.logUserAction("delete_preset", { presetId });
+
+      const response = await presetApi.deletePreset(presetId);
+
+      if (!response.success) {
+        return rejectWithValue(
+          response.error?.message || "Failed to delete preset"
+        );
+      }
+
+      logger.logUserAction("preset_deleted", { presetId });
+
+      return presetId;
+    } catch (error) {
+      logger.error("Delete preset failed", { error, presetId });
+      return rejectWithValue("Failed to delete preset");
+    }
+  }
+);
+
+// Slice
+const presetSlice = createSlice({
+  name: "preset",
+  initialState,
+  reducers: {
+    /**
+     * Clear error
+     */
+    clearPresetError(state) {
+      state.error = null;
+    },
+
+    /**
+     * Clear all presets (on logout)
+     */
+    clearPresets(state) {
+      state.byId = {};
+      state.allIds = [];
+      state.error = null;
+      state.loading = false;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch all presets
+    builder
+      .addCase(fetchPresets.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchPresets.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byId = {};
+        state.allIds = [];
+        action.payload.forEach((preset) => {
+          state.byId[preset.id] = preset;
+          state.allIds.push(preset.id);
+        });
+        state.error = null;
+      })
+      .addCase(fetchPresets.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Create preset
+    builder
+      .addCase(createPreset.fulfilled, (state, action) => {
+        const preset = action.payload;
+        state.byId[preset.id] = preset;
+        state.allIds.push(preset.id);
+        state.error = null;
+      })
+      .addCase(createPreset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Update preset
+    builder
+      .addCase(updatePreset.fulfilled, (state, action) => {
+        const preset = action.payload;
+        state.byId[preset.id] = preset;
+        state.error = null;
+      })
+      .addCase(updatePreset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Delete preset
+    builder
+      .addCase(deletePreset.fulfilled, (state, action) => {
+        const presetId = action.payload;
+        delete state.byId[presetId];
+        state.allIds = state.allIds.filter((id) => id !== presetId);
+        state.error = null;
+      })
+      .addCase(deletePreset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+// Actions
+export const { clearPresetError, clearPresets } = presetSlice.actions;
+
+// Selectors
+export const selectAllPresets = (state: { preset: PresetState }) =>
+  state.preset.allIds.map((id) => state.preset.byId[id]);
+
+export const selectPresetById =
+  (presetId: string | null) => (state: { preset: PresetState }) =>
+    presetId ? state.preset.byId[presetId] : undefined;
+
+export const selectPresetLoading = (state: { preset: PresetState }) =>
+  state.preset.loading;
+
+export const selectPresetError = (state: { preset: PresetState }) =>
+  state.preset.error;
+
+// Reducer
+export default presetSlice.reducer;
@@ -0,0 +1,287 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { UserSettings, VacationPeriod } from "../../utils/types";
+import { logger } from "../../services/logger";
+import { setJSON, getJSON } from "../../services/storage/asyncStorage";
+import { STORAGE_KEYS } from "../../utils/constants";
+import { appConfig } from "../../config/appConfig";
+import { getReviewLogs } from "../../services/api/reviewLogApi";
+import { applyVacation } from "../../services/api/cardApi";
+import { optimizeSchedulerParameters } from "../../utils/schedulerOptimizer";
+import { AppError } from "../../utils/errorHandling";
+import { validateVacation } from "../../utils/vacation";
+import { setDayRolloverHour } from "../../utils/dateUtils";
+
+/**
+ * Settings Slice
+ * Manages user preferences persisted in AsyncStorage
+ */
+
+export interface SettingsState {
+  settings: UserSettings;
+  loaded: boolean;
+  optimizing: boolean;
+  error: string | null;
+  // Values replaced by each in-flight update, restored if saving fails
+  rollbacks: Record<string, Partial<UserSettings>>;
+}
+
+// Default settings for new users
+export const defaultSettings: UserSettings = {
+  notifications_enabled: true,
+  cloud_sync_enabled: false,
+  daily_goal: appConfig.studySession.defaultSessionSize,
+  theme: "dark",
+  scheduler: appConfig.spacedRepetition.defaultScheduler,
+  leech_threshold: appConfig.spacedRepetition.leechThreshold,
+  leech_action: appConfig.spacedRepetition.leechAction,
+  day_rollover_hour: appConfig.spacedRepetition.dayRolloverHour,
+  type_answers: false,
+  time_suggestions: true,
+};
+
+// Initial state
+const initialState: SettingsState = {
+  settings: defaultSettings,
+  loaded: false,
+  optimizing: false,
+  error: null,
+  rollbacks: {},
+};
+
+// Async thunks
+
+/**
+ * Load settings from storage
+ */
+export const loadSettings = createAsyncThunk(
+  "settings/loadSettings",
+  async (_, { rejectWithValue }) => {
+    try {
+      logger.info("Loading user settings from storage");
+
+      const stored = await getJSON<Partial<UserSettings>>(
+        STORAGE_KEYS.SETTINGS
+      );
+
+      // Merge with defaults so newly added settings get a value
+      const settings = { ...defaultSettings, ...(stored || {}) };
+
+      // Day boundaries are computed outside the store
+      setDayRolloverHour(settings.day_rollover_hour);
+
+      return settings;
+    } catch (error) {
+      logger.error("Failed to load settings", { error });
+      return rejectWithValue("Failed to load settings");
+    }
+  }
+);
+
+/**
+ * Update settings and persist them to storage
+ */
+export const updateSettings = createAsyncThunk(
+  "settings/updateSettings",
+  async (updates: Partial<UserSettings>, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { settings: SettingsState };
+      const settings = { ...state.settings.settings, ...updates };
+
+      logger.info("Saving user settings", { keys: Object.keys(updates) });
+
+      await setJSON(STORAGE_KEYS.SETTINGS, settings);
+
+      setDayRolloverHour(settings.day_rollover_hour);
+
+      return settings;
+    } catch (error) {
+      logger.error("Failed to save settings", { error });
+      return rejectWithValue("Failed to save settings");
+    }
+  }
+);
+
+/**
+ * Fit the current scheduler's parameters to the user's review history
+ * Returns a report; the caller decides whether to apply the parameters
+ */
+export const optimizeScheduler = createAsyncThunk(
+  "settings/optimizeScheduler",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { settings } = (getState() as { settings: SettingsState }).settings;
+
+      logger.info("Optimizing scheduler parameters", {
+        scheduler: settings.scheduler,
+      });
+
+      const response = await getReviewLogs({
+        limit: appConfig.optimizer.maxReviews,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to load review history"
+        );
+      }
+
+      const report = await optimizeSchedulerParameters(
+        response.data.reviewLogs,
+        settings.scheduler,
+        settings.scheduler_parameters
+      );
+
+      logger.info("Scheduler parameters optimized", {
+        scheduler: report.scheduler,
+        reviewCount: report.reviewCount,
+        retentionBefore: report.retentionBefore,
+        retentionAfter: report.retentionAfter,
+      });
+
+      return report;
+    } catch (error) {
+      logger.error("Failed to optimize scheduler", { error });
+      return rejectWithValue(
+        error instanceof AppError
+          ? error.message
+          : "Failed to optimize scheduler"
+      );
+    }
+  }
+);
+
+/**
+ * Pause the schedule for a vacation
+ * Cards already due during the break are moved past it, and the break is
+ * saved so reviews answered before it don't land inside it either
+ */
+export const startVacation = createAsyncThunk(
+  "settings/startVacation",
+  async (vacation: VacationPeriod, { dispatch, rejectWithValue }) => {
+    try {
+      const validationError = validateVacation(vacation);
+      if (validationError) {
+        return rejectWithValue(validationError);
+      }
+
+      logger.info("Starting vacation", vacation);
+
+      const response = await applyVacation({ vacation });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to move cards"
+        );
+      }
+
+      await dispatch(updateSettings({ vacation })).unwrap();
+
+      return response.data.movedCount;
+    } catch (error) {
+      logger.error("Failed to start vacation", { error });
+      return rejectWithValue("Failed to start vacation");
+    }
+  }
+);
+
+// Slice
+const settingsSlice = createSlice({
+  name: "settings",
+  initialState,
+  reducers: {
+    /**
+     * Clear settings error
+     */
+    clearSettingsError(state) {
+      state.error = null;
+    },
+
+    /**
+     * Reset settings state (on logout)
+     */
+    resetSettingsState() {
+      return initialState;
+    },
+  },
+  extraReducers: (builder) => {
+    // Load settings
+    builder
+      .addCase(loadSettings.fulfilled, (state, action) => {
+        state.settings = action.payload;
+        state.loaded = true;
+        state.error = null;
+      })
+      .addCase(loadSettings.rejected, (state, action) => {
+        state.loaded = true;
+        state.error = action.payload as string;
+      });
+
+    // Update settings (optimistic)
+    builder
+      .addCase(updateSettings.pending, (state, action) => {
+        const keys = Object.keys(action.meta.arg) as (keyof UserSettings)[];
+        state.rollbacks[action.meta.requestId] = Object.fromEntries(
+          keys.map((key) => [key, state.settings[key]])
+        );
+        state.settings = { ...state.settings, ...action.meta.arg };
+      })
+      .addCase(updateSettings.fulfilled, (state, action) => {
+        delete state.rollbacks[action.meta.requestId];
+        state.settings = action.payload;
+        state.error = null;
+      })
+      .addCase(updateSettings.rejected, (state, action) => {
+        // Nothing was saved, so show what is still stored
+        state.settings = {
+          ...state.settings,
+          ...state.rollbacks[action.meta.requestId],
+        };
+        delete state.rollbacks[action.meta.requestId];
+        state.error = action.payload as string;
+      });
+
+    // Optimize scheduler
+    builder
+      .addCase(optimizeScheduler.pending, (state) => {
+        state.optimizing = true;
+        state.error = null;
+      })
+      .addCase(optimizeScheduler.fulfilled, (state) => {
+        state.optimizing = false;
+      })
+      .addCase(optimizeScheduler.rejected, (state, action) => {
+        state.optimizing = false;
+        state.error = action.payload as string;
+      });
+
+    // Start vacation (settings are saved through updateSettings)
+    builder.addCase(startVacation.rejected, (state, action) => {
+      state.error = action.payload as string;
+    });
+  },
+});
+
+// Actions
+export const { clearSettingsError, resetSettingsState } = settingsSlice.actions;
+
+// Selectors
+export const selectSettings = (state: { settings: SettingsState }) =>
+  state.settings.settings;
+
+export const selectScheduler = (state: { settings: SettingsState }) =>
+  state.settings.settings.scheduler;
+
+export const selectSchedulerParameters = (state: { settings: SettingsState }) =>
+  state.settings.settings.scheduler_parameters;
+
+export const selectSchedulerOptimizing = (state: { settings: SettingsState }) =>
+  state.settings.optimizing;
+
+export const selectSettingsLoaded = (state: { settings: SettingsState }) =>
+  state.settings.loaded;
+
+export const selectVacation = (state: { settings: SettingsState }) =>
+  state.settings.settings.vacation ?? null;
+
+// Reducer
+export default settingsSlice.reducer;
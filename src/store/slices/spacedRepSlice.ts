@@ -1,15 +1,16 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-import { ReviewDifficulty } from "../../utils/types";
 import {
-  calculateNextReviewData,
-  CardReviewData,
-  ReviewResult,
-} from "../../utils/spacedRepAlgorithm";
+  ReviewDifficulty,
+  SchedulerParameters,
+  SchedulerType,
+} from "../../utils/types";
+import { CardReviewData, ReviewResult } from "../../utils/spacedRepAlgorithm";
+import { getScheduler } from "../../utils/scheduler";
 import { logger } from "../../services/logger";
 
 /**
  * Spaced Repetition Slice
- * Manages SM-2 algorithm state and calculations
+ * Manages scheduler state and calculations (SM-2 or FSRS)
  */
 
 interface SpacedRepState {
@@ -47,18 +48,25 @@ const spacedRepSlice = createSlice({
         cardId: string;
         currentData: CardReviewData;
         difficulty: ReviewDifficulty;
+        scheduler?: SchedulerType;
+        parameters?: SchedulerParameters;
       }>
     ) {
-      const { cardId, currentData, difficulty } = action.payload;
+      const { cardId, currentData, difficulty, scheduler, parameters } =
+        action.payload;
 
       logger.info("Calculating next review", {
         cardId,
         difficulty,
+        scheduler,
         currentEaseFactor: currentData.easeFactor,
       });
 
-      // Calculate using SM-2 algorithm
-      const result = calculateNextReviewData(currentData, difficulty);
+      // Calculate using the selected scheduler (SM-2 by default)
+      const result = getScheduler(
+        scheduler,
+        parameters
+      ).calculateNextReviewData(currentData, difficulty);
 
       // Update state
       state.currentCardEaseFactor = result.easeFactor;
@@ -1,19 +1,79 @@
-import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { ActiveStudySession, Card } from "../../utils/types";
+import {
+  createSlice,
+  createAsyncThunk,
+  current,
+  PayloadAction,
+} from "@reduxjs/toolkit";
+import {
+  ActiveStudySession,
+  Card,
+  CramFilter,
+  DeckSessionProgress,
+  ExamConfig,
+  ExamReport,
+  ReviewDifficulty,
+  SavedStudySession,
+  SessionGoal,
+  StudySession,
+} from "../../utils/types";
 import * as sessionApi from "../../services/api/sessionApi";
+import { getResponseTimeBaseline } from "../../services/api/reviewLogApi";
+import { UndoReviewRequest } from "../../services/api/types";
 import { logger } from "../../services/logger";
+import {
+  getJSON,
+  removeItem,
+  setJSON,
+} from "../../services/storage/asyncStorage";
+import { STORAGE_KEYS } from "../../utils/constants";
+import { selectSettings, SettingsState } from "./settingsSlice";
+import { selectNetworkStatus, UIState } from "./uiSlice";
+import { isInLearningSteps } from "../../utils/learningSteps";
+import { getCramRequeueGap } from "../../utils/cram";
+import { buildExamReport } from "../../utils/exam";
+import { CardChanges } from "../../utils/reschedule";
+import { getReviewUndoChanges } from "../../utils/reviewUndo";
+import { ResponseTimeBaseline } from "../../utils/responseTime";
+import {
+  getFinalSessionProgress,
+  reconcileSavedSession,
+  toSavedSession,
+} from "../../utils/sessionResume";
+import { appConfig } from "../../config/appConfig";
 
 /**
  * Study Slice
  * Manages active study session state
  */
 
+// Session state from just before a review, and what undoes it on the server
+interface ReviewUndo {
+  request_id: string; // recordCardReview request that recorded the review
+  card_id: string;
+  deck_id: string;
+  session: Pick<
+    ActiveStudySession,
+    | "cards"
+    | "learning_queue"
+    | "current_card_index"
+    | "cards_reviewed"
+    | "correct_count"
+    | "deck_sessions"
+  >;
+  changes: CardChanges | null; // Set once the review is saved
+  review_log_id?: string;
+  buried_card_ids: string[];
+}
+
 interface StudyState {
   activeSession: ActiveStudySession | null;
   loading: boolean;
   error: string | null;
   sessionId: string | null;
   isSessionActive: boolean;
+  undoStack: ReviewUndo[]; // Most recent review last
+  savedSession: SavedStudySession | null; // Unfinished session to offer on launch
+  responseTimeBaseline: ResponseTimeBaseline | null; // For rating suggestions
 }
 
 // Initial state
@@ -23,20 +83,95 @@ const initialState: StudyState = {
   error: null,
   sessionId: null,
   isSessionActive: false,
+  undoStack: [],
+  savedSession: null,
+  responseTimeBaseline: null,
 };
 
+/**
+ * Empty progress for each deck's session row
+ */
+function toDeckSessions(
+  sessions: StudySession[]
+): Record<string, DeckSessionProgress> {
+  return Object.fromEntries(
+    sessions
+      .filter((session) => session.deck_id !== null)
+      .map((session) => [
+        session.deck_id,
+        {
+          session_id: session.id,
+          cards_reviewed: 0,
+          correct_count: 0,
+          duration_seconds: 0,
+        },
+      ])
+  );
+}
+
+/**
+ * Write the final counters of a saved session to its session rows
+ * (best-effort; the saved session is dropped either way)
+ */
+async function finalizeSavedSession(saved: SavedStudySession): Promise<void> {
+  const sessionIds = Object.values(saved.deck_sessions).map(
+    (progress) => progress.session_id
+  );
+
+  const response = await sessionApi.getSessionResumeState({
+    sessionIds: sessionIds.length > 0 ? sessionIds : [saved.session_id],
+    cardIds: [],
+    since: saved.saved_at,
+  });
+
+  if (!response.success || !response.data) {
+    logger.warn("Failed to fetch saved session for finalizing", {
+      sessionId: saved.session_id,
+      error: response.error,
+    });
+    return;
+  }
+
+  for (const progress of getFinalSessionProgress(
+    saved,
+    response.data.sessions
+  )) {
+    const updateResponse = await sessionApi.updateSession(progress.session_id, {
+      cardsReviewed: progress.cards_reviewed,
+      correctCount: progress.correct_count,
+      durationSeconds: progress.duration_seconds,
+    });
+
+    if (!updateResponse.success) {
+      logger.warn("Failed to finalize saved session", {
+        sessionId: progress.session_id,
+        error: updateResponse.error,
+      });
+    }
+  }
+
+  logger.info("Saved session finalized", { sessionId: saved.session_id });
+}
+
 // Async thunks
 
 /**
  * Start new study session
+ * Without a goal it runs until every due card is studied
  */
 export const startStudySession = createAsyncThunk(
   "study/startSession",
-  async (deckId: string, { rejectWithValue }) => {
+  async (
+    { deckId, goal }: { deckId: string; goal?: SessionGoal },
+    { rejectWithValue }
+  ) => {
     try {
-      logger.logUserAction("start_study_session", { deckId });
+      logger.logUserAction("start_study_session", {
+        deckId,
+        goal: goal?.type,
+      });
 
-      const response = await sessionApi.createSession({ deckId });
+      const response = await sessionApi.createSession({ deckId, goal });
 
       if (!response.success || !response.data) {
         return rejectWithValue(
@@ -60,6 +195,217 @@ export const startStudySession = createAsyncThunk(
   }
 );
 
+/**
+ * Start a session with the due cards of several decks (every deck by default)
+ */
+export const startMultiDeckSession = createAsyncThunk(
+  "study/startMultiDeckSession",
+  async (deckIds: string[] | undefined, { rejectWithValue }) => {
+    try {
+      logger.logUserAction("start_multi_deck_session", {
+        deckCount: deckIds?.length ?? "all",
+      });
+
+      const response = await sessionApi.createMultiDeckSession({ deckIds });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to start study session"
+        );
+      }
+
+      logger.logUserAction("multi_deck_session_started", {
+        deckCount: response.data.sessions.length,
+        cardCount: response.data.cards.length,
+      });
+
+      return {
+        sessions: response.data.sessions,
+        cards: response.data.cards,
+      };
+    } catch (error) {
+      logger.error("Start cross-deck session failed", { error });
+      return rejectWithValue("Failed to start study session");
+    }
+  }
+);
+
+/**
+ * Start a cram session (drills cards without changing their schedule)
+ */
+export const startCramSession = createAsyncThunk(
+  "study/startCramSession",
+  async (
+    { deckId, filter }: { deckId?: string; filter: CramFilter },
+    { rejectWithValue }
+  ) => {
+    try {
+      logger.logUserAction("start_cram_session", {
+        deckId,
+        filter: filter.type,
+      });
+
+      const response = await sessionApi.createCramSession({ deckId, filter });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to start cram session"
+        );
+      }
+
+      return {
+        session: response.data.session,
+        cards: response.data.cards,
+      };
+    } catch (error) {
+      logger.error("Start cram session failed", { error, deckId });
+      return rejectWithValue("Failed to start cram session");
+    }
+  }
+);
+
+/**
+ * Start an exam (timed test that leaves card schedules alone)
+ */
+export const startExamSession = createAsyncThunk(
+  "study/startExamSession",
+  async (config: ExamConfig, { rejectWithValue }) => {
+    try {
+      logger.logUserAction("start_exam_session", {
+        deckCount: config.deckIds.length,
+        questionCount: config.questionCount,
+        timeLimitMinutes: config.timeLimitMinutes,
+      });
+
+      const response = await sessionApi.createExamSession({
+        deckIds: config.deckIds,
+        questionCount: config.questionCount,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to start exam"
+        );
+      }
+
+      return {
+        session: response.data.session,
+        cards: response.data.cards,
+        timeLimitSeconds: config.timeLimitMinutes * 60,
+      };
+    } catch (error) {
+      logger.error("Start exam session failed", { error });
+      return rejectWithValue("Failed to start exam");
+    }
+  }
+);
+
+/**
+ * Finish the exam and save its report
+ * Unanswered questions count as missed. The report is kept locally even if
+ * saving it fails.
+ */
+export const finishExam = createAsyncThunk(
+  "study/finishExam",
+  async (
+    { timedOut }: { timedOut: boolean },
+    { dispatch, getState, rejectWithValue }
+  ) => {
+    try {
+      const { activeSession, sessionId } = (getState() as { study: StudyState })
+        .study;
+
+      if (!activeSession?.exam || !sessionId) {
+        return rejectWithValue("No active exam");
+      }
+
+      const { exam } = activeSession;
+      const durationSeconds = Math.min(
+        exam.time_limit_seconds,
+        Math.floor((Date.now() - activeSession.session_start_time) / 1000)
+      );
+
+      const report: ExamReport = buildExamReport(
+        activeSession.cards,
+        exam.answers,
+        {
+          timeLimitSeconds: exam.time_limit_seconds,
+          durationSeconds,
+          timedOut,
+        }
+      );
+
+      dispatch(completeExam(report));
+
+      logger.logUserAction("exam_finished", {
+        score: report.score.percent,
+        answered: report.answers.length,
+        timedOut,
+      });
+
+      const response = await sessionApi.updateSession(sessionId, {
+        cardsReviewed: report.answers.length,
+        correctCount: report.score.correct,
+        durationSeconds,
+        examReport: report,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to save exam results"
+        );
+      }
+
+      return report;
+    } catch (error) {
+      logger.error("Finish exam failed", { error });
+      return rejectWithValue("Failed to save exam results");
+    }
+  }
+);
+
+/**
+ * Record a cram answer
+ * Only the session record is saved; the card's schedule is left alone
+ */
+export const recordCramAnswer = createAsyncThunk(
+  "study/recordCramAnswer",
+  async (
+    difficulty: ReviewDifficulty,
+    { dispatch, getState, rejectWithValue }
+  ) => {
+    try {
+      dispatch(answerCramCard(difficulty));
+
+      const { activeSession, sessionId } = (getState() as { study: StudyState })
+        .study;
+
+      if (!activeSession || !sessionId) {
+        return rejectWithValue("No active cram session");
+      }
+
+      const response = await sessionApi.updateSession(sessionId, {
+        cardsReviewed: activeSession.cards_reviewed,
+        correctCount: activeSession.correct_count,
+        durationSeconds: Math.floor(
+          (Date.now() - activeSession.session_start_time) / 1000
+        ),
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to update session"
+        );
+      }
+
+      return response.data.session;
+    } catch (error) {
+      logger.error("Record cram answer failed", { error });
+      return rejectWithValue("Failed to update session");
+    }
+  }
+);
+
 /**
  * Record card review
  */
@@ -71,21 +417,33 @@ export const recordCardReview = createAsyncThunk(
       cardId,
       difficulty,
       timeSpent,
+      responseTimeMs,
     }: {
       sessionId: string;
       cardId: string;
       difficulty: "again" | "hard" | "medium" | "easy";
       timeSpent: number;
+      responseTimeMs?: number; // Until the answer was revealed
     },
-    { rejectWithValue }
+    { getState, rejectWithValue }
   ) => {
     try {
       logger.logUserAction("record_card_review", { cardId, difficulty });
 
+      const settings = selectSettings(
+        getState() as { settings: SettingsState }
+      );
+
       const response = await sessionApi.recordReview(sessionId, {
         cardId,
         difficulty,
         timeSpent,
+        responseTimeMs,
+        scheduler: settings.scheduler,
+        schedulerParameters: settings.scheduler_parameters,
+        leechThreshold: settings.leech_threshold,
+        leechAction: settings.leech_action,
+        vacation: settings.vacation,
       });
 
       if (!response.success || !response.data) {
@@ -104,6 +462,250 @@ export const recordCardReview = createAsyncThunk(
   }
 );
 
+/**
+ * Undo the most recent review of the session
+ * Offline, the undo is queued for sync (see syncMiddleware)
+ */
+export const undoLastReview = createAsyncThunk(
+  "study/undoReview",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as { study: StudyState; ui: UIState };
+      const entry = state.study.undoStack[state.study.undoStack.length - 1];
+
+      if (!entry?.changes) {
+        return rejectWithValue("Nothing to undo");
+      }
+
+      logger.logUserAction("undo_review", { cardId: entry.card_id });
+
+      const progress = entry.session.deck_sessions[entry.deck_id];
+      const request: UndoReviewRequest = {
+        cardId: entry.card_id,
+        changes: entry.changes,
+        reviewLogId: entry.review_log_id,
+        buriedCardIds: entry.buried_card_ids,
+        session: progress && {
+          sessionId: progress.session_id,
+          progress: {
+            cardsReviewed: progress.cards_reviewed,
+            correctCount: progress.correct_count,
+            durationSeconds: progress.duration_seconds,
+          },
+        },
+      };
+
+      if (selectNetworkStatus(state) !== "offline") {
+        const response = await sessionApi.undoReview(request);
+
+        if (!response.success || !response.data) {
+          return rejectWithValue(
+            response.error?.message || "Failed to undo review"
+          );
+        }
+      }
+
+      return { entry, request };
+    } catch (error) {
+      logger.error("Undo review failed", { error });
+      return rejectWithValue("Failed to undo review");
+    }
+  }
+);
+
+/**
+ * Save the active session to storage so it can be resumed after a restart
+ * The saved session is cleared once there is nothing left to resume
+ */
+export const persistActiveSession = createAsyncThunk(
+  "study/persistActiveSession",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { activeSession, sessionId } = (getState() as { study: StudyState })
+        .study;
+
+      const saved =
+        activeSession && sessionId
+          ? toSavedSession(sessionId, activeSession)
+          : null;
+
+      if (saved) {
+        await setJSON(STORAGE_KEYS.ACTIVE_SESSION, saved);
+      } else {
+        await removeItem(STORAGE_KEYS.ACTIVE_SESSION);
+      }
+
+      return saved;
+    } catch (error) {
+      logger.error("Persist active session failed", { error });
+      return rejectWithValue("Failed to save study session");
+    }
+  }
+);
+
+/**
+ * Load the session saved before the app closed (on launch)
+ */
+export const loadSavedSession = createAsyncThunk(
+  "study/loadSavedSession",
+  async (_, { rejectWithValue }) => {
+    try {
+      const saved = await getJSON<SavedStudySession>(
+        STORAGE_KEYS.ACTIVE_SESSION
+      );
+
+      if (saved) {
+        logger.info("Saved session found", {
+          sessionId: saved.session_id,
+          savedAt: saved.saved_at,
+        });
+      }
+
+      return saved;
+    } catch (error) {
+      logger.error("Load saved session failed", { error });
+      return rejectWithValue("Failed to load saved session");
+    }
+  }
+);
+
+/**
+ * Resume the saved session, checked against the server
+ */
+export const resumeSavedSession = createAsyncThunk(
+  "study/resumeSession",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { savedSession: saved } = (getState() as { study: StudyState })
+        .study;
+
+      if (!saved) {
+        return rejectWithValue("No session to resume");
+      }
+
+      logger.logUserAction("resume_study_session", {
+        sessionId: saved.session_id,
+      });
+
+      const sessionIds = Object.values(saved.deck_sessions).map(
+        (progress) => progress.session_id
+      );
+
+      const response = await sessionApi.getSessionResumeState({
+        sessionIds: sessionIds.length > 0 ? sessionIds : [saved.session_id],
+        cardIds: [
+          ...saved.card_ids,
+          ...saved.learning_queue.map((item) => item.card_id),
+        ],
+        since: saved.saved_at,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to resume study session"
+        );
+      }
+
+      const session = reconcileSavedSession(saved, response.data);
+
+      if (!session) {
+        await finalizeSavedSession(saved);
+        await removeItem(STORAGE_KEYS.ACTIVE_SESSION);
+        return rejectWithValue("Nothing is left to study in that session");
+      }
+
+      return { sessionId: saved.session_id, session };
+    } catch (error) {
+      logger.error("Resume study session failed", { error });
+      return rejectWithValue("Failed to resume study session");
+    }
+  }
+);
+
+/**
+ * Finalize the saved session without resuming it
+ * (declined, or from an earlier study day)
+ */
+export const discardSavedSession = createAsyncThunk(
+  "study/discardSavedSession",
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { savedSession: saved } = (getState() as { study: StudyState })
+        .study;
+
+      if (saved) {
+        logger.logUserAction("discard_saved_session", {
+          sessionId: saved.session_id,
+        });
+        await finalizeSavedSession(saved);
+      }
+
+      await removeItem(STORAGE_KEYS.ACTIVE_SESSION);
+      return true;
+    } catch (error) {
+      logger.error("Discard saved session failed", { error });
+      return rejectWithValue("Failed to discard saved session");
+    }
+  }
+);
+
+/**
+ * Load the user's response-time baseline (for rating suggestions)
+ */
+export const loadResponseTimeBaseline = createAsyncThunk(
+  "study/loadResponseTimeBaseline",
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await getResponseTimeBaseline();
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to load response time baseline"
+        );
+      }
+
+      return response.data.baseline;
+    } catch (error) {
+      logger.error("Load response time baseline failed", { error });
+      return rejectWithValue("Failed to load response time baseline");
+    }
+  }
+);
+
+/**
+ * Save a deck's progress to its session row
+ */
+export const saveDeckProgress = createAsyncThunk(
+  "study/saveDeckProgress",
+  async (deckId: string, { getState, rejectWithValue }) => {
+    try {
+      const progress = (getState() as { study: StudyState }).study.activeSession
+        ?.deck_sessions[deckId];
+
+      if (!progress) {
+        return rejectWithValue("No session for this deck");
+      }
+
+      const response = await sessionApi.updateSession(progress.session_id, {
+        cardsReviewed: progress.cards_reviewed,
+        correctCount: progress.correct_count,
+        durationSeconds: progress.duration_seconds,
+      });
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error?.message || "Failed to update session"
+        );
+      }
+
+      return response.data.session;
+    } catch (error) {
+      logger.error("Save deck progress failed", { error, deckId });
+      return rejectWithValue("Failed to update session");
+    }
+  }
+);
+
 /**
  * Update session progress
  */
@@ -159,6 +761,105 @@ const studySlice = createSlice({
       }
     },
 
+    /**
+     * Move learning cards whose step has come due back into the queue
+     * When the main queue is exhausted, cards due within the learn-ahead
+     * window are shown early instead of making the user wait
+     */
+    releaseDueLearningCards(state, action: PayloadAction<number>) {
+      const session = state.activeSession;
+      if (!session || session.learning_queue.length === 0) return;
+
+      const now = action.payload;
+      const queueExhausted = session.current_card_index >= session.cards.length;
+      const dueBefore =
+        now +
+        (queueExhausted
+          ? appConfig.spacedRepetition.learnAheadMinutes * 60 * 1000
+          : 0);
+
+      const due = session.learning_queue
+        .filter((item) => item.due_at <= dueBefore)
+        .sort((a, b) => a.due_at - b.due_at);
+
+      if (due.length === 0) return;
+
+      session.learning_queue = session.learning_queue.filter(
+        (item) => item.due_at > dueBefore
+      );
+      session.cards.splice(
+        session.current_card_index,
+        0,
+        ...due.map((item) => item.card)
+      );
+    },
+
+    /**
+     * Answer the current card of a cram session
+     * Missed cards are shown again a few cards later
+     */
+    answerCramCard(state, action: PayloadAction<ReviewDifficulty>) {
+      const session = state.activeSession;
+      if (!session || session.current_card_index >= session.cards.length) {
+        return;
+      }
+
+      const index = session.current_card_index;
+      const gap = getCramRequeueGap(action.payload);
+
+      if (gap !== null) {
+        const position = Math.min(index + 1 + gap, session.cards.length);
+        session.cards.splice(position, 0, session.cards[index]);
+      }
+
+      session.current_card_index += 1;
+      session.cards_reviewed += 1;
+      if (action.payload === "medium" || action.payload === "easy") {
+        session.correct_count += 1;
+      }
+    },
+
+    /**
+     * Answer the current exam question
+     */
+    answerExamCard(
+      state,
+      action: PayloadAction<{ correct: boolean; timeSeconds: number }>
+    ) {
+      const session = state.activeSession;
+      if (
+        !session?.exam ||
+        session.exam.report ||
+        session.current_card_index >= session.cards.length
+      ) {
+        return;
+      }
+
+      const card = session.cards[session.current_card_index];
+      session.exam.answers.push({
+        card_id: card.id,
+        deck_id: card.deck_id,
+        correct: action.payload.correct,
+        time_seconds: action.payload.timeSeconds,
+      });
+
+      session.current_card_index += 1;
+      session.cards_reviewed += 1;
+      if (action.payload.correct) {
+        session.correct_count += 1;
+      }
+    },
+
+    /**
+     * Store the report of a finished exam
+     */
+    completeExam(state, action: PayloadAction<ExamReport>) {
+      if (state.activeSession?.exam) {
+        state.activeSession.exam.report = action.payload;
+        state.isSessionActive = false;
+      }
+    },
+
     /**
      * Increment correct count
      */
@@ -185,6 +886,7 @@ const studySlice = createSlice({
       state.activeSession = null;
       state.sessionId = null;
       state.isSessionActive = false;
+      state.undoStack = [];
     },
 
     /**
@@ -203,9 +905,48 @@ const studySlice = createSlice({
       state.isSessionActive = false;
       state.loading = false;
       state.error = null;
+      state.undoStack = [];
+      state.savedSession = null;
+      state.responseTimeBaseline = null;
     },
   },
   extraReducers: (builder) => {
+    // Saved session (offered on launch until resumed or discarded)
+    builder
+      .addCase(loadSavedSession.fulfilled, (state, action) => {
+        state.savedSession = action.payload;
+      })
+      .addCase(discardSavedSession.fulfilled, (state) => {
+        state.savedSession = null;
+      });
+
+    // Response time baseline (a failed load keeps the last one)
+    builder.addCase(loadResponseTimeBaseline.fulfilled, (state, action) => {
+      state.responseTimeBaseline = action.payload;
+    });
+
+    // Resume saved session
+    builder
+      .addCase(resumeSavedSession.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(resumeSavedSession.fulfilled, (state, action) => {
+        state.loading = false;
+        state.savedSession = null;
+        state.sessionId = action.payload.sessionId;
+        state.activeSession = action.payload.session;
+        state.undoStack = [];
+        state.isSessionActive = true;
+        state.error = null;
+      })
+      .addCase(resumeSavedSession.rejected, (state, action) => {
+        state.loading = false;
+        state.savedSession = null;
+        state.error = action.payload as string;
+        state.isSessionActive = false;
+      });
+
     // Start study session
     builder
       .addCase(startStudySession.pending, (state) => {
@@ -217,12 +958,17 @@ const studySlice = createSlice({
         state.sessionId = action.payload.session.id;
         state.activeSession = {
           deck_id: action.payload.session.deck_id,
+          deck_sessions: toDeckSessions([action.payload.session]),
+          session_type: "review",
+          goal: action.meta.arg.goal,
           current_card_index: 0,
           cards: action.payload.cards,
+          learning_queue: [],
           session_start_time: Date.now(),
           cards_reviewed: 0,
           correct_count: 0,
         };
+        state.undoStack = [];
         state.isSessionActive = true;
         state.error = null;
       })
@@ -232,15 +978,155 @@ const studySlice = createSlice({
         state.isSessionActive = false;
       });
 
+    // Start cross-deck session
+    builder
+      .addCase(startMultiDeckSession.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(startMultiDeckSession.fulfilled, (state, action) => {
+        state.loading = false;
+        state.sessionId = action.payload.sessions[0].id;
+        state.activeSession = {
+          deck_id: null,
+          deck_sessions: toDeckSessions(action.payload.sessions),
+          session_type: "review",
+          current_card_index: 0,
+          cards: action.payload.cards,
+          learning_queue: [],
+          session_start_time: Date.now(),
+          cards_reviewed: 0,
+          correct_count: 0,
+        };
+        state.undoStack = [];
+        state.isSessionActive = true;
+        state.error = null;
+      })
+      .addCase(startMultiDeckSession.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+        state.isSessionActive = false;
+      });
+
+    // Start cram session
+    builder
+      .addCase(startCramSession.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(startCramSession.fulfilled, (state, action) => {
+        state.loading = false;
+        state.sessionId = action.payload.session.id;
+        state.activeSession = {
+          deck_id: action.payload.session.deck_id,
+          deck_sessions: toDeckSessions([action.payload.session]),
+          session_type: "cram",
+          current_card_index: 0,
+          cards: action.payload.cards,
+          learning_queue: [],
+          session_start_time: Date.now(),
+          cards_reviewed: 0,
+          correct_count: 0,
+        };
+        state.undoStack = [];
+        state.isSessionActive = true;
+        state.error = null;
+      })
+      .addCase(startCramSession.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+        state.isSessionActive = false;
+      });
+
+    // Start exam
+    builder
+      .addCase(startExamSession.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(startExamSession.fulfilled, (state, action) => {
+        state.loading = false;
+        state.sessionId = action.payload.session.id;
+        state.activeSession = {
+          deck_id: action.payload.session.deck_id,
+          deck_sessions: {},
+          session_type: "exam",
+          exam: {
+            time_limit_seconds: action.payload.timeLimitSeconds,
+            answers: [],
+            report: null,
+          },
+          current_card_index: 0,
+          cards: action.payload.cards,
+          learning_queue: [],
+          session_start_time: Date.now(),
+          cards_reviewed: 0,
+          correct_count: 0,
+        };
+        state.undoStack = [];
+        state.isSessionActive = true;
+        state.error = null;
+      })
+      .addCase(startExamSession.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+        state.isSessionActive = false;
+      });
+
+    // Finish exam (the report is stored by completeExam)
+    builder.addCase(finishExam.rejected, (state, action) => {
+      state.error = action.payload as string;
+    });
+
+    // Record cram answer (progress is tracked locally by answerCramCard)
+    builder.addCase(recordCramAnswer.rejected, (state, action) => {
+      state.error = action.payload as string;
+    });
+
     // Record card review
     builder
-      .addCase(recordCardReview.pending, (state) => {
+      .addCase(recordCardReview.pending, (state, action) => {
         state.loading = true;
         state.error = null;
+
+        // Snapshot the session so the review can be undone
+        const session = state.activeSession;
+        if (session && session.current_card_index < session.cards.length) {
+          const snapshot = current(session);
+          const card = snapshot.cards[snapshot.current_card_index];
+
+          state.undoStack.push({
+            request_id: action.meta.requestId,
+            card_id: card.id,
+            deck_id: card.deck_id,
+            session: {
+              cards: snapshot.cards,
+              learning_queue: snapshot.learning_queue,
+              current_card_index: snapshot.current_card_index,
+              cards_reviewed: snapshot.cards_reviewed,
+              correct_count: snapshot.correct_count,
+              deck_sessions: snapshot.deck_sessions,
+            },
+            changes: null,
+            buried_card_ids: [],
+          });
+          state.undoStack = state.undoStack.slice(
+            -appConfig.studySession.maxUndoDepth
+          );
+        }
       })
       .addCase(recordCardReview.fulfilled, (state, action) => {
         state.loading = false;
 
+        const undo = state.undoStack.find(
+          (entry) => entry.request_id === action.meta.requestId
+        );
+        if (undo) {
+          undo.changes = getReviewUndoChanges(action.payload.previousCard);
+          undo.review_log_id = action.payload.reviewLog?.id;
+          undo.buried_card_ids = action.payload.buriedCardIds;
+        }
+
         // Update current card with new review data
         if (state.activeSession) {
           const currentIndex = state.activeSession.current_card_index;
@@ -248,16 +1134,59 @@ const studySlice = createSlice({
             state.activeSession.cards[currentIndex] = action.payload.card;
           }
 
-          // Update progress
-          state.activeSession.cards_reviewed =
-            action.payload.sessionProgress.cardsReviewed;
-          state.activeSession.correct_count =
-            action.payload.sessionProgress.correctCount;
+          // Cards still in (re)learning steps come back later this session
+          const reviewedCard = action.payload.card;
+          if (
+            !reviewedCard.suspended &&
+            isInLearningSteps(reviewedCard.learning_state) &&
+            reviewedCard.next_review
+          ) {
+            state.activeSession.learning_queue.push({
+              card: reviewedCard,
+              due_at: new Date(reviewedCard.next_review).getTime(),
+            });
+          }
 
-          // Check if there are more cards
-          if (action.payload.sessionProgress.cardsRemaining === 0) {
-            // Session complete
-            state.isSessionActive = false;
+          // Buried siblings are dropped from the rest of this session
+          const buried = new Set(action.payload.buriedCardIds);
+          if (buried.size > 0) {
+            state.activeSession.cards = state.activeSession.cards.filter(
+              (card, index) => index <= currentIndex || !buried.has(card.id)
+            );
+            state.activeSession.learning_queue =
+              state.activeSession.learning_queue.filter(
+                (entry) => !buried.has(entry.card.id)
+              );
+          }
+
+          // Progress of the reviewed card's deck
+          const { difficulty, timeSpent } = action.meta.arg;
+          const deckProgress =
+            state.activeSession.deck_sessions[reviewedCard.deck_id];
+          if (deckProgress) {
+            deckProgress.cards_reviewed += 1;
+            deckProgress.duration_seconds += timeSpent;
+            if (difficulty === "easy" || difficulty === "medium") {
+              deckProgress.correct_count += 1;
+            }
+          }
+
+          // Server progress and remaining count only cover a single deck
+          if (state.activeSession.deck_id !== null) {
+            // Update progress
+            state.activeSession.cards_reviewed =
+              action.payload.sessionProgress.cardsReviewed;
+            state.activeSession.correct_count =
+              action.payload.sessionProgress.correctCount;
+
+            // Check if there are more cards
+            if (
+              action.payload.sessionProgress.cardsRemaining === 0 &&
+              state.activeSession.learning_queue.length === 0
+            ) {
+              // Session complete
+              state.isSessionActive = false;
+            }
           }
         }
 
@@ -266,6 +1195,33 @@ const studySlice = createSlice({
       .addCase(recordCardReview.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
+        state.undoStack = state.undoStack.filter(
+          (entry) => entry.request_id !== action.meta.requestId
+        );
+      });
+
+    // Undo review (the session goes back to just before it)
+    builder
+      .addCase(undoLastReview.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(undoLastReview.fulfilled, (state, action) => {
+        state.loading = false;
+
+        const { entry } = action.payload;
+        state.undoStack = state.undoStack.filter(
+          (undo) => undo.request_id !== entry.request_id
+        );
+
+        if (state.activeSession) {
+          Object.assign(state.activeSession, entry.session);
+          state.isSessionActive = true;
+        }
+      })
+      .addCase(undoLastReview.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
       });
 
     // Update session progress
@@ -287,6 +1243,10 @@ const studySlice = createSlice({
 // Actions
 export const {
   advanceToNextCard,
+  releaseDueLearningCards,
+  answerCramCard,
+  answerExamCard,
+  completeExam,
   incrementCorrectCount,
   updateSessionTimer,
   endStudySession,
@@ -300,6 +1260,9 @@ export const selectStudyState = (state: { study: StudyState }) => state.study;
 export const selectActiveSession = (state: { study: StudyState }) =>
   state.study.activeSession;
 
+export const selectSessionId = (state: { study: StudyState }) =>
+  state.study.sessionId;
+
 export const selectCurrentCard = (state: { study: StudyState }) => {
   const session = state.study.activeSession;
   if (!session) return null;
@@ -319,12 +1282,40 @@ export const selectSessionProgress = (state: { study: StudyState }) => {
     total: session.cards.length,
     cardsReviewed: session.cards_reviewed,
     correctCount: session.correct_count,
+    learningCount: session.learning_queue.length,
     percentComplete: Math.round(
       ((session.current_card_index + 1) / session.cards.length) * 100
     ),
   };
 };
 
+export const selectNextLearningDue = (state: { study: StudyState }) => {
+  const session = state.study.activeSession;
+  if (!session || session.learning_queue.length === 0) return null;
+
+  return Math.min(...session.learning_queue.map((item) => item.due_at));
+};
+
+export const selectIsMultiDeckSession = (state: { study: StudyState }) =>
+  !!state.study.activeSession && state.study.activeSession.deck_id === null;
+
+export const selectIsCramSession = (state: { study: StudyState }) =>
+  state.study.activeSession?.session_type === "cram";
+
+export const selectExamProgress = (state: { study: StudyState }) =>
+  state.study.activeSession?.exam ?? null;
+
+export const selectCanUndoReview = (state: { study: StudyState }) => {
+  const stack = state.study.undoStack;
+  return stack.length > 0 && stack[stack.length - 1].changes !== null;
+};
+
+export const selectSavedSession = (state: { study: StudyState }) =>
+  state.study.savedSession;
+
+export const selectResponseTimeBaseline = (state: { study: StudyState }) =>
+  state.study.responseTimeBaseline;
+
 export const selectIsSessionActive = (state: { study: StudyState }) =>
   state.study.isSessionActive;
 
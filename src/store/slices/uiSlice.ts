@@ -6,7 +6,7 @@ import { Toast, ToastType, Modal } from "../../utils/types";
  * Manages global UI state (modals, toasts, loading indicators)
  */
 
-interface UIState {
+export interface UIState {
   offlineMode: boolean;
   loadingOperations: string[]; // Track multiple loading operations
   toasts: Toast[];
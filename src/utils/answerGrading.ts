@@ -0,0 +1,169 @@
+import { appConfig } from "../config/appConfig";
+import { ReviewDifficulty } from "./types";
+
+/**
+ * Typed Answer Grading
+ * Compares a typed answer with the stored one. Case, punctuation, accents
+ * and extra spaces are ignored; the remaining edit distance gives a
+ * similarity score that suggests a rating.
+ */
+
+export type AnswerDiffType = "equal" | "missing" | "extra";
+
+// A run of characters: typed correctly, left out, or typed but not expected
+export interface AnswerDiffSegment {
+  type: AnswerDiffType;
+  text: string;
+}
+
+export interface AnswerGrade {
+  similarity: number; // 0-1
+  exact: boolean;
+  suggestedRating: ReviewDifficulty;
+  diff: AnswerDiffSegment[];
+}
+
+/**
+ * Folds a character for comparison (lowercase, no accents)
+ */
+function foldChar(char: string): string {
+  return char
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Normalizes an answer for grading
+ * "  Café, au LAIT! " -> "cafe au lait"
+ */
+export function normalizeAnswer(text: string): string {
+  return foldChar(text)
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity (0-1) of a typed answer to the expected one
+ * 1 minus the edit distance normalized by the longer answer
+ */
+export function calculateAnswerSimilarity(
+  typed: string,
+  expected: string
+): number {
+  const a = normalizeAnswer(typed);
+  const b = normalizeAnswer(expected);
+
+  if (a.length === 0 || b.length === 0) return a === b ? 1 : 0;
+
+  return 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Rating suggested by a similarity score
+ */
+export function suggestRating(similarity: number): ReviewDifficulty {
+  const { easyThreshold, mediumThreshold, hardThreshold } =
+    appConfig.studySession.typedAnswer;
+
+  if (similarity >= easyThreshold) return "easy";
+  if (similarity >= mediumThreshold) return "medium";
+  if (similarity >= hardThreshold) return "hard";
+  return "again";
+}
+
+/**
+ * Character-level diff of the typed answer against the expected one
+ * Characters are compared case- and accent-insensitively
+ */
+export function diffAnswer(
+  typed: string,
+  expected: string
+): AnswerDiffSegment[] {
+  const a = Array.from(typed);
+  const b = Array.from(expected);
+  const foldedA = a.map(foldChar);
+  const foldedB = b.map(foldChar);
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        foldedA[i] === foldedB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (type: AnswerDiffType, char: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += char;
+    } else {
+      segments.push({ type, text: char });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (foldedA[i] === foldedB[j]) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("extra", a[i++]);
+    } else {
+      push("missing", b[j++]);
+    }
+  }
+  while (i < a.length) push("extra", a[i++]);
+  while (j < b.length) push("missing", b[j++]);
+
+  return segments;
+}
+
+/**
+ * Grades a typed answer against the stored answer
+ */
+export function gradeTypedAnswer(typed: string, expected: string): AnswerGrade {
+  const similarity = calculateAnswerSimilarity(typed, expected);
+
+  return {
+    similarity,
+    exact: normalizeAnswer(typed) === normalizeAnswer(expected),
+    suggestedRating: suggestRating(similarity),
+    diff: diffAnswer(typed.trim(), expected),
+  };
+}
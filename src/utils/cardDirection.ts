@@ -0,0 +1,50 @@
+import { Card, CardDirection } from "./types";
+import { getClozeAnswer, getClozePrompt, isClozeCard } from "./cloze";
+
+/**
+ * Card Directions
+ * A reversible card is stored as two rows sharing a note ID: the forward
+ * row asks the question and the reverse row shows the answer first. Both
+ * rows hold the same question/answer text but keep their own review state.
+ */
+
+export interface CardSides {
+  front: string; // Shown first
+  back: string; // Recalled
+}
+
+/**
+ * Whether a card is studied answer-first (older cards have no direction)
+ */
+export function isReverseCard(card: { direction?: CardDirection }): boolean {
+  return card.direction === "reverse";
+}
+
+/**
+ * What a card shows first and what should be recalled
+ * Cloze cards show their text with the studied deletion blanked
+ */
+export function getCardSides(card: Card): CardSides {
+  if (isClozeCard(card)) {
+    const index = card.cloze_index ?? 1;
+    return {
+      front: getClozePrompt(card.question, index),
+      back: getClozeAnswer(card.question, index),
+    };
+  }
+
+  return isReverseCard(card)
+    ? { front: card.answer, back: card.question }
+    : { front: card.question, back: card.answer };
+}
+
+/**
+ * New ID shared by the rows of a reversible or cloze card (UUID v4 format)
+ */
+export function createNoteId(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === "x" ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -0,0 +1,29 @@
+import { Card } from "./types";
+import { getStartOfDayOffset } from "./dateUtils";
+
+/**
+ * Card States
+ * Suspended cards are paused until unsuspended; buried cards are hidden
+ * until buried_until passes (the start of the next day)
+ */
+
+/**
+ * When a card buried now comes back (start of tomorrow)
+ */
+export function getBuryUntil(): string {
+  return getStartOfDayOffset(1);
+}
+
+/**
+ * Whether a card is buried at the given time
+ */
+export function isBuried(card: Card, now: Date = new Date()): boolean {
+  return !!card.buried_until && new Date(card.buried_until) > now;
+}
+
+/**
+ * Whether a card may be studied (neither suspended nor buried)
+ */
+export function isAvailable(card: Card, now: Date = new Date()): boolean {
+  return !card.suspended && !isBuried(card, now);
+}
@@ -0,0 +1,57 @@
+import { appConfig } from "../config/appConfig";
+import { Card } from "./types";
+import { isAvailable } from "./cardState";
+import { getStartOfDay } from "./dateUtils";
+import { getCardLearningState } from "./learningSteps";
+import { getCardReviewData, predictRetention } from "./retention";
+
+/**
+ * Catch-up Planner
+ * After missed days, the overdue pile is spread over several days instead of
+ * being presented all at once (see the "catch_up" reschedule action).
+ * Cards closest to being forgotten come first.
+ */
+
+/**
+ * Whether a card was due before today (not just due today)
+ */
+export function isOverdue(card: Card, now: Date = new Date()): boolean {
+  if (!card.next_review || !isAvailable(card, now)) return false;
+
+  return (
+    getCardLearningState(card) === "review" &&
+    card.next_review < getStartOfDay(now)
+  );
+}
+
+/**
+ * Overdue cards, lowest predicted retention first
+ */
+export function getBacklog(cards: Card[], now: Date = new Date()): Card[] {
+  const retentionOf = (card: Card) =>
+    predictRetention(getCardReviewData(card), now) ?? 0;
+
+  return cards
+    .filter((card) => isOverdue(card, now))
+    .map((card) => ({ card, retention: retentionOf(card) }))
+    .sort((a, b) => a.retention - b.retention)
+    .map(({ card }) => card);
+}
+
+/**
+ * Whether the backlog is big enough to offer the planner
+ */
+export function hasBacklog(backlogCount: number): boolean {
+  return backlogCount >= appConfig.studySession.catchUp.minBacklog;
+}
+
+/**
+ * Days needed to clear a backlog at the suggested daily pace
+ */
+export function suggestCatchUpDays(backlogCount: number): number {
+  const { reviewsPerDay, maxDays } = appConfig.studySession.catchUp;
+  return Math.min(
+    maxDays,
+    Math.max(1, Math.ceil(backlogCount / reviewsPerDay))
+  );
+}
@@ -0,0 +1,113 @@
+import { CardKind } from "./types";
+
+/**
+ * Cloze Deletions
+ * Text marked up as "{{c1::Paris}} is the capital of {{c2::France}}"
+ * (optionally "{{c1::Paris::city}}" with a hint). Each deletion number is
+ * studied as its own card: that deletion is blanked and the others shown.
+ */
+
+// Matches {{cN::text}} and {{cN::text::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export const CLOZE_BLANK = "[...]";
+
+export interface ClozeSegment {
+  text: string;
+  active: boolean; // Part of the deletion being studied
+}
+
+/**
+ * Whether a card is a cloze card (older cards have no type stored)
+ */
+export function isClozeCard(card: { card_type?: CardKind }): boolean {
+  return card.card_type === "cloze";
+}
+
+/**
+ * Deletion numbers used in the text, ascending
+ */
+export function getClozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const number = Number(match[1]);
+    if (number > 0) numbers.add(number);
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * Whether the text has at least one deletion
+ */
+export function hasCloze(text: string): boolean {
+  return getClozeNumbers(text).length > 0;
+}
+
+/**
+ * Splits cloze text for display, blanking the active deletion unless
+ * revealed. Other deletions are shown as plain text.
+ */
+export function renderCloze(
+  text: string,
+  activeIndex: number,
+  revealed: boolean
+): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  const push = (segment: ClozeSegment) => {
+    if (!segment.text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.active === segment.active && !segment.active) {
+      last.text += segment.text;
+    } else {
+      segments.push(segment);
+    }
+  };
+
+  let position = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const [full, number, content, hint] = match;
+    const index = match.index ?? 0;
+
+    push({ text: text.slice(position, index), active: false });
+
+    if (Number(number) === activeIndex) {
+      push({
+        text: revealed ? content : hint ? `[${hint}]` : CLOZE_BLANK,
+        active: true,
+      });
+    } else {
+      push({ text: content, active: false });
+    }
+
+    position = index + full.length;
+  }
+  push({ text: text.slice(position), active: false });
+
+  return segments;
+}
+
+/**
+ * The text with the active deletion blanked
+ */
+export function getClozePrompt(text: string, activeIndex: number): string {
+  return renderCloze(text, activeIndex, false)
+    .map((segment) => segment.text)
+    .join("");
+}
+
+/**
+ * Text hidden by the active deletion (several parts are comma-separated)
+ */
+export function getClozeAnswer(text: string, activeIndex: number): string {
+  return Array.from(text.matchAll(CLOZE_PATTERN))
+    .filter((match) => Number(match[1]) === activeIndex)
+    .map((match) => match[2])
+    .join(", ");
+}
+
+/**
+ * The text without markup
+ */
+export function stripCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_full, _number, content) => content);
+}
@@ -24,6 +24,7 @@ export const STORAGE_KEYS = {
   SETTINGS: "user_settings",
   SYNC_QUEUE: "sync_queue",
   LAST_SYNC: "last_sync",
+  ACTIVE_SESSION: "active_study_session",
 } as const;
 
 // Spaced Repetition Constants
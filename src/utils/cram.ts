@@ -0,0 +1,72 @@
+import { appConfig } from "../config/appConfig";
+import { Card, CramFilter, ReviewDifficulty } from "./types";
+
+/**
+ * Cram Mode
+ * Drills a set of cards before an exam without touching their schedule.
+ * Missed cards come back a few cards later until they're answered well;
+ * only the session record is saved.
+ */
+
+// Filters offered in the cram options; "cards" is started from other screens
+export type CramFilterOption = Exclude<CramFilter["type"], "cards">;
+
+export const CRAM_FILTER_LABELS: Record<CramFilterOption, string> = {
+  all: "All cards",
+  failed_today: "Failed today",
+  tag: "Tag",
+  lowest_ease: "Lowest ease",
+};
+
+/**
+ * Cards a cram session drills
+ * Suspended cards are left out; buried cards and daily limits don't apply
+ */
+export function filterCramCards(
+  cards: Card[],
+  filter: CramFilter,
+  failedTodayIds: string[] = []
+): Card[] {
+  const available = cards.filter((card) => !card.suspended);
+
+  switch (filter.type) {
+    case "all":
+      return available;
+    case "failed_today": {
+      const failed = new Set(failedTodayIds);
+      return available.filter((card) => failed.has(card.id));
+    }
+    case "tag": {
+      const tag = filter.tag.trim().toLowerCase();
+      return available.filter((card) =>
+        (card.tags || []).some((t) => t.toLowerCase() === tag)
+      );
+    }
+    case "cards": {
+      const ids = new Set(filter.cardIds);
+      return available.filter((card) => ids.has(card.id));
+    }
+    case "lowest_ease":
+      // Only reviewed cards have a meaningful ease
+      return available
+        .filter((card) => card.review_count > 0)
+        .sort((a, b) => a.ease_factor - b.ease_factor)
+        .slice(0, Math.max(0, filter.count));
+  }
+}
+
+/**
+ * Cards shown before a crammed card comes back, or null once it's known
+ */
+export function getCramRequeueGap(difficulty: ReviewDifficulty): number | null {
+  const { againGap, hardGap } = appConfig.studySession.cram;
+
+  switch (difficulty) {
+    case "again":
+      return againGap;
+    case "hard":
+      return hardGap;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { Card } from "./types";
+import { getCardLearningState } from "./learningSteps";
+
+/**
+ * Daily Limits
+ * Caps how many new and review cards a deck hands out per day,
+ * counted across every session studied that day
+ */
+
+export interface DailyLimits {
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+}
+
+export interface StudiedToday {
+  newCount: number;
+  reviewCount: number;
+}
+
+export interface DailyLimitStatus {
+  newRemaining: number;
+  reviewRemaining: number;
+}
+
+/**
+ * Remaining new/review allowance for today
+ */
+export function getRemainingLimits(
+  limits: DailyLimits,
+  studiedToday: StudiedToday
+): DailyLimitStatus {
+  return {
+    newRemaining: Math.max(0, limits.newCardsPerDay - studiedToday.newCount),
+    reviewRemaining: Math.max(
+      0,
+      limits.maxReviewsPerDay - studiedToday.reviewCount
+    ),
+  };
+}
+
+/**
+ * Keeps due cards within today's allowance (order is preserved)
+ * Cards already in (re)learning steps are never held back
+ */
+export function applyDailyLimits(
+  cards: Card[],
+  remaining: DailyLimitStatus
+): Card[] {
+  let newLeft = remaining.newRemaining;
+  let reviewLeft = remaining.reviewRemaining;
+
+  return cards.filter((card) => {
+    switch (getCardLearningState(card)) {
+      case "new":
+        if (newLeft <= 0) return false;
+        newLeft--;
+        return true;
+
+      case "review":
+        if (reviewLeft <= 0) return false;
+        reviewLeft--;
+        return true;
+
+      default:
+        return true;
+    }
+  });
+}
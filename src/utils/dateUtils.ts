@@ -8,20 +8,50 @@ import {
   isAfter,
   isBefore,
   startOfDay,
-  endOfDay,
+  setHours,
+  subHours,
   differenceInDays,
+  differenceInCalendarDays,
   differenceInHours,
   differenceInMinutes,
   differenceInSeconds,
 } from "date-fns";
+import { appConfig } from "../config/appConfig";
 
 /**
  * Date utility functions using date-fns
  * All dates stored in database as UTC ISO 8601 strings
- * All calculations done in UTC
+ * Day boundaries follow the device's current timezone and start at the
+ * rollover hour, so late-night reviews count towards the previous day
  * Display formatted in user's local timezone
  */
 
+// Local hour at which a new study day starts (set from user settings)
+let dayRolloverHour = appConfig.spacedRepetition.dayRolloverHour;
+
+/**
+ * Sets the hour (0-23) at which a new study day starts
+ */
+export function setDayRolloverHour(hour: number): void {
+  dayRolloverHour = Math.min(23, Math.max(0, Math.floor(hour)));
+}
+
+export function getDayRolloverHour(): number {
+  return dayRolloverHour;
+}
+
+/**
+ * Moment the study day containing a date starts (local rollover hour)
+ */
+function startOfStudyDay(date: Date): Date {
+  return setHours(startOfDay(subHours(date, dayRolloverHour)), dayRolloverHour);
+}
+
+function toDate(date?: Date | string): Date {
+  if (!date) return new Date();
+  return typeof date === "string" ? parseDate(date) : date;
+}
+
 /**
  * Gets current UTC timestamp as ISO string
  */
@@ -75,10 +105,14 @@ export function formatDuration(seconds: number): string {
 
 /**
  * Calculates next review date based on spaced repetition interval (in days)
+ * The card comes due when the study day `intervalDays` days from today
+ * starts, whatever time of day it was reviewed
  */
-export function calculateNextReview(intervalDays: number): string {
-  const nextReview = addDays(new Date(), intervalDays);
-  return nextReview.toISOString();
+export function calculateNextReview(
+  intervalDays: number,
+  from: Date = new Date()
+): string {
+  return getStartOfDayOffset(Math.max(0, Math.round(intervalDays)), from);
 }
 
 /**
@@ -100,11 +134,13 @@ export function calculateNextReviewMinutes(intervalMinutes: number): string {
 /**
  * Checks if a card is due for review
  */
-export function isCardDue(nextReviewDate: string | null): boolean {
+export function isCardDue(
+  nextReviewDate: string | null,
+  now: Date = new Date()
+): boolean {
   if (!nextReviewDate) return true; // Never reviewed, so due
 
   const nextReview = parseDate(nextReviewDate);
-  const now = new Date();
 
   return isBefore(nextReview, now) || nextReview.getTime() === now.getTime();
 }
@@ -126,40 +162,48 @@ export function isFuture(date: string | Date): boolean {
 }
 
 /**
- * Gets start of day in UTC
+ * Gets start of the study day (rollover hour, local time)
  */
 export function getStartOfDay(date?: Date | string): string {
-  const dateObj = date
-    ? typeof date === "string"
-      ? parseDate(date)
-      : date
-    : new Date();
-  return startOfDay(dateObj).toISOString();
+  return startOfStudyDay(toDate(date)).toISOString();
 }
 
 /**
- * Gets end of day in UTC
+ * Gets start of the study day for a calendar date ("2026-11-01")
+ */
+export function getStartOfDate(date: string): string {
+  return setHours(startOfDay(parseDate(date)), dayRolloverHour).toISOString();
+}
+
+/**
+ * Gets end of the study day (just before the next rollover)
  */
 export function getEndOfDay(date?: Date | string): string {
-  const dateObj = date
-    ? typeof date === "string"
-      ? parseDate(date)
-      : date
-    : new Date();
-  return endOfDay(dateObj).toISOString();
+  const nextDay = addDays(startOfStudyDay(toDate(date)), 1);
+  return new Date(nextDay.getTime() - 1).toISOString();
+}
+
+/**
+ * Gets start of the study day a number of days from today
+ */
+export function getStartOfDayOffset(
+  days: number,
+  from: Date = new Date()
+): string {
+  return addDays(startOfStudyDay(from), days).toISOString();
 }
 
 /**
- * Calculates days between two dates
+ * Calculates whole study days between two dates (rollovers crossed)
  */
 export function getDaysBetween(
   startDate: string | Date,
   endDate: string | Date
 ): number {
-  const start =
-    typeof startDate === "string" ? parseDate(startDate) : startDate;
-  const end = typeof endDate === "string" ? parseDate(endDate) : endDate;
-  return differenceInDays(end, start);
+  return differenceInCalendarDays(
+    subHours(toDate(endDate), dayRolloverHour),
+    subHours(toDate(startDate), dayRolloverHour)
+  );
 }
 
 /**
@@ -209,7 +253,7 @@ export function formatDueDate(nextReviewDate: string | null): string {
 
   const nextReview = parseDate(nextReviewDate);
   const now = new Date();
-  const daysDiff = differenceInDays(nextReview, now);
+  const daysDiff = getDaysBetween(now, nextReview);
 
   if (daysDiff < 0) {
     return `Overdue by ${Math.abs(daysDiff)} day${Math.abs(daysDiff) === 1 ? "" : "s"}`;
@@ -0,0 +1,147 @@
+import { appConfig } from "../config/appConfig";
+import { DeckPresetOptions, SchedulingOptions } from "./types";
+import { LearningStepsConfig } from "./learningSteps";
+import { DailyLimits } from "./dailyLimits";
+
+/**
+ * Deck Option Presets
+ * Named sets of scheduling options shared by any number of decks
+ * Decks without a preset use the built-in defaults from appConfig
+ */
+
+export const DEFAULT_PRESET_NAME = "Default";
+
+export const defaultPresetOptions: DeckPresetOptions = {
+  learning_steps: appConfig.spacedRepetition.learningSteps,
+  relearning_steps: appConfig.spacedRepetition.relearningSteps,
+  new_cards_per_day: appConfig.studySession.defaultNewCardsPerDay,
+  max_reviews_per_day: appConfig.studySession.defaultMaxReviewsPerDay,
+  min_ease_factor: appConfig.spacedRepetition.minEaseFactor,
+  max_ease_factor: appConfig.spacedRepetition.maxEaseFactor,
+  easy_bonus: appConfig.spacedRepetition.easyBonus,
+  request_retention: appConfig.fsrs.requestRetention,
+};
+
+/**
+ * Picks the option fields out of a preset (drops id, name, timestamps)
+ */
+export function getPresetOptions(preset: DeckPresetOptions): DeckPresetOptions {
+  return {
+    learning_steps: [...preset.learning_steps],
+    relearning_steps: [...preset.relearning_steps],
+    new_cards_per_day: preset.new_cards_per_day,
+    max_reviews_per_day: preset.max_reviews_per_day,
+    min_ease_factor: preset.min_ease_factor,
+    max_ease_factor: preset.max_ease_factor,
+    easy_bonus: preset.easy_bonus,
+    request_retention: preset.request_retention,
+  };
+}
+
+export function getSchedulingOptions(
+  options: DeckPresetOptions
+): SchedulingOptions {
+  return {
+    minEaseFactor: options.min_ease_factor,
+    maxEaseFactor: options.max_ease_factor,
+    easyBonus: options.easy_bonus,
+    requestRetention: options.request_retention,
+  };
+}
+
+export function getLearningStepsConfig(
+  options: DeckPresetOptions
+): LearningStepsConfig {
+  return {
+    learningSteps: options.learning_steps,
+    relearningSteps: options.relearning_steps,
+  };
+}
+
+export function getDailyLimits(options: DeckPresetOptions): DailyLimits {
+  return {
+    newCardsPerDay: options.new_cards_per_day,
+    maxReviewsPerDay: options.max_reviews_per_day,
+  };
+}
+
+/**
+ * Name for a copy of a preset that doesn't clash with existing ones
+ * e.g. "Pharmacology" -> "Pharmacology (copy)" -> "Pharmacology (copy 2)"
+ */
+export function getCloneName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames);
+  let candidate = `${name} (copy)`;
+
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (copy ${n})`;
+  }
+
+  return candidate;
+}
+
+/**
+ * Parses steps typed as minutes separated by spaces or commas ("1 10")
+ * Returns null when any step isn't a positive number
+ */
+export function parseSteps(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter((part) => part.length > 0);
+  const steps = parts.map(Number);
+
+  if (steps.some((step) => !Number.isFinite(step) || step <= 0)) {
+    return null;
+  }
+
+  return steps;
+}
+
+export function formatSteps(steps: number[]): string {
+  return steps.join(" ");
+}
+
+/**
+ * Validates preset options, returning the first problem found
+ */
+export function validatePresetOptions(
+  options: DeckPresetOptions
+): string | null {
+  const { minEaseFactor } = appConfig.spacedRepetition;
+
+  if (
+    !Number.isInteger(options.new_cards_per_day) ||
+    options.new_cards_per_day < 0 ||
+    !Number.isInteger(options.max_reviews_per_day) ||
+    options.max_reviews_per_day < 0
+  ) {
+    return "Daily limits must be whole numbers of 0 or more";
+  }
+
+  if (
+    ![
+      options.min_ease_factor,
+      options.max_ease_factor,
+      options.easy_bonus,
+      options.request_retention,
+    ].every(Number.isFinite)
+  ) {
+    return "Scheduling options must be numbers";
+  }
+
+  if (options.min_ease_factor < minEaseFactor) {
+    return `Minimum ease can't be below ${minEaseFactor}`;
+  }
+
+  if (options.max_ease_factor < options.min_ease_factor) {
+    return "Maximum ease must be at least the minimum ease";
+  }
+
+  if (options.easy_bonus < 1) {
+    return "Easy bonus must be at least 1";
+  }
+
+  if (options.request_retention < 0.7 || options.request_retention > 0.99) {
+    return "Target retention must be between 70% and 99%";
+  }
+
+  return null;
+}
@@ -0,0 +1,150 @@
+import { appConfig } from "../config/appConfig";
+import { Card, ExamAnswer, ExamConfig, ExamReport, ExamScore } from "./types";
+import { Rng } from "./intervalFuzz";
+import { shuffle } from "./quiz";
+
+/**
+ * Exam Mode
+ * A timed test over cards picked at random from chosen decks. Answers don't
+ * touch the schedule; the result is saved as a report on the session.
+ */
+
+/**
+ * Validates exam settings, returning the first problem found
+ */
+export function validateExamConfig(config: ExamConfig): string | null {
+  const { maxQuestionCount, maxTimeLimitMinutes } = appConfig.studySession.exam;
+
+  if (config.deckIds.length === 0) {
+    return "Choose at least one deck";
+  }
+
+  if (
+    !Number.isInteger(config.questionCount) ||
+    config.questionCount < 1 ||
+    config.questionCount > maxQuestionCount
+  ) {
+    return `Enter between 1 and ${maxQuestionCount} questions`;
+  }
+
+  if (
+    !Number.isInteger(config.timeLimitMinutes) ||
+    config.timeLimitMinutes < 1 ||
+    config.timeLimitMinutes > maxTimeLimitMinutes
+  ) {
+    return `Enter a time limit between 1 and ${maxTimeLimitMinutes} minutes`;
+  }
+
+  return null;
+}
+
+/**
+ * Questions for an exam, in random order
+ * Suspended cards are left out; due dates don't matter
+ */
+export function pickExamCards(
+  cards: Card[],
+  count: number,
+  rng: Rng = Math.random
+): Card[] {
+  return shuffle(
+    cards.filter((card) => !card.suspended),
+    rng
+  ).slice(0, Math.max(0, count));
+}
+
+/**
+ * Seconds left before the time limit, between zero and the limit
+ */
+export function getExamTimeLeft(
+  startTime: number,
+  timeLimitSeconds: number,
+  now: number = Date.now()
+): number {
+  const elapsed = Math.max(0, Math.floor((now - startTime) / 1000));
+  return Math.max(0, timeLimitSeconds - elapsed);
+}
+
+function toScore(correct: number, total: number): ExamScore {
+  return {
+    correct,
+    total,
+    percent: total > 0 ? Math.round((correct / total) * 100) : 0,
+  };
+}
+
+/**
+ * Scores an exam overall, per deck and per tag
+ * Questions without an answer (the time ran out) count as missed
+ */
+export function buildExamReport(
+  questions: Card[],
+  answers: ExamAnswer[],
+  timing: {
+    timeLimitSeconds: number;
+    durationSeconds: number;
+    timedOut: boolean;
+  }
+): ExamReport {
+  const answerById = new Map(answers.map((answer) => [answer.card_id, answer]));
+  const byDeck: Record<string, { correct: number; total: number }> = {};
+  const byTag: Record<string, { correct: number; total: number }> = {};
+  const missed: string[] = [];
+
+  const count = (
+    groups: Record<string, { correct: number; total: number }>,
+    key: string,
+    correct: boolean
+  ) => {
+    const group = (groups[key] ??= { correct: 0, total: 0 });
+    group.total += 1;
+    if (correct) group.correct += 1;
+  };
+
+  // Each card is scored once
+  const seen = new Set<string>();
+  questions.forEach((card) => {
+    if (seen.has(card.id)) return;
+    seen.add(card.id);
+
+    const correct = answerById.get(card.id)?.correct ?? false;
+    if (!correct) missed.push(card.id);
+
+    count(byDeck, card.deck_id, correct);
+    (card.tags || []).forEach((tag) => count(byTag, tag, correct));
+  });
+
+  const toScores = (
+    groups: Record<string, { correct: number; total: number }>
+  ): Record<string, ExamScore> =>
+    Object.fromEntries(
+      Object.entries(groups).map(([key, group]) => [
+        key,
+        toScore(group.correct, group.total),
+      ])
+    );
+
+  return {
+    score: toScore(seen.size - missed.length, seen.size),
+    by_deck: toScores(byDeck),
+    by_tag: toScores(byTag),
+    answers,
+    missed_card_ids: missed,
+    time_limit_seconds: timing.timeLimitSeconds,
+    duration_seconds: timing.durationSeconds,
+    timed_out: timing.timedOut,
+  };
+}
+
+/**
+ * Average seconds spent per answered question
+ */
+export function getAverageAnswerTime(report: ExamReport): number {
+  if (report.answers.length === 0) return 0;
+
+  const total = report.answers.reduce(
+    (sum, answer) => sum + answer.time_seconds,
+    0
+  );
+  return Math.round(total / report.answers.length);
+}
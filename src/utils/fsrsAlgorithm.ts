@@ -0,0 +1,236 @@
+import { appConfig } from "../config/appConfig";
+import { calculateNextReview, getDaysBetween } from "./dateUtils";
+import { CardReviewData, Difficulty, ReviewResult } from "./spacedRepAlgorithm";
+
+/**
+ * Spaced Repetition Algorithm (FSRS)
+ * Free Spaced Repetition Scheduler - models memory with stability,
+ * difficulty and retrievability instead of a single ease factor
+ * Reference: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ */
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 90%
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+/**
+ * Maps a difficulty rating to the FSRS grade (1 = again ... 4 = easy)
+ */
+function toGrade(difficulty: Difficulty): number {
+  switch (difficulty) {
+    case "again":
+      return 1;
+    case "hard":
+      return 2;
+    case "medium":
+      return 3;
+    case "easy":
+      return 4;
+    default:
+      return 3;
+  }
+}
+
+function clampDifficulty(value: number): number {
+  return Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, value));
+}
+
+/**
+ * Probability of recalling a card after elapsedDays with the given stability
+ */
+export function calculateRetrievability(
+  elapsedDays: number,
+  stability: number
+): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+/**
+ * Exact (fractional) days until retrievability drops to the given retention
+ */
+export function calculateDaysToRetention(
+  stability: number,
+  retention: number
+): number {
+  return (stability / FACTOR) * (Math.pow(retention, 1 / DECAY) - 1);
+}
+
+/**
+ * Interval (days) at which retrievability drops to the requested retention
+ */
+export function calculateFsrsInterval(
+  stability: number,
+  requestRetention: number = appConfig.fsrs.requestRetention
+): number {
+  const interval = calculateDaysToRetention(stability, requestRetention);
+
+  return Math.min(
+    appConfig.fsrs.maximumInterval,
+    Math.max(1, Math.round(interval))
+  );
+}
+
+/**
+ * Initial stability after the first rating
+ */
+function initialStability(grade: number, w: number[]): number {
+  return Math.max(0.1, w[grade - 1]);
+}
+
+/**
+ * Initial difficulty after the first rating
+ */
+function initialDifficulty(grade: number, w: number[]): number {
+  return clampDifficulty(w[4] - (grade - 3) * w[5]);
+}
+
+/**
+ * Next difficulty with mean reversion towards the "good" default
+ */
+function nextDifficulty(
+  currentDifficulty: number,
+  grade: number,
+  w: number[]
+): number {
+  const updated = currentDifficulty - w[6] * (grade - 3);
+  const reverted = w[7] * initialDifficulty(3, w) + (1 - w[7]) * updated;
+  return clampDifficulty(reverted);
+}
+
+/**
+ * Stability after a successful recall (hard, good or easy)
+ */
+function nextRecallStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: number,
+  w: number[]
+): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+
+  return (
+    stability *
+    (Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1)
+  );
+}
+
+/**
+ * Stability after a lapse (again)
+ */
+function nextForgetStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  w: number[]
+): number {
+  const forgetStability =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+
+  // A lapse can never make the memory more stable than before
+  return Math.min(forgetStability, stability);
+}
+
+/**
+ * Memory state after a rating (null state = first review)
+ */
+export function nextFsrsMemoryState(
+  state: FsrsMemoryState | null,
+  difficulty: Difficulty,
+  elapsedDays: number,
+  weights: number[] = appConfig.fsrs.weights
+): FsrsMemoryState {
+  const grade = toGrade(difficulty);
+
+  if (!state) {
+    return {
+      stability: initialStability(grade, weights),
+      difficulty: initialDifficulty(grade, weights),
+    };
+  }
+
+  const retrievability = calculateRetrievability(elapsedDays, state.stability);
+
+  return {
+    stability:
+      grade === 1
+        ? nextForgetStability(
+            state.difficulty,
+            state.stability,
+            retrievability,
+            weights
+          )
+        : nextRecallStability(
+            state.difficulty,
+            state.stability,
+            retrievability,
+            grade,
+            weights
+          ),
+    difficulty: nextDifficulty(state.difficulty, grade, weights),
+  };
+}
+
+/**
+ * Main function: Calculate next review parameters using FSRS
+ */
+export function calculateFsrsReviewData(
+  currentData: CardReviewData,
+  difficulty: Difficulty,
+  weights: number[] = appConfig.fsrs.weights,
+  requestRetention: number = appConfig.fsrs.requestRetention
+): ReviewResult {
+  const isNewCard =
+    currentData.reviewCount === 0 ||
+    currentData.stability === undefined ||
+    currentData.fsrsDifficulty === undefined;
+
+  const previousState = isNewCard
+    ? null
+    : {
+        stability: currentData.stability as number,
+        difficulty: currentData.fsrsDifficulty as number,
+      };
+
+  const elapsedDays = Math.max(
+    0,
+    getDaysBetween(currentData.lastReviewed, new Date())
+  );
+
+  const { stability, difficulty: fsrsDifficulty } = nextFsrsMemoryState(
+    previousState,
+    difficulty,
+    elapsedDays,
+    weights
+  );
+
+  const interval = calculateFsrsInterval(stability, requestRetention);
+
+  return {
+    // FSRS does not use the ease factor; keep it untouched for SM-2 fallback
+    easeFactor: currentData.easeFactor,
+    interval,
+    nextReview: calculateNextReview(interval),
+    reviewCount: currentData.reviewCount + 1,
+    stability,
+    fsrsDifficulty,
+  };
+}
@@ -0,0 +1,76 @@
+import { Card, LearningState } from "./types";
+import { getCardLearningState } from "./learningSteps";
+import { getCardReviewData, predictRetention } from "./retention";
+
+/**
+ * Cross-deck Interleaving
+ * Orders due cards from several decks into one queue: cards in learning
+ * steps first, then reviews closest to being forgotten, then new cards.
+ * Within each group the decks take turns.
+ */
+
+// Lower groups are studied first
+const STUDY_PRIORITY: Record<LearningState, number> = {
+  learning: 0,
+  relearning: 0,
+  review: 1,
+  new: 2,
+};
+
+/**
+ * Priority group of a due card
+ */
+export function getStudyPriority(card: Card): number {
+  return STUDY_PRIORITY[getCardLearningState(card)];
+}
+
+/**
+ * Alternates between decks, keeping each deck's own order
+ */
+export function alternateDecks(cards: Card[]): Card[] {
+  const byDeck = new Map<string, Card[]>();
+  cards.forEach((card) => {
+    byDeck.set(card.deck_id, [...(byDeck.get(card.deck_id) ?? []), card]);
+  });
+
+  const queues = Array.from(byDeck.values());
+  const longest = Math.max(0, ...queues.map((queue) => queue.length));
+  const result: Card[] = [];
+
+  for (let round = 0; round < longest; round++) {
+    queues.forEach((queue) => {
+      if (round < queue.length) result.push(queue[round]);
+    });
+  }
+
+  return result;
+}
+
+/**
+ * One study queue from the due cards of several decks
+ */
+export function interleaveDueCards(
+  cards: Card[],
+  now: Date = new Date()
+): Card[] {
+  const groups: Card[][] = [[], [], []];
+  cards.forEach((card) => groups[getStudyPriority(card)].push(card));
+
+  const [learning, review, fresh] = groups;
+  const retentionOf = (card: Card) =>
+    predictRetention(getCardReviewData(card), now) ?? 0;
+
+  return [
+    // Steps are short, so whichever comes due first goes first
+    ...[...learning].sort((a, b) =>
+      (a.next_review ?? "").localeCompare(b.next_review ?? "")
+    ),
+    ...alternateDecks(
+      review
+        .map((card) => ({ card, retention: retentionOf(card) }))
+        .sort((a, b) => a.retention - b.retention)
+        .map(({ card }) => card)
+    ),
+    ...alternateDecks(fresh),
+  ];
+}
@@ -0,0 +1,106 @@
+import { appConfig } from "../config/appConfig";
+
+/**
+ * Interval Fuzz & Load Balancing
+ * Spreads cards reviewed together over nearby days so they don't come
+ * back in clumps, preferring the days with the fewest reviews due
+ */
+
+/**
+ * Random number generator returning values in [0, 1)
+ * Injectable so scheduling stays deterministic under test
+ */
+export type Rng = () => number;
+
+export interface FuzzRange {
+  min: number; // days
+  max: number; // days
+}
+
+/**
+ * Due review counts keyed by day offset from today
+ */
+export type DueCountsByDay = Record<number, number>;
+
+/**
+ * Days an interval may move in either direction
+ * Every configured band contributes its factor for the part of the interval
+ * inside it, so longer intervals get a wider (but relatively smaller) window
+ */
+function getFuzzDelta(interval: number): number {
+  const { fuzz } = appConfig.spacedRepetition;
+
+  return fuzz.ranges.reduce((delta, range) => {
+    const overlap = Math.min(interval, range.end) - range.start;
+    return overlap > 0 ? delta + range.factor * overlap : delta;
+  }, 1);
+}
+
+/**
+ * Window of days an interval may be moved to
+ * Intervals below the fuzz threshold are left as-is
+ */
+export function getFuzzRange(interval: number): FuzzRange {
+  const { fuzz } = appConfig.spacedRepetition;
+
+  if (!fuzz.enabled || interval < fuzz.minInterval) {
+    return { min: interval, max: interval };
+  }
+
+  const delta = getFuzzDelta(interval);
+
+  return {
+    min: Math.max(1, Math.round(interval - delta)),
+    max: Math.round(interval + delta),
+  };
+}
+
+/**
+ * Whether an interval would be fuzzed at all
+ */
+export function hasFuzz(range: FuzzRange): boolean {
+  return range.max > range.min;
+}
+
+/**
+ * Picks a random whole-day interval inside the fuzz window
+ */
+export function fuzzInterval(interval: number, rng: Rng = Math.random): number {
+  const range = getFuzzRange(interval);
+  if (!hasFuzz(range)) return interval;
+
+  return range.min + Math.floor(rng() * (range.max - range.min + 1));
+}
+
+/**
+ * Picks the least-loaded day inside the fuzz window
+ * Ties are broken randomly; without forecast data this is plain fuzz
+ */
+export function loadBalanceInterval(
+  interval: number,
+  dueCounts?: DueCountsByDay,
+  rng: Rng = Math.random
+): number {
+  const range = getFuzzRange(interval);
+  if (!hasFuzz(range)) return interval;
+
+  if (!dueCounts || !appConfig.spacedRepetition.fuzz.loadBalance) {
+    return fuzzInterval(interval, rng);
+  }
+
+  let lowest = Infinity;
+  let candidates: number[] = [];
+
+  for (let day = range.min; day <= range.max; day++) {
+    const count = dueCounts[day] ?? 0;
+
+    if (count < lowest) {
+      lowest = count;
+      candidates = [day];
+    } else if (count === lowest) {
+      candidates.push(day);
+    }
+  }
+
+  return candidates[Math.floor(rng() * candidates.length)];
+}
@@ -0,0 +1,171 @@
+import { appConfig } from "../config/appConfig";
+import { calculateNextReview, calculateNextReviewMinutes } from "./dateUtils";
+import { CardReviewData, Difficulty, ReviewResult } from "./spacedRepAlgorithm";
+import { Scheduler, getScheduler } from "./scheduler";
+import { Card, LearningState } from "./types";
+
+/**
+ * Learning & Relearning Steps
+ * Intra-day steps (in minutes) a card goes through before the scheduler
+ * takes over with day-based intervals
+ *
+ * new/learning --(good past last step | easy)--> review
+ * review --(again)--> relearning --(good past last step | easy)--> review
+ */
+
+export interface LearningStepsConfig {
+  learningSteps: number[]; // minutes, for new cards
+  relearningSteps: number[]; // minutes, for lapsed cards
+}
+
+const defaultStepsConfig: LearningStepsConfig = {
+  learningSteps: appConfig.spacedRepetition.learningSteps,
+  relearningSteps: appConfig.spacedRepetition.relearningSteps,
+};
+
+/**
+ * Resolves the learning state of a card (older cards have none stored)
+ */
+export function getLearningState(
+  data: Pick<CardReviewData, "learningState" | "reviewCount">
+): LearningState {
+  if (data.learningState) return data.learningState;
+  return data.reviewCount === 0 ? "new" : "review";
+}
+
+/**
+ * Learning state of a stored card
+ */
+export function getCardLearningState(card: Card): LearningState {
+  return getLearningState({
+    learningState: card.learning_state,
+    reviewCount: card.review_count,
+  });
+}
+
+/**
+ * Returns the step index after a rating, or null when the card graduates
+ */
+function getNextStepIndex(currentStep: number, difficulty: Difficulty) {
+  switch (difficulty) {
+    case "again":
+      return 0;
+    case "hard":
+      return currentStep;
+    case "medium":
+      return currentStep + 1;
+    case "easy":
+    default:
+      return null;
+  }
+}
+
+/**
+ * Keeps scheduling data as-is and brings the card back after a step delay
+ */
+function stepResult(
+  currentData: CardReviewData,
+  learningState: LearningState,
+  learningStep: number,
+  stepMinutes: number
+): ReviewResult {
+  return {
+    easeFactor: currentData.easeFactor,
+    interval: currentData.interval,
+    nextReview: calculateNextReviewMinutes(stepMinutes),
+    reviewCount: currentData.reviewCount,
+    stability: currentData.stability,
+    fsrsDifficulty: currentData.fsrsDifficulty,
+    learningState,
+    learningStep,
+  };
+}
+
+/**
+ * Main function: apply a rating, routing through learning/relearning steps
+ * before delegating to the day-based scheduler
+ */
+export function applyReview(
+  currentData: CardReviewData,
+  difficulty: Difficulty,
+  scheduler: Scheduler = getScheduler(),
+  config: LearningStepsConfig = defaultStepsConfig
+): ReviewResult {
+  const state = getLearningState(currentData);
+  const { learningSteps, relearningSteps } = config;
+
+  // New and learning cards work through the learning steps
+  if (state === "new" || state === "learning") {
+    const currentStep = state === "new" ? 0 : (currentData.learningStep ?? 0);
+    const nextStep = getNextStepIndex(currentStep, difficulty);
+
+    if (nextStep !== null && nextStep < learningSteps.length) {
+      return stepResult(
+        currentData,
+        "learning",
+        nextStep,
+        learningSteps[nextStep]
+      );
+    }
+
+    // Graduate: the scheduler computes the first real interval
+    return {
+      ...scheduler.calculateNextReviewData(currentData, difficulty),
+      learningState: "review",
+      learningStep: null,
+    };
+  }
+
+  // Relearning cards work through the relearning steps
+  if (state === "relearning") {
+    const currentStep = currentData.learningStep ?? 0;
+    const nextStep = getNextStepIndex(currentStep, difficulty);
+
+    if (nextStep !== null && nextStep < relearningSteps.length) {
+      return stepResult(
+        currentData,
+        "relearning",
+        nextStep,
+        relearningSteps[nextStep]
+      );
+    }
+
+    // Graduate back to review using the interval computed at the lapse
+    const interval = Math.max(1, currentData.interval);
+    return {
+      easeFactor: currentData.easeFactor,
+      interval,
+      nextReview: calculateNextReview(interval),
+      reviewCount: currentData.reviewCount,
+      stability: currentData.stability,
+      fsrsDifficulty: currentData.fsrsDifficulty,
+      learningState: "review",
+      learningStep: null,
+    };
+  }
+
+  // Review cards: a lapse enters relearning, anything else is scheduled
+  const result = scheduler.calculateNextReviewData(currentData, difficulty);
+
+  if (difficulty === "again" && relearningSteps.length > 0) {
+    return {
+      ...result,
+      nextReview: calculateNextReviewMinutes(relearningSteps[0]),
+      learningState: "relearning",
+      learningStep: 0,
+    };
+  }
+
+  return {
+    ...result,
+    learningState: "review",
+    learningStep: null,
+  };
+}
+
+/**
+ * Whether a card is currently in intra-day (re)learning steps
+ */
+export function isInLearningSteps(learningState?: LearningState): boolean {
+  return learningState === "learning" || learningState === "relearning";
+}
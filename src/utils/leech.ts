@@ -0,0 +1,53 @@
+import { Difficulty } from "./spacedRepAlgorithm";
+import { LearningState } from "./types";
+
+/**
+ * Leech Detection
+ * Cards that keep lapsing are flagged as leeches so they can be rewritten
+ * instead of cycling forever at the minimum ease factor
+ */
+
+export const LEECH_TAG = "leech";
+
+/**
+ * A lapse is forgetting a card that had graduated to review
+ */
+export function isLapse(
+  learningState: LearningState,
+  difficulty: Difficulty
+): boolean {
+  return learningState === "review" && difficulty === "again";
+}
+
+/**
+ * Whether a card just crossed the leech threshold
+ * Cards that keep lapsing after that are flagged again every half threshold
+ */
+export function isLeechLapse(lapses: number, threshold: number): boolean {
+  if (threshold <= 0 || lapses < threshold) return false;
+
+  const repeatEvery = Math.max(1, Math.ceil(threshold / 2));
+  return (lapses - threshold) % repeatEvery === 0;
+}
+
+/**
+ * Whether a card has been tagged as a leech
+ */
+export function isLeech(tags?: string[]): boolean {
+  return !!tags && tags.includes(LEECH_TAG);
+}
+
+/**
+ * Add a tag (no-op if already present)
+ */
+export function addTag(tags: string[] | undefined, tag: string): string[] {
+  const current = tags || [];
+  return current.includes(tag) ? current : [...current, tag];
+}
+
+/**
+ * Remove a tag
+ */
+export function removeTag(tags: string[] | undefined, tag: string): string[] {
+  return (tags || []).filter((t) => t !== tag);
+}
@@ -0,0 +1,113 @@
+import { appConfig } from "../config/appConfig";
+import { Card, ReviewDifficulty } from "./types";
+import { Rng } from "./intervalFuzz";
+import { normalizeAnswer } from "./answerGrading";
+import { getCardSides, isReverseCard } from "./cardDirection";
+import { isClozeCard } from "./cloze";
+
+/**
+ * Quiz Mode
+ * Turns cards into multiple-choice questions. Wrong answers come from the
+ * card's cached AI distractors, or from other cards in the deck offline.
+ */
+
+/**
+ * Wrong answers shown with each question
+ */
+export function getDistractorCount(): number {
+  return Math.max(1, appConfig.studySession.quiz.optionCount - 1);
+}
+
+/**
+ * Whether a card has enough cached distractors to skip generation
+ */
+export function hasCachedDistractors(card: Card): boolean {
+  return (card.distractors?.length ?? 0) >= getDistractorCount();
+}
+
+/**
+ * Copy of the items in random order (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], rng: Rng = Math.random): T[] {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+/**
+ * Distinct wrong answers, leaving out anything that reads like the answer
+ */
+export function cleanDistractors(
+  answer: string,
+  distractors: string[]
+): string[] {
+  const seen = new Set([normalizeAnswer(answer)]);
+
+  return distractors
+    .map((distractor) => distractor.trim())
+    .filter((distractor) => {
+      const key = normalizeAnswer(distractor);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Offline distractors: answers of other cards from the same deck
+ * (their questions for a reverse card)
+ */
+export function pickFallbackDistractors(
+  card: Card,
+  deckCards: Card[],
+  count: number = getDistractorCount(),
+  rng: Rng = Math.random
+): string[] {
+  const cloze = isClozeCard(card);
+  const answers = deckCards
+    .filter(
+      (other) =>
+        other.id !== card.id &&
+        other.deck_id === card.deck_id &&
+        isClozeCard(other) === cloze
+    )
+    .map((other) =>
+      cloze
+        ? getCardSides(other).back
+        : isReverseCard(card)
+          ? other.question
+          : other.answer
+    );
+
+  return cleanDistractors(getCardSides(card).back, shuffle(answers, rng)).slice(
+    0,
+    count
+  );
+}
+
+/**
+ * Shuffled choices for a question: the answer plus up to `count` distractors
+ */
+export function buildQuizOptions(
+  answer: string,
+  distractors: string[],
+  count: number = getDistractorCount(),
+  rng: Rng = Math.random
+): string[] {
+  return shuffle(
+    [answer, ...cleanDistractors(answer, distractors).slice(0, count)],
+    rng
+  );
+}
+
+/**
+ * Rating recorded for a quiz answer
+ */
+export function getQuizRating(correct: boolean): ReviewDifficulty {
+  return correct ? "medium" : "again";
+}
@@ -0,0 +1,215 @@
+import { appConfig } from "../config/appConfig";
+import { AppError, ErrorCode } from "./errorHandling";
+import { Card } from "./types";
+import { initializeCardReviewData } from "./spacedRepAlgorithm";
+import { getBacklog } from "./catchUp";
+import { getCardLearningState } from "./learningSteps";
+import {
+  getDaysBetween,
+  getStartOfDate,
+  getStartOfDay,
+  getStartOfDayOffset,
+  parseDate,
+} from "./dateUtils";
+
+/**
+ * Bulk Reschedule
+ * Builds the card changes for library-level operations on many cards, and
+ * the changes that undo them
+ */
+
+export type RescheduleAction = "forget" | "set_due" | "reset_ease" | "catch_up";
+
+// Card fields to write; null clears a column
+export type CardChanges = { [K in keyof Card]?: Card[K] | null };
+
+export interface CardChangeSet {
+  id: string;
+  data: CardChanges;
+}
+
+// Cards given the same changes, written in one request
+export interface CardChangeBatch {
+  ids: string[];
+  data: CardChanges;
+}
+
+// Day offsets from today, inclusive ("0" = today, "1-7" = spread over a week)
+export interface DueRange {
+  startDay: number;
+  endDay: number;
+}
+
+export const RESCHEDULE_LABELS: Record<RescheduleAction, string> = {
+  forget: "Forget",
+  set_due: "Set due date",
+  reset_ease: "Reset ease",
+  catch_up: "Catch up",
+};
+
+/**
+ * Parses a due date typed as a day offset ("3"), a range of offsets ("1-7")
+ * or a calendar date ("2026-11-01")
+ * Returns null for input that doesn't describe today or a later day
+ */
+export function parseDueRange(
+  text: string,
+  today: Date = new Date()
+): DueRange | null {
+  const value = text.trim();
+
+  const rangeMatch = value.match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+  if (rangeMatch) {
+    const startDay = Number(rangeMatch[1]);
+    const endDay =
+      rangeMatch[2] !== undefined ? Number(rangeMatch[2]) : startDay;
+    return endDay >= startDay ? { startDay, endDay } : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = parseDate(value);
+    if (isNaN(date.getTime())) return null;
+
+    const day = getDaysBetween(getStartOfDay(today), getStartOfDate(value));
+    return day >= 0 ? { startDay: day, endDay: day } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Changes that turn a card back into a new card
+ * Lapses and tags are kept so leeches stay visible
+ */
+export function getForgetChanges(): CardChanges {
+  const initial = initializeCardReviewData();
+
+  return {
+    ease_factor: initial.easeFactor,
+    interval: initial.interval,
+    review_count: initial.reviewCount,
+    next_review: initial.nextReview,
+    learning_state: "new",
+    learning_step: null,
+  };
+}
+
+/**
+ * Changes that move cards to the given days, spread evenly across the range
+ * Cards that haven't graduated become review cards
+ */
+export function getDueDateChanges(
+  cards: Card[],
+  range: DueRange,
+  today: Date = new Date()
+): CardChangeSet[] {
+  const span = range.endDay - range.startDay + 1;
+
+  return cards.map((card, index) => {
+    const day =
+      range.startDay + Math.floor((index * span) / Math.max(1, cards.length));
+    const data: CardChanges = {
+      next_review: getStartOfDayOffset(day, today),
+    };
+
+    if (getCardLearningState(card) !== "review") {
+      data.learning_state = "review";
+      data.learning_step = null;
+      data.interval = Math.max(1, day);
+    }
+
+    return { id: card.id, data };
+  });
+}
+
+export function getResetEaseChanges(): CardChanges {
+  return {
+    ease_factor: appConfig.spacedRepetition.defaultEaseFactor,
+  };
+}
+
+/**
+ * Changes for a bulk action on the given cards
+ */
+export function getRescheduleChanges(
+  action: RescheduleAction,
+  cards: Card[],
+  range?: DueRange,
+  today: Date = new Date()
+): CardChangeSet[] {
+  switch (action) {
+    case "forget":
+      return cards.map((card) => ({ id: card.id, data: getForgetChanges() }));
+    case "set_due":
+      if (!range) {
+        throw new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          "A due date or range is required"
+        );
+      }
+      return getDueDateChanges(cards, range, today);
+    case "catch_up":
+      // Only the overdue cards move, most at-risk first
+      return getDueDateChanges(
+        getBacklog(cards, today),
+        range ?? { startDay: 0, endDay: 0 },
+        today
+      );
+    case "reset_ease":
+      return cards.map((card) => ({
+        id: card.id,
+        data: getResetEaseChanges(),
+      }));
+  }
+}
+
+/**
+ * Groups cards given the same changes into batches of at most `batchSize`,
+ * so a bulk operation needs a few requests instead of one per card
+ * Changes only match when built with their fields in the same order
+ */
+export function batchCardChanges(
+  updates: CardChangeSet[],
+  batchSize: number
+): CardChangeBatch[] {
+  const groups = new Map<string, CardChangeBatch[]>();
+
+  updates.forEach(({ id, data }) => {
+    const key = JSON.stringify(data);
+    const batches = groups.get(key) ?? [];
+    const last = batches[batches.length - 1];
+
+    if (last && last.ids.length < batchSize) {
+      last.ids.push(id);
+    } else {
+      batches.push({ ids: [id], data });
+    }
+
+    groups.set(key, batches);
+  });
+
+  return Array.from(groups.values()).flat();
+}
+
+/**
+ * Changes that restore the fields a change set is about to overwrite
+ */
+export function getUndoChanges(
+  cards: Card[],
+  changes: CardChangeSet[]
+): CardChangeSet[] {
+  const byId = new Map(cards.map((card) => [card.id, card]));
+
+  return changes
+    .filter((change) => byId.has(change.id))
+    .map((change) => {
+      const card = byId.get(change.id) as Card;
+      const data: CardChanges = {};
+
+      (Object.keys(change.data) as (keyof Card)[]).forEach((key) => {
+        (data as Record<string, unknown>)[key] = card[key] ?? null;
+      });
+
+      return { id: change.id, data };
+    });
+}
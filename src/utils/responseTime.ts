@@ -0,0 +1,63 @@
+import { appConfig } from "../config/appConfig";
+import { ReviewDifficulty, ReviewLog } from "./types";
+
+/**
+ * Response Time
+ * How long the user usually takes to reveal an answer they know, measured
+ * from their logged reviews. Compared to that baseline, a fast answer
+ * suggests "easy" and a very slow one suggests "hard".
+ */
+
+export interface ResponseTimeBaseline {
+  median_ms: number; // Typical time to reveal a correct answer
+  sample_count: number;
+}
+
+function isCorrect(rating: ReviewDifficulty): boolean {
+  return rating === "medium" || rating === "easy";
+}
+
+/**
+ * Baseline from logged reviews, or null with too few timed correct answers
+ * Answers left open longer than the configured maximum (the user was most
+ * likely distracted) are ignored
+ */
+export function calculateResponseTimeBaseline(
+  reviewLogs: ReviewLog[]
+): ResponseTimeBaseline | null {
+  const { minSamples, maxResponseMs } = appConfig.studySession.responseTime;
+
+  const times = reviewLogs
+    .filter((log) => isCorrect(log.rating))
+    .map((log) => log.response_time_ms)
+    .filter(
+      (time): time is number =>
+        typeof time === "number" && time > 0 && time <= maxResponseMs
+    )
+    .sort((a, b) => a - b);
+
+  if (times.length < minSamples) return null;
+
+  const middle = Math.floor(times.length / 2);
+  const median =
+    times.length % 2 === 0
+      ? (times[middle - 1] + times[middle]) / 2
+      : times[middle];
+
+  return { median_ms: Math.round(median), sample_count: times.length };
+}
+
+/**
+ * Rating suggested by the time taken to reveal a correct answer
+ * Returns null for times close to the baseline
+ */
+export function suggestRatingFromResponseTime(
+  responseTimeMs: number,
+  baseline: ResponseTimeBaseline
+): ReviewDifficulty | null {
+  const { fastRatio, slowRatio } = appConfig.studySession.responseTime;
+
+  if (responseTimeMs <= baseline.median_ms * fastRatio) return "easy";
+  if (responseTimeMs >= baseline.median_ms * slowRatio) return "hard";
+  return null;
+}
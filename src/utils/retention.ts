@@ -0,0 +1,159 @@
+import { appConfig } from "../config/appConfig";
+import { Card, ReviewLog } from "./types";
+import { CardReviewData } from "./spacedRepAlgorithm";
+import { calculateRetrievability } from "./fsrsAlgorithm";
+import { getLearningState } from "./learningSteps";
+
+/**
+ * Retention
+ * True retention measured from logged review outcomes, and the predicted
+ * probability of recalling each card right now
+ *
+ * Only reviews of graduated cards count: learning steps are short-term
+ * practice, not a test of long-term memory. A review passes unless it was
+ * answered "again".
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface RetentionRate {
+  passed: number;
+  total: number;
+  rate: number | null; // Percentage (0-100), null without reviews
+}
+
+export interface RetentionWindow {
+  days: number;
+  young: RetentionRate; // Reviewed at an interval below the mature threshold
+  mature: RetentionRate;
+  overall: RetentionRate;
+}
+
+function toRate(passed: number, total: number): RetentionRate {
+  return {
+    passed,
+    total,
+    rate: total > 0 ? Math.round((passed / total) * 100) : null,
+  };
+}
+
+/**
+ * Whether a logged review tests long-term recall of a graduated card
+ */
+export function isRetentionReview(log: ReviewLog): boolean {
+  return log.review_type === "review";
+}
+
+/**
+ * Pass rate of reviews logged in the last `days` days, split by card maturity
+ */
+export function calculateTrueRetention(
+  logs: ReviewLog[],
+  days: number,
+  now: Date = new Date()
+): RetentionWindow {
+  const { matureIntervalDays } = appConfig.statistics;
+  const since = now.getTime() - days * MS_PER_DAY;
+  const counts = {
+    young: { passed: 0, total: 0 },
+    mature: { passed: 0, total: 0 },
+  };
+
+  logs.forEach((log) => {
+    const reviewedAt = new Date(log.reviewed_at).getTime();
+    if (
+      !isRetentionReview(log) ||
+      reviewedAt < since ||
+      reviewedAt > now.getTime()
+    ) {
+      return;
+    }
+
+    const bucket =
+      log.previous_interval >= matureIntervalDays
+        ? counts.mature
+        : counts.young;
+    bucket.total += 1;
+    if (log.rating !== "again") {
+      bucket.passed += 1;
+    }
+  });
+
+  return {
+    days,
+    young: toRate(counts.young.passed, counts.young.total),
+    mature: toRate(counts.mature.passed, counts.mature.total),
+    overall: toRate(
+      counts.young.passed + counts.mature.passed,
+      counts.young.total + counts.mature.total
+    ),
+  };
+}
+
+/**
+ * True retention for each configured window (7 and 30 days by default)
+ */
+export function calculateRetentionWindows(
+  logs: ReviewLog[],
+  windows: number[] = appConfig.statistics.retentionWindows,
+  now: Date = new Date()
+): RetentionWindow[] {
+  return windows.map((days) => calculateTrueRetention(logs, days, now));
+}
+
+/**
+ * Review data of a stored card
+ */
+export function getCardReviewData(card: Card): CardReviewData {
+  return {
+    easeFactor: card.ease_factor,
+    interval: card.interval,
+    reviewCount: card.review_count,
+    lastReviewed: card.last_reviewed || card.created_at,
+    nextReview: card.next_review || card.created_at,
+    stability: card.stability,
+    fsrsDifficulty: card.fsrs_difficulty,
+    learningState: card.learning_state,
+  };
+}
+
+/**
+ * Predicted probability (0-1) of recalling a card right now
+ * FSRS cards use their memory stability. SM-2 cards assume the forgetting
+ * curve reaches the target retention on the due date. Returns null for
+ * cards that haven't graduated yet.
+ */
+export function predictRetention(
+  data: CardReviewData,
+  now: Date = new Date()
+): number | null {
+  if (getLearningState(data) !== "review" || data.interval <= 0) return null;
+
+  const elapsedDays = Math.max(
+    0,
+    (now.getTime() - new Date(data.lastReviewed).getTime()) / MS_PER_DAY
+  );
+
+  if (data.stability && data.stability > 0) {
+    return calculateRetrievability(elapsedDays, data.stability);
+  }
+
+  return Math.pow(appConfig.fsrs.requestRetention, elapsedDays / data.interval);
+}
+
+/**
+ * Average predicted retention as a percentage, null without graduated cards
+ */
+export function calculatePredictedRetention(
+  cards: CardReviewData[],
+  now: Date = new Date()
+): number | null {
+  const predictions = cards
+    .map((card) => predictRetention(card, now))
+    .filter((value): value is number => value !== null);
+
+  if (predictions.length === 0) return null;
+
+  const sum = predictions.reduce((acc, value) => acc + value, 0);
+  return Math.round((sum / predictions.length) * 100);
+}
@@ -0,0 +1,37 @@
+import { Card } from "./types";
+import { CardChanges } from "./reschedule";
+
+/**
+ * Review Undo
+ * Puts a card back the way it was before a review was recorded
+ */
+
+// Card fields a review can write (scheduling, lapses and leech handling)
+export const REVIEWED_FIELDS: (keyof Card)[] = [
+  "ease_factor",
+  "interval",
+  "review_count",
+  "last_reviewed",
+  "next_review",
+  "stability",
+  "fsrs_difficulty",
+  "learning_state",
+  "learning_step",
+  "lapses",
+  "tags",
+  "suspended",
+];
+
+/**
+ * Changes that restore every field a review can write
+ * Fields the card didn't have are cleared
+ */
+export function getReviewUndoChanges(previous: Card): CardChanges {
+  const data: CardChanges = {};
+
+  REVIEWED_FIELDS.forEach((key) => {
+    (data as Record<string, unknown>)[key] = previous[key] ?? null;
+  });
+
+  return data;
+}
@@ -0,0 +1,107 @@
+import { appConfig } from "../config/appConfig";
+import {
+  FsrsParameters,
+  SchedulerParameters,
+  SchedulerType,
+  SchedulingOptions,
+  Sm2Parameters,
+} from "./types";
+import {
+  calculateNextReviewData,
+  initializeCardReviewData,
+  CardReviewData,
+  Difficulty,
+  ReviewResult,
+} from "./spacedRepAlgorithm";
+import { calculateFsrsReviewData } from "./fsrsAlgorithm";
+
+/**
+ * Scheduler abstraction
+ * Lets the app switch between spaced repetition algorithms per user
+ */
+
+export interface Scheduler {
+  type: SchedulerType;
+  name: string;
+  calculateNextReviewData(
+    currentData: CardReviewData,
+    difficulty: Difficulty
+  ): ReviewResult;
+  initializeCardReviewData(): CardReviewData;
+}
+
+/**
+ * SM-2 Lite scheduler (ease factor based)
+ */
+export function createSm2Scheduler(
+  parameters?: Sm2Parameters,
+  options?: SchedulingOptions
+): Scheduler {
+  return {
+    type: "sm2",
+    name: "SM-2",
+    calculateNextReviewData: (currentData, difficulty) =>
+      calculateNextReviewData(currentData, difficulty, parameters, options),
+    initializeCardReviewData,
+  };
+}
+
+/**
+ * FSRS scheduler (stability/difficulty/retrievability based)
+ */
+export function createFsrsScheduler(
+  parameters?: FsrsParameters,
+  options?: SchedulingOptions
+): Scheduler {
+  return {
+    type: "fsrs",
+    name: "FSRS",
+    calculateNextReviewData: (currentData, difficulty) =>
+      calculateFsrsReviewData(
+        currentData,
+        difficulty,
+        parameters?.weights,
+        options?.requestRetention
+      ),
+    initializeCardReviewData,
+  };
+}
+
+export const sm2Scheduler: Scheduler = createSm2Scheduler();
+
+export const fsrsScheduler: Scheduler = createFsrsScheduler();
+
+const schedulers: Record<SchedulerType, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+/**
+ * Returns the scheduler for the given type (falls back to the app default)
+ * Parameters fitted to the user's history and the deck's scheduling options
+ * replace the defaults when given
+ */
+export function getScheduler(
+  type?: SchedulerType,
+  parameters?: SchedulerParameters,
+  options?: SchedulingOptions
+): Scheduler {
+  const resolvedType = type ?? appConfig.spacedRepetition.defaultScheduler;
+
+  if (resolvedType === "fsrs" && (parameters?.fsrs || options)) {
+    return createFsrsScheduler(parameters?.fsrs, options);
+  }
+
+  if (resolvedType === "sm2" && (parameters?.sm2 || options)) {
+    return createSm2Scheduler(parameters?.sm2, options);
+  }
+
+  return schedulers[resolvedType] ?? sm2Scheduler;
+}
+
+/**
+ * Lists all available schedulers (for settings UI)
+ */
+export function getAvailableSchedulers(): Scheduler[] {
+  return Object.values(schedulers);
+}
@@ -0,0 +1,486 @@
+import { appConfig } from "../config/appConfig";
+import { AppError, ErrorCode } from "./errorHandling";
+import {
+  ReviewLog,
+  SchedulerParameters,
+  SchedulerType,
+  Sm2Parameters,
+} from "./types";
+import {
+  CardReviewData,
+  Difficulty,
+  calculateNextReviewData,
+  defaultSm2Parameters,
+} from "./spacedRepAlgorithm";
+import {
+  FsrsMemoryState,
+  calculateFsrsInterval,
+  calculateRetrievability,
+  nextFsrsMemoryState,
+} from "./fsrsAlgorithm";
+
+/**
+ * Scheduler Parameter Optimizer
+ * Fits scheduler parameters to the user's own review history (runs offline)
+ *
+ * FSRS weights are fitted directly by minimizing log loss on recall outcomes.
+ * The fitted FSRS model then stands in for the user's memory: SM-2 ease
+ * deltas and initial intervals are tuned so their intervals land on the
+ * target retention under that model.
+ *
+ * Fitting yields to the event loop between passes so a long history doesn't
+ * freeze the UI.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Keeps probabilities away from 0/1 so log loss stays finite
+const EPSILON = 1e-6;
+
+// Allowed range for each FSRS-4.5 weight (w0-w16)
+const FSRS_WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 4],
+  [0.1, 4],
+  [0, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.01, 3.5],
+  [0.1, 5],
+  [0.01, 0.2],
+  [0.01, 0.9],
+  [0.01, 2],
+  [0, 1],
+  [1, 6],
+];
+
+// Allowed range for SM-2 parameters, in the order used by toSm2Vector
+const SM2_PARAMETER_BOUNDS: [number, number][] = [
+  [-0.5, 0], // ease delta: hard
+  [-0.2, 0.2], // ease delta: medium
+  [0, 0.5], // ease delta: easy
+  [0.5, 3], // initial interval: again
+  [0.5, 5], // initial interval: hard
+  [1, 10], // initial interval: medium
+  [1, 20], // initial interval: easy
+];
+
+interface ReviewEvent {
+  rating: Difficulty;
+  elapsedDays: number; // Since the card's previous review
+  updatesScheduler: boolean; // Graduation or review (not an intra-day step)
+  isRecallSample: boolean; // Review of a graduated card
+}
+
+export interface OptimizationReport {
+  scheduler: SchedulerType;
+  reviewCount: number; // Recall outcomes used for fitting
+  actualRetention: number; // Observed pass rate on graduated cards
+  retentionBefore: number; // Expected with the current parameters
+  retentionAfter: number; // Expected with the fitted parameters
+  parameters: SchedulerParameters; // Current parameters with the fitted ones
+}
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Lets pending UI work run before the next pass
+ */
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Groups logs per card in chronological order
+ */
+function buildReviewHistories(logs: ReviewLog[]): ReviewEvent[][] {
+  const byCard = new Map<string, ReviewLog[]>();
+
+  logs.forEach((log) => {
+    const cardLogs = byCard.get(log.card_id) || [];
+    cardLogs.push(log);
+    byCard.set(log.card_id, cardLogs);
+  });
+
+  return Array.from(byCard.values()).map((cardLogs) => {
+    const sorted = [...cardLogs].sort(
+      (a, b) =>
+        new Date(a.reviewed_at).getTime() - new Date(b.reviewed_at).getTime()
+    );
+
+    return sorted.map((log, index) => {
+      const previous = index > 0 ? sorted[index - 1] : null;
+      const isReview = log.review_type === "review";
+      const graduates =
+        (log.review_type === "new" || log.review_type === "learning") &&
+        log.new_interval >= 1;
+
+      return {
+        rating: log.rating,
+        elapsedDays: previous
+          ? (new Date(log.reviewed_at).getTime() -
+              new Date(previous.reviewed_at).getTime()) /
+            MS_PER_DAY
+          : 0,
+        updatesScheduler: isReview || graduates,
+        isRecallSample: isReview,
+      };
+    });
+  });
+}
+
+/**
+ * Pass (1) / fail (0) of every review that has a prior scheduling event
+ * (cards whose history starts mid-way can't be scored on their first review)
+ */
+function collectRecallOutcomes(histories: ReviewEvent[][]): number[] {
+  const outcomes: number[] = [];
+
+  histories.forEach((events) => {
+    let scheduled = false;
+
+    events.forEach((event) => {
+      if (!event.updatesScheduler) return;
+
+      if (scheduled && event.isRecallSample) {
+        outcomes.push(event.rating === "again" ? 0 : 1);
+      }
+      scheduled = true;
+    });
+  });
+
+  return outcomes;
+}
+
+/**
+ * Mean log loss of FSRS recall predictions for the given weights
+ */
+function fsrsLogLoss(histories: ReviewEvent[][], weights: number[]): number {
+  let loss = 0;
+  let count = 0;
+
+  histories.forEach((events) => {
+    let state: FsrsMemoryState | null = null;
+
+    events.forEach((event) => {
+      if (!event.updatesScheduler) return;
+
+      if (state && event.isRecallSample) {
+        const predicted = clamp(
+          calculateRetrievability(event.elapsedDays, state.stability),
+          [EPSILON, 1 - EPSILON]
+        );
+        const recalled = event.rating !== "again";
+
+        loss -= recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        count++;
+      }
+
+      state = nextFsrsMemoryState(
+        state,
+        event.rating,
+        event.elapsedDays,
+        weights
+      );
+    });
+  });
+
+  return count > 0 ? loss / count : 0;
+}
+
+/**
+ * Gradient-free coordinate descent within bounds
+ * Tries a step up/down on each parameter, halving steps once nothing improves
+ */
+async function coordinateDescent(
+  initial: number[],
+  bounds: [number, number][],
+  loss: (parameters: number[]) => number
+): Promise<number[]> {
+  let best = initial.map((value, i) => clamp(value, bounds[i]));
+  let bestLoss = loss(best);
+  const steps = bounds.map(([min, max]) => (max - min) * 0.05);
+
+  for (
+    let iteration = 0;
+    iteration < appConfig.optimizer.maxIterations;
+    iteration++
+  ) {
+    let improved = false;
+
+    for (let i = 0; i < best.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = [...best];
+        candidate[i] = clamp(best[i] + direction * steps[i], bounds[i]);
+        if (candidate[i] === best[i]) continue;
+
+        const candidateLoss = loss(candidate);
+        if (candidateLoss < bestLoss) {
+          best = candidate;
+          bestLoss = candidateLoss;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) {
+      steps.forEach((step, i) => {
+        steps[i] = step / 2;
+      });
+    }
+
+    await nextTick();
+  }
+
+  return best;
+}
+
+/**
+ * Fits FSRS weights to recall outcomes
+ */
+async function fitFsrsWeights(
+  histories: ReviewEvent[][],
+  initialWeights: number[]
+): Promise<number[]> {
+  const fitted = await coordinateDescent(
+    initialWeights,
+    FSRS_WEIGHT_BOUNDS,
+    (weights) => fsrsLogLoss(histories, weights)
+  );
+
+  return fitted.map((weight) => round(weight, 4));
+}
+
+/**
+ * Memory stability after each scheduling event, per card
+ */
+function replayStabilities(
+  histories: ReviewEvent[][],
+  weights: number[]
+): number[][] {
+  return histories.map((events) => {
+    let state: FsrsMemoryState | null = null;
+    const stabilities: number[] = [];
+
+    events.forEach((event) => {
+      if (!event.updatesScheduler) return;
+
+      state = nextFsrsMemoryState(
+        state,
+        event.rating,
+        event.elapsedDays,
+        weights
+      );
+      stabilities.push(state.stability);
+    });
+
+    return stabilities;
+  });
+}
+
+/**
+ * Replays a scheduler along each card's ratings and returns the recall
+ * probability (under the fitted memory model) at every interval it picks
+ */
+function predictRecallAtIntervals(
+  histories: ReviewEvent[][],
+  stabilities: number[][],
+  createIntervalStepper: () => (event: ReviewEvent) => number
+): number[] {
+  const predictions: number[] = [];
+
+  histories.forEach((events, cardIndex) => {
+    const nextInterval = createIntervalStepper();
+    let eventIndex = 0;
+
+    events.forEach((event) => {
+      if (!event.updatesScheduler) return;
+
+      const interval = nextInterval(event);
+      const stability = stabilities[cardIndex][eventIndex++];
+
+      predictions.push(calculateRetrievability(interval, stability));
+    });
+  });
+
+  return predictions;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function fsrsIntervalStepper(weights: number[]) {
+  return () => {
+    let state: FsrsMemoryState | null = null;
+
+    return (event: ReviewEvent) => {
+      state = nextFsrsMemoryState(
+        state,
+        event.rating,
+        event.elapsedDays,
+        weights
+      );
+      return calculateFsrsInterval(state.stability);
+    };
+  };
+}
+
+function sm2IntervalStepper(parameters: Sm2Parameters) {
+  return () => {
+    let data: CardReviewData = {
+      easeFactor: appConfig.spacedRepetition.defaultEaseFactor,
+      interval: 0,
+      reviewCount: 0,
+      lastReviewed: new Date().toISOString(),
+      nextReview: new Date().toISOString(),
+    };
+
+    return (event: ReviewEvent) => {
+      const result = calculateNextReviewData(data, event.rating, parameters);
+      data = { ...data, ...result };
+      return result.interval;
+    };
+  };
+}
+
+function toSm2Vector(parameters: Sm2Parameters): number[] {
+  const { easeDeltas, initialIntervals } = parameters;
+  return [
+    easeDeltas.hard,
+    easeDeltas.medium,
+    easeDeltas.easy,
+    initialIntervals.again,
+    initialIntervals.hard,
+    initialIntervals.medium,
+    initialIntervals.easy,
+  ];
+}
+
+function fromSm2Vector(vector: number[]): Sm2Parameters {
+  return {
+    easeDeltas: {
+      hard: round(vector[0], 2),
+      medium: round(vector[1], 2),
+      easy: round(vector[2], 2),
+    },
+    initialIntervals: {
+      again: round(vector[3], 1),
+      hard: round(vector[4], 1),
+      medium: round(vector[5], 1),
+      easy: round(vector[6], 1),
+    },
+  };
+}
+
+/**
+ * Fits SM-2 ease deltas and initial intervals so scheduled intervals hit
+ * the target retention
+ */
+async function fitSm2Parameters(
+  histories: ReviewEvent[][],
+  stabilities: number[][],
+  initial: Sm2Parameters,
+  targetRetention: number
+): Promise<Sm2Parameters> {
+  const fitted = await coordinateDescent(
+    toSm2Vector(initial),
+    SM2_PARAMETER_BOUNDS,
+    (vector) => {
+      const predictions = predictRecallAtIntervals(
+        histories,
+        stabilities,
+        sm2IntervalStepper(fromSm2Vector(vector))
+      );
+      return mean(predictions.map((r) => Math.pow(r - targetRetention, 2)));
+    }
+  );
+
+  return fromSm2Vector(fitted);
+}
+
+/**
+ * Main function: fit the given scheduler to the user's review logs
+ */
+export async function optimizeSchedulerParameters(
+  logs: ReviewLog[],
+  scheduler: SchedulerType,
+  currentParameters: SchedulerParameters = {}
+): Promise<OptimizationReport> {
+  const histories = buildReviewHistories(logs);
+
+  const outcomes = collectRecallOutcomes(histories);
+
+  if (outcomes.length < appConfig.optimizer.minReviews) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      `At least ${appConfig.optimizer.minReviews} reviews are needed to optimize (you have ${outcomes.length})`
+    );
+  }
+
+  const targetRetention = appConfig.fsrs.requestRetention;
+  const currentWeights =
+    currentParameters.fsrs?.weights ?? appConfig.fsrs.weights;
+
+  // The fitted FSRS model is the best estimate of the user's memory
+  const fittedWeights = await fitFsrsWeights(histories, currentWeights);
+  const stabilities = replayStabilities(histories, fittedWeights);
+
+  const expectedRetention = (
+    createIntervalStepper: () => (event: ReviewEvent) => number
+  ) =>
+    mean(
+      predictRecallAtIntervals(histories, stabilities, createIntervalStepper)
+    );
+
+  const baseReport = {
+    scheduler,
+    reviewCount: outcomes.length,
+    actualRetention: mean(outcomes),
+  };
+
+  if (scheduler === "fsrs") {
+    return {
+      ...baseReport,
+      retentionBefore: expectedRetention(fsrsIntervalStepper(currentWeights)),
+      retentionAfter: expectedRetention(fsrsIntervalStepper(fittedWeights)),
+      parameters: {
+        ...currentParameters,
+        fsrs: { weights: fittedWeights },
+        optimized_at: new Date().toISOString(),
+      },
+    };
+  }
+
+  const currentSm2 = currentParameters.sm2 ?? defaultSm2Parameters;
+  const fittedSm2 = await fitSm2Parameters(
+    histories,
+    stabilities,
+    currentSm2,
+    targetRetention
+  );
+
+  return {
+    ...baseReport,
+    retentionBefore: expectedRetention(sm2IntervalStepper(currentSm2)),
+    retentionAfter: expectedRetention(sm2IntervalStepper(fittedSm2)),
+    parameters: {
+      ...currentParameters,
+      sm2: fittedSm2,
+      optimized_at: new Date().toISOString(),
+    },
+  };
+}
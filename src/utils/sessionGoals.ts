@@ -0,0 +1,194 @@
+import { appConfig } from "../config/appConfig";
+import {
+  ActiveStudySession,
+  Card,
+  SessionEndReason,
+  SessionGoal,
+} from "./types";
+import { formatDuration } from "./dateUtils";
+
+/**
+ * Session Goals
+ * A review session can aim for a number of cards, a length of time or a
+ * number of correct answers instead of every due card. Every session except
+ * an exam also ends once it has run for the configured maximum duration.
+ */
+
+export type SessionGoalType = SessionGoal["type"];
+
+export const SESSION_GOAL_LABELS: Record<SessionGoalType, string> = {
+  clear_due: "Clear all due",
+  cards: "Cards",
+  time: "Minutes",
+  correct: "Correct answers",
+};
+
+export interface SessionGoalProgress {
+  current: number;
+  target: number;
+  label: string; // e.g. "12 / 20 correct"
+}
+
+/**
+ * Validates a session goal, returning the first problem found
+ */
+export function validateSessionGoal(goal: SessionGoal): string | null {
+  const { maxCount } = appConfig.studySession.goals;
+  const maxMinutes = Math.floor(appConfig.studySession.maxSessionDuration / 60);
+
+  switch (goal.type) {
+    case "cards":
+    case "correct": {
+      const unit = goal.type === "cards" ? "cards" : "correct answers";
+      if (
+        !Number.isInteger(goal.count) ||
+        goal.count < 1 ||
+        goal.count > maxCount
+      ) {
+        return `Enter between 1 and ${maxCount} ${unit}`;
+      }
+      return null;
+    }
+    case "time":
+      if (
+        !Number.isInteger(goal.minutes) ||
+        goal.minutes < 1 ||
+        goal.minutes > maxMinutes
+      ) {
+        return `Enter between 1 and ${maxMinutes} minutes`;
+      }
+      return null;
+    case "clear_due":
+      return null;
+  }
+}
+
+/**
+ * Cards a session with this goal starts with
+ * Only a card goal shortens the queue; the others study until they're met
+ */
+export function applySessionGoal(cards: Card[], goal?: SessionGoal): Card[] {
+  return goal?.type === "cards" ? cards.slice(0, goal.count) : cards;
+}
+
+/**
+ * Seconds since the session started
+ */
+export function getSessionElapsedSeconds(
+  session: ActiveStudySession,
+  now: number = Date.now()
+): number {
+  return Math.max(0, Math.floor((now - session.session_start_time) / 1000));
+}
+
+/**
+ * Cards reviewed and answered correctly so far
+ * Review sessions count what was saved to each deck's session row; cram
+ * answers only move the session counters
+ */
+export function getStudiedCounts(session: ActiveStudySession): {
+  cards_reviewed: number;
+  correct_count: number;
+} {
+  if (session.session_type !== "review") {
+    return {
+      cards_reviewed: session.cards_reviewed,
+      correct_count: session.correct_count,
+    };
+  }
+
+  return Object.values(session.deck_sessions).reduce(
+    (totals, progress) => ({
+      cards_reviewed: totals.cards_reviewed + progress.cards_reviewed,
+      correct_count: totals.correct_count + progress.correct_count,
+    }),
+    { cards_reviewed: 0, correct_count: 0 }
+  );
+}
+
+/**
+ * How far the session is towards its goal
+ */
+export function getSessionGoalProgress(
+  session: ActiveStudySession,
+  goal: SessionGoal,
+  now: number = Date.now()
+): SessionGoalProgress {
+  const total = session.cards.length;
+  const studied = Math.min(session.current_card_index, total);
+
+  switch (goal.type) {
+    case "cards":
+      return {
+        current: studied,
+        target: total,
+        label: `${studied} / ${total} cards`,
+      };
+    case "time": {
+      const target = goal.minutes * 60;
+      const current = Math.min(getSessionElapsedSeconds(session, now), target);
+      return {
+        current,
+        target,
+        label: `${formatDuration(target - current)} left`,
+      };
+    }
+    case "correct": {
+      const current = Math.min(
+        getStudiedCounts(session).correct_count,
+        goal.count
+      );
+      return {
+        current,
+        target: goal.count,
+        label: `${current} / ${goal.count} correct`,
+      };
+    }
+    case "clear_due": {
+      const left = total - studied + session.learning_queue.length;
+      return {
+        current: studied,
+        target: total,
+        label: `${left} due left`,
+      };
+    }
+  }
+}
+
+/**
+ * Why the session should end now, or null while it continues
+ * Exams keep their own time limit and never end here
+ */
+export function getSessionEndReason(
+  session: ActiveStudySession,
+  now: number = Date.now()
+): SessionEndReason | null {
+  if (session.session_type === "exam") return null;
+
+  const { goal } = session;
+  const elapsed = getSessionElapsedSeconds(session, now);
+  const finished =
+    session.current_card_index >= session.cards.length &&
+    session.learning_queue.length === 0;
+
+  if (goal?.type === "time" && elapsed >= goal.minutes * 60) return "goal";
+  if (
+    goal?.type === "correct" &&
+    getStudiedCounts(session).correct_count >= goal.count
+  ) {
+    return "goal";
+  }
+
+  if (finished) {
+    // Card goals are met by working through the queue
+    return goal?.type === "cards" || goal?.type === "clear_due"
+      ? "goal"
+      : "finished";
+  }
+
+  if (elapsed >= appConfig.studySession.maxSessionDuration) {
+    return "time_limit";
+  }
+
+  return null;
+}
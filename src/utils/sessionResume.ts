@@ -0,0 +1,214 @@
+import {
+  ActiveStudySession,
+  Card,
+  DeckSessionProgress,
+  ReviewDifficulty,
+  SavedStudySession,
+  StudySession,
+} from "./types";
+import { isAvailable } from "./cardState";
+import { isInLearningSteps } from "./learningSteps";
+import { getStartOfDay } from "./dateUtils";
+import { getSessionEndReason } from "./sessionGoals";
+
+/**
+ * Session Resume
+ * The active session is saved to storage while studying, so a session cut
+ * short by the app being closed can be picked up again on the same study day.
+ * Only card IDs are saved; cards are fetched again when resuming.
+ */
+
+// Server state a saved session is checked against when resuming
+export interface SessionResumeState {
+  sessions: StudySession[]; // Session rows that still exist
+  cards: Card[]; // Saved cards that still exist
+  reviews: { card_id: string; rating: ReviewDifficulty }[]; // Since the save
+}
+
+/**
+ * Snapshot of the active session to save
+ * Returns null when there is nothing to resume: exams (their clock doesn't
+ * stop while the app is closed) and sessions that have ended
+ */
+export function toSavedSession(
+  sessionId: string,
+  session: ActiveStudySession,
+  now: Date = new Date()
+): SavedStudySession | null {
+  if (session.session_type === "exam") return null;
+  if (getSessionEndReason(session, now.getTime()) !== null) return null;
+
+  const index = session.current_card_index;
+
+  return {
+    session_id: sessionId,
+    deck_id: session.deck_id,
+    deck_sessions: session.deck_sessions,
+    session_type: session.session_type,
+    goal: session.goal,
+    card_ids: session.cards.map((card) => card.id),
+    current_card_index: index,
+    reviewed_card_ids: Array.from(
+      new Set(session.cards.slice(0, index).map((card) => card.id))
+    ),
+    learning_queue: session.learning_queue.map((item) => ({
+      card_id: item.card.id,
+      due_at: item.due_at,
+    })),
+    cards_reviewed: session.cards_reviewed,
+    correct_count: session.correct_count,
+    elapsed_seconds: Math.floor(
+      (now.getTime() - session.session_start_time) / 1000
+    ),
+    saved_at: now.toISOString(),
+  };
+}
+
+/**
+ * Whether a saved session is from an earlier study day
+ * Its due cards have changed since, so it is finalized instead of resumed
+ */
+export function isSavedSessionStale(
+  saved: SavedStudySession,
+  now: Date = new Date()
+): boolean {
+  return saved.saved_at < getStartOfDay(now);
+}
+
+/**
+ * Cards still to study in a saved session (including learning cards)
+ */
+export function getSavedCardsLeft(saved: SavedStudySession): number {
+  return (
+    Math.max(0, saved.card_ids.length - saved.current_card_index) +
+    saved.learning_queue.length
+  );
+}
+
+/**
+ * Final counters for each session row of a saved session
+ * Rows that no longer exist are skipped; counters the server has moved past
+ * (reviews recorded after the last save) are kept
+ */
+export function getFinalSessionProgress(
+  saved: SavedStudySession,
+  sessions: StudySession[]
+): DeckSessionProgress[] {
+  const rows = new Map(sessions.map((session) => [session.id, session]));
+
+  // Cram answers only move the session counters
+  const progress: DeckSessionProgress[] =
+    saved.session_type === "cram"
+      ? [
+          {
+            session_id: saved.session_id,
+            cards_reviewed: saved.cards_reviewed,
+            correct_count: saved.correct_count,
+            duration_seconds: saved.elapsed_seconds,
+          },
+        ]
+      : Object.values(saved.deck_sessions);
+
+  return progress
+    .filter((item) => rows.has(item.session_id))
+    .map((item) => {
+      const row = rows.get(item.session_id) as StudySession;
+      return {
+        session_id: item.session_id,
+        cards_reviewed: Math.max(item.cards_reviewed, row.cards_reviewed),
+        correct_count: Math.max(item.correct_count, row.correct_count),
+        duration_seconds: Math.max(item.duration_seconds, row.duration_seconds),
+      };
+    });
+}
+
+/**
+ * Rebuilds the active session from a saved one and the current server state
+ * Deleted, suspended and buried cards are dropped, and cards reviewed after
+ * the last save are moved past (or into the learning queue)
+ * Returns null when nothing is left to study
+ */
+export function reconcileSavedSession(
+  saved: SavedStudySession,
+  server: SessionResumeState,
+  now: Date = new Date()
+): ActiveStudySession | null {
+  const cardById = new Map(server.cards.map((card) => [card.id, card]));
+  const isCram = saved.session_type === "cram";
+
+  // Reviews never reach the server during a cram
+  const reviewedSinceSave = isCram ? [] : server.reviews;
+  const reviewedIds = new Set(reviewedSinceSave.map((r) => r.card_id));
+
+  const studyable = (id: string) => {
+    const card = cardById.get(id);
+    return card && isAvailable(card, now) ? card : null;
+  };
+
+  const studied = saved.card_ids
+    .slice(0, saved.current_card_index)
+    .map((id) => cardById.get(id))
+    .filter((card): card is Card => !!card);
+
+  const remaining = saved.card_ids
+    .slice(saved.current_card_index)
+    .filter((id) => !reviewedIds.has(id))
+    .map(studyable)
+    .filter((card): card is Card => !!card);
+
+  const learningQueue = saved.learning_queue
+    .filter((item) => !reviewedIds.has(item.card_id))
+    .map((item) => ({ card: studyable(item.card_id), due_at: item.due_at }))
+    .filter(
+      (item): item is { card: Card; due_at: number } => item.card !== null
+    );
+
+  // Cards reviewed after the save that are still in learning steps
+  reviewedIds.forEach((id) => {
+    const card = studyable(id);
+    if (card && isInLearningSteps(card.learning_state) && card.next_review) {
+      learningQueue.push({
+        card,
+        due_at: new Date(card.next_review).getTime(),
+      });
+    }
+  });
+
+  if (remaining.length === 0 && learningQueue.length === 0) return null;
+
+  // Rows deleted on the server are dropped; deck counters keep later reviews
+  const rows = new Set(server.sessions.map((session) => session.id));
+  const finalProgress = new Map(
+    getFinalSessionProgress(saved, server.sessions).map((progress) => [
+      progress.session_id,
+      progress,
+    ])
+  );
+  const deckSessions = Object.fromEntries(
+    Object.entries(saved.deck_sessions)
+      .filter(([, progress]) => rows.has(progress.session_id))
+      .map(([deckId, progress]) => [
+        deckId,
+        isCram
+          ? progress
+          : (finalProgress.get(progress.session_id) ?? progress),
+      ])
+  );
+
+  const correctSinceSave = reviewedSinceSave.filter(
+    (review) => review.rating === "medium" || review.rating === "easy"
+  ).length;
+
+  return {
+    deck_id: saved.deck_id,
+    deck_sessions: deckSessions,
+    session_type: saved.session_type,
+    goal: saved.goal,
+    current_card_index: studied.length,
+    cards: [...studied, ...remaining],
+    learning_queue: learningQueue,
+    session_start_time: now.getTime() - saved.elapsed_seconds * 1000,
+    cards_reviewed: saved.cards_reviewed + reviewedSinceSave.length,
+    correct_count: saved.correct_count + correctSinceSave,
+  };
+}
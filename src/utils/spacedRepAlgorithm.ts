@@ -1,5 +1,16 @@
 import { appConfig } from "../config/appConfig";
-import { calculateNextReview } from "./dateUtils";
+import { calculateNextReview, isCardDue } from "./dateUtils";
+import {
+  LearningState,
+  ReviewLog,
+  SchedulingOptions,
+  Sm2Parameters,
+} from "./types";
+import {
+  RetentionWindow,
+  calculatePredictedRetention,
+  calculateRetentionWindows,
+} from "./retention";
 
 /**
  * Spaced Repetition Algorithm (SM-2 Lite)
@@ -15,6 +26,10 @@ export interface CardReviewData {
   reviewCount: number;
   lastReviewed: string; // ISO date string
   nextReview: string; // ISO date string
+  stability?: number; // FSRS memory stability (days)
+  fsrsDifficulty?: number; // FSRS memory difficulty (1-10)
+  learningState?: LearningState;
+  learningStep?: number | null; // Index into learning/relearning steps
 }
 
 export interface ReviewResult {
@@ -22,8 +37,30 @@ export interface ReviewResult {
   interval: number;
   nextReview: string;
   reviewCount: number;
+  stability?: number;
+  fsrsDifficulty?: number;
+  learningState?: LearningState;
+  learningStep?: number | null;
 }
 
+/**
+ * Default SM-2 parameters (used until fitted to the user's history)
+ */
+export const defaultSm2Parameters: Sm2Parameters = {
+  easeDeltas: appConfig.spacedRepetition.easeDeltas,
+  initialIntervals: appConfig.spacedRepetition.intervals,
+};
+
+/**
+ * Default scheduling bounds (used for decks without an options preset)
+ */
+export const defaultSchedulingOptions: SchedulingOptions = {
+  minEaseFactor: appConfig.spacedRepetition.minEaseFactor,
+  maxEaseFactor: appConfig.spacedRepetition.maxEaseFactor,
+  easyBonus: appConfig.spacedRepetition.easyBonus,
+  requestRetention: appConfig.fsrs.requestRetention,
+};
+
 /**
  * Calculates new ease factor based on difficulty rating
  * Easy = increase ease factor (card is easy, show less often)
@@ -33,11 +70,10 @@ export interface ReviewResult {
  */
 function calculateNewEaseFactor(
   currentEaseFactor: number,
-  difficulty: Difficulty
+  difficulty: Difficulty,
+  easeDeltas: Sm2Parameters["easeDeltas"],
+  { minEaseFactor, maxEaseFactor }: SchedulingOptions
 ): number {
-  const { minEaseFactor, maxEaseFactor, easyBonus } =
-    appConfig.spacedRepetition;
-
   let newEaseFactor = currentEaseFactor;
 
   switch (difficulty) {
@@ -47,18 +83,9 @@ function calculateNewEaseFactor(
       break;
 
     case "hard":
-      // Decrease ease factor (will show more frequently)
-      newEaseFactor = currentEaseFactor - 0.15;
-      break;
-
     case "medium":
-      // Maintain current ease factor
-      newEaseFactor = currentEaseFactor;
-      break;
-
     case "easy":
-      // Increase ease factor (will show less frequently)
-      newEaseFactor = currentEaseFactor + 0.1;
+      newEaseFactor = currentEaseFactor + easeDeltas[difficulty];
       break;
   }
 
@@ -73,10 +100,10 @@ function calculateNewInterval(
   currentInterval: number,
   easeFactor: number,
   difficulty: Difficulty,
-  reviewCount: number
+  reviewCount: number,
+  intervals: Sm2Parameters["initialIntervals"],
+  easyBonus: number
 ): number {
-  const { intervals } = appConfig.spacedRepetition;
-
   // First review (reviewCount = 0)
   if (reviewCount === 0) {
     switch (difficulty) {
@@ -125,9 +152,7 @@ function calculateNewInterval(
 
     case "easy":
       // Longer interval with easy bonus
-      return Math.round(
-        currentInterval * easeFactor * appConfig.spacedRepetition.easyBonus
-      );
+      return Math.round(currentInterval * easeFactor * easyBonus);
 
     default:
       return Math.round(currentInterval * easeFactor);
@@ -139,12 +164,16 @@ function calculateNewInterval(
  */
 export function calculateNextReviewData(
   currentData: CardReviewData,
-  difficulty: Difficulty
+  difficulty: Difficulty,
+  parameters: Sm2Parameters = defaultSm2Parameters,
+  options: SchedulingOptions = defaultSchedulingOptions
 ): ReviewResult {
   // Calculate new ease factor
   const newEaseFactor = calculateNewEaseFactor(
     currentData.easeFactor,
-    difficulty
+    difficulty,
+    parameters.easeDeltas,
+    options
   );
 
   // Calculate new interval (days)
@@ -152,7 +181,9 @@ export function calculateNextReviewData(
     currentData.interval,
     newEaseFactor,
     difficulty,
-    currentData.reviewCount
+    currentData.reviewCount,
+    parameters.initialIntervals,
+    options.easyBonus
   );
 
   // Calculate next review date (in UTC ISO format)
@@ -184,21 +215,6 @@ export function initializeCardReviewData(): CardReviewData {
   };
 }
 
-/**
- * Estimates retention rate based on ease factor (for display purposes)
- * Higher ease factor = higher retention
- */
-export function estimateRetentionRate(easeFactor: number): number {
-  const { minEaseFactor, maxEaseFactor } = appConfig.spacedRepetition;
-
-  // Normalize ease factor to 0-1 range
-  const normalized =
-    (easeFactor - minEaseFactor) / (maxEaseFactor - minEaseFactor);
-
-  // Convert to percentage (50% to 100% retention)
-  return Math.round(50 + normalized * 50);
-}
-
 /**
  * Calculates average ease factor across multiple cards
  */
@@ -213,10 +229,7 @@ export function calculateAverageEaseFactor(cards: CardReviewData[]): number {
  * Determines if a card should be shown in study session based on next review date
  */
 export function shouldShowCard(nextReview: string): boolean {
-  const nextReviewDate = new Date(nextReview);
-  const now = new Date();
-
-  return nextReviewDate <= now;
+  return isCardDue(nextReview);
 }
 
 /**
@@ -240,14 +253,16 @@ export interface DeckStatistics {
   dueCards: number;
   newCards: number;
   averageEaseFactor: number;
-  estimatedRetention: number;
+  trueRetention: RetentionWindow[]; // Measured from logged reviews
+  predictedRetention: number | null; // Average chance of recall right now (%)
 }
 
 export function calculateDeckStatistics(
-  cards: CardReviewData[]
+  cards: CardReviewData[],
+  reviewLogs: ReviewLog[] = [],
+  now: Date = new Date()
 ): DeckStatistics {
   const totalCards = cards.length;
-  const now = new Date();
 
   const dueCards = cards.filter(
     (card) => new Date(card.nextReview) <= now
@@ -257,13 +272,12 @@ export function calculateDeckStatistics(
 
   const averageEaseFactor = calculateAverageEaseFactor(cards);
 
-  const estimatedRetention = estimateRetentionRate(averageEaseFactor);
-
   return {
     totalCards,
     dueCards,
     newCards,
     averageEaseFactor,
-    estimatedRetention,
+    trueRetention: calculateRetentionWindows(reviewLogs, undefined, now),
+    predictedRetention: calculatePredictedRetention(cards, now),
   };
 }
@@ -33,22 +33,53 @@ export interface Deck {
   title: string;
   description?: string;
   card_count: number;
+  preset_id: string | null; // Deck options preset (null = built-in defaults)
   created_at: string;
   updated_at: string;
 }
 
 export interface DeckWithStats extends Deck {
   cards_due: number;
-  retention_rate: number;
+  retention_rate: number | null; // True retention over the last 30 days (%)
   last_studied?: string;
 }
 
+// ============================================
+// Deck Preset Types
+// ============================================
+
+export interface DeckPresetOptions {
+  learning_steps: number[]; // minutes, for new cards
+  relearning_steps: number[]; // minutes, for lapsed cards
+  new_cards_per_day: number; // Daily limit on cards studied for the first time
+  max_reviews_per_day: number; // Daily limit on review cards
+  min_ease_factor: number;
+  max_ease_factor: number;
+  easy_bonus: number; // SM-2 interval multiplier for "easy"
+  request_retention: number; // FSRS target retention (0-1)
+}
+
+export interface DeckPreset extends DeckPresetOptions {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at?: string;
+}
+
 // ============================================
 // Card Types
 // ============================================
 
 export type DifficultyLevel = "easy" | "medium" | "hard";
 
+// Reverse cards show the answer first and ask for the question
+export type CardDirection = "forward" | "reverse";
+
+// Cloze cards hold marked-up text ({{c1::...}}) in the question field and
+// optional extra info in the answer field
+export type CardKind = "basic" | "cloze";
+
 export interface Card {
   id: string;
   deck_id: string;
@@ -59,6 +90,20 @@ export interface Card {
   next_review?: string;
   ease_factor: number;
   review_count: number;
+  interval: number; // Days since the previous scheduled interval
+  stability?: number; // FSRS memory stability (days)
+  fsrs_difficulty?: number; // FSRS memory difficulty (1-10)
+  learning_state?: LearningState;
+  learning_step?: number | null; // Index into learning/relearning steps
+  lapses: number; // Times the card was forgotten after graduating
+  tags?: string[];
+  suspended?: boolean; // Excluded from study until unsuspended
+  buried_until?: string | null; // Hidden from study until this time
+  note_id?: string | null; // Shared by sibling cards of the same fact
+  direction?: CardDirection; // Older cards have none stored (forward)
+  card_type?: CardKind; // Older cards have none stored (basic)
+  cloze_index?: number | null; // Deletion studied by a cloze card
+  distractors?: string[] | null; // Cached wrong answers for quiz mode
   created_at: string;
   updated_at?: string;
 }
@@ -66,9 +111,17 @@ export interface Card {
 export interface GeneratedCard {
   question: string;
   answer: string;
+  reversible?: boolean; // Also create a reverse card when saved
+  card_type?: CardKind; // Cloze cards become one card per deletion
   tempId?: string; // Temporary ID before saving to database
 }
 
+// AI check of a typed answer worded differently from the stored one
+export interface AIAnswerGrade {
+  correct: boolean;
+  feedback: string; // One-sentence explanation
+}
+
 // ============================================
 // Study Session Types
 // ============================================
@@ -76,28 +129,176 @@ export interface GeneratedCard {
 export interface StudySession {
   id: string;
   user_id: string;
-  deck_id: string;
+  deck_id: string | null; // null for exams and crams spanning several decks
+  session_type?: StudySessionType; // Older sessions have none stored (review)
   cards_reviewed: number;
   correct_count: number;
   duration_seconds: number;
+  exam_report?: ExamReport | null; // Set once an exam is finished
   created_at: string;
 }
 
-export interface ActiveStudySession {
+// Cram sessions drill cards without touching their schedule; exams are
+// timed tests that don't touch it either
+export type StudySessionType = "review" | "cram" | "exam";
+
+// Which cards a cram session drills
+export type CramFilter =
+  | { type: "all" }
+  | { type: "failed_today" } // Answered "again" today
+  | { type: "tag"; tag: string }
+  | { type: "lowest_ease"; count: number }
+  | { type: "cards"; cardIds: string[] }; // e.g. questions missed in an exam
+
+// When a review session ends; without one it runs until no due card is left
+export type SessionGoal =
+  | { type: "cards"; count: number } // Study this many cards
+  | { type: "time"; minutes: number } // Study for this long
+  | { type: "correct"; count: number } // Review until this many are correct
+  | { type: "clear_due" }; // Study every due card
+
+// Why a session ended before (or when) its cards ran out
+export type SessionEndReason = "goal" | "time_limit" | "finished";
+
+// Settings chosen before an exam starts
+export interface ExamConfig {
+  deckIds: string[];
+  questionCount: number;
+  timeLimitMinutes: number;
+}
+
+export interface ExamAnswer {
+  card_id: string;
   deck_id: string;
+  correct: boolean;
+  time_seconds: number;
+}
+
+export interface ExamScore {
+  correct: number;
+  total: number;
+  percent: number; // 0-100
+}
+
+export interface ExamReport {
+  score: ExamScore; // Questions not reached count as missed
+  by_deck: Record<string, ExamScore>; // By deck ID
+  by_tag: Record<string, ExamScore>;
+  answers: ExamAnswer[]; // In the order asked
+  missed_card_ids: string[]; // Answered wrong or not reached
+  time_limit_seconds: number;
+  duration_seconds: number;
+  timed_out: boolean;
+}
+
+// Exam state kept while it runs
+export interface ExamProgress {
+  time_limit_seconds: number;
+  answers: ExamAnswer[];
+  report: ExamReport | null; // Set when the exam is finished
+}
+
+// Progress saved to a deck's session row (one row per deck studied)
+export interface DeckSessionProgress {
+  session_id: string;
+  cards_reviewed: number;
+  correct_count: number;
+  duration_seconds: number;
+}
+
+export interface LearningQueueItem {
+  card: Card;
+  due_at: number; // Timestamp (ms) when the learning step comes due
+}
+
+export interface ActiveStudySession {
+  deck_id: string | null; // null when studying several decks together
+  deck_sessions: Record<string, DeckSessionProgress>; // By deck ID
+  session_type: StudySessionType;
+  exam?: ExamProgress; // Only set for exams
+  goal?: SessionGoal;
   current_card_index: number;
   cards: Card[];
+  learning_queue: LearningQueueItem[]; // Cards waiting on an intra-day step
   session_start_time: number;
   cards_reviewed: number;
   correct_count: number;
 }
 
+// Active session saved to storage so it survives the app being closed
+export interface SavedStudySession {
+  session_id: string;
+  deck_id: string | null;
+  deck_sessions: Record<string, DeckSessionProgress>;
+  session_type: StudySessionType;
+  goal?: SessionGoal;
+  card_ids: string[]; // Study queue in order (cram queues repeat cards)
+  current_card_index: number;
+  reviewed_card_ids: string[];
+  learning_queue: { card_id: string; due_at: number }[];
+  cards_reviewed: number;
+  correct_count: number;
+  elapsed_seconds: number;
+  saved_at: string; // ISO date
+}
+
 // ============================================
 // Spaced Repetition Types
 // ============================================
 
 export type ReviewDifficulty = "again" | "hard" | "medium" | "easy";
 
+export type SchedulerType = "sm2" | "fsrs";
+
+export type LeechAction = "tag" | "suspend";
+
+export interface Sm2Parameters {
+  easeDeltas: { hard: number; medium: number; easy: number };
+  initialIntervals: {
+    again: number;
+    hard: number;
+    medium: number;
+    easy: number;
+  }; // days
+}
+
+export interface FsrsParameters {
+  weights: number[];
+}
+
+// Per-user scheduler parameters (fitted to their review history)
+export interface SchedulerParameters {
+  sm2?: Sm2Parameters;
+  fsrs?: FsrsParameters;
+  optimized_at?: string;
+}
+
+// Per-deck scheduling bounds (from the deck's options preset)
+export interface SchedulingOptions {
+  minEaseFactor: number;
+  maxEaseFactor: number;
+  easyBonus: number;
+  requestRetention: number; // FSRS target retention (0-1)
+}
+
+export type LearningState = "new" | "learning" | "review" | "relearning";
+
+export interface ReviewLog {
+  id: string;
+  user_id: string;
+  card_id: string;
+  deck_id: string;
+  session_id?: string;
+  rating: ReviewDifficulty;
+  review_type: LearningState; // Card state before the review
+  previous_interval: number; // days
+  new_interval: number; // days
+  ease_factor: number;
+  time_spent: number; // seconds
+  response_time_ms?: number | null; // Until the answer was revealed
+  reviewed_at: string;
+}
+
 export interface ReviewResult {
   card_id: string;
   difficulty: ReviewDifficulty;
@@ -251,14 +452,25 @@ export type AppTabParamList = {
 export type CaptureStackParamList = {
   Camera: undefined;
   OCRPreview: { imageUri: string };
-  CardGeneration: { ocrText: string; deckId?: string };
+  CardGeneration: { ocrText: string; deckId?: string; cardType?: CardKind };
   CardReview: { cards: GeneratedCard[]; deckId: string };
 };
 
 export type LibraryStackParamList = {
   DecksList: undefined;
   DeckDetail: { deckId: string };
-  StudyMode: { deckId: string };
+  // Without a deckId, due cards from deckIds (or every deck) are studied together
+  StudyMode: {
+    deckId?: string;
+    deckIds?: string[];
+    cram?: CramFilter;
+    quiz?: boolean;
+    exam?: ExamConfig;
+    goal?: SessionGoal;
+    resume?: boolean; // Continue the session saved before the app closed
+  };
+  Statistics: undefined;
+  DeckOptions: { deckId: string };
 };
 
 export type SettingsStackParamList = {
@@ -277,6 +489,19 @@ export interface UserSettings {
   daily_goal: number; // cards per day
   study_reminder_time?: string; // HH:mm format
   theme: "dark" | "light"; // Future: support light mode
+  scheduler: SchedulerType; // Spaced repetition algorithm
+  leech_threshold: number; // Lapses before a card is flagged as a leech
+  leech_action: LeechAction;
+  day_rollover_hour: number; // Local hour (0-23) a new study day starts
+  type_answers: boolean; // Type the answer before it is revealed
+  time_suggestions: boolean; // Suggest a rating from how fast the answer came
+  scheduler_parameters?: SchedulerParameters; // Defaults from appConfig when unset
+  vacation?: VacationPeriod | null; // Planned break with no cards coming due
+}
+
+export interface VacationPeriod {
+  start: string; // Start of the first day off (ISO)
+  end: string; // Start of the last day off (ISO)
 }
 
 // ============================================
@@ -288,7 +513,9 @@ export interface DeckStatistics {
   due_cards: number;
   new_cards: number;
   average_ease_factor: number;
-  estimated_retention: number;
+  true_retention: number | null; // Pass rate of logged reviews (%)
+  mature_retention: number | null; // Same, for mature cards only
+  predicted_retention: number | null; // Average chance of recall right now (%)
 }
 
 export interface UserStatistics {
@@ -0,0 +1,148 @@
+import { Card, VacationPeriod } from "./types";
+import { CardChangeSet } from "./reschedule";
+import {
+  getDaysBetween,
+  getStartOfDate,
+  getStartOfDay,
+  getStartOfDayOffset,
+  parseDate,
+} from "./dateUtils";
+
+/**
+ * Vacation Mode
+ * Pauses the schedule for a date range: anything that would come due during
+ * the break moves forward by the length of the break, so the spacing between
+ * cards is kept and nothing piles up on the day after
+ */
+
+// Longest break that can be scheduled
+export const MAX_VACATION_DAYS = 90;
+
+/**
+ * Days covered by the vacation (start and end days included)
+ */
+export function getVacationLength(vacation: VacationPeriod): number {
+  return getDaysBetween(vacation.start, vacation.end) + 1;
+}
+
+/**
+ * First moment after the vacation (start of the day after the end date)
+ */
+function getVacationEnd(vacation: VacationPeriod): Date {
+  return new Date(getStartOfDayOffset(1, new Date(vacation.end)));
+}
+
+/**
+ * Whether a date falls on a vacation day
+ */
+export function isDuringVacation(
+  date: string | Date,
+  vacation: VacationPeriod
+): boolean {
+  const time = new Date(date).getTime();
+  return (
+    time >= new Date(getStartOfDay(vacation.start)).getTime() &&
+    time < getVacationEnd(vacation).getTime()
+  );
+}
+
+/**
+ * Whether the vacation is in progress or still to come
+ */
+export function isVacationPending(
+  vacation: VacationPeriod | null | undefined,
+  now: Date = new Date()
+): vacation is VacationPeriod {
+  return !!vacation && now.getTime() < getVacationEnd(vacation).getTime();
+}
+
+/**
+ * Moves a due date that lands on a vacation day past the break
+ */
+export function shiftPastVacation(
+  nextReview: string,
+  vacation: VacationPeriod
+): string {
+  if (!isDuringVacation(nextReview, vacation)) return nextReview;
+
+  // Whole study days, so a clock change during the break can't pull the
+  // card back onto its last day
+  const due = new Date(nextReview);
+  const dayStart = new Date(getStartOfDay(due)).getTime();
+  const shiftedDayStart = new Date(
+    getStartOfDayOffset(getVacationLength(vacation), due)
+  ).getTime();
+
+  return new Date(shiftedDayStart + (due.getTime() - dayStart)).toISOString();
+}
+
+/**
+ * Changes that move every card due during the vacation past it
+ */
+export function getVacationChanges(
+  cards: Card[],
+  vacation: VacationPeriod
+): CardChangeSet[] {
+  return cards
+    .filter(
+      (card) =>
+        !!card.next_review && isDuringVacation(card.next_review, vacation)
+    )
+    .map((card) => ({
+      id: card.id,
+      data: {
+        next_review: shiftPastVacation(card.next_review as string, vacation),
+      },
+    }));
+}
+
+/**
+ * Builds a vacation from first and last days typed as YYYY-MM-DD
+ * Returns null if either day isn't a valid date
+ */
+export function parseVacation(
+  startText: string,
+  endText: string
+): VacationPeriod | null {
+  const toDay = (text: string): string | null => {
+    const value = text.trim();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+    const date = parseDate(value);
+    return isNaN(date.getTime()) ? null : getStartOfDate(value);
+  };
+
+  const start = toDay(startText);
+  const end = toDay(endText);
+
+  return start && end ? { start, end } : null;
+}
+
+/**
+ * Validates a vacation, returning the first problem found
+ */
+export function validateVacation(
+  vacation: VacationPeriod,
+  now: Date = new Date()
+): string | null {
+  if (
+    isNaN(new Date(vacation.start).getTime()) ||
+    isNaN(new Date(vacation.end).getTime())
+  ) {
+    return "Enter the first and last day of the break";
+  }
+
+  if (getDaysBetween(vacation.start, vacation.end) < 0) {
+    return "The last day must be on or after the first day";
+  }
+
+  if (vacation.start < getStartOfDay(now)) {
+    return "The break can't start in the past";
+  }
+
+  if (getVacationLength(vacation) > MAX_VACATION_DAYS) {
+    return `A break can be at most ${MAX_VACATION_DAYS} days`;
+  }
+
+  return null;
+}
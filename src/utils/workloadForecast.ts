@@ -0,0 +1,110 @@
+import { Card } from "./types";
+import { Scheduler } from "./scheduler";
+import { CardReviewData } from "./spacedRepAlgorithm";
+import { getCardLearningState } from "./learningSteps";
+import {
+  getDaysBetween,
+  getStartOfDay,
+  getStartOfDayOffset,
+} from "./dateUtils";
+
+/**
+ * Workload Forecast
+ * Projects how many reviews fall due on each of the coming days
+ *
+ * Each card counts on its next_review day, then is assumed to be answered
+ * on time with "medium" so its expected follow-up reviews inside the window
+ * are counted as well. Overdue cards land on today.
+ */
+
+export interface WorkloadForecast {
+  overall: number[]; // Reviews due per day offset from today
+  byDeck: Record<string, number[]>;
+}
+
+// Rating assumed for every projected review
+const PROJECTED_RATING = "medium";
+
+/**
+ * Whether a card has a review schedule to project
+ * New and suspended cards never come due on their own
+ */
+function isScheduled(card: Card): boolean {
+  if (card.suspended || !card.next_review) return false;
+  return getCardLearningState(card) !== "new";
+}
+
+/**
+ * Day offsets (from today) of a card's reviews inside the window
+ */
+export function projectCardReviews(
+  card: Card,
+  days: number,
+  scheduler: Scheduler,
+  today: Date = new Date()
+): number[] {
+  if (!isScheduled(card)) return [];
+
+  const reviewDays: number[] = [];
+  let day = Math.max(
+    0,
+    getDaysBetween(getStartOfDay(today), card.next_review as string)
+  );
+  let data: CardReviewData = {
+    easeFactor: card.ease_factor,
+    interval: card.interval,
+    reviewCount: card.review_count,
+    lastReviewed: card.last_reviewed || today.toISOString(),
+    nextReview: card.next_review as string,
+    stability: card.stability,
+    fsrsDifficulty: card.fsrs_difficulty,
+    learningState: card.learning_state,
+  };
+
+  while (day < days) {
+    reviewDays.push(day);
+
+    // Reviewed on time: the full current interval has elapsed
+    const result = scheduler.calculateNextReviewData(
+      {
+        ...data,
+        lastReviewed: getStartOfDayOffset(-Math.max(1, data.interval)),
+      },
+      PROJECTED_RATING
+    );
+    const interval = Math.max(1, Math.round(result.interval));
+
+    data = { ...data, ...result, interval };
+    day += interval;
+  }
+
+  return reviewDays;
+}
+
+/**
+ * Reviews due per day for the next `days` days, overall and per deck
+ */
+export function projectWorkload(
+  cards: Card[],
+  days: number,
+  scheduler: Scheduler,
+  today: Date = new Date()
+): WorkloadForecast {
+  const forecast: WorkloadForecast = {
+    overall: new Array(days).fill(0),
+    byDeck: {},
+  };
+
+  cards.forEach((card) => {
+    if (!forecast.byDeck[card.deck_id]) {
+      forecast.byDeck[card.deck_id] = new Array(days).fill(0);
+    }
+
+    projectCardReviews(card, days, scheduler, today).forEach((day) => {
+      forecast.overall[day]++;
+      forecast.byDeck[card.deck_id][day]++;
+    });
+  });
+
+  return forecast;
+}
@@ -0,0 +1,30 @@
+import { Card } from "../src/utils/types";
+
+/**
+ * A graduated card for tests; pass overrides for the fields a test needs
+ */
+export const makeCard = (id: string, overrides: Partial<Card> = {}): Card => ({
+  id,
+  deck_id: "deck-1",
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  difficulty: "medium",
+  ease_factor: 2.5,
+  review_count: 3,
+  interval: 10,
+  lapses: 0,
+  learning_state: "review",
+  created_at: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/**
+ * A card that has never been studied
+ */
+export const makeNewCard = (id: string, overrides: Partial<Card> = {}): Card =>
+  makeCard(id, {
+    review_count: 0,
+    interval: 0,
+    learning_state: "new",
+    ...overrides,
+  });